@@ -1,29 +1,100 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Trade } from '@/types/trade';
-import { TradeAnalytics, TradeAnalyticsData } from '@/lib/analytics/trade-analytics';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PnLBasis, Trade, TradeDateField } from '@/types/trade';
+import { EquityCurvePoint, TradeAnalytics, TradeAnalyticsData } from '@/lib/analytics/trade-analytics';
 import { useTradeData } from '@/lib/hooks/use-trade-data';
-import { BarChart3, TrendingUp, TrendingDown, Target, DollarSign, Activity, Trophy, AlertTriangle } from 'lucide-react';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+import { useFxConverter } from '@/lib/hooks/use-fx-converter';
+import { useStrategies } from '@/lib/hooks/use-strategies';
+import { useOHLCBars } from '@/lib/hooks/use-ohlc-bars';
+import { useAccounts } from '@/components/account/account-provider';
+import { TradeFilters } from '@/components/trade/trade-filters';
+import { TradeEditModal } from '@/components/trade/trade-edit-modal';
+import { EquityCurveChart } from '@/components/analytics/equity-curve-chart';
+import { PnLCalendarHeatmap } from '@/components/analytics/pnl-calendar-heatmap';
+import { ExcursionScatterChart } from '@/components/analytics/excursion-scatter-chart';
+import { BenchmarkChart } from '@/components/analytics/benchmark-chart';
+import { TradeFilters as ITradeFilters } from '@/types/app';
+import { applyTradeFilters, countActiveFilters, loadActiveFilters, saveActiveFilters } from '@/lib/trade-filters/apply-filters';
+import { formatCurrency, getTradePnL } from '@/lib/utils';
+import { BarChart3, TrendingUp, TrendingDown, Target, DollarSign, Activity, Trophy, AlertTriangle, Filter, Percent, Gauge, CalendarDays, ShieldAlert, MoveVertical } from 'lucide-react';
 import { LoadingSpinner } from '@/components/loading/loading-spinner';
 import PageErrorBoundary from '@/components/page-error-boundary';
 
 export default function AnalyticsPage() {
-  const { trades, loading, error } = useTradeData();
+  const { trades: allTrades, loading, error, updateTrade } = useTradeData();
+  const { accounts, activeAccount, filterTrades } = useAccounts();
+  const { strategies } = useStrategies();
+  const [filters, setFilters] = useState<ITradeFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [selectedTrade, setSelectedTrade] = useState<Trade | null>(null);
+  const [calendarDateField, setCalendarDateField] = useState<TradeDateField>('sellDate');
+  const router = useRouter();
+  const accountTrades = useMemo(() => filterTrades(allTrades), [allTrades, filterTrades]);
+  const trades = useMemo(() => applyTradeFilters(accountTrades, filters), [accountTrades, filters]);
+  const { config } = useAppConfig();
+  const { fx, loading: fxLoading } = useFxConverter();
   const [analytics, setAnalytics] = useState<TradeAnalyticsData | null>(null);
+  const [basis, setBasis] = useState<PnLBasis>('net');
+  const benchmarkTicker = config?.benchmarkTicker?.toUpperCase();
+  const barTickers = useMemo(
+    () => [...trades.filter(trade => trade.sellDate).map(trade => trade.ticker), ...(benchmarkTicker ? [benchmarkTicker] : [])],
+    [trades, benchmarkTicker]
+  );
+  const { barsByTicker, loading: barsLoading } = useOHLCBars(barTickers);
+
+  // Start from the configured default; the toggle only affects this page
+  useEffect(() => {
+    if (config?.pnlDisplay) {
+      setBasis(config.pnlDisplay);
+    }
+  }, [config?.pnlDisplay]);
+
+  // Same filters as the trades page for this session
+  useEffect(() => {
+    setFilters(loadActiveFilters());
+  }, []);
+
+  const handleFilterChange = (newFilters: ITradeFilters) => {
+    setFilters(newFilters);
+    saveActiveFilters(newFilters);
+  };
+
+  const handleSelectTrade = (tradeId: string) => {
+    setSelectedTrade(allTrades.find(trade => trade.id === tradeId) || null);
+  };
+
+  // Show the trades attributed to a calendar day on the trades page
+  const handleSelectDay = (date: string) => {
+    saveActiveFilters({ ...filters, dateRange: { start: date, end: date, field: calendarDateField } });
+    router.push('/trades');
+  };
+
+  const handleSaveTrade = async (updatedTrade: Trade) => {
+    const { id, ...updates } = updatedTrade;
+    if (await updateTrade(id, updates)) {
+      setSelectedTrade(null);
+    } else {
+      alert('Failed to update trade. Please try again.');
+    }
+  };
 
   useEffect(() => {
-    if (!loading && trades.length > 0) {
-      const analyticsData = TradeAnalytics.calculate(trades);
+    if (!loading && !fxLoading && trades.length > 0) {
+      const analyticsData = TradeAnalytics.calculate(trades, basis, fx);
       setAnalytics(analyticsData);
     }
-  }, [trades, loading]);
+  }, [trades, loading, basis, fx, fxLoading]);
 
-  if (loading) {
+  if (loading || fxLoading) {
     return <LoadingSpinner size="lg" className="min-h-screen" />;
   }
 
@@ -38,23 +109,117 @@ export default function AnalyticsPage() {
   }
 
   const hasData = trades.length > 0 && analytics;
-  const topPerformers = hasData ? TradeAnalytics.getTopPerformers(trades, 5) : [];
-  const worstPerformers = hasData ? TradeAnalytics.getWorstPerformers(trades, 5) : [];
+  const topPerformers = hasData ? TradeAnalytics.getTopPerformers(trades, 5, basis, fx) : [];
+  const worstPerformers = hasData ? TradeAnalytics.getWorstPerformers(trades, 5, basis, fx) : [];
+  const basisTrades = hasData ? TradeAnalytics.withBasisPnL(trades, basis, fx) : [];
+  const accountStats = hasData
+    ? TradeAnalytics.calculateAccountStats(trades, activeAccount ? [activeAccount] : accounts, basis, fx)
+    : [];
+  const strategyStats = hasData ? TradeAnalytics.calculateStrategyStats(trades, strategies, basis, fx) : [];
+  const equityCurve = hasData ? TradeAnalytics.calculateEquityCurve(trades, basis, fx) : [];
+  const maxDrawdownPoint = equityCurve.reduce<EquityCurvePoint | null>(
+    (worst, point) => !worst || point.drawdown < worst.drawdown ? point : worst,
+    null
+  );
+  // An account's own capital when one is selected, otherwise the configured amount or the accounts combined
+  const startingCapital = activeAccount
+    ? fx.toBase(activeAccount.startingCapital, activeAccount.currency) ?? 0
+    : config?.startingCapital || accounts.reduce(
+        (sum, account) => sum + (fx.toBase(account.startingCapital, account.currency) ?? 0),
+        0
+      );
+  const metrics = hasData
+    ? TradeAnalytics.calculatePerformanceMetrics(trades, basis, fx, {
+        startingCapital,
+        riskFreeRate: config?.riskFreeRate
+      })
+    : null;
+  const hasCapital = startingCapital > 0;
+  const benchmark = hasData && benchmarkTicker && !barsLoading
+    ? TradeAnalytics.calculateBenchmarkComparison(trades, benchmarkTicker, barsByTicker[benchmarkTicker] || [], basis, fx, {
+        startingCapital,
+        riskFreeRate: config?.riskFreeRate
+      })
+    : null;
+  const dailyPnL = hasData ? TradeAnalytics.calculateDailyPnL(trades, basis, fx, calendarDateField) : [];
+  const rStats = hasData ? TradeAnalytics.calculateRMultipleStats(trades, basis) : null;
+  const maxBucketCount = rStats ? Math.max(1, ...rStats.distribution.map(bucket => bucket.count)) : 1;
+  const excursionStats = hasData && !barsLoading ? TradeAnalytics.calculateExcursions(trades, barsByTicker, basis, fx) : null;
+  const formatR = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}R`;
+  const activeFilterCount = countActiveFilters(filters);
+  const formatBase = (amount: number) => TradeAnalytics.formatCurrency(amount, fx.baseCurrency);
+
+  // Performer rows rank in base currency but also show the trade's own amounts
+  const renderNativeAmounts = (trade: Trade) => {
+    const original = trades.find(t => t.id === trade.id) || trade;
+    const currency = fx.getTradeCurrency(original);
+    return (
+      <div className="text-sm text-gray-500">
+        {currency !== fx.baseCurrency && `${formatCurrency(getTradePnL(original, basis) || 0, currency)} • `}
+        {trade.quantity} shares @ {formatCurrency(original.buyPrice, currency)}
+      </div>
+    );
+  };
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
-        <p className="text-gray-600 mt-2">
-          Analyze your trading performance and patterns
-        </p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="text-gray-600 mt-2">
+            {activeAccount
+              ? `Analyze performance for ${activeAccount.name}`
+              : 'Analyze your trading performance and patterns'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant={showFilters || activeFilterCount > 0 ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowFilters(!showFilters)}
+          >
+            <Filter className="w-4 h-4 mr-2" />
+            Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </Button>
+          <Button
+            variant={basis === 'net' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setBasis('net')}
+          >
+            Net
+          </Button>
+          <Button
+            variant={basis === 'gross' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setBasis('gross')}
+          >
+            Gross
+          </Button>
+        </div>
       </div>
 
+      {showFilters && (
+        <TradeFilters
+          filters={filters}
+          onFiltersChange={handleFilterChange}
+          availableTickers={[...new Set(accountTrades.map(t => t.ticker))]}
+          availableAccounts={activeAccount ? [] : accounts}
+          availableStrategies={strategies}
+        />
+      )}
+
+      {hasData && analytics.missingRateCurrencies.length > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded-md px-4 py-3 text-sm text-orange-800">
+          No FX rate to {analytics.baseCurrency} for {analytics.missingRateCurrencies.join(', ')}.
+          Those trades are left out of the totals until a rate is added to fx-rates.csv in your data directory.
+        </div>
+      )}
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total P&L</CardTitle>
+            <CardTitle className="text-sm font-medium">{basis === 'gross' ? 'Gross P&L' : 'Net P&L'}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -63,7 +228,7 @@ export default function AnalyticsPage() {
               hasData && analytics.totalPnL < 0 ? 'text-red-600' : 
               'text-gray-900'
             }`}>
-              {hasData ? TradeAnalytics.formatCurrency(analytics.totalPnL) : '$0.00'}
+              {hasData ? formatBase(analytics.totalPnL) : formatBase(0)}
             </div>
             <p className="text-xs text-muted-foreground">
               {hasData ? `${analytics.totalTrades} trades` : 'Import trades to see analytics'}
@@ -98,10 +263,10 @@ export default function AnalyticsPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              {hasData ? TradeAnalytics.formatCurrency(analytics.avgWin) : '$0.00'}
+              {hasData ? formatBase(analytics.avgWin) : formatBase(0)}
             </div>
             <p className="text-xs text-muted-foreground">
-              {hasData ? `Best: ${TradeAnalytics.formatCurrency(analytics.largestWin)}` : 'Average winning trade'}
+              {hasData ? `Best: ${formatBase(analytics.largestWin)}` : 'Average winning trade'}
             </p>
           </CardContent>
         </Card>
@@ -113,10 +278,10 @@ export default function AnalyticsPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">
-              {hasData ? TradeAnalytics.formatCurrency(analytics.avgLoss) : '$0.00'}
+              {hasData ? formatBase(analytics.avgLoss) : formatBase(0)}
             </div>
             <p className="text-xs text-muted-foreground">
-              {hasData ? `Worst: ${TradeAnalytics.formatCurrency(analytics.largestLoss)}` : 'Average losing trade'}
+              {hasData ? `Worst: ${formatBase(analytics.largestLoss)}` : 'Average losing trade'}
             </p>
           </CardContent>
         </Card>
@@ -127,19 +292,15 @@ export default function AnalyticsPage() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Net P&L</CardTitle>
+              <CardTitle className="text-sm font-medium">Costs</CardTitle>
               <Activity className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className={`text-2xl font-bold ${
-                analytics.netPnL > 0 ? 'text-green-600' : 
-                analytics.netPnL < 0 ? 'text-red-600' : 
-                'text-gray-900'
-              }`}>
-                {TradeAnalytics.formatCurrency(analytics.netPnL)}
+              <div className="text-2xl font-bold text-gray-900">
+                {formatBase(analytics.totalFees + analytics.totalTax)}
               </div>
               <p className="text-xs text-muted-foreground">
-                Net P&L (same as Total P&L)
+                Fees {formatBase(analytics.totalFees)} • Tax {formatBase(analytics.totalTax)}
               </p>
             </CardContent>
           </Card>
@@ -191,13 +352,215 @@ export default function AnalyticsPage() {
         </div>
       )}
 
+      {/* Risk & Return */}
+      {hasData && metrics && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Return</CardTitle>
+              <Percent className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${
+                metrics.totalGainPercent > 0 ? 'text-green-600' :
+                metrics.totalGainPercent < 0 ? 'text-red-600' :
+                'text-gray-900'
+              }`}>
+                {hasCapital ? TradeAnalytics.formatPercent(metrics.totalGainPercent) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {hasCapital
+                  ? `${TradeAnalytics.formatPercent(metrics.annualizedReturnPercent)} annualized on ${formatBase(startingCapital)}`
+                  : 'Set a starting capital in Settings'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Sharpe Ratio</CardTitle>
+              <Gauge className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {hasCapital ? metrics.sharpeRatio.toFixed(2) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {hasCapital
+                  ? `Sortino ${metrics.sortino.toFixed(2)} • ${metrics.tradingDays} trading days`
+                  : 'Needs a starting capital'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Calmar Ratio</CardTitle>
+              <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {hasCapital ? metrics.calmarRatio.toFixed(2) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Max drawdown {formatBase(-metrics.maxDrawdown)}
+                {hasCapital && ` (${TradeAnalytics.formatPercent(-metrics.maxDrawdownPercent)})`}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Latest Day</CardTitle>
+              <CalendarDays className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${
+                metrics.dayChange > 0 ? 'text-green-600' :
+                metrics.dayChange < 0 ? 'text-red-600' :
+                'text-gray-900'
+              }`}>
+                {formatBase(metrics.dayChange)}
+                {hasCapital && (
+                  <span className="text-sm font-medium ml-2">
+                    {TradeAnalytics.formatPercent(metrics.dayChangePercent)}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Best day {formatBase(metrics.bestDay)} • Worst day {formatBase(metrics.worstDay)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Equity Curve */}
+      {equityCurve.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Equity Curve</CardTitle>
+            <CardDescription>
+              Cumulative {basis} P&L by sell date with drawdown below.
+              {maxDrawdownPoint && maxDrawdownPoint.drawdown < 0 &&
+                ` Max drawdown ${formatBase(maxDrawdownPoint.drawdown)} on ${maxDrawdownPoint.date}.`}
+              {' '}Click a point to open the trade.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <EquityCurveChart
+              points={equityCurve}
+              currency={fx.baseCurrency}
+              onSelectTrade={handleSelectTrade}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Benchmark comparison */}
+      {hasData && benchmarkTicker && !barsLoading && (
+        <Card>
+          <CardHeader>
+            <CardTitle>vs {benchmarkTicker}</CardTitle>
+            <CardDescription>
+              Cumulative {basis} return on starting capital against the benchmark over the same period
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!benchmark ? (
+              <p className="text-sm text-gray-600">
+                {hasCapital
+                  ? `Import daily bars for ${benchmarkTicker} covering these trades (Settings → Price History) to compare.`
+                  : 'Set a starting capital in Settings to compare returns with the benchmark.'}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <div className="text-sm text-gray-500">Relative</div>
+                    <div className={`text-xl font-bold ${benchmark.relativePerformancePercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {benchmark.relativePerformancePercent >= 0 ? '+' : ''}{benchmark.relativePerformancePercent.toFixed(2)} pts
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {TradeAnalytics.formatPercent(benchmark.portfolioReturnPercent)} vs {TradeAnalytics.formatPercent(benchmark.benchmarkReturnPercent)}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-500">Alpha</div>
+                    <div className={`text-xl font-bold ${benchmark.alphaPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {TradeAnalytics.formatPercent(benchmark.alphaPercent)}
+                    </div>
+                    <div className="text-xs text-gray-500">annualized</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-500">Beta</div>
+                    <div className="text-xl font-bold">{benchmark.beta.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-500">Correlation</div>
+                    <div className="text-xl font-bold">{benchmark.correlation.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-500">Period</div>
+                    <div className="text-sm font-medium">{benchmark.startDate} to {benchmark.endDate}</div>
+                    <div className="text-xs text-gray-500">{benchmark.tradingDays} trading days</div>
+                  </div>
+                </div>
+                <BenchmarkChart points={benchmark.points} benchmarkLabel={benchmarkTicker} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* P&L Calendar */}
+      {dailyPnL.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>P&L Calendar</CardTitle>
+              <CardDescription>
+                Realized {basis} P&L per day by {calendarDateField === 'sellDate' ? 'sell' : 'buy'} date. Click a day to see its trades.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={calendarDateField === 'sellDate' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setCalendarDateField('sellDate')}
+              >
+                Sell Date
+              </Button>
+              <Button
+                variant={calendarDateField === 'buyDate' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setCalendarDateField('buyDate')}
+              >
+                Buy Date
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <PnLCalendarHeatmap
+              daily={dailyPnL}
+              currency={fx.baseCurrency}
+              onSelectDay={handleSelectDay}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Detailed Analysis */}
       <Tabs defaultValue="overview" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="top-performers">Top Performers</TabsTrigger>
           <TabsTrigger value="worst-performers">Worst Performers</TabsTrigger>
           <TabsTrigger value="by-ticker">By Ticker</TabsTrigger>
+          <TabsTrigger value="by-account">By Account</TabsTrigger>
+          <TabsTrigger value="by-setup">By Setup</TabsTrigger>
+          <TabsTrigger value="r-multiples">R-Multiples</TabsTrigger>
+          <TabsTrigger value="excursions">MAE / MFE</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview">
@@ -219,7 +582,7 @@ export default function AnalyticsPage() {
                 </div>
               ) : (
                 <div className="space-y-6">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                     <div>
                       <h4 className="font-medium mb-4">Monthly Performance</h4>
                       <div className="space-y-2">
@@ -232,7 +595,7 @@ export default function AnalyticsPage() {
                               <span className={`text-sm font-medium ${
                                 pnl > 0 ? 'text-green-600' : 'text-red-600'
                               }`}>
-                                {TradeAnalytics.formatCurrency(pnl)}
+                                {formatBase(pnl)}
                               </span>
                             </div>
                           ))}
@@ -243,11 +606,23 @@ export default function AnalyticsPage() {
                       <h4 className="font-medium mb-4">Key Statistics</h4>
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
-                          <span className="text-sm">Total P&L</span>
+                          <span className="text-sm">Gross P&L</span>
                           <span className={`text-sm font-medium ${
-                            analytics.totalPnL > 0 ? 'text-green-600' : 'text-red-600'
+                            analytics.grossPnL > 0 ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            {TradeAnalytics.formatCurrency(analytics.totalPnL)}
+                            {formatBase(analytics.grossPnL)}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm">Fees</span>
+                          <span className="text-sm font-medium">
+                            {formatBase(-analytics.totalFees)}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm">Tax Withholding</span>
+                          <span className="text-sm font-medium">
+                            {formatBase(-analytics.totalTax)}
                           </span>
                         </div>
                         <div className="flex items-center justify-between">
@@ -267,11 +642,32 @@ export default function AnalyticsPage() {
                           <span className={`text-sm font-medium ${
                             analytics.netPnL > 0 ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            {TradeAnalytics.formatCurrency(analytics.netPnL)}
+                            {formatBase(analytics.netPnL)}
                           </span>
                         </div>
                       </div>
                     </div>
+
+                    <div>
+                      <h4 className="font-medium mb-4">Long vs Short</h4>
+                      <div className="space-y-2">
+                        {(['long', 'short'] as const).map(direction => {
+                          const stats = analytics.directionStats[direction];
+                          return (
+                            <div key={direction} className="flex items-center justify-between">
+                              <span className="text-sm">
+                                {direction === 'long' ? 'Long' : 'Short'} ({stats.trades} trades, {TradeAnalytics.formatPercent(stats.winRate)} win)
+                              </span>
+                              <span className={`text-sm font-medium ${
+                                stats.pnl > 0 ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {formatBase(stats.pnl)}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
                   </div>
                 </div>
               )}
@@ -309,17 +705,15 @@ export default function AnalyticsPage() {
                         <div>
                           <div className="font-medium">{trade.ticker}</div>
                           <div className="text-sm text-gray-500">
-                            {trade.sellDate ? 'CLOSED' : 'OPEN'} • {trade.buyDate}
+                            {trade.direction === 'short' ? 'SHORT' : 'LONG'} • {trade.sellDate ? 'CLOSED' : 'OPEN'} • {trade.buyDate}
                           </div>
                         </div>
                       </div>
                       <div className="text-right">
                         <div className="font-medium text-green-600">
-                          {TradeAnalytics.formatCurrency(trade.pnl || 0)}
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          {trade.quantity} shares @ ${trade.buyPrice}
+                          {formatBase(trade.pnl || 0)}
                         </div>
+                        {renderNativeAmounts(trade)}
                       </div>
                     </div>
                   ))}
@@ -354,17 +748,15 @@ export default function AnalyticsPage() {
                         <div>
                           <div className="font-medium">{trade.ticker}</div>
                           <div className="text-sm text-gray-500">
-                            {trade.sellDate ? 'CLOSED' : 'OPEN'} • {trade.buyDate}
+                            {trade.direction === 'short' ? 'SHORT' : 'LONG'} • {trade.sellDate ? 'CLOSED' : 'OPEN'} • {trade.buyDate}
                           </div>
                         </div>
                       </div>
                       <div className="text-right">
                         <div className="font-medium text-red-600">
-                          {TradeAnalytics.formatCurrency(trade.pnl || 0)}
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          {trade.quantity} shares @ ${trade.buyPrice}
+                          {formatBase(trade.pnl || 0)}
                         </div>
+                        {renderNativeAmounts(trade)}
                       </div>
                     </div>
                   ))}
@@ -393,7 +785,7 @@ export default function AnalyticsPage() {
                   {Object.entries(analytics.tickerPnL)
                     .sort(([, a], [, b]) => b - a)
                     .map(([ticker, pnl]) => {
-                      const tickerTrades = trades.filter(t => t.ticker === ticker);
+                      const tickerTrades = basisTrades.filter(t => t.ticker === ticker);
                       const wins = tickerTrades.filter(t => (t.pnl || 0) > 0).length;
                       const losses = tickerTrades.filter(t => (t.pnl || 0) < 0).length;
                       const winRate = tickerTrades.length > 0 ? (wins / tickerTrades.length) * 100 : 0;
@@ -417,7 +809,7 @@ export default function AnalyticsPage() {
                             <div className={`font-medium ${
                               pnl > 0 ? 'text-green-600' : 'text-red-600'
                             }`}>
-                              {TradeAnalytics.formatCurrency(pnl)}
+                              {formatBase(pnl)}
                             </div>
                             <div className="w-24 mt-1">
                               <Progress value={winRate} className="h-2" />
@@ -431,7 +823,263 @@ export default function AnalyticsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="by-account">
+          <Card>
+            <CardHeader>
+              <CardTitle>Performance by Account</CardTitle>
+              <CardDescription>
+                P&L and return on starting capital per account
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {accountStats.length === 0 ? (
+                <div className="text-center py-8">
+                  <BarChart3 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <p className="text-sm text-gray-600">
+                    No accounts yet. Add accounts in Settings to compare them here.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {accountStats.map(stats => (
+                    <div key={stats.accountId || 'unassigned'} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div>
+                        <div className="text-sm font-medium">{stats.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {stats.trades} trades • {TradeAnalytics.formatPercent(stats.winRate)} win rate
+                          {stats.startingCapital > 0 && ` • Capital ${formatBase(stats.startingCapital)}`}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className={`font-medium ${
+                          stats.pnl > 0 ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {formatBase(stats.pnl)}
+                        </div>
+                        {stats.startingCapital > 0 && (
+                          <div className="text-xs text-gray-500">
+                            {TradeAnalytics.formatPercent(stats.returnPercent)} return
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="by-setup">
+          <Card>
+            <CardHeader>
+              <CardTitle>Performance by Setup</CardTitle>
+              <CardDescription>
+                Which setups earn their keep: win rate, profit factor and expectancy per setup
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {strategyStats.length === 0 ? (
+                <div className="text-center py-8">
+                  <BarChart3 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <p className="text-sm text-gray-600">
+                    No setups yet. Add setups in Settings and tag your trades to compare them here.
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Setup</TableHead>
+                      <TableHead className="text-right">Trades</TableHead>
+                      <TableHead className="text-right">Win Rate</TableHead>
+                      <TableHead className="text-right">Profit Factor</TableHead>
+                      <TableHead className="text-right">Expectancy</TableHead>
+                      <TableHead className="text-right">Avg Hold</TableHead>
+                      <TableHead className="text-right">P&L</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {strategyStats.map(stats => (
+                      <TableRow key={stats.strategyId || 'none'}>
+                        <TableCell className="font-medium">{stats.name}</TableCell>
+                        <TableCell className="text-right">{stats.trades}</TableCell>
+                        <TableCell className="text-right">
+                          {stats.trades > 0 ? TradeAnalytics.formatPercent(stats.winRate) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {stats.profitFactor > 0 ? stats.profitFactor.toFixed(2) : '—'}
+                        </TableCell>
+                        <TableCell className={`text-right ${
+                          stats.expectancy > 0 ? 'text-green-600' : stats.expectancy < 0 ? 'text-red-600' : ''
+                        }`}>
+                          {stats.trades > 0 ? formatBase(stats.expectancy) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {stats.trades > 0 ? `${stats.avgHoldingDays.toFixed(1)} days` : '—'}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${
+                          stats.pnl > 0 ? 'text-green-600' : stats.pnl < 0 ? 'text-red-600' : ''
+                        }`}>
+                          {formatBase(stats.pnl)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="r-multiples">
+          <Card>
+            <CardHeader>
+              <CardTitle>R-Multiples</CardTitle>
+              <CardDescription>
+                Results in units of initial risk (1R), from each trade&apos;s stop loss or initial risk
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!rStats || rStats.tradesWithRisk === 0 ? (
+                <div className="text-center py-8">
+                  <Target className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <p className="text-sm text-gray-600">
+                    Record a stop loss or initial risk on your trades to see R-multiples
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">Expectancy</div>
+                      <div className={`text-xl font-bold ${rStats.expectancyR > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatR(rStats.expectancyR)}
+                      </div>
+                      <div className="text-xs text-gray-500">per trade</div>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">Avg Win</div>
+                      <div className="text-xl font-bold text-green-600">{formatR(rStats.avgWinR)}</div>
+                      <div className="text-xs text-gray-500">Best {formatR(rStats.largestWinR)}</div>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">Avg Loss</div>
+                      <div className="text-xl font-bold text-red-600">{formatR(rStats.avgLossR)}</div>
+                      <div className="text-xs text-gray-500">Worst {formatR(rStats.largestLossR)}</div>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">Total</div>
+                      <div className={`text-xl font-bold ${rStats.totalR > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatR(rStats.totalR)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {rStats.tradesWithRisk} trades
+                        {rStats.tradesWithoutRisk > 0 && ` • ${rStats.tradesWithoutRisk} without a stop`}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium mb-4">Distribution</h4>
+                    <div className="flex items-end gap-2 h-40">
+                      {rStats.distribution.map(bucket => (
+                        <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full">
+                          <span className="text-xs text-gray-600 mb-1">{bucket.count > 0 ? bucket.count : ''}</span>
+                          <div
+                            className={`w-full rounded-t ${bucket.min >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                            style={{ height: `${(bucket.count / maxBucketCount) * 100}%` }}
+                            title={`${bucket.label}: ${bucket.count} trades`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      {rStats.distribution.map(bucket => (
+                        <div key={bucket.label} className="flex-1 text-center text-xs text-gray-500">
+                          {bucket.label}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="excursions">
+          <Card>
+            <CardHeader>
+              <CardTitle>MAE / MFE</CardTitle>
+              <CardDescription>
+                How far each closed trade moved against (MAE) and in favour of (MFE) the entry while held, from the stored daily price history
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {barsLoading ? (
+                <LoadingSpinner />
+              ) : !excursionStats || excursionStats.excursions.length === 0 ? (
+                <div className="text-center py-8">
+                  <MoveVertical className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                  <p className="text-sm text-gray-600">
+                    Import daily price history for your tickers in Settings to see excursions
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">Edge Ratio</div>
+                      <div className={`text-xl font-bold ${excursionStats.edgeRatio >= 1 ? 'text-green-600' : 'text-red-600'}`}>
+                        {excursionStats.edgeRatio.toFixed(2)}
+                      </div>
+                      <div className="text-xs text-gray-500">Avg MFE / avg MAE</div>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">Avg MAE</div>
+                      <div className="text-xl font-bold text-red-600">{excursionStats.avgMAEPercent.toFixed(2)}%</div>
+                      <div className="text-xs text-gray-500">against the entry</div>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">Avg MFE</div>
+                      <div className="text-xl font-bold text-green-600">{excursionStats.avgMFEPercent.toFixed(2)}%</div>
+                      <div className="text-xs text-gray-500">in favour of the entry</div>
+                    </div>
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-gray-500">MFE Captured</div>
+                      <div className="text-xl font-bold">{excursionStats.avgCapturedPercent.toFixed(0)}%</div>
+                      <div className="text-xs text-gray-500">
+                        {excursionStats.excursions.length} trades
+                        {excursionStats.tradesWithoutData > 0 && ` • ${excursionStats.tradesWithoutData} without price data`}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium mb-4">MAE vs Final P&amp;L</h4>
+                    <ExcursionScatterChart
+                      excursions={excursionStats.excursions}
+                      currency={fx.baseCurrency}
+                      onSelectTrade={handleSelectTrade}
+                    />
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
+
+      {selectedTrade && (
+        <TradeEditModal
+          trade={selectedTrade}
+          isOpen={!!selectedTrade}
+          onClose={() => setSelectedTrade(null)}
+          onSave={handleSaveTrade}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { TrendingUp, Upload, FileText, Images } from 'lucide-react';
@@ -8,19 +8,35 @@ import Link from 'next/link';
 import { LoadingSpinner } from '@/components/loading/loading-spinner';
 import PageErrorBoundary from '@/components/page-error-boundary';
 import { useTradeData } from '@/lib/hooks/use-trade-data';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+import { useFxConverter } from '@/lib/hooks/use-fx-converter';
+import { useAccounts } from '@/components/account/account-provider';
+import { TradeAnalytics } from '@/lib/analytics/trade-analytics';
+import { PnLBasis } from '@/types/trade';
 
 interface DashboardStats {
   totalTrades: number;
   totalPnL: number;
+  totalFees: number;
+  totalTax: number;
+  missingRateCurrencies: string[];
   totalNotes: number;
   totalImages: number;
 }
 
 function DashboardContent() {
-  const { trades, loading: tradesLoading, error: tradesError } = useTradeData();
+  const { trades: allTrades, loading: tradesLoading, error: tradesError } = useTradeData();
+  const { activeAccount, filterTrades } = useAccounts();
+  const trades = useMemo(() => filterTrades(allTrades), [allTrades, filterTrades]);
+  const { config } = useAppConfig();
+  const { fx, loading: fxLoading } = useFxConverter();
+  const pnlBasis: PnLBasis = config?.pnlDisplay || 'net';
   const [stats, setStats] = useState<DashboardStats>({
     totalTrades: 0,
     totalPnL: 0,
+    totalFees: 0,
+    totalTax: 0,
+    missingRateCurrencies: [],
     totalNotes: 0,
     totalImages: 0
   });
@@ -32,18 +48,16 @@ function DashboardContent() {
       try {
         setLoading(true);
         
-        // Calculate stats from trades data
-        if (trades && trades.length > 0) {
-          const totalPnL = trades.reduce((sum, trade) => {
-            const pnl = trade.sellPrice && trade.buyPrice 
-              ? (trade.sellPrice - trade.buyPrice) * trade.quantity
-              : 0;
-            return sum + pnl;
-          }, 0);
+        // Calculate stats from trades data (an empty account resets them)
+        if (trades) {
+          const analytics = TradeAnalytics.calculate(trades, pnlBasis, fx);
 
           setStats({
             totalTrades: trades.length,
-            totalPnL,
+            totalPnL: analytics.totalPnL,
+            totalFees: analytics.totalFees,
+            totalTax: analytics.totalTax,
+            missingRateCurrencies: analytics.missingRateCurrencies,
             totalNotes: 0, // TODO: Implement notes counting
             totalImages: 0 // TODO: Implement images counting
           });
@@ -55,10 +69,10 @@ function DashboardContent() {
       }
     };
 
-    if (!tradesLoading) {
+    if (!tradesLoading && !fxLoading) {
       loadDashboardData();
     }
-  }, [trades, tradesLoading]);
+  }, [trades, tradesLoading, pnlBasis, fx, fxLoading]);
 
   if (loading || tradesLoading) {
     return <LoadingSpinner size="lg" className="min-h-screen" />;
@@ -80,6 +94,11 @@ function DashboardContent() {
         <p className="text-gray-600 mt-2">
           Welcome to your trade journal. Get started by importing your trading data.
         </p>
+        {activeAccount && (
+          <p className="text-sm text-gray-500 mt-1">
+            Showing {activeAccount.name}{activeAccount.broker ? ` (${activeAccount.broker})` : ''}
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -98,16 +117,23 @@ function DashboardContent() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total P&L</CardTitle>
+            <CardTitle className="text-sm font-medium">{pnlBasis === 'gross' ? 'Gross P&L' : 'Net P&L'}</CardTitle>
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className={`text-2xl font-bold ${stats.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-              ${stats.totalPnL.toFixed(2)}
+              {TradeAnalytics.formatCurrency(stats.totalPnL, fx.baseCurrency)}
             </div>
             <p className="text-xs text-muted-foreground">
-              {stats.totalTrades === 0 ? 'Import trades to see P&L' : 'Total profit/loss'}
+              {stats.totalTrades === 0
+                ? 'Import trades to see P&L'
+                : `Fees ${TradeAnalytics.formatCurrency(stats.totalFees, fx.baseCurrency)} • Tax ${TradeAnalytics.formatCurrency(stats.totalTax, fx.baseCurrency)}`}
             </p>
+            {stats.missingRateCurrencies.length > 0 && (
+              <p className="text-xs text-orange-600 mt-1">
+                No FX rate for {stats.missingRateCurrencies.join(', ')}; those trades are excluded
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -50,7 +50,7 @@ export default function ImportPage() {
             <CardHeader>
               <CardTitle>CSV File Import</CardTitle>
               <CardDescription>
-                Upload your trading data CSV file. Each row should represent a complete trade with buy information (required) and sell information (optional for open positions).
+                Upload your trading data CSV file. Each row can be a complete trade with buy information (required) and sell information (optional for open positions), or a single buy/sell execution from a broker log.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -88,6 +88,11 @@ export default function ImportPage() {
                       <strong>Auto-calculated:</strong> P&L and holding period are automatically calculated when both buy and sell information is provided.
                     </p>
                   </div>
+                  <div className="mt-2 p-2 bg-blue-50 rounded-md">
+                    <p className="text-xs text-blue-700">
+                      <strong>Execution logs:</strong> Files with an action column (buy/sell) are paired into trades per ticker using FIFO, LIFO or average-cost matching. Unmatched buys are imported as open trades.
+                    </p>
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -1,5 +1,6 @@
 import { Metadata } from 'next';
 import { Navigation } from '@/components/navigation';
+import { AccountProvider } from '@/components/account/account-provider';
 
 export const metadata: Metadata = {
   title: 'Trade Journal Local',
@@ -12,11 +13,13 @@ export default function MainLayout({
   children: React.ReactNode;
 }) {
   return (
-    <div className="min-h-screen bg-background text-foreground transition-colors duration-200">
-      <Navigation />
-      <main className="container mx-auto px-4 py-8">
-        {children}
-      </main>
-    </div>
+    <AccountProvider>
+      <div className="min-h-screen bg-background text-foreground transition-colors duration-200">
+        <Navigation />
+        <main className="container mx-auto px-4 py-8">
+          {children}
+        </main>
+      </div>
+    </AccountProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,286 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OpenPosition, TradeAnalytics } from '@/lib/analytics/trade-analytics';
+import { useTradeData } from '@/lib/hooks/use-trade-data';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+import { useFxConverter } from '@/lib/hooks/use-fx-converter';
+import { usePriceMarks } from '@/lib/hooks/use-price-marks';
+import { useAccounts } from '@/components/account/account-provider';
+import { formatCurrency } from '@/lib/utils';
+import { Briefcase, DollarSign, RefreshCw, ShieldAlert, TrendingUp, X } from 'lucide-react';
+import { LoadingSpinner } from '@/components/loading/loading-spinner';
+import PageErrorBoundary from '@/components/page-error-boundary';
+
+export default function PositionsPage() {
+  const { trades: allTrades, loading, error } = useTradeData();
+  const { accounts, activeAccount, filterTrades } = useAccounts();
+  const { config } = useAppConfig();
+  const { fx, loading: fxLoading } = useFxConverter();
+  const { marks, loading: marksLoading, error: marksError, priceFilePath, setManualMark, clearManualMark, reload } = usePriceMarks();
+  // Typed-but-not-yet-saved mark prices, keyed by ticker
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const trades = useMemo(() => filterTrades(allTrades), [allTrades, filterTrades]);
+
+  // Trades without an account fall back to the configured capital, or the accounts combined
+  const startingCapital = activeAccount
+    ? fx.toBase(activeAccount.startingCapital, activeAccount.currency) ?? 0
+    : config?.startingCapital || accounts.reduce(
+        (sum, account) => sum + (fx.toBase(account.startingCapital, account.currency) ?? 0),
+        0
+      );
+
+  const positions = useMemo(
+    () => TradeAnalytics.calculateOpenPositions(trades, marks, fx, { accounts, startingCapital }),
+    [trades, marks, fx, accounts, startingCapital]
+  );
+
+  if (loading || fxLoading || marksLoading) {
+    return <LoadingSpinner size="lg" className="min-h-screen" />;
+  }
+
+  if (error) {
+    return (
+      <PageErrorBoundary
+        error={new Error(error)}
+        retry={() => window.location.reload()}
+        title="Positions Error"
+      />
+    );
+  }
+
+  const saveDraft = async (ticker: string) => {
+    const value = drafts[ticker];
+    if (value === undefined) {
+      return;
+    }
+
+    const price = parseFloat(value.replace(/,/g, ''));
+    if (value.trim() && (isNaN(price) || price <= 0)) {
+      alert('Enter a positive price');
+      return;
+    }
+
+    const saved = value.trim() ? await setManualMark(ticker, price) : await clearManualMark(ticker);
+    if (!saved) {
+      alert('Failed to save price');
+      return;
+    }
+    setDrafts(current => {
+      const next = { ...current };
+      delete next[ticker];
+      return next;
+    });
+  };
+
+  const handleClearMark = async (ticker: string) => {
+    if (!await clearManualMark(ticker)) {
+      alert('Failed to clear price');
+    }
+  };
+
+  const formatBase = (amount: number) => TradeAnalytics.formatCurrency(amount, fx.baseCurrency);
+  const formatSigned = (amount: number) => `${amount >= 0 ? '+' : ''}${formatBase(amount)}`;
+  const pnlColor = (value?: number) =>
+    value === undefined ? 'text-gray-400' : value >= 0 ? 'text-green-600' : 'text-red-600';
+
+  const priced = positions.filter(position => position.mark);
+  const totalValue = priced.reduce((sum, position) => sum + (position.marketValue ?? 0), 0);
+  const totalUnrealized = priced.reduce((sum, position) => sum + (position.unrealizedPnL ?? 0), 0);
+  // Only what is still at risk: stops already in profit don't add to it
+  const totalRisk = positions.reduce(
+    (sum, position) => sum + Math.max(0, position.riskToStop ?? 0),
+    0
+  );
+  const unpricedCount = positions.length - priced.length;
+
+  const renderMarkCell = (position: OpenPosition) => {
+    const ticker = position.ticker.toUpperCase();
+    const draft = drafts[ticker];
+    return (
+      <div className="flex items-center justify-end space-x-1">
+        <Input
+          type="number"
+          step="any"
+          className="w-28 h-8 text-right"
+          value={draft ?? (position.mark ? String(position.mark.price) : '')}
+          placeholder="Price"
+          onChange={(e) => setDrafts({ ...drafts, [ticker]: e.target.value })}
+          onBlur={() => saveDraft(ticker)}
+          onKeyDown={(e) => e.key === 'Enter' && saveDraft(ticker)}
+        />
+        {position.mark && (
+          <Badge
+            variant={position.mark.source === 'manual' ? 'secondary' : 'outline'}
+            title={position.mark.date ? `As of ${position.mark.date}` : undefined}
+          >
+            {position.mark.source === 'manual' ? 'Manual' : 'File'}
+          </Badge>
+        )}
+        {position.mark?.source === 'manual' && (
+          <Button variant="ghost" size="sm" title="Clear manual price" onClick={() => handleClearMark(ticker)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Open Positions</h1>
+          <p className="text-gray-600 mt-2">
+            Unrealized P&amp;L, exposure and distance to stop for trades that are still open
+          </p>
+        </div>
+        <Button variant="outline" onClick={reload}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Reload Prices
+        </Button>
+      </div>
+
+      {marksError && (
+        <Alert variant="destructive">
+          <AlertDescription>Could not read the price file: {marksError}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Positions</CardTitle>
+            <Briefcase className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{positions.length}</div>
+            <p className="text-xs text-muted-foreground">
+              {unpricedCount > 0 ? `${unpricedCount} without a price` : 'All priced'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Market Value</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatBase(totalValue)}</div>
+            <p className="text-xs text-muted-foreground">
+              {startingCapital > 0
+                ? `${((totalValue / startingCapital) * 100).toFixed(1)}% of capital`
+                : 'Set a starting capital to see exposure'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unrealized P&amp;L</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${pnlColor(totalUnrealized)}`}>
+              {formatSigned(totalUnrealized)}
+            </div>
+            <p className="text-xs text-muted-foreground">Before exit fees</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Risk</CardTitle>
+            <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{formatBase(totalRisk)}</div>
+            <p className="text-xs text-muted-foreground">Given back if every stop is hit</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Briefcase className="w-5 h-5" />
+            <span>Positions</span>
+          </CardTitle>
+          <CardDescription>
+            Prices are read from {priceFilePath || 'prices.csv in the data directory'} (ticker,price[,date]) and
+            reload when the file changes. A price typed here overrides the file until cleared.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {positions.length === 0 ? (
+            <div className="text-center py-8">
+              <Briefcase className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-sm text-gray-600">No open positions. Trades without a sell date show up here.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ticker</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Entry</TableHead>
+                  <TableHead className="text-right">Mark</TableHead>
+                  <TableHead className="text-right">Unrealized P&amp;L</TableHead>
+                  <TableHead className="text-right">% of Account</TableHead>
+                  <TableHead className="text-right">Days Held</TableHead>
+                  <TableHead className="text-right">Stop</TableHead>
+                  <TableHead className="text-right">To Stop</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {positions.map(position => (
+                  <TableRow key={position.trade.id}>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">{position.ticker}</span>
+                        {position.trade.direction === 'short' && <Badge variant="outline">Short</Badge>}
+                      </div>
+                      <div className="text-xs text-gray-500">{position.trade.buyDate}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{position.quantity.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(position.entryPrice, position.currency)}</TableCell>
+                    <TableCell className="text-right">{renderMarkCell(position)}</TableCell>
+                    <TableCell className={`text-right ${pnlColor(position.unrealizedPnLNative)}`}>
+                      {position.unrealizedPnL !== undefined ? (
+                        <>
+                          <div>{formatSigned(position.unrealizedPnL)}</div>
+                          <div className="text-xs">{TradeAnalytics.formatPercent(position.unrealizedPercent ?? 0)}</div>
+                        </>
+                      ) : position.unrealizedPnLNative !== undefined ? (
+                        <span title={`No ${position.currency} rate available`}>
+                          {formatCurrency(position.unrealizedPnLNative, position.currency)}
+                        </span>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {position.accountPercent !== undefined ? `${position.accountPercent.toFixed(1)}%` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{position.daysHeld}</TableCell>
+                    <TableCell className="text-right">
+                      {position.stopLoss !== undefined ? formatCurrency(position.stopLoss, position.currency) : '—'}
+                    </TableCell>
+                    <TableCell className={`text-right ${
+                      position.distanceToStopPercent !== undefined && position.distanceToStopPercent < 0 ? 'text-red-600 font-medium' : ''
+                    }`}>
+                      {position.distanceToStopPercent !== undefined ? `${position.distanceToStopPercent.toFixed(1)}%` : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
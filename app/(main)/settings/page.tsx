@@ -10,18 +10,35 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { MigrationTool } from '@/components/migration/migration-tool';
+import { BackupManager } from '@/components/backup/backup-manager';
 import { MCPSetupGuide } from '@/components/setup/mcp-setup-guide';
+import { AccountManager } from '@/components/account/account-manager';
+import { StrategyManager } from '@/components/strategy/strategy-manager';
+import { PriceHistoryManager } from '@/components/price/price-history-manager';
 import { 
   Settings, 
   Database, 
   FolderOpen, 
+  BarChart3,
+  Wallet,
+  ListChecks,
+  CandlestickChart,
   Info,
   CheckCircle,
   AlertTriangle 
 } from 'lucide-react';
 
+const HOUR = 60 * 60 * 1000;
+const BACKUP_INTERVALS = [
+  { value: HOUR, label: 'Hour' },
+  { value: 6 * HOUR, label: '6 hours' },
+  { value: 24 * HOUR, label: 'Day' },
+  { value: 7 * 24 * HOUR, label: 'Week' }
+];
+
 export default function SettingsPage() {
   const [config, setConfig] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -61,7 +78,9 @@ export default function SettingsPage() {
         readDir: (path: string) => window.electronAPI.fs.readDir(path),
         readFile: (path: string) => window.electronAPI.fs.readFile(path),
         writeFile: (path: string, content: string) => window.electronAPI.fs.writeFile(path, content),
+        appendFile: (path: string, content: string) => window.electronAPI.fs.appendFile(path, content),
         createDir: (path: string) => window.electronAPI.fs.createDir(path),
+        deleteFile: (path: string) => window.electronAPI.fs.deleteFile(path),
         deleteDir: (path: string) => window.electronAPI.fs.deleteDir(path),
         exists: (path: string) => window.electronAPI.fs.exists(path)
       };
@@ -197,12 +216,197 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                {config?.autoBackup && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="backupInterval">Backup Every</Label>
+                      <Select
+                        value={String(config?.backupInterval || BACKUP_INTERVALS[2].value)}
+                        onValueChange={(value) => handleConfigChange('backupInterval', Number(value))}
+                      >
+                        <SelectTrigger id="backupInterval">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BACKUP_INTERVALS.map(interval => (
+                            <SelectItem key={interval.value} value={String(interval.value)}>
+                              {interval.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxBackups">Backups to Keep</Label>
+                      <Input
+                        id="maxBackups"
+                        type="number"
+                        min={1}
+                        value={config?.maxBackups ?? 10}
+                        onChange={(e) => handleConfigChange('maxBackups', Math.max(1, parseInt(e.target.value) || 1))}
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2 col-span-2">
+                      <input
+                        type="checkbox"
+                        id="backupTradeFolders"
+                        checked={config?.backupTradeFolders || false}
+                        onChange={(e) => handleConfigChange('backupTradeFolders', e.target.checked)}
+                        className="rounded"
+                      />
+                      <span className="text-sm">Include trade folders (notes and images) in backups</span>
+                    </div>
+                  </div>
+                )}
+
+                <Button onClick={saveConfig}>
+                  Save Configuration
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <BarChart3 className="w-5 h-5" />
+                  <span>Analytics Settings</span>
+                </CardTitle>
+                <CardDescription>
+                  Choose how profit and loss is shown across the app
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="pnlDisplay">Default P&L Display</Label>
+                  <Select
+                    value={config?.pnlDisplay || 'net'}
+                    onValueChange={(value) => handleConfigChange('pnlDisplay', value)}
+                  >
+                    <SelectTrigger id="pnlDisplay" className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="net">Net (after fees and tax)</SelectItem>
+                      <SelectItem value="gross">Gross (before fees and tax)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-gray-600">
+                    Used by the dashboard and as the starting view on the analytics page
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="baseCurrency">Base Currency</Label>
+                  <Input
+                    id="baseCurrency"
+                    value={config?.baseCurrency || 'USD'}
+                    onChange={(e) => handleConfigChange('baseCurrency', e.target.value.trim().toUpperCase())}
+                    placeholder="USD"
+                    maxLength={3}
+                    className="w-32"
+                  />
+                  <p className="text-sm text-gray-600">
+                    Totals are converted using fx-rates.csv (columns: date,from,to,rate) or fx-rates.json in the data directory
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="startingCapital">Starting Capital</Label>
+                    <Input
+                      id="startingCapital"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={config?.startingCapital ?? 0}
+                      onChange={(e) => handleConfigChange('startingCapital', parseFloat(e.target.value) || 0)}
+                      className="w-48"
+                    />
+                    <p className="text-sm text-gray-600">
+                      In base currency. Used for return %, Sharpe, Sortino and Calmar when no account is selected
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="riskFreeRate">Risk-Free Rate (% per year)</Label>
+                    <Input
+                      id="riskFreeRate"
+                      type="number"
+                      step="0.01"
+                      value={config?.riskFreeRate ?? 0}
+                      onChange={(e) => handleConfigChange('riskFreeRate', parseFloat(e.target.value) || 0)}
+                      className="w-48"
+                    />
+                    <p className="text-sm text-gray-600">
+                      Subtracted from daily returns for Sharpe and Sortino
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="benchmarkTicker">Benchmark</Label>
+                  <Input
+                    id="benchmarkTicker"
+                    value={config?.benchmarkTicker || ''}
+                    onChange={(e) => handleConfigChange('benchmarkTicker', e.target.value.trim().toUpperCase() || undefined)}
+                    placeholder="SPY"
+                    className="w-32"
+                  />
+                  <p className="text-sm text-gray-600">
+                    Index to compare the equity curve with. Import its daily bars under Price History below
+                  </p>
+                </div>
+
                 <Button onClick={saveConfig}>
                   Save Configuration
                 </Button>
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Wallet className="w-5 h-5" />
+                  <span>Accounts</span>
+                </CardTitle>
+                <CardDescription>
+                  Brokerage accounts and portfolios your trades belong to
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccountManager />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <ListChecks className="w-5 h-5" />
+                  <span>Setups</span>
+                </CardTitle>
+                <CardDescription>
+                  The setups you trade, with a checklist to confirm before entry
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StrategyManager />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CandlestickChart className="w-5 h-5" />
+                  <span>Price History</span>
+                </CardTitle>
+                <CardDescription>
+                  Daily OHLCV bars per ticker, stored in the ohlc folder of the data directory and used for trade charts
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PriceHistoryManager />
+              </CardContent>
+            </Card>
+
             {config && (
               <MCPSetupGuide dataDirectory={config.dataDirectory} />
             )}
@@ -218,7 +422,8 @@ export default function SettingsPage() {
                     Data backup, migration, and validation tools
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-6">
+                  <BackupManager />
                   <MigrationTool 
                     dataDirectory={config.dataDirectory}
                     fileService={fileService}
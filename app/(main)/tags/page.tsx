@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { TagChangeSummary, TagUsage } from '@/types/tag';
+import { TagService } from '@/lib/services/tag-service';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+import { getTradeDataService } from '@/lib/hooks/use-trade-data';
+import { TradeHistory } from '@/lib/history/trade-history';
+import { getTagName, tagMatches, TAG_SEPARATOR } from '@/lib/tags/tag-utils';
+import { GitMerge, Pencil, RefreshCw, Tags, Trash2 } from 'lucide-react';
+import { LoadingSpinner } from '@/components/loading/loading-spinner';
+import PageErrorBoundary from '@/components/page-error-boundary';
+
+interface TagRow extends TagUsage {
+  depth: number;
+  isTag: boolean; // False for namespaces that only exist as a prefix of other tags
+}
+
+type TagAction = { type: 'rename' | 'merge' | 'delete'; tag: string };
+
+/**
+ * One row per tag and per namespace, with counts that include everything nested below
+ */
+function buildRows(usage: TagUsage[]): TagRow[] {
+  const tags = new Set(usage.map(entry => entry.tag));
+  const names = new Set<string>();
+  usage.forEach(entry => {
+    const segments = entry.tag.split(TAG_SEPARATOR);
+    segments.forEach((_, index) => names.add(segments.slice(0, index + 1).join(TAG_SEPARATOR)));
+  });
+
+  return Array.from(names).sort().map(name => {
+    const nested = usage.filter(entry => tagMatches(entry.tag, name));
+    return {
+      tag: name,
+      depth: name.split(TAG_SEPARATOR).length - 1,
+      isTag: tags.has(name),
+      trades: nested.reduce((sum, entry) => sum + entry.trades, 0),
+      notes: nested.reduce((sum, entry) => sum + entry.notes, 0),
+      images: nested.reduce((sum, entry) => sum + entry.images, 0)
+    };
+  });
+}
+
+function describeChange(summary: TagChangeSummary): string {
+  return `${summary.trades} trade(s), ${summary.notes} note(s) and ${summary.images} image(s) updated`;
+}
+
+export default function TagsPage() {
+  const { config, loading: configLoading } = useAppConfig();
+  const [usage, setUsage] = useState<TagUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [action, setAction] = useState<TagAction | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const dataDirectory = config?.dataDirectory;
+
+  const loadUsage = useCallback(async () => {
+    if (!dataDirectory) {
+      return;
+    }
+
+    setLoading(true);
+    const result = await TagService.collectUsage({ dataDirectory });
+    if (result.success) {
+      setUsage(result.data || []);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load tags');
+    }
+    setLoading(false);
+  }, [dataDirectory]);
+
+  useEffect(() => {
+    if (!configLoading) {
+      loadUsage();
+    }
+  }, [configLoading, loadUsage]);
+
+  // Undoing a tag change puts tags back in trades, notes and image folders
+  useEffect(() => {
+    return TradeHistory.subscribe(event => {
+      if (event === 'undo' || event === 'redo') {
+        loadUsage();
+      }
+    });
+  }, [loadUsage]);
+
+  const openAction = (type: TagAction['type'], tag: string) => {
+    setAction({ type, tag });
+    setNewName(type === 'rename' ? tag : '');
+    setMessage(null);
+  };
+
+  const runChange = async (change: () => Promise<{ success: boolean; data?: TagChangeSummary; error?: string }>, label: string) => {
+    setWorking(true);
+    let result: { success: boolean; data?: TagChangeSummary; error?: string };
+    try {
+      result = await change();
+    } catch (err) {
+      result = { success: false, error: err instanceof Error ? err.message : 'Failed to update tag' };
+    }
+    setWorking(false);
+    setAction(null);
+
+    if (result.success && result.data) {
+      setMessage({ type: 'success', text: `${label}: ${describeChange(result.data)}` });
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to update tag' });
+    }
+    await loadUsage();
+  };
+
+  const handleRenameOrMerge = () => {
+    if (!action || !dataDirectory || !newName.trim()) {
+      return;
+    }
+    const { tag } = action;
+    runChange(
+      async () => TagService.renameTag({ dataDirectory }, await getTradeDataService(), tag, newName),
+      action.type === 'merge' ? `Merged "${tag}" into "${newName}"` : `Renamed "${tag}" to "${newName.trim()}"`
+    );
+  };
+
+  const handleDelete = () => {
+    if (!action || !dataDirectory) {
+      return;
+    }
+    const { tag } = action;
+    runChange(
+      async () => TagService.deleteTag({ dataDirectory }, await getTradeDataService(), tag),
+      `Deleted "${tag}"`
+    );
+  };
+
+  if (configLoading || (loading && usage.length === 0 && !error)) {
+    return <LoadingSpinner size="lg" className="min-h-screen" />;
+  }
+
+  if (error) {
+    return (
+      <PageErrorBoundary
+        error={new Error(error)}
+        retry={loadUsage}
+        title="Tags Error"
+      />
+    );
+  }
+
+  const rows = buildRows(usage);
+  // Merging into a tag nested under the source would move it into itself
+  const mergeTargets = action?.type === 'merge'
+    ? usage.map(entry => entry.tag).filter(tag => !tagMatches(tag, action.tag))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Tags</h1>
+          <p className="text-gray-600 mt-2">
+            Rename, merge and delete tags across trades, notes and image folders
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadUsage} disabled={loading || working}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {message && (
+        <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Tags className="w-5 h-5" />
+            <span>All Tags</span>
+          </CardTitle>
+          <CardDescription>
+            Use &quot;/&quot; to namespace tags, e.g. sector/tech or setup/breakout. Counts include nested tags.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <div className="text-center py-8">
+              <Tags className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-sm text-gray-600">
+                No tags yet. Tags added to trades, note frontmatter or image folders show up here.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tag</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Notes</TableHead>
+                  <TableHead className="text-right">Images</TableHead>
+                  <TableHead className="w-32" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.tag}>
+                    <TableCell>
+                      <span style={{ paddingLeft: `${row.depth * 1.25}rem` }} className={row.isTag ? 'font-medium' : 'text-gray-500'}>
+                        {getTagName(row.tag)}
+                        {!row.isTag && TAG_SEPARATOR}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{row.trades}</TableCell>
+                    <TableCell className="text-right">{row.notes}</TableCell>
+                    <TableCell className="text-right">{row.images}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end space-x-1">
+                        <Button variant="ghost" size="sm" title="Rename" disabled={working} onClick={() => openAction('rename', row.tag)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Merge into…" disabled={working} onClick={() => openAction('merge', row.tag)}>
+                          <GitMerge className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Delete" disabled={working} onClick={() => openAction('delete', row.tag)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={action?.type === 'rename' || action?.type === 'merge'}
+        onOpenChange={(open) => !open && setAction(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {action?.type === 'merge' ? `Merge "${action.tag}"` : `Rename "${action?.tag}"`}
+            </DialogTitle>
+            <DialogDescription>
+              Trades, note frontmatter and image folders are updated together. Tags nested under it move along.
+            </DialogDescription>
+          </DialogHeader>
+
+          {action?.type === 'merge' ? (
+            <div className="space-y-2">
+              <Label>Merge into</Label>
+              <Select value={newName} onValueChange={setNewName}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  {mergeTargets.map(tag => (
+                    <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="tag-name">New name</Label>
+              <Input
+                id="tag-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="sector/tech"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRenameOrMerge} disabled={working || !newName.trim()}>
+              {action?.type === 'merge' ? 'Merge' : 'Rename'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={action?.type === 'delete'}
+        onClose={() => setAction(null)}
+        onConfirm={handleDelete}
+        title={`Delete "${action?.tag}"?`}
+        description="The tag and any tags nested under it are removed from trades and notes. Images in its folder are kept and moved up to the images folder."
+        confirmText="Delete"
+        variant="destructive"
+      />
+    </div>
+  );
+}
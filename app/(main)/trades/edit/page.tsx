@@ -10,7 +10,7 @@ import { Trade } from '@/types/trade';
 import { LocalStorage } from '@/lib/file-system/storage';
 import { TradesTable } from '@/components/trade/trades-table';
 import Link from 'next/link';
-import { generateId } from '@/lib/utils';
+import { calculateGrossPnL, generateId } from '@/lib/utils';
 
 export default function TradesEditPage() {
   const [trades, setTrades] = useState<Trade[]>([]);
@@ -49,9 +49,14 @@ export default function TradesEditPage() {
         const updatedTrade = { ...trade, [field]: value, updatedAt: new Date().toISOString() };
         
         // Auto-calculate P&L and holding days
-        if (field === 'sellPrice' || field === 'buyPrice' || field === 'quantity') {
+        if (field === 'sellPrice' || field === 'buyPrice' || field === 'quantity' || field === 'direction') {
           if (updatedTrade.sellPrice && updatedTrade.buyPrice && updatedTrade.quantity) {
-            updatedTrade.pnl = (updatedTrade.sellPrice - updatedTrade.buyPrice) * updatedTrade.quantity;
+            updatedTrade.pnl = calculateGrossPnL(
+              updatedTrade.buyPrice,
+              updatedTrade.sellPrice,
+              updatedTrade.quantity,
+              updatedTrade.direction
+            );
           }
         }
         
@@ -11,8 +11,13 @@ import { TradeFilters } from '@/components/trade/trade-filters';
 import { Trade } from '@/types/trade';
 import { TradeFilters as ITradeFilters } from '@/types/app';
 import { searchTrades } from '@/lib/utils/search';
+import { applyTradeFilters, countActiveFilters, loadActiveFilters, saveActiveFilters } from '@/lib/trade-filters/apply-filters';
 import { debounce } from '@/lib/utils/debounce';
 import { useTradeData } from '@/lib/hooks/use-trade-data';
+import { useFxConverter } from '@/lib/hooks/use-fx-converter';
+import { useStrategies } from '@/lib/hooks/use-strategies';
+import { TradeAnalytics } from '@/lib/analytics/trade-analytics';
+import { useAccounts } from '@/components/account/account-provider';
 import { Plus, Search, Filter, Loader2 } from 'lucide-react';
 import { MarkdownSideEditorV3 as MarkdownSideEditor } from '@/components/markdown/markdown-side-editor-v3';
 import { TradeEditModal } from '@/components/trade/trade-edit-modal';
@@ -30,6 +35,9 @@ export default function TradesPage() {
     refreshTrades,
     exportTrades
   } = useTradeData();
+  const { fx } = useFxConverter();
+  const { accounts, activeAccountId, filterTrades } = useAccounts();
+  const { strategies } = useStrategies();
 
   const [filteredTrades, setFilteredTrades] = useState<Trade[]>([]);
   const [filters, setFilters] = useState<ITradeFilters>({});
@@ -60,7 +68,8 @@ export default function TradesPage() {
   }, [searchTerm, debouncedSearch]);
 
   useEffect(() => {
-    let filtered = [...trades];
+    // Scope to the account selected in the navigation switcher
+    let filtered = filterTrades([...trades]);
 
     // Apply search filter with full-text search
     if (debouncedSearchTerm) {
@@ -68,80 +77,7 @@ export default function TradesPage() {
     }
 
     // Apply filters
-    if (filters.dateRange) {
-      filtered = filtered.filter(trade => {
-        const tradeDate = new Date(trade.buyDate);
-        const startDate = new Date(filters.dateRange!.start);
-        const endDate = new Date(filters.dateRange!.end);
-        return tradeDate >= startDate && tradeDate <= endDate;
-      });
-    }
-
-    if (filters.tickers && filters.tickers.length > 0) {
-      filtered = filtered.filter(trade => 
-        filters.tickers!.includes(trade.ticker)
-      );
-    }
-
-    if (filters.actions && filters.actions.length > 0) {
-      filtered = filtered.filter(trade => {
-        // Map old action filter to new status logic
-        // 'buy' filter -> show open trades (no sell date)
-        // 'sell' filter -> show closed trades (has sell date)
-        const hasOpenFilter = filters.actions!.includes('buy');
-        const hasClosedFilter = filters.actions!.includes('sell');
-        
-        if (hasOpenFilter && hasClosedFilter) {
-          return true; // Show all trades
-        } else if (hasOpenFilter) {
-          return !trade.sellDate; // Show only open trades
-        } else if (hasClosedFilter) {
-          return !!trade.sellDate; // Show only closed trades
-        }
-        return false;
-      });
-    }
-
-    if (filters.hasNotes !== undefined) {
-      filtered = filtered.filter(trade => 
-        filters.hasNotes ? (trade.notesFiles || []).length > 0 : (trade.notesFiles || []).length === 0
-      );
-    }
-
-    if (filters.pnlRange) {
-      filtered = filtered.filter(trade => {
-        const pnl = trade.pnl || 0;
-        return pnl >= filters.pnlRange!.min && pnl <= filters.pnlRange!.max;
-      });
-    }
-
-    if (filters.quantityRange) {
-      filtered = filtered.filter(trade => {
-        return trade.quantity >= filters.quantityRange!.min && 
-               trade.quantity <= filters.quantityRange!.max;
-      });
-    }
-
-    if (filters.pnlCategory && filters.pnlCategory !== 'all') {
-      filtered = filtered.filter(trade => {
-        const pnl = trade.pnl || 0;
-        switch (filters.pnlCategory) {
-          case 'profitable':
-            return pnl > 0;
-          case 'loss':
-            return pnl < 0;
-          case 'breakeven':
-            return pnl === 0;
-          default:
-            return true;
-        }
-      });
-    }
-
-    if (filters.hasImages !== undefined) {
-      // Placeholder for image filtering - will be implemented when image functionality is added
-      // For now, this filter doesn't affect results
-    }
+    filtered = applyTradeFilters(filtered, filters);
 
     // Apply sorting
     filtered.sort((a, b) => {
@@ -178,10 +114,19 @@ export default function TradesPage() {
     });
 
     setFilteredTrades(filtered);
-  }, [trades, debouncedSearchTerm, filters, sortBy, sortOrder]);
+  }, [trades, debouncedSearchTerm, filters, sortBy, sortOrder, filterTrades]);
+
+  // Restore the filters shared with the analytics page for this session
+  useEffect(() => {
+    const saved = loadActiveFilters();
+    setFilters(saved);
+    // Open the panel so filters set elsewhere (e.g. a calendar day) are visible
+    setShowFilters(countActiveFilters(saved) > 0);
+  }, []);
 
   const handleFilterChange = (newFilters: ITradeFilters) => {
     setFilters(newFilters);
+    saveActiveFilters(newFilters);
   };
 
   const handleDeleteTrade = async (tradeId: string) => {
@@ -219,12 +164,23 @@ export default function TradesPage() {
 
   // CSV Table handlers
   const handleCSVUpdateCell = async (recordId: string, columnName: string, value: any) => {
+    if (columnName === 'direction') {
+      value = String(value).trim().toLowerCase() === 'short' ? 'short' : 'long';
+    }
+    if (columnName === 'currency') {
+      value = String(value).trim().toUpperCase() || undefined;
+    }
+    if (['stopLoss', 'targetPrice', 'initialRisk'].includes(columnName)) {
+      const parsed = parseFloat(value);
+      value = isNaN(parsed) ? undefined : parsed;
+    }
     await handleUpdateTrade(recordId, columnName, value);
   };
 
   const handleCSVAddRow = () => {
     const newTrade: Trade = {
       id: '', // Will be generated by the system
+      accountId: activeAccountId || undefined,
       buyDate: new Date().toISOString().split('T')[0],
       ticker: '',
       quantity: 0,
@@ -287,7 +243,7 @@ export default function TradesPage() {
   };
 
   // Use stats from the hook, but apply to filtered trades for display
-  const totalPnL = filteredTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+  const totalPnL = TradeAnalytics.withBasisPnL(filteredTrades, 'net', fx).reduce((sum, trade) => sum + (trade.pnl || 0), 0);
   const totalTrades = filteredTrades.length;
   const winningTrades = filteredTrades.filter(trade => (trade.pnl || 0) > 0).length;
   const winRate = totalTrades > 0 ? (winningTrades / totalTrades * 100).toFixed(1) : '0';
@@ -335,7 +291,7 @@ export default function TradesPage() {
           <div>
             <h1 className="text-2xl font-semibold text-gray-900">Trade Journal</h1>
             <p className="text-gray-600 text-sm mt-1">
-              {totalTrades} trades • {winRate}% win rate • ${totalPnL.toFixed(2)} total P&L
+              {totalTrades} trades • {winRate}% win rate • {TradeAnalytics.formatCurrency(totalPnL, fx.baseCurrency)} total P&L
               {error && <span className="ml-2 text-orange-600">(Local data)</span>}
             </p>
           </div>
@@ -404,6 +360,8 @@ export default function TradesPage() {
               filters={filters} 
               onFiltersChange={handleFilterChange}
               availableTickers={[...new Set(trades.map(t => t.ticker))]}
+              availableAccounts={activeAccountId ? [] : accounts}
+              availableStrategies={strategies}
             />
           </div>
         )}
@@ -422,6 +380,7 @@ export default function TradesPage() {
               onQuickMemo={handleQuickMemo}
               onOpenMemo={handleOpenMemo}
               memoRefreshTrigger={memoRefreshTrigger}
+              baseCurrency={fx.baseCurrency}
             />
           </div>
         ) : (
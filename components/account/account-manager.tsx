@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Account } from '@/types/account';
+import { AccountService } from '@/lib/services/account-service';
+import { formatCurrency } from '@/lib/utils';
+import { useAccounts } from './account-provider';
+
+interface AccountFormState {
+  name: string;
+  broker: string;
+  currency: string;
+  startingCapital: string;
+}
+
+const EMPTY_FORM: AccountFormState = { name: '', broker: '', currency: 'USD', startingCapital: '' };
+
+export function AccountManager() {
+  const { accounts, activeAccountId, saveAccount, deleteAccount } = useAccounts();
+  const [editing, setEditing] = useState<Account | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<AccountFormState>(EMPTY_FORM);
+
+  const openForm = (account?: Account) => {
+    setEditing(account || null);
+    setForm(account
+      ? {
+          name: account.name,
+          broker: account.broker || '',
+          currency: account.currency,
+          startingCapital: account.startingCapital.toString()
+        }
+      : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.currency.trim()) {
+      alert('Account name and currency are required');
+      return;
+    }
+
+    const fields = {
+      name: form.name.trim(),
+      broker: form.broker.trim() || undefined,
+      currency: form.currency.trim().toUpperCase(),
+      startingCapital: parseFloat(form.startingCapital) || 0
+    };
+
+    const account = editing
+      ? { ...editing, ...fields }
+      : AccountService.createAccount(fields);
+
+    if (await saveAccount(account)) {
+      closeForm();
+    } else {
+      alert('Failed to save account');
+    }
+  };
+
+  const handleDelete = async (account: Account) => {
+    if (!confirm(`Delete account "${account.name}"? Its trades are kept but become unassigned.`)) {
+      return;
+    }
+    if (!await deleteAccount(account.id)) {
+      alert('Failed to delete account');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {accounts.length === 0 && !showForm && (
+        <p className="text-sm text-gray-600">
+          No accounts yet. All trades are shown together until you add one.
+        </p>
+      )}
+
+      {accounts.map(account => (
+        <div key={account.id} className="flex items-center justify-between p-3 border rounded-lg">
+          <div>
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{account.name}</span>
+              {account.id === activeAccountId && <Badge variant="outline">Active</Badge>}
+            </div>
+            <div className="text-sm text-gray-500">
+              {account.broker ? `${account.broker} • ` : ''}
+              {account.currency} • Starting capital {formatCurrency(account.startingCapital, account.currency)}
+            </div>
+          </div>
+          <div className="flex space-x-1">
+            <Button variant="ghost" size="sm" onClick={() => openForm(account)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(account)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {showForm ? (
+        <div className="space-y-3 p-4 border rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">{editing ? 'Edit Account' : 'New Account'}</h4>
+            <Button variant="ghost" size="sm" onClick={closeForm}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Main brokerage"
+              />
+            </div>
+            <div>
+              <Label htmlFor="account-broker">Broker</Label>
+              <Input
+                id="account-broker"
+                value={form.broker}
+                onChange={(e) => setForm({ ...form, broker: e.target.value })}
+                placeholder="Interactive Brokers"
+              />
+            </div>
+            <div>
+              <Label htmlFor="account-currency">Currency</Label>
+              <Input
+                id="account-currency"
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                placeholder="USD"
+                maxLength={3}
+              />
+            </div>
+            <div>
+              <Label htmlFor="account-capital">Starting Capital</Label>
+              <Input
+                id="account-capital"
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.startingCapital}
+                onChange={(e) => setForm({ ...form, startingCapital: e.target.value })}
+                placeholder="10000"
+              />
+            </div>
+          </div>
+          <Button onClick={handleSave}>
+            {editing ? 'Save Account' : 'Add Account'}
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Account
+        </Button>
+      )}
+    </div>
+  );
+}
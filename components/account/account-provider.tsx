@@ -0,0 +1,150 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Account } from '@/types/account';
+import { AppConfig } from '@/types/app';
+import { Trade } from '@/types/trade';
+import { AccountService } from '@/lib/services/account-service';
+
+interface AccountContextValue {
+  accounts: Account[];
+  activeAccountId: string | null; // null = combined view of all accounts
+  activeAccount: Account | null;
+  loading: boolean;
+  setActiveAccountId: (accountId: string | null) => Promise<void>;
+  saveAccount: (account: Account) => Promise<boolean>;
+  deleteAccount: (accountId: string) => Promise<boolean>;
+  filterTrades: (trades: Trade[]) => Trade[];
+}
+
+const AccountContext = createContext<AccountContextValue | null>(null);
+
+async function loadAppConfig(): Promise<AppConfig | null> {
+  const configResult = await window.electronAPI.config.loadConfig();
+  if (configResult.data) {
+    return configResult.data;
+  }
+  const defaultConfigResult = await window.electronAPI.config.getDefaultConfig();
+  return defaultConfigResult.data || null;
+}
+
+/**
+ * Holds the account list and the account selected in the navigation switcher.
+ * The selection is persisted to AppConfig.activeAccountId so it survives restarts.
+ */
+export function AccountProvider({ children }: { children: React.ReactNode }) {
+  const [config, setConfig] = useState<AppConfig | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [activeAccountId, setActiveAccountIdState] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        if (typeof window === 'undefined' || !window.electronAPI) {
+          return;
+        }
+
+        const loadedConfig = await loadAppConfig();
+        if (!loadedConfig) {
+          return;
+        }
+        setConfig(loadedConfig);
+
+        const result = await AccountService.loadAccounts(loadedConfig);
+        if (!result.success) {
+          console.error('Error loading accounts:', result.error);
+        }
+        const loadedAccounts = result.data || [];
+        setAccounts(loadedAccounts);
+
+        // Ignore a stale selection pointing at a deleted account
+        const selected = loadedConfig.activeAccountId;
+        setActiveAccountIdState(selected && loadedAccounts.some(a => a.id === selected) ? selected : null);
+      } catch (err) {
+        console.error('Error initializing accounts:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const setActiveAccountId = useCallback(async (accountId: string | null) => {
+    setActiveAccountIdState(accountId);
+
+    try {
+      // Re-read so we don't overwrite settings saved elsewhere since startup
+      const latest = await loadAppConfig();
+      if (!latest) {
+        return;
+      }
+      const updated = { ...latest, activeAccountId: accountId || undefined };
+      setConfig(updated);
+      await window.electronAPI.config.saveConfig(updated);
+    } catch (err) {
+      console.error('Error saving active account:', err);
+    }
+  }, []);
+
+  const persistAccounts = useCallback(async (next: Account[]): Promise<boolean> => {
+    if (!config) {
+      return false;
+    }
+
+    const result = await AccountService.saveAccounts(config, next);
+    if (!result.success) {
+      console.error('Error saving accounts:', result.error);
+      return false;
+    }
+
+    setAccounts(next);
+    return true;
+  }, [config]);
+
+  const saveAccount = useCallback(async (account: Account): Promise<boolean> => {
+    const exists = accounts.some(a => a.id === account.id);
+    const updated = { ...account, updatedAt: new Date().toISOString() };
+    return persistAccounts(exists
+      ? accounts.map(a => a.id === account.id ? updated : a)
+      : [...accounts, updated]);
+  }, [accounts, persistAccounts]);
+
+  const deleteAccount = useCallback(async (accountId: string): Promise<boolean> => {
+    const success = await persistAccounts(accounts.filter(a => a.id !== accountId));
+    if (success && activeAccountId === accountId) {
+      await setActiveAccountId(null);
+    }
+    return success;
+  }, [accounts, activeAccountId, persistAccounts, setActiveAccountId]);
+
+  const filterTrades = useCallback((trades: Trade[]) => {
+    return activeAccountId ? trades.filter(trade => trade.accountId === activeAccountId) : trades;
+  }, [activeAccountId]);
+
+  const activeAccount = accounts.find(a => a.id === activeAccountId) || null;
+
+  return (
+    <AccountContext.Provider value={{
+      accounts,
+      activeAccountId,
+      activeAccount,
+      loading,
+      setActiveAccountId,
+      saveAccount,
+      deleteAccount,
+      filterTrades
+    }}>
+      {children}
+    </AccountContext.Provider>
+  );
+}
+
+export function useAccounts(): AccountContextValue {
+  const context = useContext(AccountContext);
+  if (!context) {
+    throw new Error('useAccounts must be used within an AccountProvider');
+  }
+  return context;
+}
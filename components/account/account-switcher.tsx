@@ -0,0 +1,41 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAccounts } from './account-provider';
+
+const ALL_ACCOUNTS = '__all__';
+
+interface AccountSwitcherProps {
+  className?: string;
+}
+
+export function AccountSwitcher({ className }: AccountSwitcherProps) {
+  const { accounts, activeAccountId, setActiveAccountId } = useAccounts();
+
+  // Nothing to switch between until at least one account exists
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={activeAccountId || ALL_ACCOUNTS}
+      onValueChange={(value) => setActiveAccountId(value === ALL_ACCOUNTS ? null : value)}
+    >
+      <SelectTrigger className={cn('w-44', className)} aria-label="Active account">
+        <Wallet className="h-4 w-4 text-gray-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_ACCOUNTS}>All Accounts</SelectItem>
+        {accounts.map(account => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
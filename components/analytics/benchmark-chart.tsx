@@ -0,0 +1,173 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { BenchmarkPoint } from '@/lib/analytics/trade-analytics';
+
+interface BenchmarkChartProps {
+  points: BenchmarkPoint[];
+  benchmarkLabel: string;
+}
+
+// Drawn in a fixed coordinate space and scaled to the container width
+const WIDTH = 800;
+const HEIGHT = 260;
+const PAD_LEFT = 56;
+const PAD_RIGHT = 16;
+const PAD_TOP = 12;
+const PAD_BOTTOM = 24;
+const PLOT_WIDTH = WIDTH - PAD_LEFT - PAD_RIGHT;
+const PLOT_HEIGHT = HEIGHT - PAD_TOP - PAD_BOTTOM;
+
+function scaleLinear(domainMin: number, domainMax: number, rangeStart: number, rangeEnd: number) {
+  const span = domainMax - domainMin || 1;
+  return (value: number) => rangeStart + ((value - domainMin) / span) * (rangeEnd - rangeStart);
+}
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+/**
+ * Cumulative return of the portfolio and the benchmark from the same start date
+ */
+export function BenchmarkChart({ points, benchmarkLabel }: BenchmarkChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const chart = useMemo(() => {
+    const values = points.flatMap(point => [point.portfolioPercent, point.benchmarkPercent]);
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+
+    const x = scaleLinear(0, Math.max(points.length - 1, 1), PAD_LEFT, PAD_LEFT + PLOT_WIDTH);
+    const y = scaleLinear(min, max, PAD_TOP + PLOT_HEIGHT, PAD_TOP);
+    const path = (field: 'portfolioPercent' | 'benchmarkPercent') => points
+      .map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(index).toFixed(1)} ${y(point[field]).toFixed(1)}`)
+      .join(' ');
+
+    return {
+      x,
+      y,
+      portfolioPath: path('portfolioPercent'),
+      benchmarkPath: path('benchmarkPercent'),
+      valueTicks: [max, (max + min) / 2, min],
+      dateTicks: [0, Math.floor((points.length - 1) / 2), points.length - 1]
+    };
+  }, [points]);
+
+  if (points.length < 2) {
+    return null;
+  }
+
+  const handleMouseMove = (event: React.MouseEvent<SVGRectElement>) => {
+    const svg = svgRef.current;
+    if (!svg) {
+      return;
+    }
+    const rect = svg.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round(((svgX - PAD_LEFT) / PLOT_WIDTH) * (points.length - 1));
+    setHoverIndex(Math.min(points.length - 1, Math.max(0, index)));
+  };
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        role="img"
+        aria-label={`Portfolio return against ${benchmarkLabel}`}
+      >
+        {chart.valueTicks.map((value, index) => (
+          <g key={`value-tick-${index}`}>
+            <line
+              x1={PAD_LEFT}
+              x2={PAD_LEFT + PLOT_WIDTH}
+              y1={chart.y(value)}
+              y2={chart.y(value)}
+              className="stroke-gray-100"
+            />
+            <text
+              x={PAD_LEFT - 8}
+              y={chart.y(value)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-gray-500 text-[10px]"
+            >
+              {formatPercent(value)}
+            </text>
+          </g>
+        ))}
+        <line
+          x1={PAD_LEFT}
+          x2={PAD_LEFT + PLOT_WIDTH}
+          y1={chart.y(0)}
+          y2={chart.y(0)}
+          strokeDasharray="4 4"
+          className="stroke-gray-300"
+        />
+
+        <path d={chart.benchmarkPath} fill="none" strokeWidth={2} className="stroke-gray-400" />
+        <path d={chart.portfolioPath} fill="none" strokeWidth={2} className="stroke-blue-600" />
+
+        {chart.dateTicks.map((index, tick) => (
+          <text
+            key={`date-tick-${tick}`}
+            x={chart.x(index)}
+            y={HEIGHT - 6}
+            textAnchor={tick === 0 ? 'start' : tick === chart.dateTicks.length - 1 ? 'end' : 'middle'}
+            className="fill-gray-500 text-[10px]"
+          >
+            {points[index].date}
+          </text>
+        ))}
+
+        {hovered && hoverIndex !== null && (
+          <g>
+            <line
+              x1={chart.x(hoverIndex)}
+              x2={chart.x(hoverIndex)}
+              y1={PAD_TOP}
+              y2={PAD_TOP + PLOT_HEIGHT}
+              className="stroke-gray-400"
+              strokeDasharray="2 2"
+            />
+            <circle cx={chart.x(hoverIndex)} cy={chart.y(hovered.portfolioPercent)} r={4} className="fill-blue-600" />
+            <circle cx={chart.x(hoverIndex)} cy={chart.y(hovered.benchmarkPercent)} r={4} className="fill-gray-400" />
+          </g>
+        )}
+
+        <rect
+          x={PAD_LEFT}
+          y={PAD_TOP}
+          width={PLOT_WIDTH}
+          height={PLOT_HEIGHT}
+          fill="transparent"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        />
+      </svg>
+
+      <div className="flex items-center space-x-4 text-xs text-gray-600 mt-2">
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-blue-600 mr-1" />Portfolio</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-gray-400 mr-1" />{benchmarkLabel}</span>
+      </div>
+
+      {hovered && hoverIndex !== null && (
+        <div
+          className="absolute pointer-events-none bg-white border border-gray-200 rounded-md shadow-sm px-3 py-2 text-xs"
+          style={{
+            left: `${(chart.x(hoverIndex) / WIDTH) * 100}%`,
+            top: 0,
+            transform: chart.x(hoverIndex) > WIDTH / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)'
+          }}
+        >
+          <div className="font-medium">{hovered.date}</div>
+          <div className="text-blue-600">Portfolio {formatPercent(hovered.portfolioPercent)}</div>
+          <div className="text-gray-600">{benchmarkLabel} {formatPercent(hovered.benchmarkPercent)}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { EquityCurvePoint, TradeAnalytics } from '@/lib/analytics/trade-analytics';
+
+interface EquityCurveChartProps {
+  points: EquityCurvePoint[];
+  currency: string;
+  onSelectTrade?: (tradeId: string) => void;
+  markerCount?: number; // How many of the largest wins and losses to highlight
+}
+
+// Drawn in a fixed coordinate space and scaled to the container width
+const WIDTH = 800;
+const EQUITY_HEIGHT = 240;
+const UNDERWATER_HEIGHT = 110;
+const GAP = 28;
+const PAD_LEFT = 72;
+const PAD_RIGHT = 16;
+const PAD_TOP = 12;
+const PAD_BOTTOM = 24;
+const HEIGHT = PAD_TOP + EQUITY_HEIGHT + GAP + UNDERWATER_HEIGHT + PAD_BOTTOM;
+const PLOT_WIDTH = WIDTH - PAD_LEFT - PAD_RIGHT;
+const UNDERWATER_TOP = PAD_TOP + EQUITY_HEIGHT + GAP;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function scaleLinear(domainMin: number, domainMax: number, rangeStart: number, rangeEnd: number) {
+  const span = domainMax - domainMin || 1;
+  return (value: number) => rangeStart + ((value - domainMin) / span) * (rangeEnd - rangeStart);
+}
+
+export function EquityCurveChart({ points, currency, onSelectTrade, markerCount = 3 }: EquityCurveChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const chart = useMemo(() => {
+    const times = points.map(point => new Date(point.date).getTime());
+    let minTime = Math.min(...times);
+    let maxTime = Math.max(...times);
+    if (minTime === maxTime) {
+      minTime -= DAY_MS;
+      maxTime += DAY_MS;
+    }
+
+    const equities = points.map(point => point.equity);
+    const minEquity = Math.min(0, ...equities);
+    const maxEquity = Math.max(0, ...equities);
+    const minDrawdown = Math.min(0, ...points.map(point => point.drawdown));
+
+    const x = scaleLinear(minTime, maxTime, PAD_LEFT, PAD_LEFT + PLOT_WIDTH);
+    const yEquity = scaleLinear(minEquity, maxEquity, PAD_TOP + EQUITY_HEIGHT, PAD_TOP);
+    const yDrawdown = scaleLinear(minDrawdown, 0, UNDERWATER_TOP + UNDERWATER_HEIGHT, UNDERWATER_TOP);
+
+    const coords = points.map((point, index) => ({
+      x: x(times[index]),
+      yEquity: yEquity(point.equity),
+      yDrawdown: yDrawdown(point.drawdown)
+    }));
+
+    const equityPath = coords
+      .map((c, index) => `${index === 0 ? 'M' : 'L'} ${c.x.toFixed(1)} ${c.yEquity.toFixed(1)}`)
+      .join(' ');
+
+    const underwaterPath = coords.length > 0
+      ? `M ${coords[0].x.toFixed(1)} ${yDrawdown(0).toFixed(1)} ` +
+        coords.map(c => `L ${c.x.toFixed(1)} ${c.yDrawdown.toFixed(1)}`).join(' ') +
+        ` L ${coords[coords.length - 1].x.toFixed(1)} ${yDrawdown(0).toFixed(1)} Z`
+      : '';
+
+    // Largest wins and losses, highlighted on the equity line
+    const ranked = points.map((point, index) => ({ point, index }));
+    const wins = ranked
+      .filter(r => r.point.pnl > 0)
+      .sort((a, b) => b.point.pnl - a.point.pnl)
+      .slice(0, markerCount);
+    const losses = ranked
+      .filter(r => r.point.pnl < 0)
+      .sort((a, b) => a.point.pnl - b.point.pnl)
+      .slice(0, markerCount);
+
+    const equityTicks = [maxEquity, (maxEquity + minEquity) / 2, minEquity];
+    const dateTicks = [minTime, (minTime + maxTime) / 2, maxTime];
+
+    return {
+      coords,
+      equityPath,
+      underwaterPath,
+      wins,
+      losses,
+      equityTicks,
+      dateTicks,
+      minDrawdown,
+      x,
+      yEquity,
+      yDrawdown
+    };
+  }, [points, markerCount]);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const format = (amount: number) => TradeAnalytics.formatCurrency(amount, currency);
+
+  const handleMouseMove = (event: React.MouseEvent<SVGRectElement>) => {
+    const svg = svgRef.current;
+    if (!svg) {
+      return;
+    }
+    const rect = svg.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+
+    // Snap to the nearest trade on the time axis
+    let nearest = 0;
+    chart.coords.forEach((c, index) => {
+      if (Math.abs(c.x - svgX) < Math.abs(chart.coords[nearest].x - svgX)) {
+        nearest = index;
+      }
+    });
+    setHoverIndex(nearest);
+  };
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+  const hoveredCoords = hoverIndex !== null ? chart.coords[hoverIndex] : null;
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        role="img"
+        aria-label="Equity curve and drawdown"
+      >
+        {/* Equity axis */}
+        {chart.equityTicks.map((value, index) => (
+          <g key={`equity-tick-${index}`}>
+            <line
+              x1={PAD_LEFT}
+              x2={PAD_LEFT + PLOT_WIDTH}
+              y1={chart.yEquity(value)}
+              y2={chart.yEquity(value)}
+              className="stroke-gray-100"
+            />
+            <text
+              x={PAD_LEFT - 8}
+              y={chart.yEquity(value)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-gray-500 text-[10px]"
+            >
+              {format(value)}
+            </text>
+          </g>
+        ))}
+        <line
+          x1={PAD_LEFT}
+          x2={PAD_LEFT + PLOT_WIDTH}
+          y1={chart.yEquity(0)}
+          y2={chart.yEquity(0)}
+          strokeDasharray="4 4"
+          className="stroke-gray-300"
+        />
+
+        <path d={chart.equityPath} fill="none" strokeWidth={2} className="stroke-blue-600" />
+
+        {/* Underwater (drawdown) area */}
+        <text x={PAD_LEFT - 8} y={UNDERWATER_TOP} textAnchor="end" dominantBaseline="hanging" className="fill-gray-500 text-[10px]">
+          {format(0)}
+        </text>
+        <text
+          x={PAD_LEFT - 8}
+          y={UNDERWATER_TOP + UNDERWATER_HEIGHT}
+          textAnchor="end"
+          dominantBaseline="auto"
+          className="fill-gray-500 text-[10px]"
+        >
+          {format(chart.minDrawdown)}
+        </text>
+        <line
+          x1={PAD_LEFT}
+          x2={PAD_LEFT + PLOT_WIDTH}
+          y1={UNDERWATER_TOP}
+          y2={UNDERWATER_TOP}
+          className="stroke-gray-200"
+        />
+        <path d={chart.underwaterPath} className="fill-red-100 stroke-red-400" strokeWidth={1} />
+
+        {/* Date axis */}
+        {chart.dateTicks.map((time, index) => (
+          <text
+            key={`date-tick-${index}`}
+            x={chart.x(time)}
+            y={HEIGHT - 6}
+            textAnchor={index === 0 ? 'start' : index === chart.dateTicks.length - 1 ? 'end' : 'middle'}
+            className="fill-gray-500 text-[10px]"
+          >
+            {new Date(time).toISOString().split('T')[0]}
+          </text>
+        ))}
+
+        {/* Hover guide */}
+        {hoveredCoords && (
+          <g>
+            <line
+              x1={hoveredCoords.x}
+              x2={hoveredCoords.x}
+              y1={PAD_TOP}
+              y2={UNDERWATER_TOP + UNDERWATER_HEIGHT}
+              className="stroke-gray-400"
+              strokeDasharray="2 2"
+            />
+            <circle cx={hoveredCoords.x} cy={hoveredCoords.yEquity} r={4} className="fill-blue-600" />
+            <circle cx={hoveredCoords.x} cy={hoveredCoords.yDrawdown} r={3} className="fill-red-500" />
+          </g>
+        )}
+
+        {/* Mouse capture; clicking opens the trade nearest the cursor */}
+        <rect
+          x={PAD_LEFT}
+          y={PAD_TOP}
+          width={PLOT_WIDTH}
+          height={UNDERWATER_TOP + UNDERWATER_HEIGHT - PAD_TOP}
+          fill="transparent"
+          className={onSelectTrade ? 'cursor-pointer' : undefined}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+          onClick={() => hovered && onSelectTrade?.(hovered.tradeId)}
+        />
+
+        {/* Largest wins and losses; drawn above the capture layer so they stay clickable */}
+        {[...chart.wins, ...chart.losses].map(({ point, index }) => (
+          <circle
+            key={`marker-${point.tradeId}`}
+            cx={chart.coords[index].x}
+            cy={chart.coords[index].yEquity}
+            r={6}
+            strokeWidth={2}
+            className={`${point.pnl > 0 ? 'fill-green-500' : 'fill-red-500'} stroke-white ${onSelectTrade ? 'cursor-pointer' : ''}`}
+            onMouseEnter={() => setHoverIndex(index)}
+            onClick={() => onSelectTrade?.(point.tradeId)}
+          >
+            <title>{`${point.ticker} ${format(point.pnl)}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      {hovered && hoveredCoords && (
+        <div
+          className="absolute pointer-events-none bg-white border border-gray-200 rounded-md shadow-sm px-3 py-2 text-xs"
+          style={{
+            left: `${(hoveredCoords.x / WIDTH) * 100}%`,
+            top: 0,
+            transform: hoveredCoords.x > WIDTH / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)'
+          }}
+        >
+          <div className="font-medium">{hovered.ticker} • {hovered.date}</div>
+          <div className={hovered.pnl >= 0 ? 'text-green-600' : 'text-red-600'}>
+            Trade {format(hovered.pnl)}
+          </div>
+          <div>Equity {format(hovered.equity)}</div>
+          <div className="text-red-600">
+            Drawdown {format(hovered.drawdown)}
+            {hovered.drawdownPercent < 0 && ` (${TradeAnalytics.formatPercent(hovered.drawdownPercent)})`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
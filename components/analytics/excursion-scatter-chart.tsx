@@ -0,0 +1,152 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { TradeAnalytics, TradeExcursion } from '@/lib/analytics/trade-analytics';
+
+interface ExcursionScatterChartProps {
+  excursions: TradeExcursion[];
+  currency: string;
+  onSelectTrade?: (tradeId: string) => void;
+}
+
+// Drawn in a fixed coordinate space and scaled to the container width
+const WIDTH = 800;
+const HEIGHT = 320;
+const PAD_LEFT = 72;
+const PAD_RIGHT = 16;
+const PAD_TOP = 12;
+const PAD_BOTTOM = 36;
+const PLOT_WIDTH = WIDTH - PAD_LEFT - PAD_RIGHT;
+const PLOT_HEIGHT = HEIGHT - PAD_TOP - PAD_BOTTOM;
+
+function scaleLinear(domainMin: number, domainMax: number, rangeStart: number, rangeEnd: number) {
+  const span = domainMax - domainMin || 1;
+  return (value: number) => rangeStart + ((value - domainMin) / span) * (rangeEnd - rangeStart);
+}
+
+/**
+ * MAE (% against the entry) on the x axis against final P&L on the y axis.
+ * Losers far to the right held through large adverse moves; winners far to the
+ * right needed a wide stop to work.
+ */
+export function ExcursionScatterChart({ excursions, currency, onSelectTrade }: ExcursionScatterChartProps) {
+  const [hovered, setHovered] = useState<TradeExcursion | null>(null);
+
+  const chart = useMemo(() => {
+    const maxMAE = Math.max(1, ...excursions.map(e => e.maePercent));
+    const pnls = excursions.map(e => e.pnl);
+    const minPnL = Math.min(0, ...pnls);
+    const maxPnL = Math.max(0, ...pnls);
+
+    const x = scaleLinear(0, maxMAE, PAD_LEFT, PAD_LEFT + PLOT_WIDTH);
+    const y = scaleLinear(minPnL, maxPnL, PAD_TOP + PLOT_HEIGHT, PAD_TOP);
+
+    return {
+      x,
+      y,
+      maeTicks: [0, maxMAE / 4, maxMAE / 2, (maxMAE * 3) / 4, maxMAE],
+      pnlTicks: [maxPnL, (maxPnL + minPnL) / 2, minPnL]
+    };
+  }, [excursions]);
+
+  if (excursions.length === 0) {
+    return null;
+  }
+
+  const format = (amount: number) => TradeAnalytics.formatCurrency(amount, currency);
+
+  return (
+    <div className="relative">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        role="img"
+        aria-label="Maximum adverse excursion against final P&L"
+      >
+        {/* P&L axis */}
+        {chart.pnlTicks.map((value, index) => (
+          <g key={`pnl-tick-${index}`}>
+            <line
+              x1={PAD_LEFT}
+              x2={PAD_LEFT + PLOT_WIDTH}
+              y1={chart.y(value)}
+              y2={chart.y(value)}
+              className="stroke-gray-100"
+            />
+            <text
+              x={PAD_LEFT - 8}
+              y={chart.y(value)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-gray-500 text-[10px]"
+            >
+              {format(value)}
+            </text>
+          </g>
+        ))}
+        <line
+          x1={PAD_LEFT}
+          x2={PAD_LEFT + PLOT_WIDTH}
+          y1={chart.y(0)}
+          y2={chart.y(0)}
+          strokeDasharray="4 4"
+          className="stroke-gray-300"
+        />
+
+        {/* MAE axis */}
+        {chart.maeTicks.map((value, index) => (
+          <text
+            key={`mae-tick-${index}`}
+            x={chart.x(value)}
+            y={PAD_TOP + PLOT_HEIGHT + 14}
+            textAnchor={index === 0 ? 'start' : index === chart.maeTicks.length - 1 ? 'end' : 'middle'}
+            className="fill-gray-500 text-[10px]"
+          >
+            {value.toFixed(1)}%
+          </text>
+        ))}
+        <text
+          x={PAD_LEFT + PLOT_WIDTH / 2}
+          y={HEIGHT - 4}
+          textAnchor="middle"
+          className="fill-gray-500 text-[10px]"
+        >
+          Maximum adverse excursion (% of entry)
+        </text>
+
+        {excursions.map(excursion => (
+          <circle
+            key={excursion.tradeId}
+            cx={chart.x(excursion.maePercent)}
+            cy={chart.y(excursion.pnl)}
+            r={hovered?.tradeId === excursion.tradeId ? 6 : 4}
+            fillOpacity={0.75}
+            strokeWidth={1}
+            className={`${excursion.pnl >= 0 ? 'fill-green-500 stroke-green-700' : 'fill-red-500 stroke-red-700'} ${onSelectTrade ? 'cursor-pointer' : ''}`}
+            onMouseEnter={() => setHovered(excursion)}
+            onMouseLeave={() => setHovered(null)}
+            onClick={() => onSelectTrade?.(excursion.tradeId)}
+          />
+        ))}
+      </svg>
+
+      {hovered && (
+        <div
+          className="absolute pointer-events-none bg-white border border-gray-200 rounded-md shadow-sm px-3 py-2 text-xs"
+          style={{
+            left: `${(chart.x(hovered.maePercent) / WIDTH) * 100}%`,
+            top: 0,
+            transform: chart.x(hovered.maePercent) > WIDTH / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)'
+          }}
+        >
+          <div className="font-medium">{hovered.ticker} • {hovered.holdingDays} day(s)</div>
+          <div className={hovered.pnl >= 0 ? 'text-green-600' : 'text-red-600'}>P&amp;L {format(hovered.pnl)}</div>
+          <div className="text-gray-600">MAE {hovered.maePercent.toFixed(1)}% • MFE {hovered.mfePercent.toFixed(1)}%</div>
+          {hovered.capturedPercent !== undefined && (
+            <div className="text-gray-600">Captured {hovered.capturedPercent.toFixed(0)}% of MFE</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
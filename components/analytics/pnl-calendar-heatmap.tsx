@@ -0,0 +1,210 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { DailyPnL, TradeAnalytics } from '@/lib/analytics/trade-analytics';
+
+interface PnLCalendarHeatmapProps {
+  daily: DailyPnL[];
+  currency: string;
+  onSelectDay?: (date: string) => void;
+}
+
+type CalendarView = 'year' | 'month';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Listed in full so Tailwind keeps every shade
+const PROFIT_SHADES = ['bg-green-100', 'bg-green-300', 'bg-green-500', 'bg-green-700'];
+const LOSS_SHADES = ['bg-red-100', 'bg-red-300', 'bg-red-500', 'bg-red-700'];
+
+function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function shadeFor(pnl: number, maxAbs: number): string {
+  if (pnl === 0 || maxAbs === 0) {
+    return 'bg-gray-200';
+  }
+  const level = Math.min(3, Math.floor((Math.abs(pnl) / maxAbs) * 4));
+  return pnl > 0 ? PROFIT_SHADES[level] : LOSS_SHADES[level];
+}
+
+export function PnLCalendarHeatmap({ daily, currency, onSelectDay }: PnLCalendarHeatmapProps) {
+  const byDate = useMemo(() => new Map(daily.map(day => [day.date, day])), [daily]);
+
+  // Open on the most recent month with activity
+  const latest = daily.length > 0 ? daily[daily.length - 1].date : new Date().toISOString().split('T')[0];
+  const [view, setView] = useState<CalendarView>('year');
+  const [year, setYear] = useState(parseInt(latest.substring(0, 4)));
+  const [month, setMonth] = useState(parseInt(latest.substring(5, 7)) - 1);
+
+  const format = (amount: number) => TradeAnalytics.formatCurrency(amount, currency);
+
+  const yearDays = daily.filter(day => day.date.startsWith(`${year}-`));
+  const maxAbsDay = Math.max(0, ...yearDays.map(day => Math.abs(day.pnl)));
+
+  const monthTotals = MONTH_NAMES.map((_, index) => {
+    const prefix = toDateKey(year, index, 1).substring(0, 7);
+    const days = yearDays.filter(day => day.date.startsWith(prefix));
+    return {
+      pnl: days.reduce((sum, day) => sum + day.pnl, 0),
+      trades: days.reduce((sum, day) => sum + day.trades, 0)
+    };
+  });
+  const maxAbsMonth = Math.max(0, ...monthTotals.map(total => Math.abs(total.pnl)));
+  const yearTotal = monthTotals.reduce((sum, total) => sum + total.pnl, 0);
+
+  const shiftMonth = (delta: number) => {
+    const next = new Date(Date.UTC(year, month + delta, 1));
+    setYear(next.getUTCFullYear());
+    setMonth(next.getUTCMonth());
+  };
+
+  const openMonth = (index: number) => {
+    setMonth(index);
+    setView('month');
+  };
+
+  const dayTitle = (date: string, day?: DailyPnL) =>
+    day ? `${date}: ${format(day.pnl)} (${day.trades} trade${day.trades === 1 ? '' : 's'})` : `${date}: no trades`;
+
+  const renderDayCell = (date: string, className: string) => {
+    const day = byDate.get(date);
+    return (
+      <button
+        key={date}
+        type="button"
+        title={dayTitle(date, day)}
+        disabled={!day}
+        onClick={() => onSelectDay?.(date)}
+        className={`${className} ${day ? `${shadeFor(day.pnl, maxAbsDay)} hover:ring-2 hover:ring-blue-400` : 'bg-gray-100'}`}
+      />
+    );
+  };
+
+  // Year grid: one column per week, Sunday at the top
+  const renderYear = () => {
+    const firstWeekday = new Date(Date.UTC(year, 0, 1)).getUTCDay();
+    const daysInYear = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / (24 * 60 * 60 * 1000);
+    const cells: React.ReactNode[] = [];
+
+    for (let i = 0; i < firstWeekday; i++) {
+      cells.push(<div key={`pad-${i}`} className="w-3 h-3" />);
+    }
+    for (let i = 0; i < daysInYear; i++) {
+      const date = new Date(Date.UTC(year, 0, 1 + i));
+      cells.push(renderDayCell(
+        toDateKey(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+        'w-3 h-3 rounded-sm'
+      ));
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="overflow-x-auto">
+          <div className="grid grid-rows-7 grid-flow-col gap-[3px] w-max">
+            {cells}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-6 md:grid-cols-12 gap-2">
+          {monthTotals.map((total, index) => (
+            <button
+              key={MONTH_NAMES[index]}
+              type="button"
+              onClick={() => openMonth(index)}
+              className={`rounded-md p-2 text-left hover:ring-2 hover:ring-blue-400 ${
+                total.trades > 0 ? shadeFor(total.pnl, maxAbsMonth) : 'bg-gray-100'
+              }`}
+            >
+              <div className="text-xs font-medium text-gray-900">{MONTH_NAMES[index]}</div>
+              <div className="text-xs text-gray-900">{total.trades > 0 ? format(total.pnl) : '—'}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Month grid: a regular calendar with the day's P&L in each cell
+  const renderMonth = () => {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const monthDays = daily.filter(day => day.date.startsWith(toDateKey(year, month, 1).substring(0, 7)));
+    const maxAbs = Math.max(0, ...monthDays.map(day => Math.abs(day.pnl)));
+
+    return (
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAY_NAMES.map(name => (
+          <div key={name} className="text-xs font-medium text-gray-500 text-center py-1">{name}</div>
+        ))}
+        {Array.from({ length: firstWeekday }, (_, i) => <div key={`pad-${i}`} />)}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const date = toDateKey(year, month, i + 1);
+          const day = byDate.get(date);
+          return (
+            <button
+              key={date}
+              type="button"
+              title={dayTitle(date, day)}
+              disabled={!day}
+              onClick={() => onSelectDay?.(date)}
+              className={`h-16 rounded-md p-1 text-left ${
+                day ? `${shadeFor(day.pnl, maxAbs)} hover:ring-2 hover:ring-blue-400` : 'bg-gray-50'
+              }`}
+            >
+              <div className="text-xs text-gray-600">{i + 1}</div>
+              {day && (
+                <div className="text-xs font-medium text-gray-900 truncate">{format(day.pnl)}</div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => view === 'year' ? setYear(year - 1) : shiftMonth(-1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium w-28 text-center">
+            {view === 'year' ? year : `${MONTH_NAMES[month]} ${year}`}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => view === 'year' ? setYear(year + 1) : shiftMonth(1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {view === 'year' && (
+            <span className={`text-sm font-medium ${yearTotal > 0 ? 'text-green-600' : yearTotal < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+              {format(yearTotal)}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+          <Button variant={view === 'year' ? 'default' : 'ghost'} size="sm" onClick={() => setView('year')}>
+            Year
+          </Button>
+          <Button variant={view === 'month' ? 'default' : 'ghost'} size="sm" onClick={() => setView('month')}>
+            Month
+          </Button>
+        </div>
+      </div>
+
+      {view === 'year' ? renderYear() : renderMonth()}
+    </div>
+  );
+}
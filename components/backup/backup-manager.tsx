@@ -0,0 +1,201 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Archive, Eye, Loader2, RotateCcw, X } from 'lucide-react';
+import { BackupGroupId, BackupInfo, BackupPreview, BackupReason } from '@/types/backup';
+import { FileUtils } from '@/lib/file-system/file-utils';
+
+const REASON_LABELS: Record<BackupReason, string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'pre-restore': 'Before restore'
+};
+
+// App settings are left out of a restore unless asked for, since they are usually newer
+const DEFAULT_RESTORE_GROUPS: BackupGroupId[] = ['trades', 'data', 'presets', 'tradeFolders'];
+
+export function BackupManager() {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [selectedGroups, setSelectedGroups] = useState<BackupGroupId[]>([]);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const loadBackups = useCallback(async () => {
+    const result = await window.electronAPI.backup.list();
+    if (!result.success) {
+      console.error('Error loading backups:', result.error);
+    }
+    setBackups(result.data || []);
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.backup.create();
+      if (!result.success) {
+        setError(result.error || 'Failed to create backup');
+      }
+      await loadBackups();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreview = async (fileName: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.backup.preview(fileName);
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to read backup');
+        return;
+      }
+      setPreview(result.data);
+      setSelectedGroups(result.data.groups.map(group => group.id).filter(id => DEFAULT_RESTORE_GROUPS.includes(id)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleGroup = (id: BackupGroupId, checked: boolean) => {
+    setSelectedGroups(current => checked ? [...current, id] : current.filter(group => group !== id));
+  };
+
+  const handleRestore = async () => {
+    if (!preview) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.backup.restore(preview.fileName, selectedGroups);
+      if (!result.success || !result.data) {
+        setError(result.error || 'Restore failed');
+        return;
+      }
+      alert(
+        `Restored ${result.data.restored} file(s). ` +
+        `The previous state was saved as ${result.data.safetyBackup || 'a pre-restore backup'}.`
+      );
+      // Services cache trades and settings, so start over from the restored files
+      window.location.reload();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Compressed archives in the data directory&apos;s backups folder
+        </p>
+        <Button onClick={handleCreate} variant="outline" disabled={busy}>
+          {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Archive className="w-4 h-4 mr-2" />}
+          Back Up Now
+        </Button>
+      </div>
+
+      {error && (
+        <Alert>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {backups.length === 0 ? (
+        <p className="text-sm text-gray-600">No backups yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {backups.map(backup => (
+            <div key={backup.fileName} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">{new Date(backup.createdAt).toLocaleString()}</span>
+                <Badge variant="outline">{REASON_LABELS[backup.reason] || backup.reason}</Badge>
+                <span className="text-sm text-gray-500">{FileUtils.formatFileSize(backup.size)}</span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handlePreview(backup.fileName)} disabled={busy}>
+                <Eye className="h-4 w-4 mr-1" />
+                Preview
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        <div className="p-4 border rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="font-medium">
+              {preview.manifest ? new Date(preview.manifest.createdAt).toLocaleString() : preview.fileName}
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setPreview(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="text-sm text-gray-600">
+            {preview.tradeCount !== null ? `${preview.tradeCount} trade(s)` : 'No trades.csv'}
+            {preview.accountCount !== null && ` • ${preview.accountCount} account(s)`}
+            {preview.manifest && ` • app version ${preview.manifest.appVersion}`}
+            {preview.manifest && !preview.manifest.includesTradeFolders && ' • trade folders not included'}
+          </div>
+
+          <div className="space-y-2">
+            {preview.groups.map(group => (
+              <label key={group.id} className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  checked={selectedGroups.includes(group.id)}
+                  onChange={(e) => toggleGroup(group.id, e.target.checked)}
+                  className="rounded mt-1"
+                />
+                <div>
+                  <div className="text-sm">{group.label}</div>
+                  <div className="text-xs text-gray-500">
+                    {group.files.length} file(s), {FileUtils.formatFileSize(group.size)}
+                    {group.files.length <= 5 && `: ${group.files.join(', ')}`}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Restoring overwrites the selected files and keeps anything not in the backup.
+            The current data is backed up first.
+          </p>
+
+          <Button
+            onClick={() => setConfirmOpen(true)}
+            disabled={busy || selectedGroups.length === 0}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restore Selected
+          </Button>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        onConfirm={handleRestore}
+        title="Restore backup"
+        description="The selected parts of your journal will be replaced with the contents of this backup. The app reloads afterwards."
+        confirmText="Restore"
+        variant="destructive"
+      />
+    </div>
+  );
+}
@@ -1,27 +1,143 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Upload, FileText, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Upload, FileText, CheckCircle, AlertCircle, X, Save, Plus, Trash2 } from 'lucide-react';
 import { CSVParser } from '@/lib/parsers/csv-parser';
 import { CSVMapper } from '@/lib/csv-mapper/csv-mapper';
-import { CSVData, CSVMapping, CSVImportResult } from '@/types/csv';
+import { CSVData, CSVFormatDetection, CSVMapping, CSVMappingPreset, CSVImportMode, CSVImportResult, ExecutionLogMapping, FingerprintField, ImportGroupAction, ImportRowStatus, LotMatchingMethod } from '@/types/csv';
 import { Trade } from '@/types/trade';
+import { Account } from '@/types/account';
 import { LocalStorage } from '@/lib/file-system/storage';
 import { FileUtils } from '@/lib/file-system/file-utils';
+import { formatCurrency } from '@/lib/utils';
+import { useAccounts } from '@/components/account/account-provider';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+import { CSVPresetService } from '@/lib/services/csv-preset-service';
+import { SUPPORTED_ENCODINGS } from '@/lib/parsers/text-encoding';
+import { BUILT_IN_PRESETS } from '@/lib/csv-mapper/broker-presets';
+import { DEFAULT_FINGERPRINT_STRATEGY, FINGERPRINT_FIELD_LABELS, ImportFingerprint } from '@/lib/csv-mapper/import-fingerprint';
+import { TRANSFORM_FUNCTIONS } from '@/lib/csv-mapper/transform-expression';
+import { useTradeData } from '@/lib/hooks/use-trade-data';
+
+// Imported trades go to the chosen account and default to its currency
+function withAccount(target: CSVMapping, accounts: Account[], accountId: string | null): CSVMapping {
+  const account = accounts.find(a => a.id === accountId);
+  if (!account) {
+    return { ...target, accountId: undefined };
+  }
+  return { ...target, accountId: account.id, currency: target.currency || account.currency };
+}
+
+// UTF-8 with and without a BOM read the same
+const sameEncoding = (a: string, b: string) =>
+  a.toLowerCase().replace(/-bom$/, '') === b.toLowerCase().replace(/-bom$/, '');
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)'
+};
+
+const THOUSANDS_LABELS: Record<string, string> = {
+  ',': 'Comma (1,234)',
+  '.': 'Period (1.234)',
+  ' ': 'Space (1 234)',
+  "'": "Apostrophe (1'234)",
+  '__none__': 'None (1234)'
+};
+
+// New trades are added, unchanged re-imports skipped and changed ones updated in place
+const DEFAULT_ACTIONS: Record<ImportRowStatus, ImportGroupAction> = {
+  new: 'add',
+  duplicate: 'skip',
+  changed: 'update'
+};
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  changed: 'Changed'
+};
+
+const ACTION_LABELS: Record<ImportGroupAction, string> = {
+  add: 'Add as new trades',
+  update: 'Update existing trades',
+  skip: 'Skip'
+};
+
+const STATUS_ACTIONS: Record<ImportRowStatus, ImportGroupAction[]> = {
+  new: ['add', 'skip'],
+  duplicate: ['skip', 'add'],
+  changed: ['update', 'skip', 'add']
+};
+
+const STATUS_BADGE_VARIANTS: Record<ImportRowStatus, 'default' | 'secondary' | 'outline'> = {
+  new: 'default',
+  duplicate: 'secondary',
+  changed: 'outline'
+};
+
+// The fields a broker file owns; a re-import leaves the journal's notes, tags, stop and setup alone
+function importedFields(trade: Trade): Partial<Trade> {
+  return {
+    direction: trade.direction,
+    currency: trade.currency,
+    buyDate: trade.buyDate,
+    buyPrice: trade.buyPrice,
+    quantity: trade.quantity,
+    sellDate: trade.sellDate,
+    sellPrice: trade.sellPrice,
+    commission: trade.commission,
+    entryFee: trade.entryFee,
+    exitFee: trade.exitFee,
+    taxWithholding: trade.taxWithholding,
+    executions: trade.executions,
+    importFingerprint: trade.importFingerprint
+  };
+}
 
 export function CSVImporter() {
+  const { accounts, activeAccountId } = useAccounts();
+  const { config } = useAppConfig();
+  const { trades: existingTrades, importTrades } = useTradeData();
   const [file, setFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<CSVData | null>(null);
   const [mapping, setMapping] = useState<CSVMapping | null>(null);
   const [importResult, setImportResult] = useState<CSVImportResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'result'>('upload');
+  const [presets, setPresets] = useState<CSVMappingPreset[]>(BUILT_IN_PRESETS);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [detectedPresetId, setDetectedPresetId] = useState<string | null>(null);
+  const [detected, setDetected] = useState<CSVFormatDetection | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [actions, setActions] = useState<Record<ImportRowStatus, ImportGroupAction>>(DEFAULT_ACTIONS);
+  const [importSummary, setImportSummary] = useState<{ added: number; updated: number; skipped: number } | null>(null);
+
+  const dataDirectory = config?.dataDirectory;
+
+  useEffect(() => {
+    if (!dataDirectory) {
+      return;
+    }
+
+    CSVPresetService.loadPresets({ dataDirectory }).then(result => {
+      if (!result.success) {
+        console.error('Error loading import presets:', result.error);
+      }
+      if (result.data) {
+        setPresets(result.data);
+      }
+    });
+  }, [dataDirectory]);
 
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -38,11 +154,23 @@ export function CSVImporter() {
 
     try {
       const data = await CSVParser.parseFile(selectedFile);
+      const preset = CSVMapper.detectPreset(data.headers, presets);
       setCsvData(data);
-      
-      // Create default mapping
-      const defaultMapping = CSVMapper.createDefaultMapping();
-      setMapping(defaultMapping);
+      setDetected(data.detection || null);
+      setPresetId(preset?.id || null);
+      setDetectedPresetId(preset?.id || null);
+
+      // Start from the broker preset matching the header row; otherwise the default mapping,
+      // switching to execution-log mode for buy/sell action logs
+      const initialMapping = preset
+        ? CSVMapper.createMappingFromPreset(preset, data.headers)
+        : {
+          ...(CSVMapper.isExecutionLog(data.headers)
+            ? CSVMapper.createExecutionLogMapping()
+            : CSVMapper.createDefaultMapping()),
+          numberFormat: data.detection?.numberFormat
+        };
+      setMapping(withAccount(initialMapping, accounts, activeAccountId));
       setStep('mapping');
     } catch (error) {
       console.error('Error parsing CSV:', error);
@@ -50,7 +178,100 @@ export function CSVImporter() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [activeAccountId, accounts, presets]);
+
+  const handlePresetChange = useCallback(async (value: string) => {
+    if (!csvData || !file) return;
+
+    const preset = presets.find(candidate => candidate.id === value);
+    if (!preset) {
+      setPresetId(null);
+      const defaultMapping = CSVMapper.isExecutionLog(csvData.headers)
+        ? CSVMapper.createExecutionLogMapping()
+        : CSVMapper.createDefaultMapping();
+      setMapping(withAccount(defaultMapping, accounts, mapping?.accountId || null));
+      return;
+    }
+
+    // Re-read the file when the broker exports in a different encoding than was detected
+    const presetEncoding = preset.mapping.encoding;
+    const currentEncoding = csvData.detection?.encoding || 'UTF-8';
+    setLoading(true);
+    try {
+      let data = csvData;
+      if (presetEncoding && !sameEncoding(presetEncoding, currentEncoding)) {
+        data = await CSVParser.parseFile(file, { encoding: presetEncoding, delimiter: csvData.detection?.delimiter });
+        setCsvData(data);
+      }
+
+      setPresetId(preset.id);
+      setMapping(withAccount(CSVMapper.createMappingFromPreset(preset, data.headers), accounts, mapping?.accountId || null));
+    } catch (error) {
+      console.error('Error re-reading CSV:', error);
+      alert(`Could not read the file as ${presetEncoding}.`);
+    } finally {
+      setLoading(false);
+    }
+  }, [csvData, file, presets, accounts, mapping]);
+
+  const handleFormatChange = useCallback(async (field: 'encoding' | 'delimiter', value: string) => {
+    if (!csvData || !file || !mapping) return;
+
+    setLoading(true);
+    try {
+      const data = await CSVParser.parseFile(file, {
+        encoding: csvData.detection?.encoding,
+        delimiter: csvData.detection?.delimiter,
+        [field]: value
+      });
+      setCsvData(data);
+
+      // Headers can change with the encoding or delimiter; a preset is re-resolved against them
+      const preset = presets.find(candidate => candidate.id === presetId);
+      if (preset) {
+        setMapping(withAccount(CSVMapper.createMappingFromPreset(preset, data.headers), accounts, mapping.accountId || null));
+      } else {
+        setMapping({ ...mapping, numberFormat: data.detection?.numberFormat });
+      }
+    } catch (error) {
+      console.error('Error re-reading CSV:', error);
+      alert(`Could not read the file with that ${field}.`);
+    } finally {
+      setLoading(false);
+    }
+  }, [csvData, file, mapping, presets, presetId, accounts]);
+
+  const handleNumberFormatChange = useCallback((field: 'decimalSeparator' | 'thousandsSeparator', value: string) => {
+    if (!mapping) return;
+
+    setMapping({
+      ...mapping,
+      numberFormat: {
+        ...mapping.numberFormat,
+        [field]: value === '__none__' ? '' : value
+      }
+    });
+  }, [mapping]);
+
+  const handleSavePreset = useCallback(async () => {
+    if (!mapping || !dataDirectory || !presetName.trim()) return;
+
+    const encoding = csvData?.detection?.encoding || 'UTF-8';
+    const result = await CSVPresetService.savePreset(
+      { dataDirectory },
+      { ...mapping, encoding: mapping.encoding || (sameEncoding(encoding, 'UTF-8') ? undefined : encoding) },
+      presetName
+    );
+    if (!result.success || !result.data) {
+      alert(result.error || 'Failed to save preset');
+      return;
+    }
+
+    const saved = result.data;
+    setPresets(current => [saved, ...current.filter(preset => preset.id !== saved.id)]);
+    setPresetId(saved.id);
+    setPresetName('');
+  }, [mapping, dataDirectory, presetName, csvData]);
 
   const handleMappingChange = useCallback((field: string, value: string) => {
     if (!mapping) return;
@@ -64,14 +285,92 @@ export function CSVImporter() {
     });
   }, [mapping]);
 
+  const handleExecutionLogChange = useCallback((field: keyof ExecutionLogMapping, value: string | string[]) => {
+    if (!mapping || !mapping.executionLog) return;
+
+    setMapping({
+      ...mapping,
+      executionLog: {
+        ...mapping.executionLog,
+        [field]: value
+      }
+    });
+  }, [mapping]);
+
+  const handleImportModeChange = useCallback((mode: CSVImportMode) => {
+    const nextMapping = mode === 'execution-log'
+      ? CSVMapper.createExecutionLogMapping()
+      : CSVMapper.createDefaultMapping();
+    setMapping(withAccount({ ...nextMapping, computedColumns: mapping?.computedColumns }, accounts, mapping?.accountId || null));
+    setPresetId(null);
+  }, [mapping, accounts]);
+
+  const handleFingerprintFieldToggle = useCallback((field: FingerprintField, checked: boolean) => {
+    if (!mapping) return;
+
+    const strategy = mapping.fingerprint || DEFAULT_FINGERPRINT_STRATEGY;
+    const fields = (Object.keys(FINGERPRINT_FIELD_LABELS) as FingerprintField[]).filter(candidate =>
+      candidate === field ? checked : strategy.fields.includes(candidate)
+    );
+    setMapping({ ...mapping, fingerprint: { ...strategy, fields } });
+  }, [mapping]);
+
+  const handleComputedColumnChange = useCallback((index: number, field: 'name' | 'expression', value: string) => {
+    if (!mapping) return;
+
+    setMapping({
+      ...mapping,
+      computedColumns: (mapping.computedColumns || []).map((column, i) => i === index ? { ...column, [field]: value } : column)
+    });
+  }, [mapping]);
+
+  const handleAddComputedColumn = useCallback(() => {
+    if (!mapping) return;
+
+    const computedColumns = mapping.computedColumns || [];
+    setMapping({
+      ...mapping,
+      computedColumns: [...computedColumns, { name: `Computed ${computedColumns.length + 1}`, expression: '' }]
+    });
+  }, [mapping]);
+
+  const handleRemoveComputedColumn = useCallback((index: number) => {
+    if (!mapping) return;
+
+    setMapping({
+      ...mapping,
+      computedColumns: (mapping.computedColumns || []).filter((_, i) => i !== index)
+    });
+  }, [mapping]);
+
+  const handleExecutionIdColumnChange = useCallback((value: string) => {
+    if (!mapping) return;
+
+    const strategy = mapping.fingerprint || DEFAULT_FINGERPRINT_STRATEGY;
+    setMapping({
+      ...mapping,
+      fingerprint: { ...strategy, executionIdColumn: value === '__none__' ? undefined : value }
+    });
+  }, [mapping]);
+
+  const parseActionList = (value: string): string[] =>
+    value.split(',').map(action => action.trim()).filter(action => action.length > 0);
+
   const handlePreview = useCallback(() => {
     if (!csvData || !mapping) return;
     
+    const validationErrors = CSVMapper.validateMapping(mapping, csvData.headers);
+    if (validationErrors.length > 0) {
+      alert(validationErrors.join('\n'));
+      return;
+    }
+
     setLoading(true);
     
     try {
       const result = CSVMapper.mapCSVToTrades(csvData, mapping);
       setImportResult(result);
+      setActions(DEFAULT_ACTIONS);
       setStep('preview');
     } catch (error) {
       console.error('Error mapping CSV:', error);
@@ -81,22 +380,49 @@ export function CSVImporter() {
     }
   }, [csvData, mapping]);
 
-  const handleImport = useCallback(() => {
+  // Each imported trade sorted against the journal; recomputed as the journal loads
+  const matches = useMemo(
+    () => importResult ? ImportFingerprint.classify(importResult.trades, existingTrades, mapping?.fingerprint) : [],
+    [importResult, existingTrades, mapping]
+  );
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, changed: 0 };
+    matches.forEach(match => counts[match.status]++);
+    return counts;
+  }, [matches]);
+
+  const plannedCount = matches.filter(match => actions[match.status] !== 'skip').length;
+
+  const handleImport = useCallback(async () => {
     if (!importResult) return;
     
     setLoading(true);
     
     try {
-      // Save trades to localStorage
-      const existingTrades = LocalStorage.loadTrades();
-      const allTrades = [...existingTrades, ...importResult.trades];
-      LocalStorage.saveTrades(allTrades);
+      const newTrades: Trade[] = [];
+      const updates: { tradeId: string; updates: Partial<Trade> }[] = [];
+      for (const match of matches) {
+        const action = actions[match.status];
+        if (action === 'add') {
+          newTrades.push(match.trade);
+        } else if (action === 'update' && match.existing) {
+          updates.push({ tradeId: match.existing.id, updates: importedFields(match.trade) });
+        }
+      }
+
+      const result = await importTrades(newTrades, updates);
+      if (!result) {
+        alert('Error importing trades. Please try again.');
+        return;
+      }
       
-      // Save mapping for future use
+      // Save mapping, including its fingerprint strategy, for future imports of the same file
       if (mapping) {
         LocalStorage.saveCSVMapping(mapping);
       }
       
+      setImportSummary({ ...result, skipped: matches.length - result.added - result.updated });
       setStep('result');
     } catch (error) {
       console.error('Error importing trades:', error);
@@ -104,16 +430,56 @@ export function CSVImporter() {
     } finally {
       setLoading(false);
     }
-  }, [importResult, mapping]);
+  }, [importResult, importTrades, matches, actions, mapping]);
 
   const handleReset = useCallback(() => {
     setFile(null);
     setCsvData(null);
     setMapping(null);
     setImportResult(null);
+    setImportSummary(null);
+    setActions(DEFAULT_ACTIONS);
+    setPresetId(null);
+    setDetectedPresetId(null);
+    setDetected(null);
     setStep('upload');
   }, []);
 
+  const isExecutionLog = mapping?.importMode === 'execution-log';
+
+  // File columns followed by computed ones, for the column pickers
+  const columns = useMemo(
+    () => [...(csvData?.headers || []), ...(mapping?.computedColumns || []).map(column => column.name).filter(name => name.trim())],
+    [csvData, mapping]
+  );
+
+  // Each computed column's validation errors, or its values for the first rows of the file
+  const computedPreview = useMemo(() => {
+    if (!csvData || !mapping?.computedColumns) {
+      return [];
+    }
+
+    return mapping.computedColumns.map((column, index) => {
+      const upTo = { ...mapping, computedColumns: mapping.computedColumns!.slice(0, index + 1) };
+      const earlier = upTo.computedColumns.slice(0, index).map(previous => previous.name.trim());
+      const errors = CSVMapper.validateComputedColumns({ ...mapping, computedColumns: [column] }, [...csvData.headers, ...earlier]);
+      if (errors.length > 0) {
+        return { errors, values: [] };
+      }
+
+      return {
+        errors: [],
+        values: csvData.rows.slice(0, 3).map(row => {
+          try {
+            return { value: String(CSVMapper.applyComputedColumns(row, upTo)[column.name] ?? '') };
+          } catch (error) {
+            return { error: error instanceof Error ? error.message : 'Invalid expression' };
+          }
+        })
+      };
+    });
+  }, [csvData, mapping]);
+
   return (
     <div className="space-y-6">
       {step === 'upload' && (
@@ -169,25 +535,122 @@ export function CSVImporter() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="buy-date-mapping">Buy Date Column</Label>
-                  <Select
-                    value={mapping.columnMapping.buyDate}
-                    onValueChange={(value) => handleMappingChange('buyDate', value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select buy date column" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {csvData.headers.map((header) => (
-                        <SelectItem key={header} value={header}>
-                          {header}
-                        </SelectItem>
+              <div>
+                <Label htmlFor="broker-preset">Broker Preset</Label>
+                <Select
+                  value={presetId || '__custom__'}
+                  onValueChange={handlePresetChange}
+                  disabled={loading}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__custom__">Custom mapping</SelectItem>
+                    {presets.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name}{preset.region ? ` [${preset.region}]` : ''}{preset.source === 'user' ? ' (saved)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {detectedPresetId && detectedPresetId === presetId
+                    ? 'Detected from the header row.'
+                    : 'No preset matched the header row; pick one or map the columns below.'}
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="import-mode">Import Mode</Label>
+                <Select
+                  value={mapping.importMode || 'round-trip'}
+                  onValueChange={(value: CSVImportMode) => handleImportModeChange(value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="round-trip">Round trips (one row per trade)</SelectItem>
+                    <SelectItem value="execution-log">Execution log (one row per buy/sell)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="pt-4 border-t">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium">Computed Columns</h4>
+                  <Button variant="outline" size="sm" onClick={handleAddComputedColumn}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Column
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  Derive a column from others, then map it below like any other. Refer to columns as [Column Name], e.g.{' '}
+                  <code>split([Security], &apos; &apos;, 0)</code>, <code>[Total] / [Price]</code>,{' '}
+                  <code>[Date] &amp; &apos; &apos; &amp; [Time]</code> or <code>map([売買], &apos;買&apos;, &apos;buy&apos;, &apos;売&apos;, &apos;sell&apos;)</code>.
+                  Functions: {Object.values(TRANSFORM_FUNCTIONS).map(fn => fn.description.split('(')[0]).join(', ')}.
+                </p>
+                <div className="space-y-3">
+                  {(mapping.computedColumns || []).map((column, index) => (
+                    <div key={index} className="space-y-1">
+                      <div className="flex space-x-2">
+                        <Input
+                          aria-label="Computed column name"
+                          className="w-48"
+                          value={column.name}
+                          onChange={(e) => handleComputedColumnChange(index, 'name', e.target.value)}
+                          placeholder="Column name"
+                        />
+                        <Input
+                          aria-label="Expression"
+                          className="font-mono"
+                          value={column.expression}
+                          onChange={(e) => handleComputedColumnChange(index, 'expression', e.target.value)}
+                          placeholder="split([Security], ' ', 0)"
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveComputedColumn(index)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      {computedPreview[index]?.errors.map((error, i) => (
+                        <p key={i} className="text-xs text-red-600">{error}</p>
                       ))}
-                    </SelectContent>
-                  </Select>
+                      {computedPreview[index]?.values.length > 0 && (
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          {computedPreview[index].values.map((result, i) => (
+                            <span key={i} className={result.error ? 'text-red-600' : 'font-mono bg-gray-100 px-1.5 py-0.5 rounded'}>
+                              Row {i + 1}: {result.error ?? (result.value || '(empty)')}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
                 </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {!isExecutionLog && (
+                  <div>
+                    <Label htmlFor="buy-date-mapping">Buy Date Column</Label>
+                    <Select
+                      value={mapping.columnMapping.buyDate}
+                      onValueChange={(value) => handleMappingChange('buyDate', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select buy date column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {columns.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
 
                 <div>
                   <Label htmlFor="ticker-mapping">Ticker Column</Label>
@@ -199,7 +662,7 @@ export function CSVImporter() {
                       <SelectValue placeholder="Select ticker column" />
                     </SelectTrigger>
                     <SelectContent>
-                      {csvData.headers.map((header) => (
+                      {columns.map((header) => (
                         <SelectItem key={header} value={header}>
                           {header}
                         </SelectItem>
@@ -218,7 +681,7 @@ export function CSVImporter() {
                       <SelectValue placeholder="Select quantity column" />
                     </SelectTrigger>
                     <SelectContent>
-                      {csvData.headers.map((header) => (
+                      {columns.map((header) => (
                         <SelectItem key={header} value={header}>
                           {header}
                         </SelectItem>
@@ -227,17 +690,299 @@ export function CSVImporter() {
                   </Select>
                 </div>
 
+                {isExecutionLog && mapping.executionLog ? (
+                  <>
+                    <div>
+                      <Label htmlFor="action-mapping">Action Column</Label>
+                      <Select
+                        value={mapping.executionLog.actionColumn}
+                        onValueChange={(value) => handleExecutionLogChange('actionColumn', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select action column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="date-mapping">Execution Date Column</Label>
+                      <Select
+                        value={mapping.executionLog.dateColumn}
+                        onValueChange={(value) => handleExecutionLogChange('dateColumn', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select date column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="price-mapping">Price Column</Label>
+                      <Select
+                        value={mapping.executionLog.priceColumn}
+                        onValueChange={(value) => handleExecutionLogChange('priceColumn', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select price column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="fees-mapping">Fees Column (Optional)</Label>
+                      <Select
+                        value={mapping.executionLog.feesColumn || '__none__'}
+                        onValueChange={(value) => handleExecutionLogChange('feesColumn', value === '__none__' ? '' : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select fees column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">None (Optional)</SelectItem>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="buy-actions">Buy Action Values</Label>
+                      <Input
+                        id="buy-actions"
+                        value={mapping.executionLog.buyActions.join(', ')}
+                        onChange={(e) => handleExecutionLogChange('buyActions', parseActionList(e.target.value))}
+                        placeholder="buy, add"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="sell-actions">Sell Action Values</Label>
+                      <Input
+                        id="sell-actions"
+                        value={mapping.executionLog.sellActions.join(', ')}
+                        onChange={(e) => handleExecutionLogChange('sellActions', parseActionList(e.target.value))}
+                        placeholder="sell"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="short-actions">Short Action Values (Optional)</Label>
+                      <Input
+                        id="short-actions"
+                        value={(mapping.executionLog.shortActions || []).join(', ')}
+                        onChange={(e) => handleExecutionLogChange('shortActions', parseActionList(e.target.value))}
+                        placeholder="short, sell short"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="cover-actions">Cover Action Values (Optional)</Label>
+                      <Input
+                        id="cover-actions"
+                        value={(mapping.executionLog.coverActions || []).join(', ')}
+                        onChange={(e) => handleExecutionLogChange('coverActions', parseActionList(e.target.value))}
+                        placeholder="cover, buy to cover"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="lot-matching">Lot Matching</Label>
+                      <Select
+                        value={mapping.executionLog.lotMatching}
+                        onValueChange={(value: LotMatchingMethod) => handleExecutionLogChange('lotMatching', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="fifo">FIFO (first in, first out)</SelectItem>
+                          <SelectItem value="lifo">LIFO (last in, first out)</SelectItem>
+                          <SelectItem value="average">Average cost</SelectItem>
+                          <SelectItem value="position">Whole position (keep fills as legs)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <Label htmlFor="buy-price-mapping">Buy Price Column</Label>
+                      <Select
+                        value={mapping.columnMapping.buyPrice}
+                        onValueChange={(value) => handleMappingChange('buyPrice', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select buy price column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="sell-date-mapping">Sell Date Column (Optional)</Label>
+                      <Select
+                        value={mapping.columnMapping.sellDate}
+                        onValueChange={(value) => handleMappingChange('sellDate', value === '__none__' ? '' : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select sell date column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">None (Optional)</SelectItem>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="sell-price-mapping">Sell Price Column (Optional)</Label>
+                      <Select
+                        value={mapping.columnMapping.sellPrice}
+                        onValueChange={(value) => handleMappingChange('sellPrice', value === '__none__' ? '' : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select sell price column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">None (Optional)</SelectItem>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="direction-mapping">Direction Column (Optional)</Label>
+                      <Select
+                        value={mapping.columnMapping.direction || '__none__'}
+                        onValueChange={(value) => handleMappingChange('direction', value === '__none__' ? '' : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select direction column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">None (all long)</SelectItem>
+                          {columns.map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {([
+                      ['commission', 'Commission Column (Optional)'],
+                      ['entryFee', 'Entry Fee Column (Optional)'],
+                      ['exitFee', 'Exit Fee Column (Optional)'],
+                      ['tax', 'Tax Withholding Column (Optional)']
+                    ] as const).map(([field, label]) => (
+                      <div key={field}>
+                        <Label htmlFor={`${field}-mapping`}>{label}</Label>
+                        <Select
+                          value={mapping.columnMapping[field] || '__none__'}
+                          onValueChange={(value) => handleMappingChange(field, value === '__none__' ? '' : value)}
+                        >
+                          <SelectTrigger id={`${field}-mapping`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="__none__">None (Optional)</SelectItem>
+                            {columns.map((header) => (
+                              <SelectItem key={header} value={header}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+
+                    {mapping.columnMapping.direction && (
+                      <div>
+                        <Label htmlFor="short-values">Short Direction Values</Label>
+                        <Input
+                          id="short-values"
+                          value={(mapping.shortValues || []).join(', ')}
+                          onChange={(e) => setMapping({ ...mapping, shortValues: parseActionList(e.target.value) })}
+                          placeholder="short, sell short, 空売り"
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {accounts.length > 0 && (
+                  <div>
+                    <Label htmlFor="import-account">Account</Label>
+                    <Select
+                      value={mapping.accountId || '__none__'}
+                      onValueChange={(value) => setMapping(withAccount({ ...mapping, currency: undefined }, accounts, value === '__none__' ? null : value))}
+                    >
+                      <SelectTrigger id="import-account">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__none__">No account</SelectItem>
+                        {accounts.map(account => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name}{account.broker ? ` (${account.broker})` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div>
-                  <Label htmlFor="buy-price-mapping">Buy Price Column</Label>
+                  <Label htmlFor="currency-mapping">Currency Column (Optional)</Label>
                   <Select
-                    value={mapping.columnMapping.buyPrice}
-                    onValueChange={(value) => handleMappingChange('buyPrice', value)}
+                    value={mapping.columnMapping.currency || '__none__'}
+                    onValueChange={(value) => handleMappingChange('currency', value === '__none__' ? '' : value)}
                   >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select buy price column" />
+                    <SelectTrigger id="currency-mapping">
+                      <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {csvData.headers.map((header) => (
+                      <SelectItem value="__none__">None (use file currency)</SelectItem>
+                      {columns.map((header) => (
                         <SelectItem key={header} value={header}>
                           {header}
                         </SelectItem>
@@ -247,43 +992,154 @@ export function CSVImporter() {
                 </div>
 
                 <div>
-                  <Label htmlFor="sell-date-mapping">Sell Date Column (Optional)</Label>
-                  <Select
-                    value={mapping.columnMapping.sellDate}
-                    onValueChange={(value) => handleMappingChange('sellDate', value === '__none__' ? '' : value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select sell date column" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="__none__">None (Optional)</SelectItem>
-                      {csvData.headers.map((header) => (
-                        <SelectItem key={header} value={header}>
-                          {header}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="date-format">Date Format</Label>
+                  <Input
+                    id="date-format"
+                    value={mapping.dateFormat}
+                    onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value })}
+                    placeholder="yyyy-MM-dd"
+                  />
                 </div>
 
                 <div>
-                  <Label htmlFor="sell-price-mapping">Sell Price Column (Optional)</Label>
-                  <Select
-                    value={mapping.columnMapping.sellPrice}
-                    onValueChange={(value) => handleMappingChange('sellPrice', value === '__none__' ? '' : value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select sell price column" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="__none__">None (Optional)</SelectItem>
-                      {csvData.headers.map((header) => (
-                        <SelectItem key={header} value={header}>
-                          {header}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="file-currency">File Currency</Label>
+                  <Input
+                    id="file-currency"
+                    value={mapping.currency || ''}
+                    onChange={(e) => setMapping({ ...mapping, currency: e.target.value.trim().toUpperCase() || undefined })}
+                    placeholder="Base currency (e.g. JPY)"
+                    maxLength={3}
+                  />
+                </div>
+              </div>
+
+              {csvData.detection && (
+                <div className="pt-4 border-t">
+                  <h4 className="text-sm font-medium mb-2">File Format</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <Label htmlFor="file-encoding">Encoding</Label>
+                      <Select
+                        value={csvData.detection.encoding}
+                        onValueChange={(value) => handleFormatChange('encoding', value)}
+                        disabled={loading}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from(new Set([...SUPPORTED_ENCODINGS, csvData.detection.encoding])).map(encoding => (
+                            <SelectItem key={encoding} value={encoding}>
+                              {encoding}{encoding === detected?.encoding ? ' (detected)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="file-delimiter">Delimiter</Label>
+                      <Select
+                        value={csvData.detection.delimiter}
+                        onValueChange={(value) => handleFormatChange('delimiter', value)}
+                        disabled={loading}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(DELIMITER_LABELS).map(([delimiter, label]) => (
+                            <SelectItem key={delimiter} value={delimiter}>
+                              {label}{delimiter === detected?.delimiter ? ' (detected)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="decimal-separator">Decimal Separator</Label>
+                      <Select
+                        value={mapping.numberFormat?.decimalSeparator || '.'}
+                        onValueChange={(value) => handleNumberFormatChange('decimalSeparator', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {['.', ','].map(separator => (
+                            <SelectItem key={separator} value={separator}>
+                              {separator === '.' ? 'Period (1.5)' : 'Comma (1,5)'}
+                              {separator === csvData.detection?.numberFormat.decimalSeparator ? ' (detected)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="thousands-separator">Thousands Separator</Label>
+                      <Select
+                        value={mapping.numberFormat?.thousandsSeparator || '__none__'}
+                        onValueChange={(value) => handleNumberFormatChange('thousandsSeparator', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(THOUSANDS_LABELS).map(([separator, label]) => (
+                            <SelectItem key={separator} value={separator}>
+                              {label}
+                              {separator === (csvData.detection?.numberFormat.thousandsSeparator || '__none__') ? ' (detected)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="pt-4 border-t">
+                <h4 className="text-sm font-medium mb-2">Duplicate Detection</h4>
+                <p className="text-xs text-gray-500 mb-3">
+                  Trades already in your journal are recognised by these fields, or by the broker&apos;s execution ID when the file has one.
+                  The choice is saved with the mapping so importing the same file again doesn&apos;t create duplicates.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {(Object.entries(FINGERPRINT_FIELD_LABELS) as [FingerprintField, string][]).map(([field, label]) => (
+                      <label key={field} className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={(mapping.fingerprint || DEFAULT_FINGERPRINT_STRATEGY).fields.includes(field)}
+                          onChange={(e) => handleFingerprintFieldToggle(field, e.target.checked)}
+                          className="rounded"
+                        />
+                        <span className="text-sm">{label}</span>
+                      </label>
+                    ))}
+                  </div>
+
+                  <div>
+                    <Label htmlFor="execution-id-column">Execution ID Column (Optional)</Label>
+                    <Select
+                      value={mapping.fingerprint?.executionIdColumn || '__none__'}
+                      onValueChange={handleExecutionIdColumnChange}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__none__">None (Optional)</SelectItem>
+                        {columns.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               </div>
 
@@ -309,6 +1165,27 @@ export function CSVImporter() {
                 </Table>
               </div>
 
+              {dataDirectory && (
+                <div className="pt-4 border-t">
+                  <Label htmlFor="preset-name">Save Mapping as Preset</Label>
+                  <div className="flex space-x-2 mt-1">
+                    <Input
+                      id="preset-name"
+                      value={presetName}
+                      onChange={(e) => setPresetName(e.target.value)}
+                      placeholder="e.g. My Broker (Trade History)"
+                    />
+                    <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                      <Save className="w-4 h-4 mr-2" />
+                      Save Preset
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Saved to the import-presets folder in your data directory and suggested for files with the same columns.
+                  </p>
+                </div>
+              )}
+
               <div className="flex justify-between pt-4">
                 <Button variant="outline" onClick={handleReset}>
                   <X className="w-4 h-4 mr-2" />
@@ -329,6 +1206,12 @@ export function CSVImporter() {
             <CardTitle>Import Preview</CardTitle>
             <CardDescription>
               Review the parsed data before importing to your trade journal.
+              {csvData?.detection && mapping && (
+                <>
+                  {' '}Read as {csvData.detection.encoding}, {DELIMITER_LABELS[csvData.detection.delimiter]?.toLowerCase() || csvData.detection.delimiter} delimited,
+                  {' '}decimal {mapping.numberFormat?.decimalSeparator === ',' ? 'comma' : 'point'}.
+                </>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -358,45 +1241,97 @@ export function CSVImporter() {
                 )}
               </div>
 
-              {importResult.trades.length > 0 && (
+              {matches.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map(status => (
+                    <div key={status} className="space-y-1">
+                      <Label htmlFor={`action-${status}`}>
+                        {STATUS_LABELS[status]} ({statusCounts[status]})
+                      </Label>
+                      <Select
+                        value={actions[status]}
+                        onValueChange={(value: ImportGroupAction) => setActions({ ...actions, [status]: value })}
+                        disabled={statusCounts[status] === 0}
+                      >
+                        <SelectTrigger id={`action-${status}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STATUS_ACTIONS[status].map(action => (
+                            <SelectItem key={action} value={action}>
+                              {ACTION_LABELS[action]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {matches.length > 0 && (
                 <div>
                   <h4 className="text-sm font-medium mb-2">Preview of Imported Trades</h4>
                   <Table>
                     <TableHeader>
                       <TableRow>
+                        <TableHead>Import</TableHead>
                         <TableHead>Buy Date</TableHead>
                         <TableHead>Ticker</TableHead>
+                        <TableHead>Direction</TableHead>
+                        <TableHead>Currency</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Quantity</TableHead>
                         <TableHead>Buy Price</TableHead>
-                        <TableHead>P&L</TableHead>
+                        <TableHead>Net P&L</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {importResult.trades.slice(0, 5).map((trade) => (
+                      {matches.slice(0, 5).map(({ trade, status, changes }) => (
                         <TableRow key={trade.id}>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGE_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>
+                            {changes && (
+                              <div className="text-xs text-gray-500 mt-1">{changes.join(', ')}</div>
+                            )}
+                          </TableCell>
                           <TableCell>{trade.buyDate}</TableCell>
                           <TableCell>{trade.ticker}</TableCell>
+                          <TableCell>{trade.direction === 'short' ? 'SHORT' : 'LONG'}</TableCell>
+                          <TableCell>{trade.currency || 'Base'}</TableCell>
                           <TableCell className={trade.sellDate ? 'text-green-600' : 'text-blue-600'}>
                             {trade.sellDate ? 'CLOSED' : 'OPEN'}
                           </TableCell>
                           <TableCell>{trade.quantity}</TableCell>
-                          <TableCell>${trade.buyPrice.toFixed(2)}</TableCell>
+                          <TableCell>{formatCurrency(trade.buyPrice, trade.currency)}</TableCell>
                           <TableCell>
-                            {trade.pnl !== undefined ? `$${trade.pnl.toFixed(2)}` : '-'}
+                            {trade.pnl !== undefined ? formatCurrency(trade.pnl, trade.currency) : '-'}
                           </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
                   </Table>
-                  {importResult.trades.length > 5 && (
+                  {matches.length > 5 && (
                     <p className="text-xs text-gray-500 mt-2">
-                      ...and {importResult.trades.length - 5} more trades
+                      ...and {matches.length - 5} more trades
                     </p>
                   )}
                 </div>
               )}
 
+              {importResult.warnings.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2 text-yellow-600">Warnings</h4>
+                  <div className="bg-yellow-50 p-3 rounded-md">
+                    {importResult.warnings.slice(0, 5).map((warning, index) => (
+                      <div key={index} className="text-sm text-yellow-700">
+                        {warning}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {importResult.errors.length > 0 && (
                 <div>
                   <h4 className="text-sm font-medium mb-2 text-red-600">Errors</h4>
@@ -416,9 +1351,9 @@ export function CSVImporter() {
                 </Button>
                 <Button 
                   onClick={handleImport} 
-                  disabled={loading || importResult.trades.length === 0}
+                  disabled={loading || plannedCount === 0}
                 >
-                  {loading ? 'Importing...' : `Import ${importResult.trades.length} Trades`}
+                  {loading ? 'Importing...' : `Import ${plannedCount} Trades`}
                 </Button>
               </div>
             </div>
@@ -426,7 +1361,7 @@ export function CSVImporter() {
         </Card>
       )}
 
-      {step === 'result' && importResult && (
+      {step === 'result' && importSummary && (
         <Card>
           <CardHeader>
             <CardTitle>Import Complete</CardTitle>
@@ -439,9 +1374,14 @@ export function CSVImporter() {
               <div className="flex items-center space-x-2">
                 <CheckCircle className="w-6 h-6 text-green-500" />
                 <span className="text-lg font-medium">
-                  Successfully imported {importResult.imported} trades
+                  Added {importSummary.added} trades, updated {importSummary.updated}
                 </span>
               </div>
+              {importSummary.skipped > 0 && (
+                <p className="text-sm text-gray-500">
+                  {importSummary.skipped} trades already in your journal were skipped.
+                </p>
+              )}
               
               <div className="flex space-x-4">
                 <Button asChild>
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Redo2, Undo2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTradeHistory } from '@/lib/hooks/use-trade-history';
+import { HistoryStepResult } from '@/lib/services/trade-data-service';
+
+interface HistoryControlsProps {
+  className?: string;
+  shortcuts?: boolean; // Only one mounted instance should listen for Ctrl+Z
+}
+
+// Text fields keep their own undo, so shortcuts typed into them are left to the browser
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// A step that couldn't run (e.g. the trade was edited since) is explained rather than skipped silently
+async function runStep(step: () => Promise<HistoryStepResult>) {
+  const result = await step();
+  if (!result.success && result.label) {
+    alert(result.error);
+  }
+}
+
+export function HistoryControls({ className, shortcuts = true }: HistoryControlsProps) {
+  const { undoLabel, redoLabel, busy, undo, redo } = useTradeHistory();
+
+  useEffect(() => {
+    if (!shortcuts) {
+      return;
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+      if (!isUndo && !isRedo) {
+        return;
+      }
+
+      e.preventDefault();
+      if (busy) {
+        return;
+      }
+      if (isUndo && undoLabel) {
+        runStep(undo);
+      } else if (isRedo && redoLabel) {
+        runStep(redo);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, busy, undoLabel, redoLabel, undo, redo]);
+
+  return (
+    <div className={cn('flex items-center', className)}>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => runStep(undo)}
+        disabled={busy || !undoLabel}
+        title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => runStep(redo)}
+        disabled={busy || !redoLabel}
+        title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        aria-label="Redo"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
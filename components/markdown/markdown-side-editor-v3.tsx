@@ -35,6 +35,7 @@ import { cn } from '@/lib/utils';
 import { Trade } from '@/types/trade';
 import { AppConfig } from '@/types/app';
 import { createTradeFolderWithSequence } from '@/lib/trade-folder/path-generator';
+import { TradeLinker } from '@/lib/trade-linker/trade-linker';
 import { SlashCommandMenu, SlashCommand } from './slash-command-menu';
 import { useSlashCommands } from '@/lib/hooks/use-slash-commands';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
@@ -281,7 +282,7 @@ ${trade.pnl ? `- **P&L**: $${trade.pnl.toFixed(2)}` : ''}
 ## Notes
 
 `;
-      setContent(template);
+      setContent(TradeLinker.syncRiskFrontmatter(template, trade));
     }
   }, [memoFile, trade, config, loadMemoContent]);
 
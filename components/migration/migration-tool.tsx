@@ -5,8 +5,9 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -18,9 +19,15 @@ import {
   Database, 
   FolderOpen, 
   Shield,
-  Upload
+  Upload,
+  FileSpreadsheet
 } from 'lucide-react';
-import { DataMigrationService, MigrationResult } from '@/lib/migration/data-migration-service';
+import {
+  DataMigrationService,
+  MigrationResult,
+  SchemaMigrationResult,
+  SchemaStatus
+} from '@/lib/migration/data-migration-service';
 
 interface MigrationToolProps {
   dataDirectory: string;
@@ -32,6 +39,8 @@ export function MigrationTool({ dataDirectory, fileService }: MigrationToolProps
   const [migrationResult, setMigrationResult] = useState<MigrationResult | null>(null);
   const [progress, setProgress] = useState(0);
   const [currentOperation, setCurrentOperation] = useState<string>('');
+  const [schemaStatus, setSchemaStatus] = useState<SchemaStatus | null>(null);
+  const [schemaResult, setSchemaResult] = useState<SchemaMigrationResult | null>(null);
 
   const migrationService = new DataMigrationService({
     dataDirectory,
@@ -45,6 +54,37 @@ export function MigrationTool({ dataDirectory, fileService }: MigrationToolProps
     dryRun: true
   });
 
+  const loadSchemaStatus = useCallback(async () => {
+    try {
+      const service = new DataMigrationService({ dataDirectory, fileService });
+      setSchemaStatus(await service.getSchemaStatus());
+    } catch (error) {
+      console.error('Failed to read schema status:', error);
+    }
+  }, [dataDirectory, fileService]);
+
+  useEffect(() => {
+    loadSchemaStatus();
+  }, [loadSchemaStatus]);
+
+  const handleSchemaMigration = async () => {
+    setLoading(true);
+    setCurrentOperation('Upgrading trades.csv schema...');
+    setProgress(0);
+
+    try {
+      const result = await migrationService.runSchemaMigrations();
+      setSchemaResult(result);
+      setProgress(100);
+      await loadSchemaStatus();
+    } catch (error) {
+      console.error('Schema migration failed:', error);
+    } finally {
+      setLoading(false);
+      setCurrentOperation('');
+    }
+  };
+
   const handleDryRun = async () => {
     setLoading(true);
     setCurrentOperation('Running migration preview...');
@@ -130,6 +170,108 @@ export function MigrationTool({ dataDirectory, fileService }: MigrationToolProps
       )}
 
       <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileSpreadsheet className="w-5 h-5" />
+                <span>Trade File Schema</span>
+              </CardTitle>
+              <CardDescription>
+                Pending upgrades run automatically on startup, after backing up trades.csv
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {schemaStatus ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">
+                        Version {schemaStatus.version} of {schemaStatus.targetVersion}
+                      </span>
+                      {schemaStatus.version > schemaStatus.targetVersion ? (
+                        <Badge variant="destructive">Newer than this app</Badge>
+                      ) : schemaStatus.pending.length > 0 ? (
+                        <Badge variant="secondary">{schemaStatus.pending.length} pending</Badge>
+                      ) : (
+                        <Badge variant="outline">Up to date</Badge>
+                      )}
+                    </div>
+                    <Button
+                      onClick={handleSchemaMigration}
+                      disabled={loading || schemaStatus.pending.length === 0}
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Run Schema Migrations
+                    </Button>
+                  </div>
+
+                  {!schemaStatus.marked && (
+                    <div className="text-sm text-gray-600">
+                      No version recorded yet; detected from the file&apos;s columns
+                    </div>
+                  )}
+
+                  {schemaStatus.pending.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="text-sm font-medium">Pending</div>
+                      {schemaStatus.pending.map(migration => (
+                        <div key={migration.version} className="text-sm">
+                          v{migration.version}: {migration.description}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {schemaStatus.history.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="text-sm font-medium">Applied</div>
+                      {[...schemaStatus.history].reverse().map(migration => (
+                        <div key={`${migration.version}-${migration.appliedAt}`} className="text-sm">
+                          <div>
+                            v{migration.version}: {migration.description}
+                            <span className="text-gray-600">
+                              {' '}· {new Date(migration.appliedAt).toLocaleString()} · {migration.records} trades
+                            </span>
+                          </div>
+                          {migration.backupPath && (
+                            <div className="text-xs text-gray-500 break-all">Backup: {migration.backupPath}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="text-sm text-gray-600">Reading trades.csv...</div>
+              )}
+
+              {schemaResult && schemaResult.errors.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <div className="space-y-1">
+                      <div className="font-medium">
+                        Stopped at version {schemaResult.toVersion}:
+                      </div>
+                      {schemaResult.errors.map((error, index) => (
+                        <div key={index} className="text-sm">{error}</div>
+                      ))}
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {schemaResult && schemaResult.success && schemaResult.applied.length > 0 && (
+                <Alert>
+                  <CheckCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    Upgraded trades.csv from version {schemaResult.fromVersion} to {schemaResult.toVersion}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
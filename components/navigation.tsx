@@ -4,10 +4,14 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { AccountSwitcher } from '@/components/account/account-switcher';
+import { HistoryControls } from '@/components/history/history-controls';
 import { 
   LayoutDashboard, 
   TrendingUp, 
+  Briefcase,
   Images, 
+  Tags,
   BarChart3, 
   Upload,
   FileText,
@@ -19,7 +23,9 @@ import {
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Trades', href: '/trades', icon: TrendingUp },
+  { name: 'Positions', href: '/positions', icon: Briefcase },
   { name: 'Gallery', href: '/gallery', icon: Images },
+  { name: 'Tags', href: '/tags', icon: Tags },
   { name: 'Analytics', href: '/analytics', icon: BarChart3 },
   { name: 'Import', href: '/import', icon: Upload },
   { name: 'Settings', href: '/settings', icon: Settings },
@@ -83,10 +89,13 @@ export function Navigation() {
                 );
               })}
             </div>
+            <HistoryControls />
+            <AccountSwitcher />
           </div>
           
           {/* Mobile menu button */}
-          <div className="md:hidden">
+          <div className="md:hidden flex items-center">
+            <HistoryControls shortcuts={false} />
             <button
               onClick={toggleMobileMenu}
               className="p-2 rounded-md text-gray-700 hover:text-gray-900 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 transition-colors duration-200"
@@ -107,6 +116,7 @@ export function Navigation() {
       {isMobileMenuOpen && (
         <div className="md:hidden">
           <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3 bg-white border-t border-gray-200">
+            <AccountSwitcher className="w-full mb-2" />
             {navigation.map((item) => {
               const Icon = item.icon;
               const isActive = pathname === item.href;
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Upload } from 'lucide-react';
+import { OHLCImportResult } from '@/types/ohlc';
+import { OHLCService } from '@/lib/services/ohlc-service';
+import { FileUtils } from '@/lib/file-system/file-utils';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+
+interface OHLCImportFormProps {
+  defaultTicker?: string;
+  onImported?: (result: OHLCImportResult) => void;
+}
+
+export function OHLCImportForm({ defaultTicker = '', onImported }: OHLCImportFormProps) {
+  const { config } = useAppConfig();
+  const [ticker, setTicker] = useState(defaultTicker);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] || null;
+    setFile(selected);
+    setMessage(null);
+    // Vendor downloads are usually named after the ticker ("AAPL.csv")
+    if (selected && !ticker) {
+      setTicker(selected.name.replace(/\.[^.]+$/, '').toUpperCase());
+    }
+  };
+
+  const handleImport = async () => {
+    if (!config?.dataDirectory || !file || !ticker.trim()) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const content = await FileUtils.readFile(file);
+      const result = await OHLCService.importCSV({ dataDirectory: config.dataDirectory }, ticker, content);
+      if (result.success && result.data) {
+        const { data } = result;
+        setMessage({
+          type: 'success',
+          text: `${data.ticker}: ${data.added} new and ${data.updated} updated bar(s)` +
+            (data.skipped > 0 ? `, ${data.skipped} row(s) skipped` : '')
+        });
+        setFile(null);
+        onImported?.(data);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to import price history' });
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to read file' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+        <div>
+          <Label htmlFor="ohlc-ticker">Ticker</Label>
+          <Input
+            id="ohlc-ticker"
+            value={ticker}
+            onChange={(e) => setTicker(e.target.value)}
+            placeholder="AAPL"
+          />
+        </div>
+        <div>
+          <Label htmlFor="ohlc-file">Daily OHLCV CSV</Label>
+          <Input id="ohlc-file" type="file" accept=".csv,text/csv" onChange={handleFileSelect} />
+        </div>
+        <Button onClick={handleImport} disabled={importing || !file || !ticker.trim()}>
+          <Upload className="h-4 w-4 mr-2" />
+          {importing ? 'Importing...' : 'Import'}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Columns: date, open, high, low, close and optionally volume. Bars for dates already stored are replaced.
+      </p>
+      {message && (
+        <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Trash2 } from 'lucide-react';
+import { OHLCSeriesInfo } from '@/types/ohlc';
+import { OHLCService } from '@/lib/services/ohlc-service';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+import { OHLCImportForm } from '@/components/price/ohlc-import-form';
+
+export function PriceHistoryManager() {
+  const { config } = useAppConfig();
+  const [series, setSeries] = useState<OHLCSeriesInfo[]>([]);
+
+  const dataDirectory = config?.dataDirectory;
+
+  const loadSeries = useCallback(async () => {
+    if (!dataDirectory) {
+      return;
+    }
+
+    const result = await OHLCService.listSeries({ dataDirectory });
+    if (!result.success) {
+      console.error('Error loading price history:', result.error);
+    }
+    setSeries(result.data || []);
+  }, [dataDirectory]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const handleDelete = async (ticker: string) => {
+    if (!dataDirectory || !confirm(`Delete the stored price history for ${ticker}?`)) {
+      return;
+    }
+    const result = await OHLCService.deleteSeries({ dataDirectory }, ticker);
+    if (!result.success) {
+      alert(result.error || 'Failed to delete price history');
+    }
+    await loadSeries();
+  };
+
+  return (
+    <div className="space-y-4">
+      {series.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No price history yet. Import daily bars for a ticker to chart its trades.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {series.map(entry => (
+            <div key={entry.ticker} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <span className="font-medium">{entry.ticker}</span>
+                <span className="text-sm text-gray-500 ml-2">
+                  {entry.bars} bar(s){entry.firstDate && ` • ${entry.firstDate} to ${entry.lastDate}`}
+                </span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(entry.ticker)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <OHLCImportForm onImported={loadSeries} />
+    </div>
+  );
+}
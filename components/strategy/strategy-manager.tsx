@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+import { TradeStrategy } from '@/types/strategy';
+import { StrategyService } from '@/lib/services/strategy-service';
+import { useStrategies } from '@/lib/hooks/use-strategies';
+
+interface StrategyFormState {
+  name: string;
+  description: string;
+  checklist: string; // One item per line
+}
+
+const EMPTY_FORM: StrategyFormState = { name: '', description: '', checklist: '' };
+
+export function StrategyManager() {
+  const { strategies, saveStrategy, deleteStrategy } = useStrategies();
+  const [editing, setEditing] = useState<TradeStrategy | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<StrategyFormState>(EMPTY_FORM);
+
+  const openForm = (strategy?: TradeStrategy) => {
+    setEditing(strategy || null);
+    setForm(strategy
+      ? {
+          name: strategy.name,
+          description: strategy.description || '',
+          checklist: strategy.checklist.join('\n')
+        }
+      : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      alert('Setup name is required');
+      return;
+    }
+
+    const fields = {
+      name: form.name.trim(),
+      description: form.description.trim() || undefined,
+      checklist: form.checklist.split('\n').map(item => item.trim()).filter(Boolean)
+    };
+
+    const strategy = editing
+      ? { ...editing, ...fields }
+      : StrategyService.createStrategy(fields);
+
+    if (await saveStrategy(strategy)) {
+      closeForm();
+    } else {
+      alert('Failed to save setup');
+    }
+  };
+
+  const handleDelete = async (strategy: TradeStrategy) => {
+    if (!confirm(`Delete setup "${strategy.name}"? Trades tagged with it are kept but show as having no setup.`)) {
+      return;
+    }
+    if (!await deleteStrategy(strategy.id)) {
+      alert('Failed to delete setup');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {strategies.length === 0 && !showForm && (
+        <p className="text-sm text-gray-600">
+          No setups yet. Add the setups you trade to tag trades and compare their performance.
+        </p>
+      )}
+
+      {strategies.map(strategy => (
+        <div key={strategy.id} className="flex items-start justify-between p-3 border rounded-lg">
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{strategy.name}</span>
+              {strategy.checklist.length > 0 && (
+                <Badge variant="outline">{strategy.checklist.length} checklist item(s)</Badge>
+              )}
+            </div>
+            {strategy.description && (
+              <div className="text-sm text-gray-500">{strategy.description}</div>
+            )}
+          </div>
+          <div className="flex space-x-1">
+            <Button variant="ghost" size="sm" onClick={() => openForm(strategy)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(strategy)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {showForm ? (
+        <div className="space-y-3 p-4 border rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">{editing ? 'Edit Setup' : 'New Setup'}</h4>
+            <Button variant="ghost" size="sm" onClick={closeForm}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div>
+            <Label htmlFor="strategy-name">Name</Label>
+            <Input
+              id="strategy-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Breakout"
+            />
+          </div>
+          <div>
+            <Label htmlFor="strategy-description">Description</Label>
+            <Textarea
+              id="strategy-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Buy the first close above a multi-week base"
+              rows={2}
+            />
+          </div>
+          <div>
+            <Label htmlFor="strategy-checklist">Checklist</Label>
+            <Textarea
+              id="strategy-checklist"
+              value={form.checklist}
+              onChange={(e) => setForm({ ...form, checklist: e.target.value })}
+              placeholder={'Volume above 50-day average\nMarket in uptrend'}
+              rows={4}
+            />
+            <p className="text-xs text-gray-500 mt-1">One item per line</p>
+          </div>
+          <Button onClick={handleSave}>
+            {editing ? 'Save Setup' : 'Add Setup'}
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Setup
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ImageDown } from 'lucide-react';
+import { Trade } from '@/types/trade';
+import { OHLCBar } from '@/types/ohlc';
+import { OHLCService } from '@/lib/services/ohlc-service';
+import { tradeFolderService } from '@/lib/services/trade-folder-service';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+import { svgToPngDataUrl } from '@/lib/utils/svg-to-png';
+import { TradePriceChart } from '@/components/trade/trade-price-chart';
+import { OHLCImportForm } from '@/components/price/ohlc-import-form';
+import { LoadingSpinner } from '@/components/loading/loading-spinner';
+
+interface TradeChartDialogProps {
+  trade: Trade;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function TradeChartDialog({ trade, isOpen, onClose }: TradeChartDialogProps) {
+  const { config } = useAppConfig();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [bars, setBars] = useState<OHLCBar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const dataDirectory = config?.dataDirectory;
+
+  const loadBars = useCallback(async () => {
+    if (!dataDirectory) {
+      return;
+    }
+
+    setLoading(true);
+    const result = await OHLCService.loadBarsForTrade({ dataDirectory }, trade);
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to load price history' });
+    }
+    setBars(result.data || []);
+    setLoading(false);
+  }, [dataDirectory, trade]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage(null);
+      loadBars();
+    }
+  }, [isOpen, loadBars]);
+
+  const handleSaveImage = async () => {
+    if (!svgRef.current) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const dataUrl = await svgToPngDataUrl(svgRef.current);
+      await tradeFolderService.initialize();
+      const result = await tradeFolderService.saveImageFromDataUrl(
+        trade,
+        `${Date.now()}_${trade.ticker}_chart.png`,
+        dataUrl
+      );
+      setMessage(result.success
+        ? { type: 'success', text: `Chart saved to ${result.filePath}` }
+        : { type: 'error', text: result.error || 'Failed to save chart' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save chart' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{trade.ticker} Chart</DialogTitle>
+          <DialogDescription>
+            Daily bars around the trade with its fills, stop and target. Save it to add the chart to the trade&apos;s images.
+          </DialogDescription>
+        </DialogHeader>
+
+        {message && (
+          <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
+            <AlertDescription>{message.text}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : bars.length > 0 ? (
+          <div className="space-y-4">
+            <TradePriceChart trade={trade} bars={bars} svgRef={svgRef} />
+            <div className="flex justify-end">
+              <Button onClick={handleSaveImage} disabled={saving}>
+                <ImageDown className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save to Images'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              No price history for {trade.ticker} around this trade. Import daily bars to draw the chart.
+            </p>
+            <OHLCImportForm defaultTicker={trade.ticker} onImported={loadBars} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,20 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Trade } from '@/types/trade';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CandlestickChart, Plus, Trash2 } from 'lucide-react';
+import { Trade, TradeDirection, TradeExecution } from '@/types/trade';
+import { applyExecutionSummary, getEntrySide, summarizeExecutions } from '@/lib/trade-executions/execution-utils';
+import { useAccounts } from '@/components/account/account-provider';
+import { useStrategies } from '@/lib/hooks/use-strategies';
+import { getInitialRisk, getRMultiple } from '@/lib/utils';
+import { parseTagList } from '@/lib/tags/tag-utils';
+import { TradeChartDialog } from '@/components/trade/trade-chart-dialog';
+
+function optionalNumber(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
 
 interface TradeEditModalProps {
   trade: Trade;
@@ -16,13 +29,20 @@ interface TradeEditModalProps {
 
 export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModalProps) {
   // console.log('TradeEditModal rendered:', { isOpen, trade: trade?.ticker });
+  const { accounts } = useAccounts();
+  const { strategies } = useStrategies();
   
   const [formData, setFormData] = useState<Trade>(() => ({
     ...trade,
     // Ensure dates are in YYYY-MM-DD format for input[type="date"]
     buyDate: trade.buyDate ? new Date(trade.buyDate).toISOString().split('T')[0] : '',
     sellDate: trade.sellDate ? new Date(trade.sellDate).toISOString().split('T')[0] : '',
+    // Trades recorded before fees were split carry a single commission; treat it as the entry fee
+    entryFee: trade.entryFee ?? (trade.exitFee === undefined ? trade.commission || undefined : undefined),
   }));
+  // Kept as typed so commas can be entered; parsed into formData.tags on change
+  const [tagsInput, setTagsInput] = useState((trade.tags || []).join(', '));
+  const [showChart, setShowChart] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,9 +57,102 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
     }));
   };
 
+  // Keep the commission total in step with the split fees
+  const handleFeeChange = (field: 'entryFee' | 'exitFee', value: number | undefined) => {
+    setFormData(prev => {
+      const next: Trade = { ...prev, [field]: value };
+      next.commission = (next.entryFee || 0) + (next.exitFee || 0);
+      return next;
+    });
+  };
+
+  const handleDirectionChange = (direction: TradeDirection) => {
+    setFormData(prev => {
+      const next: Trade = { ...prev, direction };
+      if (next.executions && next.executions.length > 0) {
+        applyExecutionSummary(next);
+      }
+      return next;
+    });
+  };
+
+  // Legs drive the top-level fields: re-derive them whenever a leg changes
+  const handleExecutionsChange = (executions: TradeExecution[]) => {
+    setFormData(prev => {
+      const next: Trade = { ...prev, executions };
+      if (executions.length > 0) {
+        applyExecutionSummary(next);
+      }
+      return next;
+    });
+  };
+
+  const handleAddExecution = () => {
+    const current = formData.executions || [];
+
+    // Converting a simple trade: seed legs from the existing entry/exit
+    if (current.length === 0 && formData.buyDate && formData.quantity > 0) {
+      const isShort = formData.direction === 'short';
+      const seeded: TradeExecution[] = [{
+        date: formData.buyDate,
+        side: isShort ? 'sell' : 'buy',
+        price: formData.buyPrice,
+        quantity: formData.quantity,
+        fee: formData.entryFee
+      }];
+      if (formData.sellDate && formData.sellPrice) {
+        seeded.push({
+          date: formData.sellDate,
+          side: isShort ? 'buy' : 'sell',
+          price: formData.sellPrice,
+          quantity: formData.quantity,
+          fee: formData.exitFee
+        });
+      }
+      handleExecutionsChange(seeded);
+      return;
+    }
+
+    const last = current[current.length - 1];
+    handleExecutionsChange([
+      ...current,
+      {
+        date: last?.date || new Date().toISOString().split('T')[0],
+        side: last?.side || getEntrySide(formData.direction),
+        price: last?.price || 0,
+        quantity: 0
+      }
+    ]);
+  };
+
+  const handleExecutionChange = (index: number, field: keyof TradeExecution, value: any) => {
+    const executions = [...(formData.executions || [])];
+    executions[index] = { ...executions[index], [field]: value };
+    handleExecutionsChange(executions);
+  };
+
+  const handleRemoveExecution = (index: number) => {
+    handleExecutionsChange((formData.executions || []).filter((_, i) => i !== index));
+  };
+
+  const executions = formData.executions || [];
+  const hasExecutions = executions.length > 0;
+  const executionSummary = hasExecutions ? summarizeExecutions(executions, formData.direction) : null;
+  const isShort = formData.direction === 'short';
+  const selectedStrategy = strategies.find(strategy => strategy.id === formData.strategyId);
+
+  // Risk preview: the placeholder shows the risk implied by the stop when none is entered
+  const derivedRisk = getInitialRisk({ ...formData, initialRisk: undefined });
+  const riskAmount = getInitialRisk(formData);
+  const stopDistance = formData.stopLoss !== undefined ? Math.abs(formData.buyPrice - formData.stopLoss) : 0;
+  const rewardRatio = formData.targetPrice !== undefined && stopDistance > 0
+    ? Math.abs(formData.targetPrice - formData.buyPrice) / stopDistance
+    : undefined;
+  const rMultiple = getRMultiple(trade);
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{trade.id ? `Edit Trade - ${trade.ticker}` : 'Add New Trade'}</DialogTitle>
           <DialogDescription>
@@ -50,7 +163,71 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
+          {accounts.length > 0 && (
+            <div>
+              <Label htmlFor="account">Account</Label>
+              <Select
+                value={formData.accountId || '__none__'}
+                onValueChange={(value) => handleChange('accountId', value === '__none__' ? undefined : value)}
+              >
+                <SelectTrigger id="account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">No account</SelectItem>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {strategies.length > 0 && (
+            <div>
+              <Label htmlFor="strategy">Setup</Label>
+              <Select
+                value={formData.strategyId || '__none__'}
+                onValueChange={(value) => handleChange('strategyId', value === '__none__' ? undefined : value)}
+              >
+                <SelectTrigger id="strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">No setup</SelectItem>
+                  {strategies.map(strategy => (
+                    <SelectItem key={strategy.id} value={strategy.id}>
+                      {strategy.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedStrategy && selectedStrategy.checklist.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs text-gray-600 list-disc list-inside">
+                  {selectedStrategy.checklist.map((item, index) => (
+                    <li key={index}>{item}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="tags">Tags (Optional)</Label>
+            <Input
+              id="tags"
+              value={tagsInput}
+              onChange={(e) => {
+                setTagsInput(e.target.value);
+                handleChange('tags', parseTagList(e.target.value));
+              }}
+              placeholder="sector/tech, setup/breakout"
+            />
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
             <div>
               <Label htmlFor="ticker">Ticker</Label>
               <Input
@@ -61,6 +238,31 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
                 required
               />
             </div>
+            <div>
+              <Label htmlFor="direction">Direction</Label>
+              <Select
+                value={formData.direction || 'long'}
+                onValueChange={(value: TradeDirection) => handleDirectionChange(value)}
+              >
+                <SelectTrigger id="direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="long">Long</SelectItem>
+                  <SelectItem value="short">Short</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="currency">Currency</Label>
+              <Input
+                id="currency"
+                value={formData.currency || ''}
+                onChange={(e) => handleChange('currency', e.target.value.trim().toUpperCase() || undefined)}
+                placeholder="Base"
+                maxLength={3}
+              />
+            </div>
             <div>
               <Label htmlFor="quantity">Quantity</Label>
               <Input
@@ -69,6 +271,7 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
                 value={formData.quantity}
                 onChange={(e) => handleChange('quantity', parseInt(e.target.value) || 0)}
                 min="0"
+                disabled={hasExecutions}
                 required
               />
             </div>
@@ -76,17 +279,18 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="buyDate">Buy Date</Label>
+              <Label htmlFor="buyDate">{isShort ? 'Short Date' : 'Buy Date'}</Label>
               <Input
                 id="buyDate"
                 type="date"
                 value={formData.buyDate}
                 onChange={(e) => handleChange('buyDate', e.target.value)}
+                disabled={hasExecutions}
                 required
               />
             </div>
             <div>
-              <Label htmlFor="buyPrice">Buy Price</Label>
+              <Label htmlFor="buyPrice">{isShort ? 'Short Price' : 'Buy Price'}</Label>
               <Input
                 id="buyPrice"
                 type="number"
@@ -94,6 +298,7 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
                 value={formData.buyPrice}
                 onChange={(e) => handleChange('buyPrice', parseFloat(e.target.value) || 0)}
                 min="0"
+                disabled={hasExecutions}
                 required
               />
             </div>
@@ -101,16 +306,17 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="sellDate">Sell Date (Optional)</Label>
+              <Label htmlFor="sellDate">{isShort ? 'Cover Date (Optional)' : 'Sell Date (Optional)'}</Label>
               <Input
                 id="sellDate"
                 type="date"
                 value={formData.sellDate || ''}
                 onChange={(e) => handleChange('sellDate', e.target.value || undefined)}
+                disabled={hasExecutions}
               />
             </div>
             <div>
-              <Label htmlFor="sellPrice">Sell Price (Optional)</Label>
+              <Label htmlFor="sellPrice">{isShort ? 'Cover Price (Optional)' : 'Sell Price (Optional)'}</Label>
               <Input
                 id="sellPrice"
                 type="number"
@@ -118,24 +324,199 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
                 value={formData.sellPrice || ''}
                 onChange={(e) => handleChange('sellPrice', parseFloat(e.target.value) || undefined)}
                 min="0"
+                disabled={hasExecutions}
               />
             </div>
           </div>
 
-          <div>
-            <Label htmlFor="commission">Commission (Optional)</Label>
-            <Input
-              id="commission"
-              type="number"
-              step="0.01"
-              value={formData.commission || ''}
-              onChange={(e) => handleChange('commission', parseFloat(e.target.value) || undefined)}
-              min="0"
-              placeholder="0.00"
-            />
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="entryFee">Entry Fee (Optional)</Label>
+              <Input
+                id="entryFee"
+                type="number"
+                step="0.01"
+                value={formData.entryFee || ''}
+                onChange={(e) => handleFeeChange('entryFee', parseFloat(e.target.value) || undefined)}
+                min="0"
+                placeholder="0.00"
+                disabled={hasExecutions}
+              />
+            </div>
+            <div>
+              <Label htmlFor="exitFee">Exit Fee (Optional)</Label>
+              <Input
+                id="exitFee"
+                type="number"
+                step="0.01"
+                value={formData.exitFee || ''}
+                onChange={(e) => handleFeeChange('exitFee', parseFloat(e.target.value) || undefined)}
+                min="0"
+                placeholder="0.00"
+                disabled={hasExecutions}
+              />
+            </div>
+            <div>
+              <Label htmlFor="taxWithholding">Tax Withholding (Optional)</Label>
+              <Input
+                id="taxWithholding"
+                type="number"
+                step="0.01"
+                value={formData.taxWithholding || ''}
+                onChange={(e) => handleChange('taxWithholding', parseFloat(e.target.value) || undefined)}
+                min="0"
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="stopLoss">Stop Loss (Optional)</Label>
+              <Input
+                id="stopLoss"
+                type="number"
+                step="0.01"
+                value={formData.stopLoss ?? ''}
+                onChange={(e) => handleChange('stopLoss', optionalNumber(e.target.value))}
+                min="0"
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <Label htmlFor="targetPrice">Target Price (Optional)</Label>
+              <Input
+                id="targetPrice"
+                type="number"
+                step="0.01"
+                value={formData.targetPrice ?? ''}
+                onChange={(e) => handleChange('targetPrice', optionalNumber(e.target.value))}
+                min="0"
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <Label htmlFor="initialRisk">Initial Risk (Optional)</Label>
+              <Input
+                id="initialRisk"
+                type="number"
+                step="0.01"
+                value={formData.initialRisk ?? ''}
+                onChange={(e) => handleChange('initialRisk', optionalNumber(e.target.value))}
+                min="0"
+                placeholder={derivedRisk !== undefined ? derivedRisk.toFixed(2) : '0.00'}
+              />
+            </div>
+          </div>
+          {(riskAmount !== undefined || rewardRatio !== undefined) && (
+            <p className="text-xs text-gray-500 -mt-2">
+              {riskAmount !== undefined && `1R = ${riskAmount.toFixed(2)}`}
+              {riskAmount !== undefined && rewardRatio !== undefined && ' • '}
+              {rewardRatio !== undefined && `Planned reward:risk ${rewardRatio.toFixed(2)}`}
+              {rMultiple !== undefined && ` • Result ${rMultiple.toFixed(2)}R`}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Executions</Label>
+              <Button type="button" variant="outline" size="sm" onClick={handleAddExecution}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Leg
+              </Button>
+            </div>
+
+            {hasExecutions ? (
+              <>
+                <div className="grid grid-cols-[1.3fr_0.9fr_1fr_1fr_0.8fr_auto] gap-2 text-xs text-gray-500">
+                  <span>Date</span>
+                  <span>Side</span>
+                  <span>Price</span>
+                  <span>Quantity</span>
+                  <span>Fee</span>
+                  <span className="w-9" />
+                </div>
+                {executions.map((execution, index) => (
+                  <div key={index} className="grid grid-cols-[1.3fr_0.9fr_1fr_1fr_0.8fr_auto] gap-2">
+                    <Input
+                      type="date"
+                      value={execution.date}
+                      onChange={(e) => handleExecutionChange(index, 'date', e.target.value)}
+                      required
+                    />
+                    <Select
+                      value={execution.side}
+                      onValueChange={(value: 'buy' | 'sell') => handleExecutionChange(index, 'side', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="buy">Buy</SelectItem>
+                        <SelectItem value="sell">Sell</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={execution.price}
+                      onChange={(e) => handleExecutionChange(index, 'price', parseFloat(e.target.value) || 0)}
+                      min="0"
+                      required
+                    />
+                    <Input
+                      type="number"
+                      value={execution.quantity}
+                      onChange={(e) => handleExecutionChange(index, 'quantity', parseFloat(e.target.value) || 0)}
+                      min="0"
+                      required
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={execution.fee || ''}
+                      onChange={(e) => handleExecutionChange(index, 'fee', parseFloat(e.target.value) || undefined)}
+                      min="0"
+                      placeholder="0.00"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveExecution(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {executionSummary && (
+                  <div className="text-xs text-gray-600 flex flex-wrap gap-x-4">
+                    <span>Avg entry: {executionSummary.avgEntryPrice.toFixed(2)}</span>
+                    <span>
+                      Avg exit: {executionSummary.avgExitPrice !== undefined ? executionSummary.avgExitPrice.toFixed(2) : '-'}
+                    </span>
+                    <span>Open: {executionSummary.entryQuantity - executionSummary.exitQuantity}</span>
+                    <span>Realized (before fees): {executionSummary.realizedPnL.toFixed(2)}</span>
+                  </div>
+                )}
+                {executionSummary && executionSummary.exitQuantity > executionSummary.entryQuantity && (
+                  <p className="text-xs text-red-600">Exit quantity exceeds entry quantity.</p>
+                )}
+              </>
+            ) : (
+              <p className="text-xs text-gray-500">
+                Add legs to record scale-ins, partial exits and per-fill fees. Prices, quantity and dates above are then derived from the legs.
+              </p>
+            )}
           </div>
 
           <div className="flex justify-end space-x-2 pt-4">
+            {trade.id && (
+              <Button type="button" variant="outline" className="mr-auto" onClick={() => setShowChart(true)}>
+                <CandlestickChart className="h-4 w-4 mr-2" />
+                Chart
+              </Button>
+            )}
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
@@ -145,6 +526,10 @@ export function TradeEditModal({ trade, isOpen, onClose, onSave }: TradeEditModa
           </div>
         </form>
       </DialogContent>
+
+      {trade.id && (
+        <TradeChartDialog trade={trade} isOpen={showChart} onClose={() => setShowChart(false)} />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
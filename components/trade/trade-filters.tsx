@@ -9,15 +9,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { X, Plus } from 'lucide-react';
 import { TradeFilters as ITradeFilters } from '@/types/app';
+import { TradeDateField, TradeDirection } from '@/types/trade';
+import { Account } from '@/types/account';
+import { TradeStrategy } from '@/types/strategy';
+import { NO_STRATEGY_FILTER_ID } from '@/lib/trade-filters/apply-filters';
 import { FilterPresets } from './filter-presets';
 
 interface TradeFiltersProps {
   filters: ITradeFilters;
   onFiltersChange: (filters: ITradeFilters) => void;
   availableTickers: string[];
+  availableAccounts?: Account[]; // Only offered in the combined (all accounts) view
+  availableStrategies?: TradeStrategy[];
 }
 
-export function TradeFilters({ filters, onFiltersChange, availableTickers }: TradeFiltersProps) {
+export function TradeFilters({
+  filters,
+  onFiltersChange,
+  availableTickers,
+  availableAccounts = [],
+  availableStrategies = []
+}: TradeFiltersProps) {
   const [newTicker, setNewTicker] = useState('');
 
   const updateFilters = (updates: Partial<ITradeFilters>) => {
@@ -53,6 +65,30 @@ export function TradeFilters({ filters, onFiltersChange, availableTickers }: Tra
     });
   };
 
+  const toggleDirection = (direction: TradeDirection) => {
+    updateFilters({
+      directions: filters.directions?.includes(direction)
+        ? filters.directions.filter(d => d !== direction)
+        : [...(filters.directions || []), direction]
+    });
+  };
+
+  const toggleAccount = (accountId: string) => {
+    updateFilters({
+      accountIds: filters.accountIds?.includes(accountId)
+        ? filters.accountIds.filter(id => id !== accountId)
+        : [...(filters.accountIds || []), accountId]
+    });
+  };
+
+  const toggleStrategy = (strategyId: string) => {
+    updateFilters({
+      strategyIds: filters.strategyIds?.includes(strategyId)
+        ? filters.strategyIds.filter(id => id !== strategyId)
+        : [...(filters.strategyIds || []), strategyId]
+    });
+  };
+
   const clearFilters = () => {
     onFiltersChange({});
   };
@@ -76,6 +112,7 @@ export function TradeFilters({ filters, onFiltersChange, availableTickers }: Tra
                 value={filters.dateRange?.start || ''}
                 onChange={(e) => updateFilters({
                   dateRange: {
+                    ...filters.dateRange,
                     start: e.target.value,
                     end: filters.dateRange?.end || ''
                   }
@@ -87,12 +124,31 @@ export function TradeFilters({ filters, onFiltersChange, availableTickers }: Tra
                 value={filters.dateRange?.end || ''}
                 onChange={(e) => updateFilters({
                   dateRange: {
+                    ...filters.dateRange,
                     start: filters.dateRange?.start || '',
                     end: e.target.value
                   }
                 })}
                 placeholder="End date"
               />
+              <Select
+                value={filters.dateRange?.field || 'buyDate'}
+                onValueChange={(value: TradeDateField) => updateFilters({
+                  dateRange: {
+                    start: filters.dateRange?.start || '',
+                    end: filters.dateRange?.end || '',
+                    field: value
+                  }
+                })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buyDate">Buy date</SelectItem>
+                  <SelectItem value="sellDate">Sell date</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </div>
 
@@ -244,6 +300,72 @@ export function TradeFilters({ filters, onFiltersChange, availableTickers }: Tra
           </div>
         </div>
 
+        {/* Direction */}
+        <div className="space-y-2">
+          <Label>Direction</Label>
+          <div className="flex space-x-2">
+            <Button
+              variant={filters.directions?.includes('long') ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => toggleDirection('long')}
+            >
+              Long
+            </Button>
+            <Button
+              variant={filters.directions?.includes('short') ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => toggleDirection('short')}
+            >
+              Short
+            </Button>
+          </div>
+        </div>
+
+        {/* Account */}
+        {availableAccounts.length > 0 && (
+          <div className="space-y-2">
+            <Label>Account</Label>
+            <div className="flex flex-wrap gap-2">
+              {availableAccounts.map(account => (
+                <Button
+                  key={account.id}
+                  variant={filters.accountIds?.includes(account.id) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => toggleAccount(account.id)}
+                >
+                  {account.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Setup */}
+        {availableStrategies.length > 0 && (
+          <div className="space-y-2">
+            <Label>Setup</Label>
+            <div className="flex flex-wrap gap-2">
+              {availableStrategies.map(strategy => (
+                <Button
+                  key={strategy.id}
+                  variant={filters.strategyIds?.includes(strategy.id) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => toggleStrategy(strategy.id)}
+                >
+                  {strategy.name}
+                </Button>
+              ))}
+              <Button
+                variant={filters.strategyIds?.includes(NO_STRATEGY_FILTER_ID) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => toggleStrategy(NO_STRATEGY_FILTER_ID)}
+              >
+                No setup
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Notes Filter */}
         <div className="space-y-2">
           <Label>Notes</Label>
@@ -0,0 +1,297 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Trade } from '@/types/trade';
+import { OHLCBar } from '@/types/ohlc';
+import { formatCurrency } from '@/lib/utils';
+
+interface TradePriceChartProps {
+  trade: Trade;
+  bars: OHLCBar[];
+  svgRef?: React.Ref<SVGSVGElement>;
+}
+
+interface ChartMarker {
+  date: string;
+  price: number;
+  side: 'buy' | 'sell';
+  quantity: number;
+}
+
+// Drawn in a fixed coordinate space and scaled to the container width. Colors are
+// plain attributes rather than classes so the SVG renders the same when exported.
+export const TRADE_CHART_WIDTH = 800;
+export const TRADE_CHART_HEIGHT = 420;
+const PAD_LEFT = 16;
+const PAD_RIGHT = 72;
+const PAD_TOP = 16;
+const PAD_BOTTOM = 24;
+const VOLUME_HEIGHT = 60;
+const VOLUME_GAP = 8;
+const PLOT_WIDTH = TRADE_CHART_WIDTH - PAD_LEFT - PAD_RIGHT;
+
+const COLORS = {
+  background: '#ffffff',
+  grid: '#f3f4f6',
+  axis: '#6b7280',
+  up: '#16a34a',
+  down: '#dc2626',
+  volume: '#d1d5db',
+  buy: '#16a34a',
+  sell: '#dc2626',
+  stop: '#dc2626',
+  target: '#16a34a',
+  entry: '#6b7280',
+  highlight: '#eff6ff'
+};
+
+function scaleLinear(domainMin: number, domainMax: number, rangeStart: number, rangeEnd: number) {
+  const span = domainMax - domainMin || 1;
+  return (value: number) => rangeStart + ((value - domainMin) / span) * (rangeEnd - rangeStart);
+}
+
+/**
+ * Fills to mark on the chart: the individual executions when recorded,
+ * otherwise the trade's entry and exit
+ */
+function getMarkers(trade: Trade): ChartMarker[] {
+  if (trade.executions && trade.executions.length > 0) {
+    return trade.executions.map(execution => ({
+      date: execution.date,
+      price: execution.price,
+      side: execution.side,
+      quantity: execution.quantity
+    }));
+  }
+
+  const isShort = trade.direction === 'short';
+  const markers: ChartMarker[] = [
+    { date: trade.buyDate, price: trade.buyPrice, side: isShort ? 'sell' : 'buy', quantity: trade.quantity }
+  ];
+  if (trade.sellDate && trade.sellPrice !== undefined && trade.sellPrice !== null) {
+    markers.push({ date: trade.sellDate, price: trade.sellPrice, side: isShort ? 'buy' : 'sell', quantity: trade.quantity });
+  }
+  return markers;
+}
+
+/**
+ * Daily candlestick chart of a trade's ticker with its fills marked and the
+ * stop and target drawn as horizontal lines
+ */
+export function TradePriceChart({ trade, bars, svgRef }: TradePriceChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const currency = trade.currency || 'USD';
+
+  const chart = useMemo(() => {
+    const hasVolume = bars.some(bar => bar.volume !== undefined && bar.volume > 0);
+    const priceBottom = TRADE_CHART_HEIGHT - PAD_BOTTOM - (hasVolume ? VOLUME_HEIGHT + VOLUME_GAP : 0);
+
+    const markers = getMarkers(trade);
+    const levels = [trade.stopLoss, trade.targetPrice].filter((level): level is number => level !== undefined && level !== null && level > 0);
+    const prices = [
+      ...bars.flatMap(bar => [bar.low, bar.high]),
+      ...markers.map(marker => marker.price),
+      ...levels
+    ];
+    const minPrice = Math.min(...prices);
+    const maxPrice = Math.max(...prices);
+    const padding = (maxPrice - minPrice) * 0.05 || maxPrice * 0.01;
+
+    const slot = PLOT_WIDTH / Math.max(bars.length, 1);
+    const bodyWidth = Math.max(1, Math.min(12, slot * 0.7));
+    const xAt = (index: number) => PAD_LEFT + slot * (index + 0.5);
+    const y = scaleLinear(minPrice - padding, maxPrice + padding, priceBottom, PAD_TOP);
+
+    const maxVolume = Math.max(1, ...bars.map(bar => bar.volume || 0));
+    const volumeTop = priceBottom + VOLUME_GAP;
+    const yVolume = scaleLinear(0, maxVolume, volumeTop + VOLUME_HEIGHT, volumeTop);
+
+    // Fills on non-trading days snap to the next bar
+    const barIndexFor = (date: string) => {
+      const index = bars.findIndex(bar => bar.date >= date);
+      return index === -1 ? bars.length - 1 : index;
+    };
+    const placedMarkers = markers
+      .filter(marker => marker.date)
+      .map(marker => ({ ...marker, index: barIndexFor(marker.date) }));
+
+    // Holding period shading from the first entry to the last exit (or the last bar while open)
+    const entryIndex = barIndexFor(trade.buyDate);
+    const exitIndex = trade.sellDate ? barIndexFor(trade.sellDate) : bars.length - 1;
+
+    const priceTicks = [0, 0.25, 0.5, 0.75, 1].map(t => minPrice - padding + t * (maxPrice - minPrice + padding * 2));
+    const tickCount = Math.min(6, bars.length);
+    const dateTicks = Array.from({ length: tickCount }, (_, i) =>
+      Math.round(tickCount > 1 ? (i * (bars.length - 1)) / (tickCount - 1) : 0)
+    );
+
+    return {
+      hasVolume,
+      priceBottom,
+      slot,
+      bodyWidth,
+      xAt,
+      y,
+      yVolume,
+      volumeTop,
+      placedMarkers,
+      entryIndex,
+      exitIndex,
+      priceTicks,
+      dateTicks
+    };
+  }, [bars, trade]);
+
+  if (bars.length === 0) {
+    return null;
+  }
+
+  const format = (price: number) => formatCurrency(price, currency);
+  const hovered = hoverIndex !== null ? bars[hoverIndex] : null;
+
+  const handleMouseMove = (event: React.MouseEvent<SVGRectElement>) => {
+    const rect = event.currentTarget.ownerSVGElement?.getBoundingClientRect();
+    if (!rect) {
+      return;
+    }
+    const svgX = ((event.clientX - rect.left) / rect.width) * TRADE_CHART_WIDTH;
+    const index = Math.floor((svgX - PAD_LEFT) / chart.slot);
+    setHoverIndex(index >= 0 && index < bars.length ? index : null);
+  };
+
+  const renderLevel = (price: number | undefined, color: string, label: string, dash: string) => {
+    if (price === undefined || price === null || price <= 0) {
+      return null;
+    }
+    const y = chart.y(price);
+    return (
+      <g>
+        <line x1={PAD_LEFT} x2={PAD_LEFT + PLOT_WIDTH} y1={y} y2={y} stroke={color} strokeWidth={1} strokeDasharray={dash} />
+        <text x={PAD_LEFT + PLOT_WIDTH + 4} y={y} dominantBaseline="middle" fontSize={10} fill={color}>
+          {label} {price}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${TRADE_CHART_WIDTH} ${TRADE_CHART_HEIGHT}`}
+        width={TRADE_CHART_WIDTH}
+        height={TRADE_CHART_HEIGHT}
+        className="w-full h-auto select-none"
+        fontFamily="sans-serif"
+        role="img"
+        aria-label={`${trade.ticker} daily price chart`}
+      >
+        <rect x={0} y={0} width={TRADE_CHART_WIDTH} height={TRADE_CHART_HEIGHT} fill={COLORS.background} />
+
+        {/* Holding period */}
+        <rect
+          x={PAD_LEFT + chart.slot * chart.entryIndex}
+          y={PAD_TOP}
+          width={chart.slot * (chart.exitIndex - chart.entryIndex + 1)}
+          height={chart.priceBottom - PAD_TOP}
+          fill={COLORS.highlight}
+        />
+
+        {/* Price axis */}
+        {chart.priceTicks.map((price, index) => (
+          <g key={`price-tick-${index}`}>
+            <line x1={PAD_LEFT} x2={PAD_LEFT + PLOT_WIDTH} y1={chart.y(price)} y2={chart.y(price)} stroke={COLORS.grid} />
+            <text x={TRADE_CHART_WIDTH - 4} y={chart.y(price)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill={COLORS.axis}>
+              {price.toFixed(2)}
+            </text>
+          </g>
+        ))}
+
+        {/* Candles */}
+        {bars.map((bar, index) => {
+          const x = chart.xAt(index);
+          const color = bar.close >= bar.open ? COLORS.up : COLORS.down;
+          const top = chart.y(Math.max(bar.open, bar.close));
+          const bottom = chart.y(Math.min(bar.open, bar.close));
+          return (
+            <g key={bar.date}>
+              <line x1={x} x2={x} y1={chart.y(bar.high)} y2={chart.y(bar.low)} stroke={color} strokeWidth={1} />
+              <rect
+                x={x - chart.bodyWidth / 2}
+                y={top}
+                width={chart.bodyWidth}
+                height={Math.max(1, bottom - top)}
+                fill={color}
+              />
+              {chart.hasVolume && bar.volume !== undefined && (
+                <rect
+                  x={x - chart.bodyWidth / 2}
+                  y={chart.yVolume(bar.volume)}
+                  width={chart.bodyWidth}
+                  height={chart.volumeTop + VOLUME_HEIGHT - chart.yVolume(bar.volume)}
+                  fill={COLORS.volume}
+                />
+              )}
+            </g>
+          );
+        })}
+
+        {/* Entry, stop and target levels */}
+        {renderLevel(trade.buyPrice, COLORS.entry, 'Entry', '2 3')}
+        {renderLevel(trade.stopLoss, COLORS.stop, 'Stop', '6 4')}
+        {renderLevel(trade.targetPrice, COLORS.target, 'Target', '6 4')}
+
+        {/* Fills: buys below the bar pointing up, sells above pointing down */}
+        {chart.placedMarkers.map((marker, index) => {
+          const x = chart.xAt(marker.index);
+          const y = chart.y(marker.price);
+          const color = marker.side === 'buy' ? COLORS.buy : COLORS.sell;
+          const arrow = marker.side === 'buy'
+            ? `M ${x} ${y + 4} L ${x - 6} ${y + 14} L ${x + 6} ${y + 14} Z`
+            : `M ${x} ${y - 4} L ${x - 6} ${y - 14} L ${x + 6} ${y - 14} Z`;
+          return (
+            <g key={`marker-${index}`}>
+              <line x1={x - 8} x2={x + 8} y1={y} y2={y} stroke={color} strokeWidth={2} />
+              <path d={arrow} fill={color} stroke={COLORS.background} strokeWidth={1} />
+              <title>{`${marker.side === 'buy' ? 'Buy' : 'Sell'} ${marker.quantity} @ ${format(marker.price)} on ${marker.date}`}</title>
+            </g>
+          );
+        })}
+
+        {/* Date axis */}
+        {chart.dateTicks.map((index, tick) => (
+          <text
+            key={`date-tick-${tick}`}
+            x={chart.xAt(index)}
+            y={TRADE_CHART_HEIGHT - 6}
+            textAnchor={tick === 0 ? 'start' : tick === chart.dateTicks.length - 1 ? 'end' : 'middle'}
+            fontSize={10}
+            fill={COLORS.axis}
+          >
+            {bars[index].date}
+          </text>
+        ))}
+
+        {/* Mouse capture for the hover readout */}
+        <rect
+          x={PAD_LEFT}
+          y={PAD_TOP}
+          width={PLOT_WIDTH}
+          height={TRADE_CHART_HEIGHT - PAD_TOP - PAD_BOTTOM}
+          fill="transparent"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        />
+      </svg>
+
+      {hovered && (
+        <div className="absolute top-0 left-0 pointer-events-none bg-white/90 border border-gray-200 rounded-md px-3 py-1 text-xs">
+          <span className="font-medium">{hovered.date}</span>
+          {' '}O {hovered.open} H {hovered.high} L {hovered.low} C {hovered.close}
+          {hovered.volume !== undefined && ` V ${hovered.volume.toLocaleString()}`}
+        </div>
+      )}
+    </div>
+  );
+}
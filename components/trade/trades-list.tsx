@@ -26,7 +26,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Trade } from '@/types/trade';
-import { formatDate, formatCurrency } from '@/lib/utils';
+import { formatDate, formatCurrency, getTotalFees, getTradePnL } from '@/lib/utils';
 import { MarkdownEditorModal } from '@/components/markdown/markdown-editor-modal';
 import { TradeNotesDropdown } from './trade-notes-dropdown';
 import { TradeEditModal } from './trade-edit-modal';
@@ -40,15 +40,18 @@ interface TradesListProps {
   onQuickMemo?: (trade: Trade) => void;
   onOpenMemo?: (trade: Trade, memoFile: string, folderPath: string) => void;
   memoRefreshTrigger?: number; // External trigger to refresh memo dropdowns
+  baseCurrency?: string; // Currency of trades that don't specify one
 }
 
-export function TradesList({ trades, onDeleteTrade, onBulkDelete, onExportTrades, onUpdateTrade, onQuickMemo, onOpenMemo, memoRefreshTrigger }: TradesListProps) {
+export function TradesList({ trades, onDeleteTrade, onBulkDelete, onExportTrades, onUpdateTrade, onQuickMemo, onOpenMemo, memoRefreshTrigger, baseCurrency = 'USD' }: TradesListProps) {
   const [selectedTrades, setSelectedTrades] = useState<string[]>([]);
   const [selectedTradeForEdit, setSelectedTradeForEdit] = useState<Trade | null>(null);
   const [selectedTradeForMemo, setSelectedTradeForMemo] = useState<Trade | null>(null);
 
   // console.log('TradesList render - selectedTradeForEdit:', selectedTradeForEdit?.ticker || 'null');
 
+  const tradeCurrency = (trade: Trade) => trade.currency || baseCurrency;
+
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
       setSelectedTrades(trades.map(t => t.id));
@@ -139,6 +142,7 @@ export function TradesList({ trades, onDeleteTrade, onBulkDelete, onExportTrades
               <TableHead className="min-w-32 whitespace-nowrap">Buy Date</TableHead>
               <TableHead className="min-w-32 whitespace-nowrap">Sell Date</TableHead>
               <TableHead className="min-w-24 whitespace-nowrap">Ticker</TableHead>
+              <TableHead className="min-w-24 whitespace-nowrap">Direction</TableHead>
               <TableHead className="min-w-24 whitespace-nowrap">Status</TableHead>
               <TableHead className="min-w-24 whitespace-nowrap">Quantity</TableHead>
               <TableHead className="min-w-32 whitespace-nowrap">Buy Price</TableHead>
@@ -175,6 +179,14 @@ export function TradesList({ trades, onDeleteTrade, onBulkDelete, onExportTrades
                     <span className="font-medium">{trade.ticker}</span>
                   </div>
                 </TableCell>
+                <TableCell className="min-w-24 whitespace-nowrap">
+                  <Badge
+                    variant="outline"
+                    className={trade.direction === 'short' ? 'border-orange-300 text-orange-700' : 'border-gray-300 text-gray-700'}
+                  >
+                    {trade.direction === 'short' ? 'SHORT' : 'LONG'}
+                  </Badge>
+                </TableCell>
                 <TableCell className="min-w-24 whitespace-nowrap">
                   <Badge 
                     variant={trade.sellDate ? 'default' : 'secondary'}
@@ -192,19 +204,22 @@ export function TradesList({ trades, onDeleteTrade, onBulkDelete, onExportTrades
                   {trade.quantity.toLocaleString()}
                 </TableCell>
                 <TableCell className="min-w-32 whitespace-nowrap">
-                  <span className="text-sm">{formatCurrency(trade.buyPrice)}</span>
+                  <span className="text-sm">{formatCurrency(trade.buyPrice, tradeCurrency(trade))}</span>
                 </TableCell>
                 <TableCell className="min-w-32 whitespace-nowrap">
                   {trade.sellPrice ? (
-                    <span className="text-sm">{formatCurrency(trade.sellPrice)}</span>
+                    <span className="text-sm">{formatCurrency(trade.sellPrice, tradeCurrency(trade))}</span>
                   ) : (
                     <span className="text-sm text-gray-400">-</span>
                   )}
                 </TableCell>
                 <TableCell className="min-w-24 whitespace-nowrap">
                   {trade.pnl !== undefined ? (
-                    <span className={trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}>
-                      {formatCurrency(trade.pnl)}
+                    <span
+                      className={trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}
+                      title={`Gross ${formatCurrency(getTradePnL(trade, 'gross') || 0, tradeCurrency(trade))} • Fees ${formatCurrency(getTotalFees(trade), tradeCurrency(trade))} • Tax ${formatCurrency(trade.taxWithholding || 0, tradeCurrency(trade))}`}
+                    >
+                      {formatCurrency(trade.pnl, tradeCurrency(trade))}
                     </span>
                   ) : (
                     <span className="text-gray-400">-</span>
@@ -32,6 +32,7 @@ export function TradesTable({
 
   const columns = [
     { key: 'ticker', label: 'Ticker', type: 'text' },
+    { key: 'direction', label: 'Direction', type: 'direction' },
     { key: 'buyDate', label: 'Buy Date', type: 'date' },
     { key: 'quantity', label: 'Quantity', type: 'number' },
     { key: 'buyPrice', label: 'Buy Price', type: 'number' },
@@ -100,6 +101,8 @@ export function TradesTable({
         .filter(tag => tag.length > 0);
     } else if (column?.type === 'date') {
       processedValue = editValue || undefined;
+    } else if (column?.type === 'direction') {
+      processedValue = editValue.trim().toLowerCase() === 'short' ? 'short' : 'long';
     }
 
     onUpdateTrade(tradeId, field, processedValue);
@@ -121,6 +124,10 @@ export function TradesTable({
 
   const formatCellValue = (trade: Trade, column: any) => {
     const value = trade[column.key as keyof Trade];
+
+    if (column.key === 'direction') {
+      return value === 'short' ? 'SHORT' : 'LONG';
+    }
     
     if (value === null || value === undefined || value === '') {
       return '-';
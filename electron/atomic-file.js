@@ -0,0 +1,52 @@
+const fs = require('fs').promises;
+const path = require('path');
+
+/**
+ * Replace a file without ever leaving a partial copy behind: write a temp file next to it,
+ * flush it to disk, then rename it over the original. A crash at any point leaves either
+ * the old file or the new one; a stray temp file is cleaned up by the renderer's recovery.
+ */
+async function writeFileAtomic(filePath, data) {
+  const tempPath = `${filePath}.tmp-${process.pid}-${Date.now()}`;
+  let handle;
+  try {
+    handle = await fs.open(tempPath, 'w');
+    await handle.writeFile(data, 'utf8');
+    await handle.sync();
+    await handle.close();
+    handle = undefined;
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    if (handle) {
+      await handle.close().catch(() => {});
+    }
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+
+  // Persist the rename itself; directories can't be opened for sync on Windows
+  if (process.platform !== 'win32') {
+    try {
+      const dirHandle = await fs.open(path.dirname(filePath), 'r');
+      await dirHandle.sync();
+      await dirHandle.close();
+    } catch (error) {
+      // The data is already on disk, only the directory entry may lag
+    }
+  }
+}
+
+/**
+ * Append and flush, for journals whose entries must be on disk before the write they describe
+ */
+async function appendFileDurable(filePath, data) {
+  const handle = await fs.open(filePath, 'a');
+  try {
+    await handle.writeFile(data, 'utf8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+module.exports = { writeFileAtomic, appendFileDurable };
@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { appendFileDurable, writeFileAtomic } from './atomic-file';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'atomic-file-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('writeFileAtomic', () => {
+  it('replaces the file without leaving a temp file behind', async () => {
+    const filePath = path.join(dir, 'trades.csv');
+    await fs.writeFile(filePath, 'tradeId\nT1\n');
+
+    await writeFileAtomic(filePath, 'tradeId\nT1\nT2\n');
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('tradeId\nT1\nT2\n');
+    expect(await fs.readdir(dir)).toEqual(['trades.csv']);
+  });
+
+  it('keeps the original and cleans up when the rename fails', async () => {
+    // A directory in the file's place makes the rename fail after the temp file is written
+    const filePath = path.join(dir, 'trades.csv');
+    await fs.mkdir(filePath);
+    await fs.writeFile(path.join(filePath, 'keep'), 'x');
+
+    await expect(writeFileAtomic(filePath, 'tradeId\n')).rejects.toThrow();
+
+    expect(await fs.readdir(dir)).toEqual(['trades.csv']);
+    expect(await fs.readdir(filePath)).toEqual(['keep']);
+  });
+});
+
+describe('appendFileDurable', () => {
+  it('appends to the end of the file, creating it if needed', async () => {
+    const filePath = path.join(dir, 'trades.journal');
+
+    await appendFileDurable(filePath, '{"id":"a"}\n');
+    await appendFileDurable(filePath, '{"id":"a","done":true}\n');
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('{"id":"a"}\n{"id":"a","done":true}\n');
+  });
+});
@@ -0,0 +1,152 @@
+const zlib = require('zlib');
+
+/**
+ * Minimal zip reader/writer for backup archives, so backups open in any OS's archive tool
+ * without adding a dependency. Entries are deflated unless that doesn't make them smaller.
+ * No zip64: an archive is limited to 65535 entries and 4 GB.
+ */
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+
+// MS-DOS date and time, as zip headers store them (2-second resolution, local time)
+function dosDateTime(date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a zip from [{ name, data: Buffer, mtime?: Date }]; names use forward slashes
+ */
+function createZip(entries) {
+  if (entries.length > 0xffff) {
+    throw new Error(`Too many files for one archive (${entries.length})`);
+  }
+
+  const parts = [];
+  const central = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const deflated = zlib.deflateRawSync(entry.data);
+    const method = deflated.length < entry.data.length ? DEFLATED : STORED;
+    const body = method === DEFLATED ? deflated : entry.data;
+    const crc = zlib.crc32(entry.data) >>> 0;
+    const stamp = dosDateTime(entry.mtime || new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_NAMES, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(stamp.time, 10);
+    local.writeUInt16LE(stamp.date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    parts.push(local, name, body);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_HEADER, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(UTF8_NAMES, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(stamp.time, 12);
+    header.writeUInt16LE(stamp.date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(body.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + body.length;
+    if (offset > 0xffffffff) {
+      throw new Error('Archive would exceed 4 GB');
+    }
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, directory, end]);
+}
+
+/**
+ * List a zip's entries as [{ name, size, compressedSize, read() }]; read() inflates
+ * the entry and checks its CRC
+ */
+function readZip(buffer) {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const count = buffer.readUInt16LE(endOffset + 10);
+  let position = buffer.readUInt32LE(endOffset + 16);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(position) !== CENTRAL_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = buffer.readUInt16LE(position + 10);
+    const crc = buffer.readUInt32LE(position + 16);
+    const compressedSize = buffer.readUInt32LE(position + 20);
+    const size = buffer.readUInt32LE(position + 24);
+    const nameLength = buffer.readUInt16LE(position + 28);
+    const extraLength = buffer.readUInt16LE(position + 30);
+    const commentLength = buffer.readUInt16LE(position + 32);
+    const localOffset = buffer.readUInt32LE(position + 42);
+    const name = buffer.toString('utf8', position + 46, position + 46 + nameLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      read: () => {
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const body = buffer.subarray(dataStart, dataStart + compressedSize);
+        let data;
+        if (method === STORED) {
+          data = Buffer.from(body);
+        } else if (method === DEFLATED) {
+          data = zlib.inflateRawSync(body);
+        } else {
+          throw new Error(`Unsupported compression method ${method} for ${name}`);
+        }
+        if ((zlib.crc32(data) >>> 0) !== crc) {
+          throw new Error(`Checksum mismatch for ${name}`);
+        }
+        return data;
+      }
+    });
+  }
+
+  return entries;
+}
+
+module.exports = { createZip, readZip };
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './backup-archive';
+
+const csv = Buffer.from('tradeId,ticker\n' + 'T1,XYZ\n'.repeat(200), 'utf8');
+const config = Buffer.from('{"autoBackup":true}', 'utf8');
+
+describe('createZip / readZip', () => {
+  it('round-trips entries with their names and sizes', () => {
+    const entries = readZip(createZip([
+      { name: 'trades.csv', data: csv },
+      { name: 'settings/config.json', data: config },
+      { name: 'trades/2024/取引.md', data: Buffer.alloc(0) }
+    ]));
+
+    expect(entries.map(entry => [entry.name, entry.size])).toEqual([
+      ['trades.csv', csv.length],
+      ['settings/config.json', config.length],
+      ['trades/2024/取引.md', 0]
+    ]);
+    expect(entries.map(entry => entry.read())).toEqual([csv, config, Buffer.alloc(0)]);
+  });
+
+  it('deflates entries only when that makes them smaller', () => {
+    const [repetitive, short] = readZip(createZip([
+      { name: 'trades.csv', data: csv },
+      { name: 'settings/config.json', data: config }
+    ]));
+
+    expect(repetitive.compressedSize).toBeLessThan(repetitive.size);
+    expect(short.compressedSize).toBe(short.size);
+  });
+
+  it('rejects a corrupted entry on read', () => {
+    const zip = createZip([{ name: 'settings/config.json', data: config }]);
+    // The stored body follows the 30-byte local header and the name
+    zip[30 + 'settings/config.json'.length] ^= 0xff;
+
+    expect(() => readZip(zip)[0].read()).toThrow('Checksum mismatch for settings/config.json');
+  });
+
+  it('rejects files that are not zip archives', () => {
+    expect(() => readZip(csv)).toThrow('Not a zip archive');
+  });
+});
@@ -0,0 +1,357 @@
+const { app } = require('electron');
+const fs = require('fs').promises;
+const path = require('path');
+const { existsSync } = require('fs');
+const { createZip, readZip } = require('./backup-archive');
+const { writeFileAtomic } = require('./atomic-file');
+const { parseCSV, toRecords } = require('../lib/csv/csv-codec');
+
+/**
+ * Rolling backups of the data directory, run from the main process so they happen whether
+ * or not a window is open. Each backup is a zip in {dataDirectory}/backups named
+ * backup-{timestamp}-{reason}.zip; only the newest maxBackups archives are kept.
+ */
+
+const BACKUP_FILE_PATTERN = /^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-([a-z-]+)\.zip$/;
+const DEFAULT_INTERVAL = 24 * 60 * 60 * 1000;
+const MIN_INTERVAL = 5 * 60 * 1000;
+const STARTUP_DELAY = 60 * 1000; // Let the renderer finish its own startup recovery first
+const MAX_TIMEOUT = 2 ** 31 - 1; // setTimeout overflows past ~24.8 days
+
+const SETTINGS_ENTRY = 'settings/config.json';
+const MANIFEST_ENTRY = 'manifest.json';
+const PRESET_DIRECTORIES = ['import-presets', '.presets'];
+const OHLC_DIRECTORY = 'ohlc'; // Price history, see OHLCService
+const ACCOUNTS_FILE = 'accounts.json'; // In the portfolio directory, see AccountService
+// Top-level files that are rebuilt or only meaningful to the process that wrote them
+const SKIPPED_FILES = ['trades.journal'];
+
+const GROUP_LABELS = {
+  trades: 'Trades (trades.csv)',
+  settings: 'App settings',
+  data: 'Accounts, setups, prices and other data files',
+  presets: 'Import and gallery presets',
+  tradeFolders: 'Trade folders (notes and images)'
+};
+
+let backupTimer = null;
+
+function getConfigPath() {
+  return path.join(app.getPath('userData'), 'config.json');
+}
+
+async function loadConfig() {
+  try {
+    const data = await fs.readFile(getConfigPath(), 'utf8');
+    return JSON.parse(data);
+  } catch (error) {
+    return null;
+  }
+}
+
+function getBackupDirectory(config) {
+  return path.join(config.dataDirectory, 'backups');
+}
+
+function getTradeDirectory(config) {
+  return config.tradeDirectory || 'trades';
+}
+
+// Data kept in subdirectories: accounts.json in the portfolio directory, and the price history
+function getDataDirectories(config) {
+  return [config.portfolioDirectory || 'portfolios', OHLC_DIRECTORY]
+    .filter(dir => dir !== getTradeDirectory(config));
+}
+
+// Which part of the journal an archive entry belongs to, for previews and partial restores
+function getEntryGroup(name, config) {
+  if (name === SETTINGS_ENTRY) return 'settings';
+  if (name === 'trades.csv' || name === 'trades.schema.json') return 'trades';
+  if (PRESET_DIRECTORIES.some(dir => name.startsWith(`${dir}/`))) return 'presets';
+  if (getDataDirectories(config).some(dir => name.startsWith(`${dir}/`))) return 'data';
+  if (name.startsWith(`${getTradeDirectory(config)}/`)) return 'tradeFolders';
+  return 'data';
+}
+
+async function collectDirectory(root, relative, entries) {
+  const items = await fs.readdir(path.join(root, relative), { withFileTypes: true });
+  for (const item of items) {
+    const itemPath = relative ? `${relative}/${item.name}` : item.name;
+    if (item.isDirectory()) {
+      await collectDirectory(root, itemPath, entries);
+    } else if (item.isFile()) {
+      const fullPath = path.join(root, itemPath);
+      const stats = await fs.stat(fullPath);
+      entries.push({ name: itemPath, data: await fs.readFile(fullPath), mtime: stats.mtime });
+    }
+  }
+}
+
+function parseBackupFileName(fileName) {
+  const match = BACKUP_FILE_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  const [, date, hours, minutes, seconds, millis, reason] = match;
+  return {
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    reason
+  };
+}
+
+/**
+ * Archives in the backup directory, newest first
+ */
+async function listBackups(config) {
+  const backupDir = getBackupDirectory(config);
+  if (!existsSync(backupDir)) {
+    return [];
+  }
+
+  const items = await fs.readdir(backupDir, { withFileTypes: true });
+  const backups = [];
+  for (const item of items) {
+    const parsed = item.isFile() ? parseBackupFileName(item.name) : null;
+    if (!parsed) {
+      continue;
+    }
+    const stats = await fs.stat(path.join(backupDir, item.name));
+    backups.push({
+      fileName: item.name,
+      path: path.join(backupDir, item.name),
+      createdAt: parsed.createdAt,
+      reason: parsed.reason,
+      size: stats.size
+    });
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Keep the newest maxBackups archives; older ones are deleted
+ */
+async function pruneBackups(config) {
+  const maxBackups = Math.max(1, config.maxBackups || 10);
+  const backups = await listBackups(config);
+  const removed = [];
+  for (const backup of backups.slice(maxBackups)) {
+    await fs.unlink(backup.path);
+    removed.push(backup.fileName);
+  }
+  return removed;
+}
+
+/**
+ * Snapshot trades.csv, the app settings, the data directory's own files, accounts, price
+ * history and presets, plus the trade folders when the config asks for them (or the caller does)
+ */
+async function createBackup(config, reason, options = {}) {
+  const dataDirectory = config.dataDirectory;
+  if (!dataDirectory || !existsSync(dataDirectory)) {
+    throw new Error(`Data directory not found: ${dataDirectory}`);
+  }
+
+  const includeTradeFolders = options.includeTradeFolders !== undefined
+    ? options.includeTradeFolders
+    : Boolean(config.backupTradeFolders);
+  const entries = [];
+
+  const items = await fs.readdir(dataDirectory, { withFileTypes: true });
+  for (const item of items) {
+    if (!item.isFile() || SKIPPED_FILES.includes(item.name) || item.name.includes('.tmp-')) {
+      continue;
+    }
+    const fullPath = path.join(dataDirectory, item.name);
+    const stats = await fs.stat(fullPath);
+    entries.push({ name: item.name, data: await fs.readFile(fullPath), mtime: stats.mtime });
+  }
+
+  for (const dir of [...PRESET_DIRECTORIES, ...getDataDirectories(config)]) {
+    if (existsSync(path.join(dataDirectory, dir))) {
+      await collectDirectory(dataDirectory, dir, entries);
+    }
+  }
+
+  if (includeTradeFolders && existsSync(path.join(dataDirectory, getTradeDirectory(config)))) {
+    await collectDirectory(dataDirectory, getTradeDirectory(config), entries);
+  }
+
+  if (existsSync(getConfigPath())) {
+    entries.push({ name: SETTINGS_ENTRY, data: await fs.readFile(getConfigPath()) });
+  }
+
+  const createdAt = new Date();
+  const manifest = {
+    format: 1,
+    createdAt: createdAt.toISOString(),
+    reason,
+    appVersion: app.getVersion(),
+    dataDirectory,
+    includesTradeFolders: includeTradeFolders,
+    files: entries.length
+  };
+  entries.unshift({ name: MANIFEST_ENTRY, data: Buffer.from(JSON.stringify(manifest, null, 2)) });
+
+  const backupDir = getBackupDirectory(config);
+  await fs.mkdir(backupDir, { recursive: true });
+  const fileName = `backup-${createdAt.toISOString().replace(/[:.]/g, '-')}-${reason}.zip`;
+  await writeFileAtomic(path.join(backupDir, fileName), createZip(entries));
+
+  const pruned = options.prune === false ? [] : await pruneBackups(config);
+  const backup = (await listBackups(config)).find(item => item.fileName === fileName);
+  return { backup, pruned };
+}
+
+async function readBackup(config, fileName) {
+  if (!parseBackupFileName(fileName)) {
+    throw new Error(`Not a backup archive: ${fileName}`);
+  }
+  return readZip(await fs.readFile(path.join(getBackupDirectory(config), fileName)));
+}
+
+/**
+ * What an archive holds, grouped the way restore offers it, without changing anything
+ */
+async function previewBackup(config, fileName) {
+  const entries = await readBackup(config, fileName);
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_ENTRY);
+  const manifest = manifestEntry ? JSON.parse(manifestEntry.read().toString('utf8')) : null;
+
+  const groups = {};
+  for (const entry of entries) {
+    if (entry.name === MANIFEST_ENTRY) {
+      continue;
+    }
+    const id = getEntryGroup(entry.name, config);
+    if (!groups[id]) {
+      groups[id] = { id, label: GROUP_LABELS[id], files: [], size: 0 };
+    }
+    groups[id].files.push(entry.name);
+    groups[id].size += entry.size;
+  }
+
+  let tradeCount = null;
+  const tradesEntry = entries.find(entry => entry.name === 'trades.csv');
+  if (tradesEntry) {
+    const { records } = toRecords(parseCSV(tradesEntry.read().toString('utf8')));
+    tradeCount = records.filter(record => (record.tradeId || '').trim()).length;
+  }
+
+  let accountCount = null;
+  const accountsEntry = entries.find(entry => entry.name === `${config.portfolioDirectory || 'portfolios'}/${ACCOUNTS_FILE}`);
+  if (accountsEntry) {
+    try {
+      const accounts = JSON.parse(accountsEntry.read().toString('utf8'));
+      accountCount = Array.isArray(accounts) ? accounts.length : null;
+    } catch (error) {
+      console.warn('Unreadable accounts.json in backup:', error.message);
+    }
+  }
+
+  return {
+    fileName,
+    manifest,
+    tradeCount,
+    accountCount,
+    groups: Object.keys(GROUP_LABELS).filter(id => groups[id]).map(id => groups[id])
+  };
+}
+
+/**
+ * Write the chosen groups of an archive back into place. The current state is backed up
+ * first, so a restore can itself be undone by restoring that pre-restore archive.
+ * Files that aren't in the archive are left alone, and the data directory setting is kept.
+ */
+async function restoreBackup(config, fileName, groupIds) {
+  const entries = await readBackup(config, fileName);
+  const selected = entries.filter(entry =>
+    entry.name !== MANIFEST_ENTRY && groupIds.includes(getEntryGroup(entry.name, config))
+  );
+  if (selected.length === 0) {
+    throw new Error('Nothing selected to restore');
+  }
+
+  // Not pruned here, so a small maxBackups can't drop the archive being restored
+  const safety = await createBackup(config, 'pre-restore', {
+    includeTradeFolders: groupIds.includes('tradeFolders') || Boolean(config.backupTradeFolders),
+    prune: false
+  });
+
+  const root = path.resolve(config.dataDirectory);
+  for (const entry of selected) {
+    if (entry.name === SETTINGS_ENTRY) {
+      const restoredConfig = JSON.parse(entry.read().toString('utf8'));
+      await writeFileAtomic(getConfigPath(), JSON.stringify({ ...restoredConfig, dataDirectory: config.dataDirectory }, null, 2));
+      continue;
+    }
+
+    const destination = path.resolve(root, entry.name);
+    if (!destination.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to restore outside the data directory: ${entry.name}`);
+    }
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await writeFileAtomic(destination, entry.read());
+  }
+
+  await scheduleBackups();
+  return { restored: selected.length, safetyBackup: safety.backup ? safety.backup.fileName : undefined };
+}
+
+async function runScheduledBackup() {
+  backupTimer = null;
+  try {
+    const config = await loadConfig();
+    if (config && config.autoBackup) {
+      const { backup, pruned } = await createBackup(config, 'scheduled');
+      console.log(`Scheduled backup written: ${backup ? backup.fileName : 'unknown'}${pruned.length ? `, pruned ${pruned.length}` : ''}`);
+    }
+  } catch (error) {
+    console.error('Scheduled backup failed:', error);
+  } finally {
+    await scheduleBackups();
+  }
+}
+
+/**
+ * (Re)arm the timer from the current config. Called at startup and whenever settings are
+ * saved; the next backup is due one interval after the newest archive of any kind.
+ */
+async function scheduleBackups() {
+  if (backupTimer) {
+    clearTimeout(backupTimer);
+    backupTimer = null;
+  }
+
+  try {
+    const config = await loadConfig();
+    if (!config || !config.autoBackup || !config.dataDirectory || !existsSync(config.dataDirectory)) {
+      return;
+    }
+
+    const interval = Math.max(config.backupInterval || DEFAULT_INTERVAL, MIN_INTERVAL);
+    const [latest] = await listBackups(config);
+    const due = latest ? new Date(latest.createdAt).getTime() + interval : Date.now();
+    const delay = Math.min(Math.max(due - Date.now(), STARTUP_DELAY), MAX_TIMEOUT);
+    backupTimer = setTimeout(runScheduledBackup, delay);
+  } catch (error) {
+    console.error('Failed to schedule backups:', error);
+  }
+}
+
+function stopBackupScheduler() {
+  if (backupTimer) {
+    clearTimeout(backupTimer);
+    backupTimer = null;
+  }
+}
+
+module.exports = {
+  loadConfig,
+  listBackups,
+  createBackup,
+  previewBackup,
+  restoreBackup,
+  scheduleBackups,
+  stopBackupScheduler
+};
@@ -3,10 +3,27 @@ const fs = require('fs').promises;
 const path = require('path');
 const { existsSync, statSync } = require('fs');
 const chokidar = require('chokidar');
+const { parseCSV, toRecords, formatCSV } = require('../lib/csv/csv-codec');
+const { writeFileAtomic, appendFileDurable } = require('./atomic-file');
+const {
+  loadConfig: loadBackupConfig,
+  listBackups,
+  createBackup,
+  previewBackup,
+  restoreBackup,
+  scheduleBackups
+} = require('./backup-scheduler');
 
 // File watcher instances
 const watchers = new Map();
 
+// Modules the generated MCP server requires (see McpServerService), copied from the app so both
+// run the same code. Named .cjs because the server's package.json makes .js files ES modules.
+const MCP_SHARED_MODULES = {
+  'csv-codec.cjs': path.join(__dirname, '..', 'lib', 'csv', 'csv-codec.js'),
+  'return-metrics.cjs': path.join(__dirname, '..', 'lib', 'analytics', 'return-metrics.js')
+};
+
 // Initialize IPC handlers
 function initializeIPC(mainWindow) {
   // File System Operations
@@ -21,7 +38,16 @@ function initializeIPC(mainWindow) {
 
   ipcMain.handle('fs:write-file', async (event, filePath, data) => {
     try {
-      await fs.writeFile(filePath, data, 'utf8');
+      await writeFileAtomic(filePath, data);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('fs:append-file', async (event, filePath, data) => {
+    try {
+      await appendFileDurable(filePath, data);
       return { success: true };
     } catch (error) {
       return { success: false, error: error.message };
@@ -115,6 +141,22 @@ function initializeIPC(mainWindow) {
     }
   });
 
+  // Write an image passed from the renderer as a data URL (e.g. a chart rendered to canvas)
+  ipcMain.handle('fs:write-image-from-data-url', async (event, filePath, dataUrl) => {
+    try {
+      const match = /^data:[^;,]+;base64,(.*)$/.exec(dataUrl || '');
+      if (!match) {
+        return { success: false, error: 'Expected a base64 data URL' };
+      }
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, Buffer.from(match[1], 'base64'));
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
   ipcMain.handle('fs:read-image-as-data-url', async (event, filePath) => {
     try {
       const data = await fs.readFile(filePath);
@@ -409,7 +451,9 @@ function initializeIPC(mainWindow) {
   ipcMain.handle('config:save-config', async (event, config) => {
     try {
       const configPath = path.join(app.getPath('userData'), 'config.json');
-      await fs.writeFile(configPath, JSON.stringify(config, null, 2), 'utf8');
+      await writeFileAtomic(configPath, JSON.stringify(config, null, 2));
+      // Pick up changes to autoBackup, backupInterval and maxBackups
+      await scheduleBackups();
       return { success: true };
     } catch (error) {
       return { success: false, error: error.message };
@@ -434,6 +478,11 @@ function initializeIPC(mainWindow) {
         markdownDirectory: 'trades',
         autoCreateMarkdownFolders: true,
         markdownFileNamePattern: '{tradeId}_{ticker}_{date}',
+        // Analytics configuration
+        pnlDisplay: 'net',
+        baseCurrency: 'USD',
+        startingCapital: 0,
+        riskFreeRate: 0,
         // Setup configuration
         setupCompleted: false,
         setupVersion: '1.0.0'
@@ -444,6 +493,69 @@ function initializeIPC(mainWindow) {
     }
   });
 
+  // Backup Operations (archives in {dataDirectory}/backups, see backup-scheduler.js)
+  ipcMain.handle('backup:list', async () => {
+    try {
+      const config = await loadBackupConfig();
+      if (!config) {
+        return { success: true, data: [] };
+      }
+      return { success: true, data: await listBackups(config) };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('backup:create', async (event, options) => {
+    try {
+      const config = await loadBackupConfig();
+      if (!config) {
+        return { success: false, error: 'Save the settings before creating a backup' };
+      }
+      const { backup } = await createBackup(config, 'manual', options || {});
+      await scheduleBackups();
+      return { success: true, data: backup };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('backup:preview', async (event, fileName) => {
+    try {
+      const config = await loadBackupConfig();
+      if (!config) {
+        return { success: false, error: 'No configuration saved yet' };
+      }
+      return { success: true, data: await previewBackup(config, fileName) };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('backup:restore', async (event, fileName, groups) => {
+    try {
+      const config = await loadBackupConfig();
+      if (!config) {
+        return { success: false, error: 'No configuration saved yet' };
+      }
+      return { success: true, data: await restoreBackup(config, fileName, groups || []) };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // MCP Server Operations
+  ipcMain.handle('mcp:install-shared-modules', async (event, serverDirectory) => {
+    try {
+      for (const [fileName, sourcePath] of Object.entries(MCP_SHARED_MODULES)) {
+        await writeFileAtomic(path.join(serverDirectory, fileName), await fs.readFile(sourcePath, 'utf8'));
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
   // File Watcher Operations
   ipcMain.handle('fs:watch-directory', async (event, directoryPath, watchId) => {
     try {
@@ -502,20 +614,8 @@ function initializeIPC(mainWindow) {
   // CSV Operations
   ipcMain.handle('csv:parse-csv', async (event, filePath) => {
     try {
-      const csvParser = require('csv-parser');
-      const results = [];
-      
-      return new Promise((resolve) => {
-        require('fs').createReadStream(filePath)
-          .pipe(csvParser())
-          .on('data', (data) => results.push(data))
-          .on('end', () => {
-            resolve({ success: true, data: results });
-          })
-          .on('error', (error) => {
-            resolve({ success: false, error: error.message });
-          });
-      });
+      const content = await fs.readFile(filePath, 'utf8');
+      return { success: true, data: toRecords(parseCSV(content)).records };
     } catch (error) {
       return { success: false, error: error.message };
     }
@@ -523,24 +623,14 @@ function initializeIPC(mainWindow) {
 
   ipcMain.handle('csv:export-csv', async (event, data, filePath) => {
     try {
-      const createCsvWriter = require('csv-writer').createObjectCsvWriter;
-      
       if (!data || data.length === 0) {
         return { success: false, error: 'No data to export' };
       }
 
       // Get headers from first object
-      const headers = Object.keys(data[0]).map(key => ({
-        id: key,
-        title: key
-      }));
-
-      const csvWriter = createCsvWriter({
-        path: filePath,
-        header: headers
-      });
+      const headers = Object.keys(data[0]);
 
-      await csvWriter.writeRecords(data);
+      await fs.writeFile(filePath, formatCSV(headers, data), 'utf8');
       return { success: true };
     } catch (error) {
       return { success: false, error: error.message };
@@ -554,87 +644,57 @@ function initializeIPC(mainWindow) {
         return { success: true, data: [] };
       }
 
-      const csvParser = require('csv-parser');
+      const content = await fs.readFile(filePath, 'utf8');
       const results = [];
-      
-      return new Promise((resolve) => {
-        require('fs').createReadStream(filePath)
-          .pipe(csvParser())
-          .on('data', (data) => {
-            // Convert CSV row to Trade format
-            const trade = {
-              id: data.id || `T${Date.now()}`,
-              ticker: data.ticker || '',
-              buyDate: data.buyDate || data.buy_date || '',
-              buyPrice: data.buyPrice ? parseFloat(data.buyPrice) : (data.buy_price ? parseFloat(data.buy_price) : 0),
-              quantity: data.quantity ? parseInt(data.quantity) : 0,
-              sellDate: data.sellDate || data.sell_date || '',
-              sellPrice: data.sellPrice ? parseFloat(data.sellPrice) : (data.sell_price ? parseFloat(data.sell_price) : 0),
-              commission: data.commission ? parseFloat(data.commission) : 0,
-              tags: data.tags ? data.tags.split(',').map(t => t.trim()) : [],
-              notesFiles: data.notesFiles ? data.notesFiles.split(',').map(f => f.trim()) : [],
-              createdAt: data.createdAt || new Date().toISOString(),
-              updatedAt: data.updatedAt || new Date().toISOString()
-            };
-
-            // Calculate P&L and holding days if sellDate exists
-            if (trade.sellDate && trade.sellPrice && trade.buyPrice && trade.quantity) {
-              trade.pnl = (trade.sellPrice - trade.buyPrice) * trade.quantity - (trade.commission || 0);
-              const buyDate = new Date(trade.buyDate);
-              const sellDate = new Date(trade.sellDate);
-              const timeDiff = sellDate.getTime() - buyDate.getTime();
-              trade.holdingDays = Math.max(1, Math.ceil(timeDiff / (1000 * 60 * 60 * 24))); // At least 1 day, consistent with service layer
-            }
 
-            results.push(trade);
-          })
-          .on('end', () => {
-            resolve({ success: true, data: results });
-          })
-          .on('error', (error) => {
-            resolve({ success: false, error: error.message });
-          });
-      });
-    } catch (error) {
-      return { success: false, error: error.message };
-    }
-  });
+      for (const data of toRecords(parseCSV(content)).records) {
+        // Convert CSV row to Trade format
+        const trade = {
+          id: data.id || `T${Date.now()}`,
+          ticker: data.ticker || '',
+          direction: (data.direction || '').trim().toLowerCase() === 'short' ? 'short' : 'long',
+          currency: data.currency ? data.currency.trim().toUpperCase() : undefined,
+          accountId: data.accountId || undefined,
+          strategyId: data.strategyId || undefined,
+          buyDate: data.buyDate || data.buy_date || '',
+          buyPrice: data.buyPrice ? parseFloat(data.buyPrice) : (data.buy_price ? parseFloat(data.buy_price) : 0),
+          quantity: data.quantity ? parseInt(data.quantity) : 0,
+          sellDate: data.sellDate || data.sell_date || '',
+          sellPrice: data.sellPrice ? parseFloat(data.sellPrice) : (data.sell_price ? parseFloat(data.sell_price) : 0),
+          commission: data.commission ? parseFloat(data.commission) : 0,
+          entryFee: data.entryFee ? parseFloat(data.entryFee) : undefined,
+          exitFee: data.exitFee ? parseFloat(data.exitFee) : undefined,
+          taxWithholding: data.taxWithholding ? parseFloat(data.taxWithholding) : undefined,
+          stopLoss: data.stopLoss ? parseFloat(data.stopLoss) : undefined,
+          targetPrice: data.targetPrice ? parseFloat(data.targetPrice) : undefined,
+          initialRisk: data.initialRisk ? parseFloat(data.initialRisk) : undefined,
+          tags: data.tags ? data.tags.split(',').map(t => t.trim()) : [],
+          importFingerprint: data.importFingerprint || undefined,
+          notesFiles: data.notesFiles ? data.notesFiles.split(',').map(f => f.trim()) : [],
+          createdAt: data.createdAt || new Date().toISOString(),
+          updatedAt: data.updatedAt || new Date().toISOString()
+        };
+
+        // Split entry/exit fees take precedence over the legacy commission total
+        if (trade.entryFee !== undefined || trade.exitFee !== undefined) {
+          trade.commission = (trade.entryFee || 0) + (trade.exitFee || 0);
+        }
 
-  ipcMain.handle('csv:write-trades-csv', async (event, trades, filePath) => {
-    try {
-      const createCsvWriter = require('csv-writer').createObjectCsvWriter;
-      
-      const headers = [
-        { id: 'id', title: 'id' },
-        { id: 'ticker', title: 'ticker' },
-        { id: 'buyDate', title: 'buyDate' },
-        { id: 'buyPrice', title: 'buyPrice' },
-        { id: 'quantity', title: 'quantity' },
-        { id: 'sellDate', title: 'sellDate' },
-        { id: 'sellPrice', title: 'sellPrice' },
-        { id: 'pnl', title: 'pnl' },
-        { id: 'holdingDays', title: 'holdingDays' },
-        { id: 'commission', title: 'commission' },
-        { id: 'tags', title: 'tags' },
-        { id: 'notesFiles', title: 'notesFiles' },
-        { id: 'createdAt', title: 'createdAt' },
-        { id: 'updatedAt', title: 'updatedAt' }
-      ];
-
-      const csvWriter = createCsvWriter({
-        path: filePath,
-        header: headers
-      });
+        // Calculate P&L (net of fees and tax) and holding days if sellDate exists
+        if (trade.sellDate && trade.sellPrice && trade.buyPrice && trade.quantity) {
+          const priceDiffPnl = (trade.sellPrice - trade.buyPrice) * trade.quantity;
+          trade.grossPnl = trade.direction === 'short' ? -priceDiffPnl : priceDiffPnl;
+          trade.pnl = trade.grossPnl - (trade.commission || 0) - (trade.taxWithholding || 0);
+          const buyDate = new Date(trade.buyDate);
+          const sellDate = new Date(trade.sellDate);
+          const timeDiff = sellDate.getTime() - buyDate.getTime();
+          trade.holdingDays = Math.max(1, Math.ceil(timeDiff / (1000 * 60 * 60 * 24))); // At least 1 day, consistent with service layer
+        }
 
-      // Convert trades to CSV format
-      const csvData = trades.map(trade => ({
-        ...trade,
-        tags: Array.isArray(trade.tags) ? trade.tags.join(',') : '',
-        notesFiles: Array.isArray(trade.notesFiles) ? trade.notesFiles.join(',') : ''
-      }));
+        results.push(trade);
+      }
 
-      await csvWriter.writeRecords(csvData);
-      return { success: true };
+      return { success: true, data: results };
     } catch (error) {
       return { success: false, error: error.message };
     }
@@ -1,6 +1,7 @@
 const { app, BrowserWindow, Menu, dialog, ipcMain, shell } = require('electron');
 const path = require('path');
 const { initializeIPC } = require('./ipc-handlers');
+const { scheduleBackups, stopBackupScheduler } = require('./backup-scheduler');
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
 let mainWindow;
@@ -251,6 +252,7 @@ app.whenReady().then(() => {
   createWindow();
   createMenu();
   initializeIPC(mainWindow);
+  scheduleBackups();
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -259,6 +261,10 @@ app.whenReady().then(() => {
   });
 });
 
+app.on('before-quit', () => {
+  stopBackupScheduler();
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
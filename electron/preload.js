@@ -1,11 +1,18 @@
 const { contextBridge, ipcRenderer } = require('electron');
 
+// Register an IPC listener and return a function that removes it again
+const subscribe = (channel, callback) => {
+  ipcRenderer.on(channel, callback);
+  return () => ipcRenderer.removeListener(channel, callback);
+};
+
 // Define the API that will be exposed to the renderer process
 const electronAPI = {
   // File System Operations
   fs: {
     readFile: (filePath) => ipcRenderer.invoke('fs:read-file', filePath),
     writeFile: (filePath, data) => ipcRenderer.invoke('fs:write-file', filePath, data),
+    appendFile: (filePath, data) => ipcRenderer.invoke('fs:append-file', filePath, data),
     readDir: (dirPath) => ipcRenderer.invoke('fs:read-dir', dirPath),
     createDir: (dirPath) => ipcRenderer.invoke('fs:create-dir', dirPath),
     deleteFile: (filePath) => ipcRenderer.invoke('fs:delete-file', filePath),
@@ -14,18 +21,32 @@ const electronAPI = {
     stat: (path) => ipcRenderer.invoke('fs:stat', path),
     copyFile: (src, dest) => ipcRenderer.invoke('fs:copy-file', src, dest),
     moveFile: (src, dest) => ipcRenderer.invoke('fs:move-file', src, dest),
-    readImageAsDataUrl: (filePath) => ipcRenderer.invoke('fs:read-image-as-data-url', filePath)
+    readImageAsDataUrl: (filePath) => ipcRenderer.invoke('fs:read-image-as-data-url', filePath),
+    writeImageFromDataUrl: (filePath, dataUrl) => ipcRenderer.invoke('fs:write-image-from-data-url', filePath, dataUrl)
+  },
+
+  // Backup Operations
+  backup: {
+    list: () => ipcRenderer.invoke('backup:list'),
+    create: (options) => ipcRenderer.invoke('backup:create', options),
+    preview: (fileName) => ipcRenderer.invoke('backup:preview', fileName),
+    restore: (fileName, groups) => ipcRenderer.invoke('backup:restore', fileName, groups)
+  },
+
+  // MCP Server Operations
+  mcp: {
+    installSharedModules: (serverDirectory) => ipcRenderer.invoke('mcp:install-shared-modules', serverDirectory)
   },
 
   // File Watcher Operations
   fileWatcher: {
     watchDirectory: (directoryPath, watchId) => ipcRenderer.invoke('fs:watch-directory', directoryPath, watchId),
     unwatchDirectory: (watchId) => ipcRenderer.invoke('fs:unwatch-directory', watchId),
-    // Event listeners for file changes
-    onFileAdded: (callback) => ipcRenderer.on('file-watcher:file-added', callback),
-    onFileChanged: (callback) => ipcRenderer.on('file-watcher:file-changed', callback),
-    onFileRemoved: (callback) => ipcRenderer.on('file-watcher:file-removed', callback),
-    onError: (callback) => ipcRenderer.on('file-watcher:error', callback),
+    // Event listeners for file changes; each returns a function that removes just that listener
+    onFileAdded: (callback) => subscribe('file-watcher:file-added', callback),
+    onFileChanged: (callback) => subscribe('file-watcher:file-changed', callback),
+    onFileRemoved: (callback) => subscribe('file-watcher:file-removed', callback),
+    onError: (callback) => subscribe('file-watcher:error', callback),
     // Remove listeners
     removeAllListeners: () => {
       ipcRenderer.removeAllListeners('file-watcher:file-added');
@@ -77,8 +98,7 @@ const electronAPI = {
     exportCSV: (data, filePath) => ipcRenderer.invoke('csv:export-csv', data, filePath),
     loadCSVMappings: (directory) => ipcRenderer.invoke('csv:load-mappings', directory),
     saveCSVMapping: (mapping, directory) => ipcRenderer.invoke('csv:save-mapping', mapping, directory),
-    readTradesCSV: (filePath) => ipcRenderer.invoke('csv:read-trades-csv', filePath),
-    writeTradesCSV: (trades, filePath) => ipcRenderer.invoke('csv:write-trades-csv', trades, filePath)
+    readTradesCSV: (filePath) => ipcRenderer.invoke('csv:read-trades-csv', filePath)
   },
 
   // Configuration
@@ -0,0 +1,59 @@
+export interface DailyPnLPoint {
+  date: string; // YYYY-MM-DD
+  pnl: number;
+  trades: number; // 0 for a flat day filled in between closes
+}
+
+export interface ReturnMetrics {
+  totalGainPercent: number;
+  annualizedReturnPercent: number;
+  dayChangePercent: number; // Return of the most recent day with a close
+  maxDrawdownPercent: number; // Measured on daily equity
+  sharpeRatio: number;
+  sortino: number;
+  calmarRatio: number;
+}
+
+export interface BenchmarkClose {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+export interface BenchmarkReturnPoint {
+  date: string; // Benchmark trading day
+  portfolioPercent: number; // Cumulative return since the start of the comparison
+  benchmarkPercent: number;
+}
+
+export interface BenchmarkReturns {
+  startDate: string; // Benchmark close the comparison is measured from
+  endDate: string;
+  tradingDays: number; // Daily returns compared
+  portfolioReturnPercent: number;
+  benchmarkReturnPercent: number;
+  relativePerformancePercent: number; // Portfolio minus benchmark return, in percentage points
+  alphaPercent: number; // Jensen's alpha, annualized
+  beta: number;
+  correlation: number;
+  points: BenchmarkReturnPoint[];
+}
+
+export const TRADING_DAYS_PER_YEAR: number;
+
+export function fillTradingDays(daily: DailyPnLPoint[]): DailyPnLPoint[];
+
+export function calculateMaxDrawdown(pnls: number[]): number;
+
+export function calculateReturnMetrics(
+  daily: DailyPnLPoint[],
+  startingCapital: number,
+  riskFreeRate?: number
+): ReturnMetrics | null;
+
+export function compareWithBenchmark(
+  daily: DailyPnLPoint[],
+  bars: BenchmarkClose[],
+  firstEntry: string,
+  startingCapital: number,
+  riskFreeRate?: number
+): BenchmarkReturns | null;
@@ -0,0 +1,187 @@
+/**
+ * Drawdown, return ratios and benchmark comparison from realized P&L, shared by the analytics
+ * page and the generated MCP server so both report the same figures.
+ *
+ * Plain CommonJS like lib/csv/csv-codec.js: the main process installs a copy next to the MCP
+ * server script, which imports it. Amounts are in one currency; converting them is up to the caller.
+ */
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Insert flat weekdays between close dates so volatility reflects days the account
+ * sat still, not just the days something was sold. Takes and returns daily P&L
+ * ({ date, pnl, trades }) oldest first.
+ */
+function fillTradingDays(daily) {
+  if (daily.length === 0) {
+    return [];
+  }
+
+  const byDate = new Map(daily.map(day => [day.date, day]));
+  const filled = [];
+  const cursor = new Date(`${daily[0].date}T00:00:00Z`);
+  const last = new Date(`${daily[daily.length - 1].date}T00:00:00Z`);
+
+  while (cursor <= last) {
+    const date = cursor.toISOString().split('T')[0];
+    const weekday = cursor.getUTCDay();
+    const existing = byDate.get(date);
+    if (existing) {
+      filled.push(existing);
+    } else if (weekday !== 0 && weekday !== 6) {
+      filled.push({ date, pnl: 0, trades: 0 });
+    }
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return filled;
+}
+
+/**
+ * Largest fall of cumulative P&L below its running peak, which starts at 0.
+ * Takes P&L amounts in the order they were realized.
+ */
+function calculateMaxDrawdown(pnls) {
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  pnls.forEach(pnl => {
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  });
+  return maxDrawdown;
+}
+
+/**
+ * Returns, drawdown % and annualized Sharpe, Sortino and Calmar ratios from daily P&L with
+ * flat weekdays filled in (see fillTradingDays). Each day's return is measured on the equity
+ * at its start. Null without a positive starting capital or any days.
+ */
+function calculateReturnMetrics(daily, startingCapital, riskFreeRate) {
+  if (!(startingCapital > 0) || daily.length === 0) {
+    return null;
+  }
+
+  const returns = [];
+  let equity = startingCapital;
+  let equityPeak = startingCapital;
+  let maxDrawdownPercent = 0;
+  let lastCloseDayReturn = 0;
+
+  daily.forEach(day => {
+    const dailyReturn = equity > 0 ? day.pnl / equity : 0;
+    returns.push(dailyReturn);
+    if (day.trades > 0) {
+      lastCloseDayReturn = dailyReturn;
+    }
+
+    equity += day.pnl;
+    equityPeak = Math.max(equityPeak, equity);
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, ((equityPeak - equity) / equityPeak) * 100);
+  });
+
+  const dailyRiskFree = (riskFreeRate || 0) / 100 / TRADING_DAYS_PER_YEAR;
+  const excess = returns.map(r => r - dailyRiskFree);
+  const meanExcess = excess.reduce((sum, r) => sum + r, 0) / excess.length;
+  const stdDev = excess.length > 1
+    ? Math.sqrt(excess.reduce((sum, r) => sum + (r - meanExcess) ** 2, 0) / (excess.length - 1))
+    : 0;
+  const downsideDev = Math.sqrt(excess.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / excess.length);
+  const annualizationFactor = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const growth = equity / startingCapital;
+  const annualizedReturnPercent = growth > 0
+    ? (Math.pow(growth, TRADING_DAYS_PER_YEAR / returns.length) - 1) * 100
+    : -100;
+
+  return {
+    totalGainPercent: ((equity - startingCapital) / startingCapital) * 100,
+    annualizedReturnPercent,
+    dayChangePercent: lastCloseDayReturn * 100,
+    maxDrawdownPercent,
+    sharpeRatio: stdDev > 0 ? (meanExcess / stdDev) * annualizationFactor : 0,
+    sortino: downsideDev > 0 ? (meanExcess / downsideDev) * annualizationFactor : 0,
+    calmarRatio: maxDrawdownPercent > 0 ? annualizedReturnPercent / maxDrawdownPercent : 0
+  };
+}
+
+/**
+ * Compare daily P&L (closes only, oldest first) with a benchmark's close-to-close returns from
+ * the last close on or before firstEntry to the last close day, on the benchmark's trading days.
+ * P&L realized on a day without a bar counts toward the next one. Returns are measured on
+ * startingCapital plus what was realized before. Null without a positive starting capital,
+ * any P&L or two benchmark closes in the period.
+ */
+function compareWithBenchmark(daily, bars, firstEntry, startingCapital, riskFreeRate) {
+  if (!(startingCapital > 0) || daily.length === 0) {
+    return null;
+  }
+
+  const lastExit = daily[daily.length - 1].date;
+  const sorted = [...bars].sort((a, b) => a.date.localeCompare(b.date));
+  const afterEntry = sorted.findIndex(bar => bar.date > firstEntry);
+  const baseIndex = Math.max(0, (afterEntry === -1 ? sorted.length : afterEntry) - 1);
+  const endIndex = sorted.findIndex(bar => bar.date >= lastExit);
+  const period = sorted.slice(baseIndex, endIndex === -1 ? sorted.length : endIndex + 1);
+  if (period.length < 2) {
+    return null;
+  }
+
+  const portfolioReturns = [];
+  const benchmarkReturns = [];
+  const points = [{ date: period[0].date, portfolioPercent: 0, benchmarkPercent: 0 }];
+  let equity = startingCapital;
+
+  for (let i = 1; i < period.length; i++) {
+    const from = period[i - 1].date;
+    const to = period[i].date;
+    const pnl = daily
+      .filter(day => day.date > from && day.date <= to)
+      .reduce((sum, day) => sum + day.pnl, 0);
+
+    portfolioReturns.push(equity > 0 ? pnl / equity : 0);
+    benchmarkReturns.push(period[i].close / period[i - 1].close - 1);
+    equity += pnl;
+    points.push({
+      date: to,
+      portfolioPercent: (equity / startingCapital - 1) * 100,
+      benchmarkPercent: (period[i].close / period[0].close - 1) * 100
+    });
+  }
+
+  const mean = values => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const meanPortfolio = mean(portfolioReturns);
+  const meanBenchmark = mean(benchmarkReturns);
+  const covariance = mean(portfolioReturns.map((r, i) => (r - meanPortfolio) * (benchmarkReturns[i] - meanBenchmark)));
+  const portfolioVariance = mean(portfolioReturns.map(r => (r - meanPortfolio) ** 2));
+  const benchmarkVariance = mean(benchmarkReturns.map(r => (r - meanBenchmark) ** 2));
+
+  const beta = benchmarkVariance > 0 ? covariance / benchmarkVariance : 0;
+  const dailyRiskFree = (riskFreeRate || 0) / 100 / TRADING_DAYS_PER_YEAR;
+  const last = points[points.length - 1];
+
+  return {
+    startDate: period[0].date,
+    endDate: last.date,
+    tradingDays: portfolioReturns.length,
+    portfolioReturnPercent: last.portfolioPercent,
+    benchmarkReturnPercent: last.benchmarkPercent,
+    relativePerformancePercent: last.portfolioPercent - last.benchmarkPercent,
+    alphaPercent: (meanPortfolio - dailyRiskFree - beta * (meanBenchmark - dailyRiskFree)) * TRADING_DAYS_PER_YEAR * 100,
+    beta,
+    correlation: portfolioVariance > 0 && benchmarkVariance > 0
+      ? covariance / Math.sqrt(portfolioVariance * benchmarkVariance)
+      : 0,
+    points
+  };
+}
+
+module.exports = {
+  TRADING_DAYS_PER_YEAR,
+  fillTradingDays,
+  calculateMaxDrawdown,
+  calculateReturnMetrics,
+  compareWithBenchmark
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateMaxDrawdown,
+  calculateReturnMetrics,
+  compareWithBenchmark,
+  DailyPnLPoint,
+  fillTradingDays
+} from '@/lib/analytics/return-metrics';
+
+describe('calculateMaxDrawdown', () => {
+  it('measures the largest fall below the running peak', () => {
+    expect(calculateMaxDrawdown([100, -30, 50, -80, -10, 200])).toBe(90);
+  });
+
+  it('counts losses from the start against a peak of zero', () => {
+    expect(calculateMaxDrawdown([-20, -5, 10])).toBe(25);
+    expect(calculateMaxDrawdown([])).toBe(0);
+  });
+});
+
+describe('fillTradingDays', () => {
+  it('inserts flat weekdays between closes and skips weekends', () => {
+    const filled = fillTradingDays([
+      { date: '2024-01-04', pnl: 10, trades: 1 },
+      { date: '2024-01-09', pnl: -5, trades: 2 }
+    ]);
+
+    expect(filled).toEqual([
+      { date: '2024-01-04', pnl: 10, trades: 1 },
+      { date: '2024-01-05', pnl: 0, trades: 0 },
+      { date: '2024-01-08', pnl: 0, trades: 0 },
+      { date: '2024-01-09', pnl: -5, trades: 2 }
+    ]);
+  });
+});
+
+describe('calculateReturnMetrics', () => {
+  // Daily returns of +1%, -2% and +3% on a starting capital of 1,000
+  const daily: DailyPnLPoint[] = [
+    { date: '2024-01-03', pnl: 10, trades: 1 },
+    { date: '2024-01-04', pnl: -20.2, trades: 1 },
+    { date: '2024-01-05', pnl: 29.694, trades: 1 }
+  ];
+
+  it('annualizes Sharpe and Sortino from daily returns', () => {
+    const metrics = calculateReturnMetrics(daily, 1000)!;
+
+    // Mean 0.667%, sample standard deviation 2.517%, downside deviation sqrt(0.02² / 3)
+    expect(metrics.sharpeRatio).toBeCloseTo(4.20526, 4);
+    expect(metrics.sortino).toBeCloseTo(Math.sqrt(84), 4);
+  });
+
+  it('subtracts the daily risk-free rate from each return', () => {
+    expect(calculateReturnMetrics(daily, 1000, 2.52)!.sharpeRatio).toBeCloseTo(4.14218, 4);
+  });
+
+  it('reports returns, drawdown % and Calmar on the daily equity', () => {
+    const metrics = calculateReturnMetrics(daily, 1000)!;
+
+    expect(metrics.totalGainPercent).toBeCloseTo(1.9494, 6);
+    expect(metrics.dayChangePercent).toBeCloseTo(3, 6);
+    expect(metrics.maxDrawdownPercent).toBeCloseTo(2, 6);
+    expect(metrics.annualizedReturnPercent).toBeCloseTo((Math.pow(1.019494, 252 / 3) - 1) * 100, 6);
+    expect(metrics.calmarRatio).toBeCloseTo(metrics.annualizedReturnPercent / 2, 6);
+  });
+
+  it('takes the day change from the last day with a close', () => {
+    const metrics = calculateReturnMetrics([...daily, { date: '2024-01-08', pnl: 0, trades: 0 }], 1000)!;
+
+    expect(metrics.dayChangePercent).toBeCloseTo(3, 6);
+  });
+
+  it('needs a positive starting capital', () => {
+    expect(calculateReturnMetrics(daily, 0)).toBeNull();
+    expect(calculateReturnMetrics([], 1000)).toBeNull();
+  });
+});
+
+describe('compareWithBenchmark', () => {
+  // Benchmark returns of +1%, -1% and +2%; the portfolio makes exactly twice that on 1,000
+  const bars = [
+    { date: '2024-01-05', close: 101.9898 },
+    { date: '2024-01-02', close: 100 },
+    { date: '2024-01-04', close: 99.99 },
+    { date: '2024-01-03', close: 101 }
+  ];
+  const daily: DailyPnLPoint[] = [
+    { date: '2024-01-03', pnl: 20, trades: 1 },
+    { date: '2024-01-04', pnl: -20.4, trades: 2 },
+    { date: '2024-01-05', pnl: 39.984, trades: 1 }
+  ];
+
+  it('measures beta, correlation and alpha on close-to-close returns', () => {
+    const comparison = compareWithBenchmark(daily, bars, '2024-01-02', 1000)!;
+
+    expect(comparison).toMatchObject({ startDate: '2024-01-02', endDate: '2024-01-05', tradingDays: 3 });
+    expect(comparison.beta).toBeCloseTo(2, 6);
+    expect(comparison.correlation).toBeCloseTo(1, 6);
+    expect(comparison.alphaPercent).toBeCloseTo(0, 6);
+    expect(comparison.portfolioReturnPercent).toBeCloseTo(3.9584, 6);
+    expect(comparison.benchmarkReturnPercent).toBeCloseTo(1.9898, 6);
+    expect(comparison.relativePerformancePercent).toBeCloseTo(1.9686, 6);
+  });
+
+  it('nets the risk-free rate out of alpha', () => {
+    // With a beta of 2, alpha is left with one daily risk-free rate: 2.52% / 252 a day
+    expect(compareWithBenchmark(daily, bars, '2024-01-02', 1000, 2.52)!.alphaPercent).toBeCloseTo(2.52, 6);
+  });
+
+  it('starts from the last close on or before the first entry and rolls P&L on days without a bar forward', () => {
+    const comparison = compareWithBenchmark([
+      { date: '2024-01-03', pnl: 10, trades: 1 },
+      { date: '2024-01-06', pnl: 10, trades: 1 }
+    ], [...bars, { date: '2024-01-08', close: 103 }, { date: '2024-01-09', close: 104 }], '2024-01-02T12:00:00', 1000)!;
+
+    expect(comparison.startDate).toBe('2024-01-02');
+    expect(comparison.endDate).toBe('2024-01-08');
+    expect(comparison.points.map(p => [p.date, +p.portfolioPercent.toFixed(6)])).toEqual([
+      ['2024-01-02', 0],
+      ['2024-01-03', 1],
+      ['2024-01-04', 1],
+      ['2024-01-05', 1],
+      ['2024-01-08', 2]
+    ]);
+  });
+
+  it('needs a starting capital and two benchmark closes in the period', () => {
+    expect(compareWithBenchmark(daily, bars, '2024-01-02', 0)).toBeNull();
+    expect(compareWithBenchmark([], bars, '2024-01-02', 1000)).toBeNull();
+    expect(compareWithBenchmark(daily, bars.slice(0, 1), '2024-01-02', 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,387 @@
+import { describe, expect, it } from 'vitest';
+import { TradeAnalytics } from '@/lib/analytics/trade-analytics';
+import { calculateReturnMetrics, compareWithBenchmark, fillTradingDays } from '@/lib/analytics/return-metrics';
+import { FxConverter } from '@/lib/fx/fx-converter';
+import { Account } from '@/types/account';
+import { TradeStrategy } from '@/types/strategy';
+import { Trade } from '@/types/trade';
+
+let nextId = 1;
+
+function trade(fields: Partial<Trade>): Trade {
+  return {
+    id: `t${nextId++}`,
+    ticker: 'XYZ',
+    buyDate: '2024-01-02',
+    buyPrice: 10,
+    quantity: 10,
+    createdAt: '2024-01-02T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    ...fields
+  };
+}
+
+describe('TradeAnalytics.calculate', () => {
+  const trades = [
+    trade({ sellDate: '2024-01-05', grossPnl: 100, pnl: 88, entryFee: 1, exitFee: 1, taxWithholding: 10 }),
+    trade({ sellDate: '2024-01-08', grossPnl: 3, pnl: -1, commission: 4 }),
+    trade({})
+  ];
+
+  it('bases wins and losses on net P&L by default', () => {
+    const data = TradeAnalytics.calculate(trades);
+
+    expect(data).toMatchObject({ basis: 'net', totalTrades: 2, totalPnL: 87, totalWins: 1, totalLosses: 1, winRate: 50 });
+  });
+
+  it('bases wins and losses on gross P&L when asked', () => {
+    const data = TradeAnalytics.calculate(trades, 'gross');
+
+    expect(data).toMatchObject({ basis: 'gross', totalPnL: 103, totalWins: 2, totalLosses: 0 });
+  });
+
+  it('reports gross, net, fees and tax on either basis', () => {
+    for (const basis of ['net', 'gross'] as const) {
+      expect(TradeAnalytics.calculate(trades, basis)).toMatchObject({ grossPnL: 103, netPnL: 87, totalFees: 6, totalTax: 10 });
+    }
+  });
+});
+
+describe('TradeAnalytics.convertToBase', () => {
+  const fx = new FxConverter([{ from: 'USD', to: 'JPY', rate: 150 }], 'JPY');
+
+  it('converts money fields to the base currency and reports currencies without a rate', () => {
+    const { trades, missingRateCurrencies } = TradeAnalytics.convertToBase([
+      trade({ currency: 'USD', sellDate: '2024-01-05', pnl: 10, grossPnl: 12, commission: 2 }),
+      trade({ sellDate: '2024-01-05', pnl: 1000 }),
+      trade({ currency: 'EUR', sellDate: '2024-01-05', pnl: 10 })
+    ], fx);
+
+    expect(trades.map(t => [t.currency, t.pnl, t.grossPnl, t.commission])).toEqual([
+      ['JPY', 1500, 1800, 300],
+      [undefined, 1000, undefined, undefined]
+    ]);
+    expect(missingRateCurrencies).toEqual(['EUR']);
+  });
+
+  it('leaves trades without a rate out of the totals', () => {
+    const data = TradeAnalytics.calculate([
+      trade({ currency: 'USD', sellDate: '2024-01-05', pnl: 10 }),
+      trade({ currency: 'EUR', sellDate: '2024-01-05', pnl: 10 })
+    ], 'net', fx);
+
+    expect(data).toMatchObject({ baseCurrency: 'JPY', totalPnL: 1500, totalTrades: 1, missingRateCurrencies: ['EUR'] });
+  });
+});
+
+describe('TradeAnalytics.calculateAccountStats', () => {
+  const account = (id: string, currency: string, startingCapital: number): Account => ({
+    id,
+    name: id.toUpperCase(),
+    currency,
+    startingCapital,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  });
+
+  const trades = [
+    trade({ accountId: 'main', sellDate: '2024-01-05', pnl: 300 }),
+    trade({ accountId: 'main', sellDate: '2024-01-06', pnl: -100 }),
+    trade({ accountId: 'main' }),
+    trade({ accountId: 'nisa', sellDate: '2024-01-05', pnl: 50 }),
+    trade({ accountId: 'closed', sellDate: '2024-01-05', pnl: 20 }),
+    trade({ sellDate: '2024-01-05', pnl: 10 })
+  ];
+
+  it('sums realized results per account and returns on its starting capital', () => {
+    const [main, nisa] = TradeAnalytics.calculateAccountStats(trades, [account('main', 'USD', 10000), account('nisa', 'USD', 0)]);
+
+    expect(main).toEqual({ accountId: 'main', name: 'MAIN', trades: 2, pnl: 200, winRate: 50, startingCapital: 10000, returnPercent: 2 });
+    expect(nisa).toMatchObject({ trades: 1, pnl: 50, returnPercent: 0 });
+  });
+
+  it('groups trades without a known account as unassigned', () => {
+    const stats = TradeAnalytics.calculateAccountStats(trades, [account('main', 'USD', 10000), account('nisa', 'USD', 0)]);
+
+    expect(stats[2]).toMatchObject({ accountId: null, name: 'Unassigned', trades: 2, pnl: 30 });
+    expect(TradeAnalytics.calculateAccountStats(trades.slice(0, 2), [account('main', 'USD', 10000)])).toHaveLength(1);
+  });
+
+  it('converts the starting capital to the base currency', () => {
+    const fx = new FxConverter([{ from: 'USD', to: 'JPY', rate: 150 }], 'USD');
+    const [stats] = TradeAnalytics.calculateAccountStats(trades, [account('main', 'JPY', 1500000)], 'net', fx);
+
+    expect(stats).toMatchObject({ startingCapital: 10000, returnPercent: 2 });
+  });
+});
+
+describe('TradeAnalytics.calculateEquityCurve', () => {
+  it('accumulates P&L in sell-date order with the running peak and drawdown below it', () => {
+    const curve = TradeAnalytics.calculateEquityCurve([
+      trade({ ticker: 'C', sellDate: '2024-01-10', pnl: 150 }),
+      trade({ ticker: 'A', sellDate: '2024-01-05', pnl: 100 }),
+      trade({ ticker: 'B', sellDate: '2024-01-08', pnl: -50 }),
+      trade({ ticker: 'OPEN' })
+    ]);
+
+    expect(curve.map(p => [p.ticker, p.equity, p.peak, p.drawdown, p.drawdownPercent])).toEqual([
+      ['A', 100, 100, 0, 0],
+      ['B', 50, 100, -50, -50],
+      ['C', 200, 200, 0, 0]
+    ]);
+  });
+
+  it('has no drawdown percent while equity has never been above zero', () => {
+    const curve = TradeAnalytics.calculateEquityCurve([trade({ sellDate: '2024-01-05', pnl: -40 })]);
+
+    expect(curve[0]).toMatchObject({ equity: -40, peak: 0, drawdown: -40, drawdownPercent: 0 });
+  });
+});
+
+describe('TradeAnalytics.calculatePerformanceMetrics', () => {
+  const trades = [
+    trade({ buyDate: '2024-01-02', sellDate: '2024-01-03', pnl: 10 }),
+    trade({ buyDate: '2024-01-02', sellDate: '2024-01-05', pnl: -25 }),
+    trade({ buyDate: '2024-01-04', sellDate: '2024-01-05', pnl: 5 }),
+    trade({ buyDate: '2024-01-08', sellDate: '2024-01-09', pnl: 40 })
+  ];
+
+  it('leaves return-based figures at zero without a starting capital', () => {
+    const metrics = TradeAnalytics.calculatePerformanceMetrics(trades);
+
+    expect(metrics).toMatchObject({
+      totalValue: 30,
+      totalGain: 30,
+      bestDay: 40,
+      worstDay: -20,
+      dayChange: 40,
+      tradingDays: 5,
+      maxDrawdown: 25,
+      totalGainPercent: 0,
+      sharpeRatio: 0,
+      sortino: 0
+    });
+  });
+
+  it('adds the daily return metrics with a starting capital', () => {
+    const metrics = TradeAnalytics.calculatePerformanceMetrics(trades, 'net', undefined, { startingCapital: 1000, riskFreeRate: 4 });
+    const returnMetrics = calculateReturnMetrics(fillTradingDays(TradeAnalytics.calculateDailyPnL(trades)), 1000, 4);
+
+    expect(metrics).toMatchObject({ totalValue: 1030, ...returnMetrics });
+    expect(metrics.totalGainPercent).toBeCloseTo(3, 6);
+  });
+});
+
+describe('TradeAnalytics.calculateDailyPnL', () => {
+  const trades = [
+    trade({ buyDate: '2024-01-02', sellDate: '2024-01-05T10:00:00', pnl: 30 }),
+    trade({ buyDate: '2024-01-03', sellDate: '2024-01-05', pnl: -10 }),
+    trade({ buyDate: '2024-01-03', sellDate: '2024-01-04', pnl: 5 }),
+    trade({ buyDate: '2024-01-04' })
+  ];
+
+  it('sums closed trades per close date, oldest first', () => {
+    expect(TradeAnalytics.calculateDailyPnL(trades)).toEqual([
+      { date: '2024-01-04', pnl: 5, trades: 1 },
+      { date: '2024-01-05', pnl: 20, trades: 2 }
+    ]);
+  });
+
+  it('groups by entry date when asked, still leaving open trades out', () => {
+    expect(TradeAnalytics.calculateDailyPnL(trades, 'net', undefined, 'buyDate')).toEqual([
+      { date: '2024-01-02', pnl: 30, trades: 1 },
+      { date: '2024-01-03', pnl: -5, trades: 2 }
+    ]);
+  });
+});
+
+describe('TradeAnalytics.calculateRMultipleStats', () => {
+  it('averages R over closed trades with a known risk and buckets them by whole R', () => {
+    const stats = TradeAnalytics.calculateRMultipleStats([
+      trade({ sellDate: '2024-01-05', pnl: 300, initialRisk: 100 }),
+      trade({ sellDate: '2024-01-05', pnl: -100, initialRisk: 100 }),
+      trade({ sellDate: '2024-01-05', pnl: 650, initialRisk: 100 }),
+      trade({ sellDate: '2024-01-05', pnl: -450, initialRisk: 100 }),
+      trade({ sellDate: '2024-01-05', pnl: 50 }),
+      trade({ pnl: 50, initialRisk: 100 })
+    ]);
+
+    expect(stats).toMatchObject({
+      tradesWithRisk: 4,
+      tradesWithoutRisk: 1,
+      totalR: 4,
+      expectancyR: 1,
+      avgWinR: 4.75,
+      avgLossR: -2.75,
+      largestWinR: 6.5,
+      largestLossR: -4.5
+    });
+    expect(stats.distribution.filter(b => b.count > 0).map(b => [b.label, b.count])).toEqual([
+      ['< -3R', 1],
+      ['-1R to 0R', 1],
+      ['3R to 4R', 1],
+      ['≥ 5R', 1]
+    ]);
+  });
+});
+
+describe('TradeAnalytics.calculateStrategyStats', () => {
+  const strategy = (id: string): TradeStrategy => ({
+    id,
+    name: id,
+    checklist: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  });
+
+  it('reports win rate, profit factor, expectancy and holding time per setup', () => {
+    const [breakout, pullback] = TradeAnalytics.calculateStrategyStats([
+      trade({ strategyId: 'breakout', sellDate: '2024-01-05', pnl: 300, holdingDays: 3 }),
+      trade({ strategyId: 'breakout', sellDate: '2024-01-08', pnl: -100, holdingDays: 1 }),
+      trade({ strategyId: 'breakout', sellDate: '2024-01-09', pnl: -50 }),
+      trade({ strategyId: 'breakout' })
+    ], [strategy('breakout'), strategy('pullback')]);
+
+    expect(breakout).toEqual({
+      strategyId: 'breakout',
+      name: 'breakout',
+      trades: 3,
+      pnl: 150,
+      winRate: (1 / 3) * 100,
+      profitFactor: 2,
+      expectancy: 50,
+      avgHoldingDays: 2
+    });
+    expect(pullback).toMatchObject({ trades: 0, pnl: 0, winRate: 0, profitFactor: 0, expectancy: 0 });
+  });
+
+  it('groups trades without a known setup under "No setup"', () => {
+    const stats = TradeAnalytics.calculateStrategyStats([
+      trade({ strategyId: 'deleted', sellDate: '2024-01-05', pnl: 10 }),
+      trade({ sellDate: '2024-01-05', pnl: 20 })
+    ], [strategy('breakout')]);
+
+    expect(stats[1]).toMatchObject({ strategyId: null, name: 'No setup', trades: 2, pnl: 30 });
+  });
+});
+
+describe('TradeAnalytics.calculateOpenPositions', () => {
+  const marks = {
+    XYZ: { ticker: 'XYZ', price: 12, date: '2024-03-01', source: 'file' as const },
+    SHRT: { ticker: 'SHRT', price: 45, source: 'manual' as const }
+  };
+
+  it('values open quantity at the mark in the position direction', () => {
+    const [shrt, xyz] = TradeAnalytics.calculateOpenPositions([
+      trade({ buyDate: '2024-02-20', buyPrice: 10, quantity: 100, stopLoss: 9 }),
+      trade({ ticker: 'SHRT', direction: 'short', buyDate: '2024-02-28', buyPrice: 50, quantity: 10 }),
+      trade({ sellDate: '2024-02-25', sellPrice: 11 })
+    ], marks, undefined, { startingCapital: 12000, asOf: '2024-03-01' });
+
+    expect(xyz).toMatchObject({
+      quantity: 100,
+      costBasis: 1000,
+      marketValue: 1200,
+      unrealizedPnL: 200,
+      unrealizedPercent: 20,
+      accountPercent: 10,
+      daysHeld: 10,
+      riskToStop: 300
+    });
+    expect(xyz.distanceToStopPercent).toBeCloseTo(25);
+    expect(shrt).toMatchObject({ unrealizedPnL: 50, unrealizedPercent: 10 });
+  });
+
+  it('counts only the quantity still open after partial exits', () => {
+    const [position] = TradeAnalytics.calculateOpenPositions([trade({
+      executions: [
+        { date: '2024-02-20', side: 'buy', price: 10, quantity: 100 },
+        { date: '2024-02-22', side: 'buy', price: 13, quantity: 50 },
+        { date: '2024-02-26', side: 'sell', price: 14, quantity: 90 }
+      ]
+    })], marks, undefined, { asOf: '2024-03-01' });
+
+    expect(position).toMatchObject({ quantity: 60, entryPrice: 11, unrealizedPnL: 60 });
+  });
+
+  it('leaves market figures undefined until a mark is available', () => {
+    const [position] = TradeAnalytics.calculateOpenPositions([trade({ ticker: 'NOMARK' })], marks, undefined, { asOf: '2024-03-01' });
+
+    expect(position).toMatchObject({ costBasis: 100, marketValue: undefined, unrealizedPnL: undefined, accountPercent: undefined });
+  });
+});
+
+describe('TradeAnalytics.calculateExcursions', () => {
+  const bars = {
+    XYZ: [
+      { date: '2024-03-01', open: 100, high: 130, low: 70, close: 100 },
+      { date: '2024-03-04', open: 100, high: 104, low: 95, close: 102 },
+      { date: '2024-03-05', open: 102, high: 112, low: 101, close: 110 },
+      { date: '2024-03-06', open: 110, high: 111, low: 106, close: 108 },
+      { date: '2024-03-07', open: 108, high: 140, low: 60, close: 100 }
+    ]
+  };
+
+  it('measures adverse and favourable moves over the holding period only', () => {
+    const { excursions, edgeRatio, avgCapturedPercent } = TradeAnalytics.calculateExcursions([
+      trade({ buyDate: '2024-03-04', sellDate: '2024-03-06', buyPrice: 100, sellPrice: 108, quantity: 10, pnl: 80 })
+    ], bars);
+
+    expect(excursions[0]).toMatchObject({ mae: 5, mfe: 12, maePercent: 5, mfePercent: 12, maeAmount: 50, mfeAmount: 120, pnl: 80 });
+    expect(excursions[0].capturedPercent).toBeCloseTo(200 / 3);
+    expect(edgeRatio).toBeCloseTo(2.4);
+    expect(avgCapturedPercent).toBeCloseTo(200 / 3);
+  });
+
+  it('mirrors the excursions for shorts', () => {
+    const { excursions } = TradeAnalytics.calculateExcursions([
+      trade({ direction: 'short', buyDate: '2024-03-04', sellDate: '2024-03-06', buyPrice: 100, sellPrice: 108, quantity: 10, pnl: -80 })
+    ], bars);
+
+    expect(excursions[0]).toMatchObject({ mae: 12, mfe: 5 });
+    expect(excursions[0].capturedPercent).toBeCloseTo(-160);
+  });
+
+  it('bounds the excursions by the fills when the bars disagree with them', () => {
+    const { excursions } = TradeAnalytics.calculateExcursions([
+      trade({ buyDate: '2024-03-04', sellDate: '2024-03-04', buyPrice: 94, sellPrice: 105, quantity: 1, pnl: 11 })
+    ], bars);
+
+    expect(excursions[0]).toMatchObject({ mae: 0, mfe: 11 });
+  });
+
+  it('counts closed trades without bars for their period', () => {
+    const stats = TradeAnalytics.calculateExcursions([
+      trade({ ticker: 'NOBARS', buyDate: '2024-03-04', sellDate: '2024-03-06', sellPrice: 12, pnl: 20 }),
+      trade({ buyDate: '2024-03-04' })
+    ], bars);
+
+    expect(stats).toMatchObject({ excursions: [], tradesWithoutData: 1, edgeRatio: 0 });
+  });
+});
+
+describe('TradeAnalytics.calculateBenchmarkComparison', () => {
+  const bars = ['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05'].map((date, i) => ({
+    date,
+    open: 100 + i,
+    high: 100 + i,
+    low: 100 + i,
+    close: 100 + i
+  }));
+  const trades = [
+    trade({ buyDate: '2024-01-02', sellDate: '2024-01-03', pnl: 10 }),
+    trade({ buyDate: '2024-01-03', sellDate: '2024-01-05', pnl: -4 })
+  ];
+
+  it('compares from the earliest entry with the shared benchmark comparison', () => {
+    const comparison = TradeAnalytics.calculateBenchmarkComparison(trades, 'SPY', bars, 'net', undefined, { startingCapital: 1000, riskFreeRate: 4 });
+    const expected = compareWithBenchmark(TradeAnalytics.calculateDailyPnL(trades), bars, '2024-01-02', 1000, 4);
+
+    expect(comparison).toEqual({ ticker: 'SPY', ...expected });
+    expect(comparison!.startDate).toBe('2024-01-02');
+  });
+
+  it('is unavailable without a starting capital', () => {
+    expect(TradeAnalytics.calculateBenchmarkComparison(trades, 'SPY', bars)).toBeNull();
+  });
+});
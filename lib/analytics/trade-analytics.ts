@@ -1,7 +1,30 @@
-import { Trade } from '@/types/trade';
+import { PnLBasis, Trade, TradeDateField, TradeDirection } from '@/types/trade';
+import { Account } from '@/types/account';
+import { TradeStrategy } from '@/types/strategy';
+import { getRMultiple, getTotalFees, getTradePnL } from '@/lib/utils';
+import { DEFAULT_BASE_CURRENCY, FxConverter } from '@/lib/fx/fx-converter';
+import { PriceMark } from '@/types/price';
+import { OHLCBar } from '@/types/ohlc';
+import { summarizeExecutions } from '@/lib/trade-executions/execution-utils';
+import {
+  BenchmarkReturnPoint,
+  BenchmarkReturns,
+  calculateMaxDrawdown,
+  calculateReturnMetrics,
+  compareWithBenchmark,
+  fillTradingDays
+} from '@/lib/analytics/return-metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface TradeAnalyticsData {
+  basis: PnLBasis; // Which P&L totalPnL and the win/loss figures are based on
+  baseCurrency: string; // All amounts below are in this currency
+  missingRateCurrencies: string[]; // Currencies with no FX rate; their trades are left out of the totals
   totalPnL: number;
+  grossPnL: number;
+  totalFees: number;
+  totalTax: number;
   totalWins: number;
   totalLosses: number;
   winRate: number;
@@ -15,30 +38,167 @@ export interface TradeAnalyticsData {
   avgHoldingPeriod: number;
   monthlyPnL: Record<string, number>;
   tickerPnL: Record<string, number>;
+  directionStats: Record<TradeDirection, DirectionStats>;
+}
+
+export interface DirectionStats {
+  trades: number;
+  pnl: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface AccountStats {
+  accountId: string | null; // null groups trades not assigned to any account
+  name: string;
+  trades: number;
+  pnl: number; // In base currency
+  winRate: number;
+  startingCapital: number; // Converted to base currency; 0 when unknown
+  returnPercent: number;
 }
 
+export interface StrategyStats {
+  strategyId: string | null; // null groups trades with no setup recorded
+  name: string;
+  trades: number;
+  pnl: number; // In base currency
+  winRate: number;
+  profitFactor: number;
+  expectancy: number; // Average P&L per trade
+  avgHoldingDays: number;
+}
+
+// Return-based figures (percentages and ratios) need a starting capital and stay 0 without one
 export interface PerformanceMetrics {
-  totalValue: number;
+  totalValue: number; // Starting capital plus realized P&L
   totalGain: number;
   totalGainPercent: number;
-  dayChange: number;
+  annualizedReturnPercent: number;
+  dayChange: number; // P&L of the most recent trading day with a close
   dayChangePercent: number;
-  bestDay: number;
+  bestDay: number; // Best and worst daily P&L, summing every trade closed that day
   worstDay: number;
+  tradingDays: number; // Weekdays from the first to the last close
   consecutiveWins: number;
   consecutiveLosses: number;
   maxDrawdown: number;
   maxDrawdownPercent: number;
-  sharpeRatio: number;
+  sharpeRatio: number; // Annualized from daily returns in excess of the risk-free rate
   sortino: number;
-  calmarRatio: number;
+  calmarRatio: number; // Annualized return over max drawdown %
+}
+
+export interface PerformanceMetricsOptions {
+  startingCapital?: number; // In base currency
+  riskFreeRate?: number; // Annual rate in percent, e.g. 4 for 4%
+}
+
+export type BenchmarkPoint = BenchmarkReturnPoint;
+
+export interface BenchmarkComparison extends BenchmarkReturns {
+  ticker: string;
+}
+
+export interface DailyPnL {
+  date: string; // YYYY-MM-DD
+  pnl: number; // In base currency
+  trades: number;
+}
+
+export interface RMultipleBucket {
+  label: string;
+  min: number; // Inclusive lower bound in R; -Infinity for the open-ended bottom bucket
+  max: number; // Exclusive upper bound in R; Infinity for the open-ended top bucket
+  count: number;
+}
+
+export interface RMultipleStats {
+  tradesWithRisk: number; // Closed trades with a stop or initial risk recorded
+  tradesWithoutRisk: number; // Closed trades left out because 1R is unknown
+  expectancyR: number; // Average R per trade
+  avgWinR: number;
+  avgLossR: number; // Negative
+  largestWinR: number;
+  largestLossR: number;
+  totalR: number;
+  distribution: RMultipleBucket[];
+}
+
+export interface EquityCurvePoint {
+  tradeId: string;
+  ticker: string;
+  date: string; // Sell date the P&L was realized on
+  pnl: number; // This trade's contribution, in base currency
+  equity: number; // Cumulative P&L after this trade
+  peak: number; // Highest equity reached so far
+  drawdown: number; // equity - peak; 0 at a new high, negative underwater
+  drawdownPercent: number; // Drawdown relative to the peak; 0 while the peak is not positive
+}
+
+export interface OpenPosition {
+  trade: Trade;
+  ticker: string;
+  currency: string; // Trade currency; prices and the native amounts below are in it
+  quantity: number; // Still open, net of partial exits
+  entryPrice: number;
+  mark?: PriceMark; // Undefined until a price is available
+  costBasis: number; // Base currency
+  marketValue?: number; // Base currency, at the mark
+  unrealizedPnL?: number; // Base currency, before exit fees
+  unrealizedPnLNative?: number;
+  unrealizedPercent?: number; // Relative to the entry price, positive when the position is in profit
+  accountPercent?: number; // Position value (at the mark, else at cost) relative to its account's capital
+  daysHeld: number;
+  stopLoss?: number;
+  distanceToStopPercent?: number; // How far the mark can move against the position before the stop; negative once through it
+  riskToStop?: number; // Base currency lost from the mark if the stop is hit
+}
+
+export interface OpenPositionOptions {
+  accounts?: Account[];
+  startingCapital?: number; // In base currency; used for trades without an account
+  asOf?: string; // YYYY-MM-DD days held is counted to; defaults to today
+}
+
+export interface TradeExcursion {
+  tradeId: string;
+  ticker: string;
+  holdingDays: number;
+  entryPrice: number;
+  exitPrice: number;
+  mae: number; // Maximum adverse excursion: furthest price move against the position, >= 0
+  mfe: number; // Maximum favourable excursion: furthest price move in its favour, >= 0
+  maePercent: number; // Relative to the entry price
+  mfePercent: number;
+  maeAmount?: number; // MAE and MFE times quantity, in base currency
+  mfeAmount?: number;
+  pnl: number; // Final P&L on the selected basis, in base currency
+  capturedPercent?: number; // Share of the MFE kept at exit; negative when exited below entry. Undefined without an MFE
+}
+
+export interface ExcursionStats {
+  excursions: TradeExcursion[];
+  tradesWithoutData: number; // Closed trades left out: no price bars over the holding period, or no FX rate
+  edgeRatio: number; // Average MFE % over average MAE %; above 1 means entries tend to move the right way first
+  avgMAEPercent: number;
+  avgMFEPercent: number;
+  avgCapturedPercent: number;
 }
 
 export class TradeAnalytics {
-  static calculate(trades: Trade[]): TradeAnalyticsData {
+  static calculate(trades: Trade[], basis: PnLBasis = 'net', fx?: FxConverter): TradeAnalyticsData {
+    const baseCurrency = fx?.baseCurrency || DEFAULT_BASE_CURRENCY;
+
     if (trades.length === 0) {
       return {
+        basis,
+        baseCurrency,
+        missingRateCurrencies: [],
         totalPnL: 0,
+        grossPnL: 0,
+        totalFees: 0,
+        totalTax: 0,
         totalWins: 0,
         totalLosses: 0,
         winRate: 0,
@@ -51,13 +211,21 @@ export class TradeAnalytics {
         largestLoss: 0,
         avgHoldingPeriod: 0,
         monthlyPnL: {},
-        tickerPnL: {}
+        tickerPnL: {},
+        directionStats: this.calculateDirectionStats([])
       };
     }
 
-    const tradesWithPnL = trades.filter(t => t.pnl !== undefined && t.pnl !== null);
+    const { trades: realized, missingRateCurrencies } = this.convertToBase(
+      trades.filter(t => t.pnl !== undefined && t.pnl !== null),
+      fx
+    );
+    const tradesWithPnL = this.applyBasis(realized, basis);
     const totalPnL = tradesWithPnL.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    const netPnL = totalPnL;
+    const netPnL = realized.reduce((sum, trade) => sum + (getTradePnL(trade, 'net') || 0), 0);
+    const grossPnL = realized.reduce((sum, trade) => sum + (getTradePnL(trade, 'gross') || 0), 0);
+    const totalFees = realized.reduce((sum, trade) => sum + getTotalFees(trade), 0);
+    const totalTax = realized.reduce((sum, trade) => sum + (trade.taxWithholding || 0), 0);
 
     const wins = tradesWithPnL.filter(t => (t.pnl || 0) > 0);
     const losses = tradesWithPnL.filter(t => (t.pnl || 0) < 0);
@@ -97,7 +265,13 @@ export class TradeAnalytics {
       : 0;
 
     return {
+      basis,
+      baseCurrency,
+      missingRateCurrencies,
       totalPnL,
+      grossPnL,
+      totalFees,
+      totalTax,
       totalWins,
       totalLosses,
       winRate,
@@ -110,20 +284,201 @@ export class TradeAnalytics {
       largestLoss,
       avgHoldingPeriod,
       monthlyPnL,
-      tickerPnL
+      tickerPnL,
+      directionStats: this.calculateDirectionStats(tradesWithPnL)
     };
   }
 
-  static calculatePerformanceMetrics(trades: Trade[]): PerformanceMetrics {
-    if (trades.length === 0) {
+  /**
+   * Split realized results into long and short buckets
+   */
+  static calculateDirectionStats(trades: Trade[]): Record<TradeDirection, DirectionStats> {
+    const stats: Record<TradeDirection, DirectionStats> = {
+      long: { trades: 0, pnl: 0, wins: 0, winRate: 0 },
+      short: { trades: 0, pnl: 0, wins: 0, winRate: 0 }
+    };
+
+    trades.forEach(trade => {
+      const bucket = stats[trade.direction || 'long'];
+      bucket.trades++;
+      bucket.pnl += trade.pnl || 0;
+      if ((trade.pnl || 0) > 0) {
+        bucket.wins++;
+      }
+    });
+
+    (Object.keys(stats) as TradeDirection[]).forEach(direction => {
+      const bucket = stats[direction];
+      bucket.winRate = bucket.trades > 0 ? (bucket.wins / bucket.trades) * 100 : 0;
+    });
+
+    return stats;
+  }
+
+  /**
+   * Realized results per account, plus an "Unassigned" bucket when some trades have no account
+   */
+  static calculateAccountStats(
+    trades: Trade[],
+    accounts: Account[],
+    basis: PnLBasis = 'net',
+    fx?: FxConverter
+  ): AccountStats[] {
+    const realized = this.withBasisPnL(trades, basis, fx);
+    const knownIds = new Set(accounts.map(account => account.id));
+
+    const summarize = (accountId: string | null, name: string, capital: number): AccountStats => {
+      const accountTrades = realized.filter(trade =>
+        accountId ? trade.accountId === accountId : !trade.accountId || !knownIds.has(trade.accountId)
+      );
+      const pnl = accountTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+      const wins = accountTrades.filter(trade => (trade.pnl || 0) > 0).length;
+      return {
+        accountId,
+        name,
+        trades: accountTrades.length,
+        pnl,
+        winRate: accountTrades.length > 0 ? (wins / accountTrades.length) * 100 : 0,
+        startingCapital: capital,
+        returnPercent: capital > 0 ? (pnl / capital) * 100 : 0
+      };
+    };
+
+    const stats = accounts.map(account => {
+      const capital = fx
+        ? fx.toBase(account.startingCapital, account.currency) ?? 0
+        : account.startingCapital;
+      return summarize(account.id, account.name, capital);
+    });
+
+    const unassigned = summarize(null, 'Unassigned', 0);
+    if (unassigned.trades > 0) {
+      stats.push(unassigned);
+    }
+
+    return stats;
+  }
+
+  /**
+   * Realized results per setup, plus a "No setup" bucket when some trades have none
+   */
+  static calculateStrategyStats(
+    trades: Trade[],
+    strategies: TradeStrategy[],
+    basis: PnLBasis = 'net',
+    fx?: FxConverter
+  ): StrategyStats[] {
+    const realized = this.withBasisPnL(trades, basis, fx);
+    const knownIds = new Set(strategies.map(strategy => strategy.id));
+
+    const summarize = (strategyId: string | null, name: string): StrategyStats => {
+      const strategyTrades = realized.filter(trade =>
+        strategyId ? trade.strategyId === strategyId : !trade.strategyId || !knownIds.has(trade.strategyId)
+      );
+      const pnl = strategyTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+      const winAmount = strategyTrades.filter(trade => (trade.pnl || 0) > 0).reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+      const lossAmount = Math.abs(strategyTrades.filter(trade => (trade.pnl || 0) < 0).reduce((sum, trade) => sum + (trade.pnl || 0), 0));
+      const wins = strategyTrades.filter(trade => (trade.pnl || 0) > 0).length;
+      const withHolding = strategyTrades.filter(trade => trade.holdingDays !== undefined && trade.holdingDays !== null);
       return {
-        totalValue: 0,
+        strategyId,
+        name,
+        trades: strategyTrades.length,
+        pnl,
+        winRate: strategyTrades.length > 0 ? (wins / strategyTrades.length) * 100 : 0,
+        profitFactor: lossAmount > 0 ? winAmount / lossAmount : 0,
+        expectancy: strategyTrades.length > 0 ? pnl / strategyTrades.length : 0,
+        avgHoldingDays: withHolding.length > 0
+          ? withHolding.reduce((sum, trade) => sum + (trade.holdingDays || 0), 0) / withHolding.length
+          : 0
+      };
+    };
+
+    const stats = strategies.map(strategy => summarize(strategy.id, strategy.name));
+
+    const untagged = summarize(null, 'No setup');
+    if (untagged.trades > 0) {
+      stats.push(untagged);
+    }
+
+    return stats;
+  }
+
+  /**
+   * Copy realized trades with pnl swapped to the requested basis (and converted to
+   * the base currency when an FX converter is given), so the existing pnl-based
+   * calculations work for either gross or net figures
+   */
+  static withBasisPnL(trades: Trade[], basis: PnLBasis = 'net', fx?: FxConverter): Trade[] {
+    const realized = trades.filter(t => t.pnl !== undefined && t.pnl !== null);
+    return this.applyBasis(this.convertToBase(realized, fx).trades, basis);
+  }
+
+  private static applyBasis(trades: Trade[], basis: PnLBasis): Trade[] {
+    return trades.map(trade => basis === 'net' ? trade : { ...trade, pnl: getTradePnL(trade, basis) });
+  }
+
+  /**
+   * Copy trades with their money fields converted to the base currency.
+   * Trades whose currency has no rate are dropped and their currency reported.
+   */
+  static convertToBase(trades: Trade[], fx?: FxConverter): { trades: Trade[]; missingRateCurrencies: string[] } {
+    if (!fx) {
+      return { trades, missingRateCurrencies: [] };
+    }
+
+    const missing = new Set<string>();
+    const converted: Trade[] = [];
+
+    trades.forEach(trade => {
+      const currency = fx.getTradeCurrency(trade);
+      if (currency === fx.baseCurrency) {
+        converted.push(trade);
+        return;
+      }
+
+      const rate = fx.getRate(currency, fx.baseCurrency, trade.sellDate || trade.buyDate);
+      if (rate === undefined) {
+        missing.add(currency);
+        return;
+      }
+
+      const scale = (amount?: number) => amount === undefined || amount === null ? amount : amount * rate;
+      converted.push({
+        ...trade,
+        currency: fx.baseCurrency,
+        pnl: scale(trade.pnl),
+        grossPnl: scale(trade.grossPnl),
+        commission: scale(trade.commission),
+        entryFee: scale(trade.entryFee),
+        exitFee: scale(trade.exitFee),
+        taxWithholding: scale(trade.taxWithholding)
+      });
+    });
+
+    return { trades: converted, missingRateCurrencies: Array.from(missing).sort() };
+  }
+
+  static calculatePerformanceMetrics(
+    trades: Trade[],
+    basis: PnLBasis = 'net',
+    fx?: FxConverter,
+    options: PerformanceMetricsOptions = {}
+  ): PerformanceMetrics {
+    const startingCapital = Math.max(options.startingCapital || 0, 0);
+    const curve = this.calculateEquityCurve(trades, basis, fx);
+
+    if (curve.length === 0) {
+      return {
+        totalValue: startingCapital,
         totalGain: 0,
         totalGainPercent: 0,
+        annualizedReturnPercent: 0,
         dayChange: 0,
         dayChangePercent: 0,
         bestDay: 0,
         worstDay: 0,
+        tradingDays: 0,
         consecutiveWins: 0,
         consecutiveLosses: 0,
         maxDrawdown: 0,
@@ -134,77 +489,335 @@ export class TradeAnalytics {
       };
     }
 
-    const tradesWithPnL = trades.filter(t => t.pnl !== undefined && t.pnl !== null);
-    const totalGain = tradesWithPnL.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    
-    // Calculate drawdown
-    let runningTotal = 0;
-    let peak = 0;
-    let maxDrawdown = 0;
-    
-    tradesWithPnL.forEach(trade => {
-      runningTotal += trade.pnl || 0;
-      if (runningTotal > peak) {
-        peak = runningTotal;
-      }
-      const drawdown = peak - runningTotal;
-      if (drawdown > maxDrawdown) {
-        maxDrawdown = drawdown;
-      }
-    });
-
-    const maxDrawdownPercent = peak > 0 ? (maxDrawdown / peak) * 100 : 0;
+    const totalGain = curve[curve.length - 1].equity;
+    const maxDrawdown = calculateMaxDrawdown(curve.map(point => point.pnl));
+    const peak = curve[curve.length - 1].peak;
 
-    // Calculate consecutive wins/losses
+    // Calculate consecutive wins/losses in sell-date order
     let consecutiveWins = 0;
     let consecutiveLosses = 0;
     let currentWins = 0;
     let currentLosses = 0;
 
-    tradesWithPnL.forEach(trade => {
-      if ((trade.pnl || 0) > 0) {
+    curve.forEach(point => {
+      if (point.pnl > 0) {
         currentWins++;
         currentLosses = 0;
         consecutiveWins = Math.max(consecutiveWins, currentWins);
-      } else if ((trade.pnl || 0) < 0) {
+      } else if (point.pnl < 0) {
         currentLosses++;
         currentWins = 0;
         consecutiveLosses = Math.max(consecutiveLosses, currentLosses);
       }
     });
 
-    // Find best and worst days
-    const bestDay = tradesWithPnL.length > 0 ? Math.max(...tradesWithPnL.map(t => t.pnl || 0)) : 0;
-    const worstDay = tradesWithPnL.length > 0 ? Math.min(...tradesWithPnL.map(t => t.pnl || 0)) : 0;
+    const daily = fillTradingDays(this.calculateDailyPnL(trades, basis, fx));
+    const closeDays = daily.filter(day => day.trades > 0);
+    const bestDay = Math.max(...closeDays.map(day => day.pnl));
+    const worstDay = Math.min(...closeDays.map(day => day.pnl));
+    const dayChange = closeDays[closeDays.length - 1].pnl;
 
-    return {
-      totalValue: totalGain,
+    const metrics: PerformanceMetrics = {
+      totalValue: startingCapital + totalGain,
       totalGain,
-      totalGainPercent: 0, // Would need initial capital to calculate
-      dayChange: 0, // Would need daily data
+      totalGainPercent: 0,
+      annualizedReturnPercent: 0,
+      dayChange,
       dayChangePercent: 0,
       bestDay,
       worstDay,
+      tradingDays: daily.length,
       consecutiveWins,
       consecutiveLosses,
       maxDrawdown,
-      maxDrawdownPercent,
-      sharpeRatio: 0, // Would need risk-free rate and volatility
+      maxDrawdownPercent: peak > 0 ? (maxDrawdown / peak) * 100 : 0,
+      sharpeRatio: 0,
       sortino: 0,
       calmarRatio: 0
     };
+
+    // Percentages and ratios need a starting capital; the same figures the MCP server reports
+    const returnMetrics = calculateReturnMetrics(daily, startingCapital, options.riskFreeRate);
+    return returnMetrics ? { ...metrics, ...returnMetrics } : metrics;
+  }
+
+  /**
+   * Compare realized daily returns with a benchmark's close-to-close returns over
+   * the period of the trades (first entry to last exit), on the benchmark's
+   * trading days. P&L realized on a day without a bar counts toward the next one.
+   * Returns null without a starting capital or fewer than two benchmark closes.
+   */
+  static calculateBenchmarkComparison(
+    trades: Trade[],
+    ticker: string,
+    bars: OHLCBar[],
+    basis: PnLBasis = 'net',
+    fx?: FxConverter,
+    options: PerformanceMetricsOptions = {}
+  ): BenchmarkComparison | null {
+    const startingCapital = options.startingCapital || 0;
+    const daily = this.calculateDailyPnL(trades, basis, fx);
+    if (startingCapital <= 0 || daily.length === 0) {
+      return null;
+    }
+
+    // The same comparison the MCP server reports
+    const firstEntry = trades.reduce((min, trade) => trade.buyDate && trade.buyDate < min ? trade.buyDate : min, daily[0].date);
+    const comparison = compareWithBenchmark(daily, bars, firstEntry, startingCapital, options.riskFreeRate);
+    return comparison ? { ticker, ...comparison } : null;
+  }
+
+  /**
+   * Realized P&L summed per day, oldest first. Days come from the close date by
+   * default, or the entry date when dateField is 'buyDate'; days without trades are omitted.
+   */
+  static calculateDailyPnL(
+    trades: Trade[],
+    basis: PnLBasis = 'net',
+    fx?: FxConverter,
+    dateField: TradeDateField = 'sellDate'
+  ): DailyPnL[] {
+    const byDate: Record<string, DailyPnL> = {};
+
+    this.withBasisPnL(trades, basis, fx).forEach(trade => {
+      if (!trade.sellDate) {
+        return;
+      }
+      const date = trade[dateField]!.split('T')[0];
+      if (!byDate[date]) {
+        byDate[date] = { date, pnl: 0, trades: 0 };
+      }
+      byDate[date].pnl += trade.pnl || 0;
+      byDate[date].trades++;
+    });
+
+    return Object.values(byDate).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Cumulative realized P&L trade by trade, ordered by sell date, with the
+   * running peak and the drawdown below it (the "underwater" series).
+   */
+  static calculateEquityCurve(trades: Trade[], basis: PnLBasis = 'net', fx?: FxConverter): EquityCurvePoint[] {
+    const realized = this.withBasisPnL(trades, basis, fx)
+      .filter(trade => !!trade.sellDate)
+      .sort((a, b) => a.sellDate!.localeCompare(b.sellDate!) || a.buyDate.localeCompare(b.buyDate));
+
+    let equity = 0;
+    let peak = 0;
+
+    return realized.map(trade => {
+      const pnl = trade.pnl || 0;
+      equity += pnl;
+      peak = Math.max(peak, equity);
+      const drawdown = equity - peak;
+
+      return {
+        tradeId: trade.id,
+        ticker: trade.ticker,
+        date: trade.sellDate!,
+        pnl,
+        equity,
+        peak,
+        drawdown,
+        drawdownPercent: peak > 0 ? (drawdown / peak) * 100 : 0
+      };
+    });
+  }
+
+  /**
+   * R-multiples of closed trades with a known initial risk. Both P&L and risk are
+   * in the trade's own currency, so no FX conversion is needed.
+   */
+  static calculateRMultipleStats(trades: Trade[], basis: PnLBasis = 'net'): RMultipleStats {
+    const closed = trades.filter(trade => trade.sellDate && trade.pnl !== undefined && trade.pnl !== null);
+    const rMultiples = closed
+      .map(trade => getRMultiple(trade, basis))
+      .filter((r): r is number => r !== undefined);
+
+    const wins = rMultiples.filter(r => r > 0);
+    const losses = rMultiples.filter(r => r < 0);
+    const totalR = rMultiples.reduce((sum, r) => sum + r, 0);
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, r) => sum + r, 0) / values.length : 0;
+
+    // Whole-R buckets from -3R to +5R with open-ended tails
+    const edges = [-3, -2, -1, 0, 1, 2, 3, 4, 5];
+    const distribution: RMultipleBucket[] = [
+      { label: `< ${edges[0]}R`, min: -Infinity, max: edges[0], count: 0 },
+      ...edges.slice(0, -1).map((edge, i) => ({
+        label: `${edge}R to ${edges[i + 1]}R`,
+        min: edge,
+        max: edges[i + 1],
+        count: 0
+      })),
+      { label: `≥ ${edges[edges.length - 1]}R`, min: edges[edges.length - 1], max: Infinity, count: 0 }
+    ];
+    rMultiples.forEach(r => {
+      const bucket = distribution.find(b => r >= b.min && r < b.max);
+      if (bucket) {
+        bucket.count++;
+      }
+    });
+
+    return {
+      tradesWithRisk: rMultiples.length,
+      tradesWithoutRisk: closed.length - rMultiples.length,
+      expectancyR: average(rMultiples),
+      avgWinR: average(wins),
+      avgLossR: average(losses),
+      largestWinR: wins.length > 0 ? Math.max(...wins) : 0,
+      largestLossR: losses.length > 0 ? Math.min(...losses) : 0,
+      totalR,
+      distribution
+    };
+  }
+
+  /**
+   * MAE/MFE of closed trades from daily bars over the holding period (entry date
+   * to exit date, both inclusive). Daily bars can't separate what traded before
+   * the entry or after the exit on those days, so excursions are upper bounds.
+   */
+  static calculateExcursions(
+    trades: Trade[],
+    barsByTicker: Record<string, OHLCBar[]>,
+    basis: PnLBasis = 'net',
+    fx?: FxConverter
+  ): ExcursionStats {
+    const closed = trades.filter(trade => trade.buyDate && trade.sellDate && trade.sellPrice !== undefined && trade.sellPrice !== null);
+    const excursions: TradeExcursion[] = [];
+
+    closed.forEach(trade => {
+      const holdingDays = trade.holdingDays ?? Math.round((new Date(trade.sellDate!).getTime() - new Date(trade.buyDate).getTime()) / DAY_MS);
+      const bars = (barsByTicker[trade.ticker.toUpperCase()] || [])
+        .filter(bar => bar.date >= trade.buyDate && bar.date <= trade.sellDate!);
+      if (bars.length === 0 || trade.buyPrice <= 0) {
+        return;
+      }
+
+      const sign = trade.direction === 'short' ? -1 : 1;
+      const entryPrice = trade.buyPrice;
+      const exitPrice = trade.sellPrice!;
+      const lowest = Math.min(...bars.map(bar => bar.low));
+      const highest = Math.max(...bars.map(bar => bar.high));
+      // The fills themselves bound the excursion too, in case the bars disagree with them
+      const mae = Math.max(0, sign > 0 ? entryPrice - Math.min(lowest, exitPrice) : Math.max(highest, exitPrice) - entryPrice);
+      const mfe = Math.max(0, sign > 0 ? Math.max(highest, exitPrice) - entryPrice : entryPrice - Math.min(lowest, exitPrice));
+      const toBase = (amount: number) => fx ? fx.tradeAmountToBase(amount, trade) : amount;
+      const pnl = toBase(getTradePnL(trade, basis) ?? 0);
+      if (pnl === undefined) {
+        return; // No FX rate for this trade's currency
+      }
+
+      excursions.push({
+        tradeId: trade.id,
+        ticker: trade.ticker,
+        holdingDays,
+        entryPrice,
+        exitPrice,
+        mae,
+        mfe,
+        maePercent: (mae / entryPrice) * 100,
+        mfePercent: (mfe / entryPrice) * 100,
+        maeAmount: toBase(mae * trade.quantity),
+        mfeAmount: toBase(mfe * trade.quantity),
+        pnl,
+        capturedPercent: mfe > 0 ? (((exitPrice - entryPrice) * sign) / mfe) * 100 : undefined
+      });
+    });
+
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const avgMAEPercent = average(excursions.map(e => e.maePercent));
+    const avgMFEPercent = average(excursions.map(e => e.mfePercent));
+
+    return {
+      excursions,
+      tradesWithoutData: closed.length - excursions.length,
+      edgeRatio: avgMAEPercent > 0 ? avgMFEPercent / avgMAEPercent : 0,
+      avgMAEPercent,
+      avgMFEPercent,
+      avgCapturedPercent: average(excursions.map(e => e.capturedPercent).filter((value): value is number => value !== undefined))
+    };
   }
 
-  static getTopPerformers(trades: Trade[], limit: number = 5): Trade[] {
+  /**
+   * Value open trades at their current marks. Amounts are converted at the mark
+   * date's rate (latest available when the mark is undated); positions whose
+   * currency has no rate keep only their native figures.
+   */
+  static calculateOpenPositions(
+    trades: Trade[],
+    marks: Record<string, PriceMark>,
+    fx?: FxConverter,
+    options: OpenPositionOptions = {}
+  ): OpenPosition[] {
+    const asOf = options.asOf || new Date().toISOString().split('T')[0];
+    const accounts = options.accounts || [];
+    const toBase = (amount: number, currency: string, date?: string) =>
+      fx ? fx.toBase(amount, currency, date) : amount;
+
     return trades
-      .filter(t => t.pnl !== undefined && t.pnl !== null)
+      .filter(trade => !trade.sellDate)
+      .map(trade => {
+        const direction = trade.direction || 'long';
+        const sign = direction === 'short' ? -1 : 1;
+        const currency = fx ? fx.getTradeCurrency(trade) : trade.currency || DEFAULT_BASE_CURRENCY;
+        const summary = trade.executions && trade.executions.length > 0
+          ? summarizeExecutions(trade.executions, direction)
+          : undefined;
+        const quantity = summary ? summary.entryQuantity - summary.exitQuantity : trade.quantity;
+        const entryPrice = summary ? summary.avgEntryPrice : trade.buyPrice;
+        const mark = marks[trade.ticker.toUpperCase()];
+
+        const costBasis = toBase(entryPrice * quantity, currency, trade.buyDate);
+        const marketValue = mark ? toBase(mark.price * quantity, currency, mark.date) : undefined;
+        const unrealizedPnLNative = mark ? (mark.price - entryPrice) * quantity * sign : undefined;
+        const unrealizedPnL = unrealizedPnLNative !== undefined
+          ? toBase(unrealizedPnLNative, currency, mark?.date)
+          : undefined;
+
+        const account = accounts.find(a => a.id === trade.accountId);
+        const capital = account
+          ? toBase(account.startingCapital, account.currency, asOf) ?? 0
+          : options.startingCapital || 0;
+        const exposure = marketValue ?? costBasis;
+
+        const stopLoss = trade.stopLoss && trade.stopLoss > 0 ? trade.stopLoss : undefined;
+        const riskToStopNative = mark && stopLoss !== undefined ? (mark.price - stopLoss) * quantity * sign : undefined;
+
+        const daysHeld = trade.buyDate
+          ? Math.max(0, Math.floor((new Date(asOf).getTime() - new Date(trade.buyDate).getTime()) / DAY_MS))
+          : 0;
+
+        return {
+          trade,
+          ticker: trade.ticker,
+          currency,
+          quantity,
+          entryPrice,
+          mark,
+          costBasis: costBasis ?? 0,
+          marketValue,
+          unrealizedPnL,
+          unrealizedPnLNative,
+          unrealizedPercent: mark && entryPrice > 0 ? ((mark.price - entryPrice) / entryPrice) * 100 * sign : undefined,
+          accountPercent: capital > 0 && exposure !== undefined ? (exposure / capital) * 100 : undefined,
+          daysHeld,
+          stopLoss,
+          distanceToStopPercent: mark && stopLoss !== undefined ? ((mark.price - stopLoss) / mark.price) * 100 * sign : undefined,
+          riskToStop: riskToStopNative !== undefined ? toBase(riskToStopNative, currency, mark?.date) : undefined
+        };
+      })
+      .sort((a, b) => a.ticker.localeCompare(b.ticker));
+  }
+
+  static getTopPerformers(trades: Trade[], limit: number = 5, basis: PnLBasis = 'net', fx?: FxConverter): Trade[] {
+    return this.withBasisPnL(trades, basis, fx)
       .sort((a, b) => (b.pnl || 0) - (a.pnl || 0))
       .slice(0, limit);
   }
 
-  static getWorstPerformers(trades: Trade[], limit: number = 5): Trade[] {
-    return trades
-      .filter(t => t.pnl !== undefined && t.pnl !== null)
+  static getWorstPerformers(trades: Trade[], limit: number = 5, basis: PnLBasis = 'net', fx?: FxConverter): Trade[] {
+    return this.withBasisPnL(trades, basis, fx)
       .sort((a, b) => (a.pnl || 0) - (b.pnl || 0))
       .slice(0, limit);
   }
@@ -220,12 +833,11 @@ export class TradeAnalytics {
     return byTicker;
   }
 
-  static formatCurrency(amount: number): string {
+  static formatCurrency(amount: number, currency: string = DEFAULT_BASE_CURRENCY): string {
+    // Minor units follow the currency (2 for USD, 0 for JPY)
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
+      currency
     }).format(amount);
   }
 
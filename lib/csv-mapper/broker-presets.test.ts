@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS } from '@/lib/csv-mapper/broker-presets';
+import { CSVMapper } from '@/lib/csv-mapper/csv-mapper';
+import { CSVMappingPreset } from '@/types/csv';
+
+const preset = (id: string) => BUILT_IN_PRESETS.find(p => p.id === id)!;
+
+describe('CSVMapper.detectPreset', () => {
+  it('recognises a broker export by its headers, ignoring case, spacing and full-width characters', () => {
+    const headers = ['約定日', '銘柄コード', '売買区分', ' 数量[株] ', '単価[円]', '手数料[円]'];
+
+    expect(CSVMapper.detectPreset(headers, BUILT_IN_PRESETS)?.id).toBe('rakuten-jp-execution-history');
+    expect(CSVMapper.detectPreset(['date', 'action', 'symbol', 'quantity', 'price', 'fees & comm'], BUILT_IN_PRESETS)?.id)
+      .toBe('schwab-transactions');
+  });
+
+  it('prefers the preset requiring the most headers, then the earlier one', () => {
+    const user: CSVMappingPreset = { ...preset('schwab-transactions'), id: 'my-schwab', source: 'user' };
+    const narrow: CSVMappingPreset = { ...user, id: 'narrow', detectHeaders: ['Date', 'Action'] };
+    const headers = ['Date', 'Action', 'Symbol', 'Quantity', 'Price', 'Fees & Comm'];
+
+    expect(CSVMapper.detectPreset(headers, [narrow, user, ...BUILT_IN_PRESETS])?.id).toBe('my-schwab');
+  });
+
+  it('finds nothing for unknown files', () => {
+    expect(CSVMapper.detectPreset(['foo', 'bar'], BUILT_IN_PRESETS)).toBeNull();
+  });
+});
+
+describe('CSVMapper.createMappingFromPreset', () => {
+  it('uses the file header spelling and drops optional columns the file lacks', () => {
+    const mapping = CSVMapper.createMappingFromPreset(preset('schwab-transactions'), ['DATE', 'Action', 'Symbol', 'Quantity', 'Price']);
+
+    expect(mapping.name).toBe('Charles Schwab (Transaction History)');
+    expect(mapping.columnMapping.buyDate).toBe('DATE');
+    expect(mapping.executionLog).toMatchObject({ dateColumn: 'DATE', actionColumn: 'Action' });
+    expect(mapping.executionLog!.feesColumn).toBeUndefined();
+    expect(CSVMapper.validateMapping(mapping, ['DATE', 'Action', 'Symbol', 'Quantity', 'Price'])).toEqual([]);
+  });
+
+  it('imports a broker export end to end', () => {
+    const headers = ['Date', 'Action', 'Symbol', 'Description', 'Quantity', 'Price', 'Fees & Comm', 'Amount'];
+    const rows = [
+      ['03/04/2024', 'Buy', 'AAPL', 'APPLE INC', '10', '$170.00', '$1.00', '-$1,701.00'],
+      ['03/08/2024', 'Sell Short', 'TSLA', 'TESLA INC', '5', '$180.00', '', '$900.00'],
+      ['03/11/2024', 'Sell', 'AAPL', 'APPLE INC', '10', '$1,175.00', '$1.00', '$11,749.00'],
+      ['03/12/2024', 'Buy to Cover', 'TSLA', 'TESLA INC', '5', '$170.00', '', '-$850.00']
+    ];
+    const mapping = CSVMapper.createMappingFromPreset(preset('schwab-transactions'), headers);
+    const { trades, errors } = CSVMapper.mapCSVToTrades({
+      headers,
+      rows: rows.map(row => Object.fromEntries(headers.map((header, i) => [header, row[i]]))),
+      rawData: rows
+    }, mapping);
+
+    expect(errors).toEqual([]);
+    expect(trades.map(t => [t.ticker, t.direction, t.currency, t.buyDate, t.sellDate, t.pnl])).toEqual([
+      ['AAPL', 'long', 'USD', '2024-03-04', '2024-03-11', 10048],
+      ['TSLA', 'short', 'USD', '2024-03-08', '2024-03-12', 50]
+    ]);
+  });
+});
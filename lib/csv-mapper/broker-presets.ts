@@ -0,0 +1,199 @@
+import { CSVMappingPreset } from '@/types/csv';
+import { DEFAULT_FINGERPRINT_STRATEGY } from './import-fingerprint';
+
+// Every catalogued broker writes 1,234.5
+const COMMA_THOUSANDS = { decimalSeparator: '.', thousandsSeparator: ',' };
+
+/**
+ * Mappings for the trade history exports of common US and Japanese brokers.
+ * Column names are matched against the file's headers loosely (see CSVMapper.detectPreset),
+ * so small differences in spacing or full-width brackets between export versions still match.
+ */
+export const BUILT_IN_PRESETS: CSVMappingPreset[] = [
+  {
+    id: 'ibkr-flex-trades',
+    name: 'Interactive Brokers (Flex Query Trades)',
+    broker: 'Interactive Brokers',
+    region: 'US',
+    description: 'Flex Query trade confirmations with Symbol, TradeDate, Buy/Sell, Quantity, TradePrice and IBCommission',
+    detectHeaders: ['Symbol', 'TradeDate', 'Buy/Sell', 'Quantity', 'TradePrice'],
+    mapping: {
+      importMode: 'execution-log',
+      columnMapping: {
+        buyDate: 'TradeDate',
+        ticker: 'Symbol',
+        buyPrice: 'TradePrice',
+        quantity: 'Quantity',
+        currency: 'CurrencyPrimary'
+      },
+      executionLog: {
+        actionColumn: 'Buy/Sell',
+        dateColumn: 'TradeDate',
+        priceColumn: 'TradePrice',
+        feesColumn: 'IBCommission',
+        buyActions: ['BUY'],
+        sellActions: ['SELL'],
+        lotMatching: 'fifo'
+      },
+      fingerprint: {
+        fields: DEFAULT_FINGERPRINT_STRATEGY.fields,
+        executionIdColumn: 'TradeID'
+      },
+      dateFormat: 'yyyyMMdd',
+      numberFormat: COMMA_THOUSANDS
+    }
+  },
+  {
+    id: 'schwab-transactions',
+    name: 'Charles Schwab (Transaction History)',
+    broker: 'Charles Schwab',
+    region: 'US',
+    description: 'Brokerage account transaction history export',
+    detectHeaders: ['Date', 'Action', 'Symbol', 'Quantity', 'Price', 'Fees & Comm'],
+    mapping: {
+      importMode: 'execution-log',
+      columnMapping: {
+        buyDate: 'Date',
+        ticker: 'Symbol',
+        buyPrice: 'Price',
+        quantity: 'Quantity'
+      },
+      executionLog: {
+        actionColumn: 'Action',
+        dateColumn: 'Date',
+        priceColumn: 'Price',
+        feesColumn: 'Fees & Comm',
+        buyActions: ['Buy', 'Buy to Open'],
+        sellActions: ['Sell', 'Sell to Close'],
+        shortActions: ['Sell Short', 'Sell to Open'],
+        coverActions: ['Buy to Cover', 'Buy to Close'],
+        lotMatching: 'fifo'
+      },
+      currency: 'USD',
+      dateFormat: 'MM/dd/yyyy',
+      numberFormat: COMMA_THOUSANDS
+    }
+  },
+  {
+    id: 'robinhood-activity',
+    name: 'Robinhood (Account Activity)',
+    broker: 'Robinhood',
+    region: 'US',
+    description: 'Account activity report; dividend and transfer rows are reported as unknown actions',
+    detectHeaders: ['Activity Date', 'Instrument', 'Trans Code', 'Quantity', 'Price'],
+    mapping: {
+      importMode: 'execution-log',
+      columnMapping: {
+        buyDate: 'Activity Date',
+        ticker: 'Instrument',
+        buyPrice: 'Price',
+        quantity: 'Quantity'
+      },
+      executionLog: {
+        actionColumn: 'Trans Code',
+        dateColumn: 'Activity Date',
+        priceColumn: 'Price',
+        buyActions: ['Buy'],
+        sellActions: ['Sell'],
+        lotMatching: 'fifo'
+      },
+      currency: 'USD',
+      dateFormat: 'M/d/yyyy',
+      numberFormat: COMMA_THOUSANDS
+    }
+  },
+  {
+    id: 'sbi-execution-history',
+    name: 'SBI証券 (約定履歴)',
+    broker: 'SBI証券',
+    region: 'JP',
+    description: 'Domestic stock execution history (cash and margin), Shift_JIS',
+    detectHeaders: ['約定日', '銘柄コード', '取引', '約定数量', '約定単価'],
+    mapping: {
+      importMode: 'execution-log',
+      columnMapping: {
+        buyDate: '約定日',
+        ticker: '銘柄コード',
+        buyPrice: '約定単価',
+        quantity: '約定数量'
+      },
+      executionLog: {
+        actionColumn: '取引',
+        dateColumn: '約定日',
+        priceColumn: '約定単価',
+        feesColumn: '手数料/諸経費等',
+        buyActions: ['株式現物買', '信用新規買'],
+        sellActions: ['株式現物売', '信用返済売'],
+        shortActions: ['信用新規売'],
+        coverActions: ['信用返済買'],
+        lotMatching: 'fifo'
+      },
+      currency: 'JPY',
+      dateFormat: 'yyyy/MM/dd',
+      numberFormat: COMMA_THOUSANDS,
+      encoding: 'Shift_JIS'
+    }
+  },
+  {
+    id: 'rakuten-jp-execution-history',
+    name: '楽天証券 (国内株式 約定履歴)',
+    broker: '楽天証券',
+    region: 'JP',
+    description: 'Domestic stock execution history (cash and margin), Shift_JIS',
+    detectHeaders: ['約定日', '銘柄コード', '売買区分', '数量［株］', '単価［円］'],
+    mapping: {
+      importMode: 'execution-log',
+      columnMapping: {
+        buyDate: '約定日',
+        ticker: '銘柄コード',
+        buyPrice: '単価［円］',
+        quantity: '数量［株］'
+      },
+      executionLog: {
+        actionColumn: '売買区分',
+        dateColumn: '約定日',
+        priceColumn: '単価［円］',
+        feesColumn: '手数料［円］',
+        buyActions: ['買付', '買建'],
+        sellActions: ['売付', '売埋'],
+        shortActions: ['売建'],
+        coverActions: ['買埋'],
+        lotMatching: 'fifo'
+      },
+      currency: 'JPY',
+      dateFormat: 'yyyy/M/d',
+      numberFormat: COMMA_THOUSANDS,
+      encoding: 'Shift_JIS'
+    }
+  },
+  {
+    id: 'rakuten-us-execution-history',
+    name: '楽天証券 (米国株式 約定履歴)',
+    broker: '楽天証券',
+    region: 'JP',
+    description: 'US stock execution history priced in USD, Shift_JIS',
+    detectHeaders: ['約定日', 'ティッカー', '売買区分', '数量［株］', '単価［USドル］'],
+    mapping: {
+      importMode: 'execution-log',
+      columnMapping: {
+        buyDate: '約定日',
+        ticker: 'ティッカー',
+        buyPrice: '単価［USドル］',
+        quantity: '数量［株］'
+      },
+      executionLog: {
+        actionColumn: '売買区分',
+        dateColumn: '約定日',
+        priceColumn: '単価［USドル］',
+        feesColumn: '手数料［USドル］',
+        buyActions: ['買付'],
+        sellActions: ['売付'],
+        lotMatching: 'fifo'
+      },
+      currency: 'USD',
+      dateFormat: 'yyyy/M/d',
+      numberFormat: COMMA_THOUSANDS,
+      encoding: 'Shift_JIS'
+    }
+  }
+];
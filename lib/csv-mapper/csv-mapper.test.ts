@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { CSVMapper } from '@/lib/csv-mapper/csv-mapper';
+import { CSVData, CSVMapping } from '@/types/csv';
+
+function csvData(rows: Record<string, string | number>[]): CSVData {
+  const headers = Object.keys(rows[0]);
+  return { headers, rows, rawData: rows.map(row => headers.map(header => String(row[header] ?? ''))) };
+}
+
+function roundTripMapping(columns: Partial<CSVMapping['columnMapping']>, overrides: Partial<CSVMapping> = {}): CSVMapping {
+  const mapping = CSVMapper.createDefaultMapping();
+  return { ...mapping, ...overrides, columnMapping: { ...mapping.columnMapping, ...columns } };
+}
+
+describe('CSVMapper direction', () => {
+  const row = (side: string) => ({
+    ticker: 'xyz',
+    buyDate: '2024-02-01',
+    buyPrice: '20',
+    quantity: '100',
+    sellDate: '2024-02-09',
+    sellPrice: '18',
+    side
+  });
+
+  it('reads shorts from the default short values and realizes P&L on the way down', () => {
+    const mapping = roundTripMapping({ direction: 'side' });
+    const { trades } = CSVMapper.mapCSVToTrades(csvData([row('Short'), row('空売り'), row('long'), row('')]), mapping);
+
+    expect(trades.map(t => t.direction)).toEqual(['short', 'short', 'long', 'long']);
+    expect(trades.map(t => t.pnl)).toEqual([200, 200, -200, -200]);
+  });
+
+  it('leaves plain 売/売り long, since they only mean sell', () => {
+    const mapping = roundTripMapping({ direction: 'side' });
+    const { trades } = CSVMapper.mapCSVToTrades(csvData([row('売'), row('売り')]), mapping);
+
+    expect(trades.map(t => t.direction)).toEqual(['long', 'long']);
+  });
+
+  it('uses the mapping short values instead of the defaults when given', () => {
+    const mapping = roundTripMapping({ direction: 'side' }, { shortValues: ['SS'] });
+    const { trades } = CSVMapper.mapCSVToTrades(csvData([row('ss'), row('short')]), mapping);
+
+    expect(trades.map(t => t.direction)).toEqual(['short', 'long']);
+  });
+
+  it('pairs short and cover actions in an execution log', () => {
+    const { trades, warnings } = CSVMapper.mapCSVToTrades(csvData([
+      { date: '2024-02-01', action: 'short', ticker: 'xyz', price: '20', quantity: '100', fees: '1' },
+      { date: '2024-02-02', action: 'buy', ticker: 'xyz', price: '19', quantity: '50', fees: '0' },
+      { date: '2024-02-09', action: 'buy to cover', ticker: 'xyz', price: '18', quantity: '100', fees: '1' }
+    ]), CSVMapper.createExecutionLogMapping());
+
+    expect(warnings).toEqual([]);
+    expect(trades.map(t => [t.direction, t.quantity, t.sellDate, t.grossPnl, t.pnl])).toEqual([
+      ['short', 100, '2024-02-09', 200, 198],
+      ['long', 50, undefined, undefined, undefined]
+    ]);
+  });
+});
+
+describe('CSVMapper fees', () => {
+  it('nets entry and exit fees and tax out of the gross P&L', () => {
+    const mapping = roundTripMapping({ commission: undefined, entryFee: 'Entry Fee', exitFee: 'Exit Fee', tax: 'Tax' });
+    const { trades } = CSVMapper.mapCSVToTrades(csvData([{
+      ticker: 'XYZ',
+      buyDate: '2024-02-01',
+      buyPrice: '10',
+      quantity: '100',
+      sellDate: '2024-02-09',
+      sellPrice: '12',
+      'Entry Fee': '-1.5',
+      'Exit Fee': '2.5',
+      Tax: '40'
+    }]), mapping);
+
+    expect(trades[0]).toMatchObject({ grossPnl: 200, commission: 4, entryFee: 1.5, exitFee: 2.5, taxWithholding: 40, pnl: 156 });
+  });
+
+  it('nets a single commission column when fees are not split', () => {
+    const { trades } = CSVMapper.mapCSVToTrades(csvData([{
+      ticker: 'XYZ',
+      buyDate: '2024-02-01',
+      buyPrice: '10',
+      quantity: '100',
+      sellDate: '2024-02-09',
+      sellPrice: '9',
+      commission: '5'
+    }]), roundTripMapping({}));
+
+    expect(trades[0]).toMatchObject({ grossPnl: -100, commission: 5, pnl: -105 });
+  });
+});
+
+describe('CSVMapper computed columns', () => {
+  it('maps computed columns like file columns, each seeing the ones before it', () => {
+    const mapping = roundTripMapping({ ticker: 'Symbol' }, {
+      computedColumns: [
+        { name: 'Symbol', expression: "split([Security], ' ', 0)" },
+        { name: 'Label', expression: "[Symbol] & ':' & [quantity]" }
+      ]
+    });
+    const row = { Security: 'AAPL US Equity', buyDate: '2024-02-01', buyPrice: '10', quantity: '5' };
+
+    expect(CSVMapper.applyComputedColumns(row, mapping)).toMatchObject({ Symbol: 'AAPL', Label: 'AAPL:5' });
+    expect(CSVMapper.mapCSVToTrades(csvData([row]), mapping).trades[0].ticker).toBe('AAPL');
+  });
+
+  it('reports and skips rows whose expression fails', () => {
+    const mapping = roundTripMapping({}, { computedColumns: [{ name: 'Lots', expression: '[quantity] / 100' }] });
+    const result = CSVMapper.mapCSVToTrades(csvData([{ ticker: 'XYZ', buyDate: '2024-02-01', buyPrice: '10', quantity: 'n/a' }]), mapping);
+
+    expect(result.errors).toEqual(["Row 1: Computed column 'Lots': 'n/a' is not a number"]);
+    expect(result.skipped).toBe(1);
+  });
+});
@@ -1,7 +1,15 @@
-import { CSVData, CSVMapping, CSVImportResult } from '@/types/csv';
-import { Trade } from '@/types/trade';
-import { generateId, parseNumber } from '@/lib/utils';
+import { CSVData, CSVMapping, CSVMappingPreset, CSVImportResult } from '@/types/csv';
+import { Trade, TradeDirection, TradeExecution } from '@/types/trade';
+import { calculateGrossPnL, generateId, getTotalFees, parseNumber } from '@/lib/utils';
 import { parse, format } from 'date-fns';
+import { Execution, LotMatcher } from './lot-matcher';
+import { summarizeExecutions } from '@/lib/trade-executions/execution-utils';
+import { DEFAULT_FINGERPRINT_STRATEGY, ImportFingerprint } from './import-fingerprint';
+import { TransformExpression } from './transform-expression';
+
+// Direction column values read as short when the mapping doesn't list its own.
+// Plain 売/売り only means sell, so it is left to the execution-log action lists.
+const DEFAULT_SHORT_VALUES = ['short', 's', 'sell short', 'sell to open', '空売り', '信用売'];
 
 export class CSVMapper {
   static mapCSVToTrades(
@@ -20,14 +28,21 @@ export class CSVMapper {
 
     const rows = csvData.rows.slice(skipRows);
 
+    if (mapping.importMode === 'execution-log') {
+      return this.mapExecutionsToTrades(rows, mapping, skipRows, result);
+    }
+
+    const executionIds: string[][] = [];
+
     for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
       const rowNumber = i + skipRows + 1;
 
       try {
+        const row = this.applyComputedColumns(rows[i], mapping);
         const trade = this.mapRowToTrade(row, mapping);
         if (trade) {
           result.trades.push(trade);
+          executionIds.push([this.readExecutionId(row, mapping) || '']);
           result.imported++;
         } else {
           result.skipped++;
@@ -38,6 +53,8 @@ export class CSVMapper {
       }
     }
 
+    this.assignFingerprints(result.trades, executionIds, mapping);
+
     if (result.errors.length > 0) {
       result.success = false;
     }
@@ -45,6 +62,46 @@ export class CSVMapper {
     return result;
   }
 
+  /**
+   * The row with each computed column added in order, so later expressions can use earlier results.
+   * Throws naming the column that failed, which reports and skips the row like any other bad value.
+   */
+  static applyComputedColumns(row: Record<string, string | number>, mapping: CSVMapping): Record<string, string | number> {
+    if (!mapping.computedColumns || mapping.computedColumns.length === 0) {
+      return row;
+    }
+
+    const computed = { ...row };
+    for (const column of mapping.computedColumns) {
+      try {
+        const value = TransformExpression.evaluate(column.expression, computed, mapping.numberFormat);
+        computed[column.name] = typeof value === 'number' ? value : value === null ? '' : String(value);
+      } catch (error) {
+        throw new Error(`Computed column '${column.name}': ${error instanceof Error ? error.message : 'Invalid expression'}`);
+      }
+    }
+    return computed;
+  }
+
+  private static readExecutionId(row: Record<string, string | number>, mapping: CSVMapping): string | undefined {
+    const column = mapping.fingerprint?.executionIdColumn;
+    const value = column ? row[column]?.toString().trim() : '';
+    return value || undefined;
+  }
+
+  /**
+   * Record each trade's import identity so re-importing the file finds it again
+   */
+  private static assignFingerprints(trades: Trade[], executionIds: string[][], mapping: CSVMapping): void {
+    const strategy = mapping.fingerprint || DEFAULT_FINGERPRINT_STRATEGY;
+    const fingerprints = ImportFingerprint.disambiguate(
+      trades.map((trade, index) => ImportFingerprint.compute(trade, strategy, executionIds[index]))
+    );
+    trades.forEach((trade, index) => {
+      trade.importFingerprint = fingerprints[index];
+    });
+  }
+
   private static mapRowToTrade(row: Record<string, string | number>, mapping: CSVMapping): Trade | null {
     const { columnMapping, dateFormat, numberFormat } = mapping;
 
@@ -103,38 +160,221 @@ export class CSVMapper {
       }
     }
 
-    // Auto-calculate P&L if both sell price and buy price are available
-    let pnl: number | undefined;
-    if (sellPrice !== undefined) {
-      pnl = (sellPrice - buyPrice) * quantity;
+    // Parse optional fees and tax
+    const parseOptional = (column?: string) => column
+      ? Math.abs(parseNumber(row[column] || 0, numberFormat))
+      : undefined;
+    const commission = parseOptional(columnMapping.commission);
+    const entryFee = parseOptional(columnMapping.entryFee);
+    const exitFee = parseOptional(columnMapping.exitFee);
+    const taxWithholding = parseOptional(columnMapping.tax);
+
+    return this.createTrade({
+      accountId: mapping.accountId,
+      ticker: tickerValue.toString(),
+      direction: this.parseDirection(row, mapping),
+      currency: this.parseCurrency(row, mapping),
+      buyDate: format(parsedBuyDate, 'yyyy-MM-dd'),
+      buyPrice,
+      quantity,
+      sellDate,
+      sellPrice,
+      commission,
+      entryFee,
+      exitFee,
+      taxWithholding
+    });
+  }
+
+  private static parseDirection(row: Record<string, string | number>, mapping: CSVMapping): TradeDirection {
+    const column = mapping.columnMapping.direction;
+    const value = column ? row[column]?.toString().trim().toLowerCase() : '';
+    if (!value) {
+      return 'long';
     }
 
+    const shortValues = mapping.shortValues && mapping.shortValues.length > 0
+      ? mapping.shortValues
+      : DEFAULT_SHORT_VALUES;
+    return shortValues.some(shortValue => shortValue.toLowerCase() === value) ? 'short' : 'long';
+  }
+
+  private static parseCurrency(row: Record<string, string | number>, mapping: CSVMapping): string | undefined {
+    const column = mapping.columnMapping.currency;
+    const value = column ? row[column]?.toString().trim() : '';
+    const currency = value || mapping.currency;
+    return currency ? currency.toUpperCase() : undefined;
+  }
+
+  private static mapExecutionsToTrades(
+    rows: Record<string, string | number>[],
+    mapping: CSVMapping,
+    skipRows: number,
+    result: CSVImportResult
+  ): CSVImportResult {
+    const executions: Execution[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      const rowNumber = i + skipRows + 1;
+
+      try {
+        const execution = this.mapRowToExecution(this.applyComputedColumns(rows[i], mapping), mapping, rowNumber);
+        if (execution) {
+          executions.push(execution);
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        result.errors.push(`Row ${rowNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        result.skipped++;
+      }
+    }
+
+    const matchResult = LotMatcher.match(executions, mapping.executionLog!.lotMatching);
+    result.warnings.push(...matchResult.warnings);
+
+    for (const position of matchResult.positions) {
+      result.trades.push(this.createTrade({ ...position, accountId: mapping.accountId }));
+      result.imported++;
+    }
+    this.assignFingerprints(result.trades, matchResult.positions.map(position => position.executionIds), mapping);
+
+    if (result.errors.length > 0) {
+      result.success = false;
+    }
+
+    return result;
+  }
+
+  private static mapRowToExecution(
+    row: Record<string, string | number>,
+    mapping: CSVMapping,
+    rowNumber: number
+  ): Execution | null {
+    const { columnMapping, dateFormat, numberFormat } = mapping;
+    const executionLog = mapping.executionLog!;
+
+    const actionValue = row[executionLog.actionColumn];
+    const dateValue = row[executionLog.dateColumn];
+    const tickerValue = row[columnMapping.ticker];
+    const priceValue = row[executionLog.priceColumn];
+    const quantityValue = row[columnMapping.quantity];
+
+    if (!actionValue || !dateValue || !tickerValue || !priceValue || !quantityValue) {
+      return null;
+    }
+
+    const action = actionValue.toString().trim().toLowerCase();
+    const matchesAction = (values?: string[]) => (values || []).some(value => value.toLowerCase() === action);
+    let side: 'buy' | 'sell';
+    let direction: TradeDirection = 'long';
+    if (matchesAction(executionLog.buyActions)) {
+      side = 'buy';
+    } else if (matchesAction(executionLog.sellActions)) {
+      side = 'sell';
+    } else if (matchesAction(executionLog.shortActions)) {
+      side = 'sell';
+      direction = 'short';
+    } else if (matchesAction(executionLog.coverActions)) {
+      side = 'buy';
+      direction = 'short';
+    } else {
+      throw new Error(`Unknown action: ${actionValue}`);
+    }
+
+    const parsedDate = parse(dateValue.toString(), dateFormat, new Date());
+    if (isNaN(parsedDate.getTime())) {
+      throw new Error(`Invalid date format: ${dateValue}`);
+    }
+
+    const quantity = Math.abs(parseNumber(quantityValue, numberFormat));
+    const price = parseNumber(priceValue, numberFormat);
+
+    if (quantity <= 0 || price <= 0) {
+      throw new Error(`Invalid quantity or price: ${quantity}, ${price}`);
+    }
+
+    const fee = executionLog.feesColumn
+      ? Math.abs(parseNumber(row[executionLog.feesColumn] || 0, numberFormat))
+      : 0;
+
+    return {
+      rowNumber,
+      ticker: tickerValue.toString().toUpperCase(),
+      side,
+      direction,
+      currency: this.parseCurrency(row, mapping),
+      date: format(parsedDate, 'yyyy-MM-dd'),
+      price,
+      quantity,
+      fee,
+      executionId: this.readExecutionId(row, mapping)
+    };
+  }
+
+  private static createTrade(fields: {
+    accountId?: string;
+    ticker: string;
+    direction: TradeDirection;
+    currency?: string;
+    buyDate: string;
+    buyPrice: number;
+    quantity: number;
+    sellDate?: string;
+    sellPrice?: number;
+    commission?: number;
+    entryFee?: number;
+    exitFee?: number;
+    taxWithholding?: number;
+    executions?: TradeExecution[];
+  }): Trade {
+    const { direction, buyDate, buyPrice, quantity, sellDate, sellPrice, executions } = fields;
+
+    // Auto-calculate P&L if both exit and entry prices are available;
+    // with legs, only the quantity exited so far is realized
+    let grossPnl: number | undefined;
+    if (executions && executions.length > 0) {
+      const summary = summarizeExecutions(executions, direction);
+      grossPnl = summary.exitQuantity > 0 ? summary.realizedPnL : undefined;
+    } else if (sellPrice !== undefined) {
+      grossPnl = calculateGrossPnL(buyPrice, sellPrice, quantity, direction);
+    }
+
+    // Net P&L subtracts entry/exit fees and any tax withheld
+    const commission = getTotalFees(fields);
+    const pnl = grossPnl !== undefined
+      ? grossPnl - commission - (fields.taxWithholding || 0)
+      : undefined;
+
     // Auto-calculate holding days if both dates are available
     let holdingDays: number | undefined;
     if (sellDate) {
-      const buyDateObj = parsedBuyDate;
+      const buyDateObj = parse(buyDate, 'yyyy-MM-dd', new Date());
       const sellDateObj = parse(sellDate, 'yyyy-MM-dd', new Date());
       holdingDays = Math.ceil((sellDateObj.getTime() - buyDateObj.getTime()) / (1000 * 60 * 60 * 24));
     }
 
-    // Parse optional commission
-    const commission = columnMapping.commission
-      ? parseNumber(row[columnMapping.commission] || 0, numberFormat)
-      : undefined;
-
     const now = new Date().toISOString();
 
     return {
       id: generateId(),
-      ticker: tickerValue.toString().toUpperCase(),
-      buyDate: format(parsedBuyDate, 'yyyy-MM-dd'),
+      accountId: fields.accountId,
+      ticker: fields.ticker.toUpperCase(),
+      direction,
+      currency: fields.currency,
+      buyDate,
       buyPrice,
       quantity,
       sellDate,
       sellPrice,
       pnl,
+      grossPnl,
       holdingDays,
       commission,
+      entryFee: fields.entryFee,
+      exitFee: fields.exitFee,
+      taxWithholding: fields.taxWithholding,
+      executions,
       tags: [],
       notesFiles: [],
       createdAt: now,
@@ -169,10 +409,143 @@ export class CSVMapper {
     };
   }
 
-  static validateMapping(mapping: CSVMapping, headers: string[]): string[] {
-    const errors: string[] = [];
+  static createExecutionLogMapping(): CSVMapping {
+    const now = new Date().toISOString();
+
+    return {
+      id: generateId(),
+      name: 'Execution Log Mapping',
+      description: 'One row per buy/sell execution, paired into round-trip trades',
+      importMode: 'execution-log',
+      columnMapping: {
+        buyDate: 'date',
+        ticker: 'ticker',
+        buyPrice: 'price',
+        quantity: 'quantity'
+      },
+      executionLog: {
+        actionColumn: 'action',
+        dateColumn: 'date',
+        priceColumn: 'price',
+        feesColumn: 'fees',
+        buyActions: ['buy', 'add'],
+        sellActions: ['sell'],
+        shortActions: ['short', 'sell short'],
+        coverActions: ['cover', 'buy to cover'],
+        lotMatching: 'fifo'
+      },
+      dateFormat: 'yyyy-MM-dd',
+      numberFormat: {
+        decimalSeparator: '.',
+        thousandsSeparator: ','
+      },
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Guess whether a CSV is an execution log (one row per buy/sell) from its headers
+   */
+  static isExecutionLog(headers: string[]): boolean {
+    const normalized = headers.map(header => header.trim().toLowerCase());
+    return normalized.includes('action') && !normalized.includes('selldate');
+  }
+
+  /**
+   * Header comparison key: full-width characters folded (［株］ → [株]), spaces collapsed, case ignored
+   */
+  static normalizeHeader(header: string): string {
+    return header.normalize('NFKC').replace(/^\uFEFF/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+
+  /**
+   * The preset whose detectHeaders all appear in the header row. When several match,
+   * the one requiring the most headers wins, and earlier presets win ties
+   * (so user presets listed first override the built-in ones).
+   */
+  static detectPreset(headers: string[], presets: CSVMappingPreset[]): CSVMappingPreset | null {
+    const available = new Set(headers.map(header => this.normalizeHeader(header)));
+    let best: CSVMappingPreset | null = null;
+
+    for (const preset of presets) {
+      const matches = preset.detectHeaders.length > 0 &&
+        preset.detectHeaders.every(header => available.has(this.normalizeHeader(header)));
+      if (matches && (!best || preset.detectHeaders.length > best.detectHeaders.length)) {
+        best = preset;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * A fresh mapping from a preset, with its column names rewritten to the file's
+   * exact header spelling so rows can be looked up by key
+   */
+  static createMappingFromPreset(preset: CSVMappingPreset, headers: string[]): CSVMapping {
+    const now = new Date().toISOString();
+    const byKey = new Map(headers.map(header => [this.normalizeHeader(header), header]));
+    const resolve = (column: string) => byKey.get(this.normalizeHeader(column)) ?? column;
+
+    const columnMapping = Object.fromEntries(
+      Object.entries(preset.mapping.columnMapping).map(([field, column]) => [field, column ? resolve(column) : column])
+    ) as CSVMapping['columnMapping'];
+
+    const executionLog = preset.mapping.executionLog && {
+      ...preset.mapping.executionLog,
+      actionColumn: resolve(preset.mapping.executionLog.actionColumn),
+      dateColumn: resolve(preset.mapping.executionLog.dateColumn),
+      priceColumn: resolve(preset.mapping.executionLog.priceColumn),
+      feesColumn: preset.mapping.executionLog.feesColumn && resolve(preset.mapping.executionLog.feesColumn)
+    };
+
+    // Optional columns a broker only includes in some exports are dropped rather than failing validation
+    const columns = [...headers, ...(preset.mapping.computedColumns || []).map(column => column.name)];
+    for (const field of ['sellDate', 'sellPrice', 'commission', 'entryFee', 'exitFee', 'tax', 'direction', 'currency']) {
+      if (columnMapping[field] && !columns.includes(columnMapping[field]!)) {
+        delete columnMapping[field];
+      }
+    }
+    if (executionLog?.feesColumn && !columns.includes(executionLog.feesColumn)) {
+      delete executionLog.feesColumn;
+    }
+
+    // Without its ID column a preset falls back to field fingerprints
+    const fingerprint = preset.mapping.fingerprint && { ...preset.mapping.fingerprint };
+    if (fingerprint?.executionIdColumn) {
+      fingerprint.executionIdColumn = resolve(fingerprint.executionIdColumn);
+      if (!columns.includes(fingerprint.executionIdColumn)) {
+        delete fingerprint.executionIdColumn;
+      }
+    }
+
+    return {
+      ...preset.mapping,
+      id: generateId(),
+      name: preset.name,
+      description: preset.description,
+      columnMapping,
+      executionLog,
+      fingerprint,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  static validateMapping(mapping: CSVMapping, fileHeaders: string[]): string[] {
+    // Computed columns can be mapped like the file's own
+    const headers = [...fileHeaders, ...(mapping.computedColumns || []).map(column => column.name)];
+    const errors: string[] = [
+      ...this.validateComputedColumns(mapping, fileHeaders),
+      ...this.validateFingerprint(mapping, headers)
+    ];
     const { columnMapping } = mapping;
 
+    if (mapping.importMode === 'execution-log') {
+      return [...this.validateExecutionLogMapping(mapping, headers), ...errors];
+    }
+
     // Check required columns
     const requiredColumns = ['buyDate', 'ticker', 'buyPrice', 'quantity'];
     
@@ -186,7 +559,7 @@ export class CSVMapper {
     }
 
     // Check optional columns if they are mapped
-    const optionalColumns = ['sellDate', 'sellPrice', 'commission'];
+    const optionalColumns = ['sellDate', 'sellPrice', 'commission', 'entryFee', 'exitFee', 'tax', 'direction', 'currency'];
     for (const optional of optionalColumns) {
       const mappedColumn = columnMapping[optional];
       if (mappedColumn && !headers.includes(mappedColumn)) {
@@ -204,4 +577,79 @@ export class CSVMapper {
 
     return errors;
   }
-}
\ No newline at end of file
+
+  /**
+   * Each computed column needs a unique name and an expression that parses and only
+   * refers to file columns or computed columns defined before it
+   */
+  static validateComputedColumns(mapping: CSVMapping, headers: string[]): string[] {
+    const errors: string[] = [];
+    const available = [...headers];
+
+    for (const column of mapping.computedColumns || []) {
+      const name = column.name.trim();
+      if (!name) {
+        errors.push('Computed column is missing a name');
+        continue;
+      }
+      if (available.includes(name)) {
+        errors.push(`Computed column '${name}' has the same name as another column`);
+      }
+      errors.push(...TransformExpression.validate(column.expression, available).map(error => `Computed column '${name}': ${error}`));
+      available.push(name);
+    }
+
+    return errors;
+  }
+
+  private static validateFingerprint(mapping: CSVMapping, headers: string[]): string[] {
+    const fingerprint = mapping.fingerprint;
+    if (!fingerprint) {
+      return [];
+    }
+
+    const errors: string[] = [];
+    if (fingerprint.fields.length === 0) {
+      errors.push('Select at least one field for duplicate detection');
+    }
+    if (fingerprint.executionIdColumn && !headers.includes(fingerprint.executionIdColumn)) {
+      errors.push(`Execution ID column '${fingerprint.executionIdColumn}' not found in CSV headers`);
+    }
+    return errors;
+  }
+
+  private static validateExecutionLogMapping(mapping: CSVMapping, headers: string[]): string[] {
+    const errors: string[] = [];
+    const { columnMapping, executionLog } = mapping;
+
+    if (!executionLog) {
+      return ['Missing execution log configuration'];
+    }
+
+    const requiredColumns: [string, string | undefined][] = [
+      ['action', executionLog.actionColumn],
+      ['date', executionLog.dateColumn],
+      ['ticker', columnMapping.ticker],
+      ['price', executionLog.priceColumn],
+      ['quantity', columnMapping.quantity]
+    ];
+
+    for (const [field, mappedColumn] of requiredColumns) {
+      if (!mappedColumn) {
+        errors.push(`Missing mapping for required column: ${field}`);
+      } else if (!headers.includes(mappedColumn)) {
+        errors.push(`Mapped column '${mappedColumn}' not found in CSV headers`);
+      }
+    }
+
+    if (executionLog.feesColumn && !headers.includes(executionLog.feesColumn)) {
+      errors.push(`Mapped column '${executionLog.feesColumn}' not found in CSV headers`);
+    }
+
+    if (executionLog.buyActions.length === 0 || executionLog.sellActions.length === 0) {
+      errors.push('Both buy and sell action values are required');
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ImportFingerprint } from '@/lib/csv-mapper/import-fingerprint';
+import { CSVMapper } from '@/lib/csv-mapper/csv-mapper';
+import { Trade } from '@/types/trade';
+
+let nextId = 1;
+
+function trade(fields: Partial<Trade>): Trade {
+  return {
+    id: `t${nextId++}`,
+    ticker: 'XYZ',
+    buyDate: '2024-01-02',
+    buyPrice: 10,
+    quantity: 100,
+    createdAt: '2024-01-02T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    ...fields
+  };
+}
+
+describe('ImportFingerprint.compute', () => {
+  it('ignores exit data, ticker case and float noise by default', () => {
+    const open = ImportFingerprint.compute(trade({ ticker: 'xyz', buyPrice: 0.1 + 0.2 }));
+    const closed = ImportFingerprint.compute(trade({ buyPrice: 0.3, sellDate: '2024-01-09', sellPrice: 12 }));
+
+    expect(open).toMatch(/^f-/);
+    expect(closed).toBe(open);
+    expect(ImportFingerprint.compute(trade({ direction: 'short' }))).not.toBe(open);
+  });
+
+  it('uses the broker execution IDs when the strategy names an ID column', () => {
+    const strategy = { fields: ['ticker' as const], executionIdColumn: 'TradeID' };
+    const byId = ImportFingerprint.compute(trade({}), strategy, [' 1001 ', '1002']);
+
+    expect(byId).toMatch(/^x-/);
+    expect(ImportFingerprint.compute(trade({ ticker: 'OTHER' }), strategy, ['1001', '1002'])).toBe(byId);
+    expect(ImportFingerprint.compute(trade({}), strategy, [''])).toMatch(/^f-/);
+  });
+});
+
+describe('ImportFingerprint.disambiguate', () => {
+  it('numbers repeats in order', () => {
+    expect(ImportFingerprint.disambiguate(['a', 'b', 'a', 'a'])).toEqual(['a', 'b', 'a#2', 'a#3']);
+  });
+});
+
+describe('ImportFingerprint.classify', () => {
+  it('sorts imported trades into new, duplicate and changed', () => {
+    const journal = [
+      trade({ importFingerprint: 'f-known', buyDate: '2024-01-02' }),
+      trade({ buyDate: '2024-01-03', tags: ['mine'] })
+    ];
+    const incoming = [
+      trade({ importFingerprint: 'f-known', buyDate: '2024-01-02' }),
+      trade({ buyDate: '2024-01-03', sellDate: '2024-01-05', sellPrice: 11, commission: 0 }),
+      trade({ buyDate: '2024-01-04' })
+    ];
+
+    const matches = ImportFingerprint.classify(incoming, journal);
+
+    expect(matches.map(m => [m.status, m.existing?.id])).toEqual([
+      ['duplicate', journal[0].id],
+      ['changed', journal[1].id],
+      ['new', undefined]
+    ]);
+    expect(matches[1].changes).toEqual(['sellDate', 'sellPrice']);
+  });
+
+  it('matches each journal trade at most once', () => {
+    const journal = [trade({ importFingerprint: 'f-a' })];
+    const incoming = [trade({ importFingerprint: 'f-a' }), trade({ importFingerprint: 'f-a' })];
+
+    expect(ImportFingerprint.classify(incoming, journal).map(m => m.status)).toEqual(['duplicate', 'new']);
+  });
+
+  it('pairs identical fills with journal trades in file order', () => {
+    const journal = [trade({}), trade({})];
+    const incoming = [trade({}), trade({}), trade({})];
+
+    expect(ImportFingerprint.classify(incoming, journal).map(m => m.existing?.id)).toEqual([journal[0].id, journal[1].id, undefined]);
+  });
+});
+
+describe('ImportFingerprint.diff', () => {
+  it('treats missing fees and direction as their defaults', () => {
+    expect(ImportFingerprint.diff(trade({ commission: 0 }), trade({ direction: 'long' }))).toEqual([]);
+    expect(ImportFingerprint.diff(trade({}), trade({ executions: [{ date: '2024-01-02', side: 'buy', price: 10, quantity: 100 }] })))
+      .toEqual(['executions']);
+  });
+});
+
+describe('CSVMapper fingerprints', () => {
+  it('gives a re-import of the same file the same fingerprints', () => {
+    const rows = [
+      { ticker: 'XYZ', buyDate: '2024-01-02', buyPrice: '10', quantity: '100' },
+      { ticker: 'XYZ', buyDate: '2024-01-02', buyPrice: '10', quantity: '100' }
+    ];
+    const data = { headers: Object.keys(rows[0]), rows, rawData: [] };
+    const fingerprints = () => CSVMapper.mapCSVToTrades(data, CSVMapper.createDefaultMapping()).trades.map(t => t.importFingerprint);
+
+    const first = fingerprints();
+    expect(first[1]).toBe(`${first[0]}#2`);
+    expect(fingerprints()).toEqual(first);
+  });
+});
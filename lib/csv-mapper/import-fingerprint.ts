@@ -0,0 +1,176 @@
+import { FingerprintField, FingerprintStrategy, ImportRowMatch } from '@/types/csv';
+import { Trade } from '@/types/trade';
+import { serializeExecutions } from '@/lib/trade-executions/execution-utils';
+
+// Entry-side fields only, so an open trade that has since been closed is
+// recognised as the same trade with changed exit data rather than a new one
+export const DEFAULT_FINGERPRINT_STRATEGY: FingerprintStrategy = {
+  fields: ['ticker', 'direction', 'buyDate', 'buyPrice', 'quantity']
+};
+
+export const FINGERPRINT_FIELD_LABELS: Record<FingerprintField, string> = {
+  ticker: 'Ticker',
+  direction: 'Direction',
+  accountId: 'Account',
+  buyDate: 'Buy Date',
+  buyPrice: 'Buy Price',
+  quantity: 'Quantity',
+  sellDate: 'Sell Date',
+  sellPrice: 'Sell Price'
+};
+
+// Fields an import writes; anything else on a journal trade (tags, notes, stop, setup) is the user's
+const COMPARED_FIELDS: (keyof Trade)[] = [
+  'direction', 'currency', 'buyDate', 'buyPrice', 'quantity', 'sellDate', 'sellPrice',
+  'entryFee', 'exitFee', 'commission', 'taxWithholding'
+];
+
+const PRICE_EPSILON = 1e-6;
+
+/**
+ * Stable identities for imported trades. A fingerprint is 'x-' + a hash of the broker's
+ * execution IDs when the file has them, otherwise 'f-' + a hash of the strategy's fields.
+ * Repeats within one import (two identical fills on the same day) get '#2', '#3', ...
+ * in file order, which a re-import of the same file reproduces.
+ */
+export class ImportFingerprint {
+  static compute(trade: Trade, strategy: FingerprintStrategy = DEFAULT_FINGERPRINT_STRATEGY, executionIds: string[] = []): string {
+    const ids = executionIds.map(id => id.trim()).filter(id => id.length > 0);
+    if (strategy.executionIdColumn && ids.length > 0) {
+      return `x-${this.hash(ids.join('|'))}`;
+    }
+
+    const key = strategy.fields
+      .map(field => this.normalizeField(trade, field))
+      .join('|');
+    return `f-${this.hash(key)}`;
+  }
+
+  /**
+   * Suffix repeated fingerprints with their occurrence number
+   */
+  static disambiguate(fingerprints: string[]): string[] {
+    const seen = new Map<string, number>();
+    return fingerprints.map(fingerprint => {
+      const count = (seen.get(fingerprint) || 0) + 1;
+      seen.set(fingerprint, count);
+      return count === 1 ? fingerprint : `${fingerprint}#${count}`;
+    });
+  }
+
+  /**
+   * Sort each imported trade into new, duplicate (already in the journal unchanged) or
+   * changed (already in the journal with different prices, dates or fees).
+   * Trades are matched on their stored fingerprint first, then on the strategy's
+   * fields, which also catches trades entered by hand or imported before fingerprints
+   * were recorded. Each journal trade matches at most one imported trade.
+   */
+  static classify(incoming: Trade[], existing: Trade[], strategy: FingerprintStrategy = DEFAULT_FINGERPRINT_STRATEGY): ImportRowMatch[] {
+    const fieldStrategy: FingerprintStrategy = { fields: strategy.fields };
+    const existingFieldKeys = this.disambiguate(existing.map(trade => this.compute(trade, fieldStrategy)));
+    const incomingFieldKeys = this.disambiguate(incoming.map(trade => this.compute(trade, fieldStrategy)));
+
+    const byFingerprint = new Map<string, Trade>();
+    const byFieldKey = new Map<string, Trade>();
+    existing.forEach((trade, index) => {
+      if (trade.importFingerprint && !byFingerprint.has(trade.importFingerprint)) {
+        byFingerprint.set(trade.importFingerprint, trade);
+      }
+      byFieldKey.set(existingFieldKeys[index], trade);
+    });
+
+    // Exact fingerprint matches first, so a field match can't take a trade another row owns
+    const matches: (Trade | undefined)[] = incoming.map(trade =>
+      trade.importFingerprint ? byFingerprint.get(trade.importFingerprint) : undefined
+    );
+    const claimed = new Set<string>();
+    matches.forEach((match, index) => {
+      if (match && claimed.has(match.id)) {
+        matches[index] = undefined;
+      } else if (match) {
+        claimed.add(match.id);
+      }
+    });
+    matches.forEach((match, index) => {
+      const candidate = byFieldKey.get(incomingFieldKeys[index]);
+      if (!match && candidate && !claimed.has(candidate.id)) {
+        matches[index] = candidate;
+        claimed.add(candidate.id);
+      }
+    });
+
+    return incoming.map((trade, index) => {
+      const match = matches[index];
+      if (!match) {
+        return { trade, status: 'new' };
+      }
+
+      const changes = this.diff(match, trade);
+      return changes.length > 0
+        ? { trade, status: 'changed', existing: match, changes }
+        : { trade, status: 'duplicate', existing: match };
+    });
+  }
+
+  /**
+   * Names of the imported fields that differ between a journal trade and its re-import
+   */
+  static diff(existing: Trade, incoming: Trade): string[] {
+    const changes: string[] = [];
+
+    for (const field of COMPARED_FIELDS) {
+      const before = existing[field];
+      const after = incoming[field];
+      if (typeof before === 'number' || typeof after === 'number') {
+        // Fees and tax default to zero on either side
+        if (Math.abs(Number(before || 0) - Number(after || 0)) > PRICE_EPSILON) {
+          changes.push(field);
+        }
+      } else if ((before || '') !== (after || '')) {
+        if (field === 'direction' && (before || 'long') === (after || 'long')) {
+          continue;
+        }
+        changes.push(field);
+      }
+    }
+
+    if (serializeExecutions(existing.executions) !== serializeExecutions(incoming.executions)) {
+      changes.push('executions');
+    }
+
+    return changes;
+  }
+
+  private static normalizeField(trade: Trade, field: FingerprintField): string {
+    switch (field) {
+      case 'ticker':
+        return trade.ticker.trim().toUpperCase();
+      case 'direction':
+        return trade.direction || 'long';
+      case 'buyPrice':
+      case 'sellPrice':
+      case 'quantity': {
+        const value = trade[field];
+        return value === undefined ? '' : String(Math.round(value * 1e6) / 1e6);
+      }
+      default:
+        return trade[field] || '';
+    }
+  }
+
+  /**
+   * 53-bit string hash (cyrb53); collisions are negligible at journal sizes
+   */
+  private static hash(value: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i++) {
+      const char = value.charCodeAt(i);
+      h1 = Math.imul(h1 ^ char, 2654435761);
+      h2 = Math.imul(h2 ^ char, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Execution, LotMatcher } from '@/lib/csv-mapper/lot-matcher';
+
+let nextRow = 1;
+
+function execution(side: 'buy' | 'sell', date: string, price: number, quantity: number, fee = 0): Execution {
+  return { rowNumber: nextRow++, ticker: 'AAPL', side, direction: 'long', date, price, quantity, fee };
+}
+
+// Two buys at different prices, then one sell that closes part of the position
+const scaledIn = () => [
+  execution('buy', '2024-01-02', 100, 10, 2),
+  execution('buy', '2024-01-03', 110, 10, 2),
+  execution('sell', '2024-01-05', 120, 15, 3)
+];
+
+describe('LotMatcher.match', () => {
+  it('closes the oldest lots first with FIFO', () => {
+    const { positions, warnings } = LotMatcher.match(scaledIn(), 'fifo');
+
+    expect(warnings).toEqual([]);
+    expect(positions.map(p => [p.buyDate, p.buyPrice, p.quantity, p.sellDate])).toEqual([
+      ['2024-01-02', 100, 10, '2024-01-05'],
+      ['2024-01-03', 110, 5, '2024-01-05'],
+      ['2024-01-03', 110, 5, undefined]
+    ]);
+  });
+
+  it('closes the newest lots first with LIFO', () => {
+    const { positions } = LotMatcher.match(scaledIn(), 'lifo');
+
+    expect(positions.map(p => [p.buyDate, p.buyPrice, p.quantity, p.sellDate])).toEqual([
+      ['2024-01-03', 110, 10, '2024-01-05'],
+      ['2024-01-02', 100, 5, '2024-01-05'],
+      ['2024-01-02', 100, 5, undefined]
+    ]);
+  });
+
+  it('blends entries into one lot dated from the first buy with average cost', () => {
+    const { positions } = LotMatcher.match(scaledIn(), 'average');
+
+    expect(positions.map(p => [p.buyDate, p.buyPrice, p.quantity, p.sellDate])).toEqual([
+      ['2024-01-02', 105, 15, '2024-01-05'],
+      ['2024-01-02', 105, 5, undefined]
+    ]);
+  });
+
+  it('allocates entry and exit fees by matched quantity', () => {
+    const { positions } = LotMatcher.match(scaledIn(), 'fifo');
+
+    expect(positions.map(p => [p.entryFee, p.exitFee])).toEqual([
+      [2, 2],
+      [1, 1],
+      [1, 0]
+    ]);
+  });
+
+  it('orders executions by date, keeping file order within a day', () => {
+    const sell = execution('sell', '2024-01-04', 105, 10);
+    const firstBuy = execution('buy', '2024-01-02', 100, 10);
+    const secondBuy = execution('buy', '2024-01-02', 101, 10);
+
+    const { positions } = LotMatcher.match([sell, secondBuy, firstBuy], 'fifo');
+
+    expect(positions[0]).toMatchObject({ buyPrice: 100, sellPrice: 105, quantity: 10 });
+  });
+
+  it('warns about and skips sells beyond the open position', () => {
+    const sell = execution('sell', '2024-01-03', 110, 15);
+    const { positions, warnings } = LotMatcher.match([execution('buy', '2024-01-02', 100, 10), sell], 'fifo');
+
+    expect(positions).toHaveLength(1);
+    expect(positions[0]).toMatchObject({ quantity: 10, sellDate: '2024-01-03' });
+    expect(warnings).toEqual([
+      `Row ${sell.rowNumber}: sell of 15 AAPL exceeds open position by 5; unmatched quantity skipped`
+    ]);
+  });
+
+  it('matches each ticker separately', () => {
+    const msft: Execution = { ...execution('buy', '2024-01-02', 300, 5), ticker: 'MSFT' };
+    const { positions } = LotMatcher.match([msft, execution('sell', '2024-01-03', 110, 5)], 'fifo');
+
+    expect(positions.map(p => [p.ticker, p.quantity, p.sellDate])).toEqual([['MSFT', 5, undefined]]);
+  });
+
+  it('keeps every fill from flat to flat as legs of one trade with the position method', () => {
+    const { positions } = LotMatcher.match([
+      ...scaledIn(),
+      execution('sell', '2024-01-08', 125, 5, 1),
+      execution('buy', '2024-01-10', 130, 4)
+    ], 'position');
+
+    expect(positions).toHaveLength(2);
+    expect(positions[0]).toMatchObject({
+      buyDate: '2024-01-02',
+      buyPrice: 105,
+      quantity: 20,
+      sellDate: '2024-01-08',
+      sellPrice: 121.25,
+      entryFee: 4,
+      exitFee: 4
+    });
+    expect(positions[0].executions).toHaveLength(4);
+    expect(positions[1]).toMatchObject({ buyDate: '2024-01-10', quantity: 4, sellDate: undefined });
+  });
+});
@@ -0,0 +1,252 @@
+import { LotMatchingMethod } from '@/types/csv';
+import { TradeDirection, TradeExecution } from '@/types/trade';
+import { getEntrySide, summarizeExecutions } from '@/lib/trade-executions/execution-utils';
+
+export interface Execution {
+  rowNumber: number;
+  ticker: string;
+  side: 'buy' | 'sell';
+  direction: TradeDirection; // 'short' for sell-to-open / buy-to-cover rows
+  currency?: string;
+  date: string; // YYYY-MM-DD
+  price: number;
+  quantity: number;
+  fee: number;
+  executionId?: string; // Broker execution ID, when the file has one
+}
+
+export interface MatchedPosition {
+  ticker: string;
+  direction: TradeDirection;
+  currency?: string; // Taken from the execution that opened the position
+  buyDate: string; // Entry date (short sale date for shorts)
+  buyPrice: number; // Entry price
+  quantity: number;
+  sellDate?: string; // Exit date (cover date for shorts)
+  sellPrice?: number; // Exit price
+  entryFee: number; // Entry-side fees allocated to this quantity
+  exitFee: number; // Exit-side fees allocated to this quantity
+  executions?: TradeExecution[]; // Only set when whole positions are grouped
+  executionIds: string[]; // Broker IDs of the opening and closing executions, for import fingerprints
+}
+
+export interface LotMatchResult {
+  positions: MatchedPosition[];
+  warnings: string[];
+}
+
+interface OpenLot {
+  date: string;
+  price: number;
+  quantity: number;
+  fee: number; // Unallocated entry fee remaining on this lot
+  executionId?: string;
+}
+
+interface OpenLots {
+  ticker: string;
+  direction: TradeDirection;
+  currency?: string;
+  lots: OpenLot[];
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Pairs entry and exit executions per ticker and direction into round-trip positions.
+ * Closed portions become positions with sell data; whatever is left open
+ * is returned without sell data so it can be imported as an open trade.
+ * The 'position' method instead keeps every fill from flat to flat as legs of one trade.
+ */
+export class LotMatcher {
+  static match(executions: Execution[], method: LotMatchingMethod): LotMatchResult {
+    const result: LotMatchResult = { positions: [], warnings: [] };
+
+    // Process executions chronologically, keeping file order within a day
+    const ordered = [...executions].sort((a, b) =>
+      a.date === b.date ? a.rowNumber - b.rowNumber : a.date.localeCompare(b.date)
+    );
+
+    if (method === 'position') {
+      this.groupPositions(ordered, result);
+      return result;
+    }
+
+    const openByKey = new Map<string, OpenLots>();
+
+    for (const execution of ordered) {
+      const key = `${execution.ticker}:${execution.direction}`;
+      const open = openByKey.get(key) || { ticker: execution.ticker, direction: execution.direction, currency: execution.currency, lots: [] };
+      openByKey.set(key, open);
+      const lots = open.lots;
+
+      if (execution.side === getEntrySide(execution.direction)) {
+        this.addLot(lots, execution, method);
+        continue;
+      }
+
+      let remaining = execution.quantity;
+      while (remaining > EPSILON && lots.length > 0) {
+        const lot = method === 'lifo' ? lots[lots.length - 1] : lots[0];
+        const matched = Math.min(remaining, lot.quantity);
+        const entryFee = lot.fee * (matched / lot.quantity);
+        const exitFee = execution.fee * (matched / execution.quantity);
+
+        result.positions.push({
+          ticker: execution.ticker,
+          direction: execution.direction,
+          currency: open.currency,
+          buyDate: lot.date,
+          buyPrice: lot.price,
+          quantity: matched,
+          sellDate: execution.date,
+          sellPrice: execution.price,
+          entryFee,
+          exitFee,
+          executionIds: this.ids(lot.executionId, execution.executionId)
+        });
+
+        lot.quantity -= matched;
+        lot.fee -= entryFee;
+        remaining -= matched;
+
+        if (lot.quantity <= EPSILON) {
+          lots.splice(lots.indexOf(lot), 1);
+        }
+      }
+
+      if (remaining > EPSILON) {
+        result.warnings.push(
+          `Row ${execution.rowNumber}: ${this.describeExit(execution)} of ${execution.quantity} ${execution.ticker} exceeds open position by ${remaining}; unmatched quantity skipped`
+        );
+      }
+    }
+
+    // Anything still held becomes an open trade
+    openByKey.forEach(({ ticker, direction, currency, lots }) => {
+      lots.forEach(lot => {
+        result.positions.push({
+          ticker,
+          direction,
+          currency,
+          buyDate: lot.date,
+          buyPrice: lot.price,
+          quantity: lot.quantity,
+          entryFee: lot.fee,
+          exitFee: 0,
+          executionIds: this.ids(lot.executionId)
+        });
+      });
+    });
+
+    return result;
+  }
+
+  private static groupPositions(ordered: Execution[], result: LotMatchResult): void {
+    const openByKey = new Map<string, { ticker: string; direction: TradeDirection; currency?: string; legs: TradeExecution[]; held: number; openingId?: string }>();
+
+    for (const execution of ordered) {
+      const key = `${execution.ticker}:${execution.direction}`;
+      const open = openByKey.get(key) || { ticker: execution.ticker, direction: execution.direction, currency: execution.currency, legs: [], held: 0 };
+      openByKey.set(key, open);
+
+      if (execution.side === getEntrySide(execution.direction)) {
+        if (open.legs.length === 0) {
+          open.openingId = execution.executionId;
+        }
+        open.legs.push(this.toLeg(execution, execution.quantity));
+        open.held += execution.quantity;
+        continue;
+      }
+
+      const matched = Math.min(execution.quantity, open.held);
+      if (execution.quantity - matched > EPSILON) {
+        result.warnings.push(
+          `Row ${execution.rowNumber}: ${this.describeExit(execution)} of ${execution.quantity} ${execution.ticker} exceeds open position by ${execution.quantity - matched}; unmatched quantity skipped`
+        );
+      }
+      if (matched <= EPSILON) {
+        continue;
+      }
+
+      open.legs.push(this.toLeg(execution, matched));
+      open.held -= matched;
+
+      // Position is flat again: close it out as one trade
+      if (open.held <= EPSILON) {
+        result.positions.push(this.toPosition(open.ticker, open.direction, open.currency, open.legs, open.openingId));
+        openByKey.delete(key);
+      }
+    }
+
+    openByKey.forEach(open => {
+      if (open.legs.length > 0) {
+        result.positions.push(this.toPosition(open.ticker, open.direction, open.currency, open.legs, open.openingId));
+      }
+    });
+  }
+
+  private static describeExit(execution: Execution): string {
+    return execution.direction === 'short' ? 'cover' : 'sell';
+  }
+
+  private static toLeg(execution: Execution, quantity: number): TradeExecution {
+    const fee = execution.fee * (quantity / execution.quantity);
+    return {
+      date: execution.date,
+      side: execution.side,
+      price: execution.price,
+      quantity,
+      fee: fee || undefined
+    };
+  }
+
+  private static ids(...executionIds: (string | undefined)[]): string[] {
+    return executionIds.filter((id): id is string => !!id);
+  }
+
+  // A grouped position keeps the ID of the fill that opened it, so adding legs later reads as a change
+  private static toPosition(
+    ticker: string,
+    direction: TradeDirection,
+    currency: string | undefined,
+    legs: TradeExecution[],
+    openingId?: string
+  ): MatchedPosition {
+    const summary = summarizeExecutions(legs, direction);
+    return {
+      ticker,
+      direction,
+      currency,
+      buyDate: summary.firstEntryDate!,
+      buyPrice: summary.avgEntryPrice,
+      quantity: summary.entryQuantity,
+      sellDate: summary.isClosed ? summary.lastExitDate : undefined,
+      sellPrice: summary.avgExitPrice,
+      entryFee: summary.entryFees,
+      exitFee: summary.exitFees,
+      executions: legs,
+      executionIds: this.ids(openingId)
+    };
+  }
+
+  private static addLot(lots: OpenLot[], execution: Execution, method: LotMatchingMethod): void {
+    // Average cost keeps a single blended lot per ticker, dated from when the position was opened
+    if (method === 'average' && lots.length > 0) {
+      const lot = lots[0];
+      const totalQuantity = lot.quantity + execution.quantity;
+      lot.price = (lot.price * lot.quantity + execution.price * execution.quantity) / totalQuantity;
+      lot.quantity = totalQuantity;
+      lot.fee += execution.fee;
+      return;
+    }
+
+    lots.push({
+      date: execution.date,
+      price: execution.price,
+      quantity: execution.quantity,
+      fee: execution.fee,
+      executionId: execution.executionId
+    });
+  }
+}
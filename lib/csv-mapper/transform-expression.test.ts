@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { TransformExpression } from '@/lib/csv-mapper/transform-expression';
+
+const row = {
+  Security: 'AAPL US Equity',
+  Side: '売',
+  Qty: '1.200',
+  Price: '(12,50)',
+  Fee: '',
+  'Odd ]Name': 'x'
+};
+const eu = { decimalSeparator: ',', thousandsSeparator: '.' };
+const evaluate = (expression: string) => TransformExpression.evaluate(expression, row, eu);
+
+describe('TransformExpression.evaluate', () => {
+  it('reads cells with the mapping number format', () => {
+    expect(evaluate('[Qty] * 2')).toBe(2400);
+    expect(evaluate('[Price] + [Fee]')).toBe(-12.5);
+    expect(evaluate('abs([Price]) * [Qty]')).toBe(15000);
+  });
+
+  it('follows operator precedence and short-circuits', () => {
+    expect(evaluate('1 + 2 * 3 - 4 / 2')).toBe(5);
+    expect(evaluate("'a' & 1 + 2")).toBe('a3');
+    expect(evaluate('[Fee] != "" && 1 / [Fee] > 0')).toBe(false);
+    expect(evaluate('[Qty] > 100 ? "big" : "small"')).toBe('big');
+  });
+
+  it('runs the built-in functions, case-insensitively', () => {
+    expect(evaluate("split([Security], ' ', 0)")).toBe('AAPL');
+    expect(evaluate("SPLIT([Security], ' ', -1)")).toBe('Equity');
+    expect(evaluate("map([Side], '買', 'buy', '売', 'sell')")).toBe('sell');
+    expect(evaluate("map([Side], '買', 'buy', 'other')")).toBe('other');
+    expect(evaluate("coalesce([Fee], 'none')")).toBe('none');
+    expect(evaluate('round(2 / 3, 2)')).toBe(0.67);
+    expect(evaluate('if([Fee], 1 / [Fee])')).toBeNull();
+    expect(evaluate('[Odd ]]Name]')).toBe('x');
+  });
+
+  it('only resolves the row and the function table own properties', () => {
+    expect(() => evaluate('[constructor]')).toThrow('Unknown column [constructor]');
+    expect(() => evaluate('[__proto__]')).toThrow('Unknown column [__proto__]');
+    expect(() => evaluate('[toString] & ""')).toThrow('Unknown column [toString]');
+    expect(() => evaluate('constructor(1)')).toThrow("Unknown function 'constructor'");
+    expect(() => evaluate('hasOwnProperty("x")')).toThrow("Unknown function 'hasOwnProperty'");
+    expect(() => evaluate('__proto__(1)')).toThrow("Unknown function '__proto__'");
+  });
+
+  it('reports bad values and division by zero', () => {
+    expect(() => evaluate('[Security] * 2')).toThrow("'AAPL US Equity' is not a number");
+    expect(() => evaluate('1 / [Fee]')).toThrow('Division by zero');
+  });
+});
+
+describe('TransformExpression.parse', () => {
+  it('reports syntax errors with their position', () => {
+    expect(() => TransformExpression.parse('1 +')).toThrow('Unexpected end of expression at position 4');
+    expect(() => TransformExpression.parse("'open")).toThrow('Unterminated text at position 1');
+    expect(() => TransformExpression.parse('Qty * 2')).toThrow("Unknown name 'Qty' at position 1 (columns are written [Qty])");
+    expect(() => TransformExpression.parse('upper()')).toThrow('upper(text) takes 1 argument, got 0');
+    expect(() => TransformExpression.parse('1 # 2')).toThrow("Unexpected '#' at position 3");
+  });
+});
+
+describe('TransformExpression.validate', () => {
+  it('lists unknown columns and syntax errors', () => {
+    expect(TransformExpression.validate('[A] & [B]', ['A'])).toEqual(['Unknown column [B]']);
+    expect(TransformExpression.validate('  ', ['A'])).toEqual(['Expression is empty']);
+    expect(TransformExpression.validate('[A] +', ['A'])).toEqual(['Unexpected end of expression at position 6']);
+  });
+});
@@ -0,0 +1,629 @@
+import { CSVNumberFormat } from '@/types/csv';
+
+export type TransformValue = string | number | boolean | null;
+
+type ExpressionNode =
+  | { type: 'literal'; value: TransformValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'column'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+interface EvaluationContext {
+  row: Record<string, string | number>;
+  numberFormat?: CSVNumberFormat;
+}
+
+interface TransformFunction {
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic functions
+  description: string;
+  // if() and coalesce() only evaluate the arguments they need
+  lazy?: (args: ExpressionNode[], evaluate: (node: ExpressionNode) => TransformValue) => TransformValue;
+  call?: (args: TransformValue[], context: EvaluationContext) => TransformValue;
+}
+
+// Longest first, so '<=' isn't read as '<' followed by '='
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '&', '<', '>', '!', '?', ':', '(', ')', ','];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '&': 5,
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  '%': 7
+};
+
+export const TRANSFORM_FUNCTIONS: Record<string, TransformFunction> = {
+  trim: { minArgs: 1, maxArgs: 1, description: 'trim(text)', call: ([text]) => toText(text).trim() },
+  upper: { minArgs: 1, maxArgs: 1, description: 'upper(text)', call: ([text]) => toText(text).toUpperCase() },
+  lower: { minArgs: 1, maxArgs: 1, description: 'lower(text)', call: ([text]) => toText(text).toLowerCase() },
+  len: { minArgs: 1, maxArgs: 1, description: 'len(text)', call: ([text]) => toText(text).length },
+  split: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'split(text, separator, index) - index 0 is the first part, -1 the last',
+    call: ([text, separator, index], context) => {
+      const parts = toText(text).split(toText(separator) || ' ').filter(part => part.length > 0);
+      const position = Math.trunc(toNumber(index, context));
+      return parts[position < 0 ? parts.length + position : position] ?? '';
+    }
+  },
+  substr: {
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'substr(text, start, length?)',
+    call: ([text, start, length], context) => {
+      const value = toText(text);
+      const from = Math.trunc(toNumber(start, context));
+      return length === undefined
+        ? value.substr(from)
+        : value.substr(from, Math.trunc(toNumber(length, context)));
+    }
+  },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'replace(text, search, replacement) - every occurrence',
+    call: ([text, search, replacement]) => toText(search) === ''
+      ? toText(text)
+      : toText(text).split(toText(search)).join(toText(replacement))
+  },
+  contains: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'contains(text, search)',
+    call: ([text, search]) => toText(text).toLowerCase().includes(toText(search).toLowerCase())
+  },
+  startswith: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'startsWith(text, prefix)',
+    call: ([text, prefix]) => toText(text).toLowerCase().startsWith(toText(prefix).toLowerCase())
+  },
+  endswith: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'endsWith(text, suffix)',
+    call: ([text, suffix]) => toText(text).toLowerCase().endsWith(toText(suffix).toLowerCase())
+  },
+  concat: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'concat(a, b, ...)',
+    call: (args) => args.map(toText).join('')
+  },
+  number: { minArgs: 1, maxArgs: 1, description: 'number(text)', call: ([value], context) => toNumber(value, context) },
+  abs: { minArgs: 1, maxArgs: 1, description: 'abs(number)', call: ([value], context) => Math.abs(toNumber(value, context)) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'round(number, digits?)',
+    call: ([value, digits], context) => {
+      const factor = Math.pow(10, digits === undefined ? 0 : Math.trunc(toNumber(digits, context)));
+      return Math.round(toNumber(value, context) * factor) / factor;
+    }
+  },
+  floor: { minArgs: 1, maxArgs: 1, description: 'floor(number)', call: ([value], context) => Math.floor(toNumber(value, context)) },
+  ceil: { minArgs: 1, maxArgs: 1, description: 'ceil(number)', call: ([value], context) => Math.ceil(toNumber(value, context)) },
+  min: { minArgs: 1, maxArgs: Infinity, description: 'min(a, b, ...)', call: (args, context) => Math.min(...args.map(arg => toNumber(arg, context))) },
+  max: { minArgs: 1, maxArgs: Infinity, description: 'max(a, b, ...)', call: (args, context) => Math.max(...args.map(arg => toNumber(arg, context))) },
+  if: {
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'if(condition, then, else?)',
+    lazy: (args, evaluate) => isTruthy(evaluate(args[0]))
+      ? evaluate(args[1])
+      : args[2] ? evaluate(args[2]) : null
+  },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'coalesce(a, b, ...) - the first non-empty value',
+    lazy: (args, evaluate) => {
+      for (const arg of args) {
+        const value = evaluate(arg);
+        if (toText(value).trim() !== '') {
+          return value;
+        }
+      }
+      return null;
+    }
+  },
+  map: {
+    minArgs: 3,
+    maxArgs: Infinity,
+    description: "map(value, 'from', 'to', ..., default?) - unmatched values pass through without a default",
+    call: ([value, ...pairs]) => {
+      const key = toText(value).trim().toLowerCase();
+      for (let i = 0; i + 1 < pairs.length; i += 2) {
+        if (toText(pairs[i]).trim().toLowerCase() === key) {
+          return pairs[i + 1];
+        }
+      }
+      return pairs.length % 2 === 1 ? pairs[pairs.length - 1] : value;
+    }
+  }
+};
+
+/**
+ * Own properties only, so names like constructor or __proto__ don't resolve to
+ * what every object inherits
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function getTransformFunction(name: string): TransformFunction | undefined {
+  return hasOwn(TRANSFORM_FUNCTIONS, name) ? TRANSFORM_FUNCTIONS[name] : undefined;
+}
+
+function toText(value: TransformValue | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'string' ? value : String(value);
+}
+
+/**
+ * Numbers read from cells use the mapping's number format; an empty cell is zero
+ */
+function toNumber(value: TransformValue | undefined, context: EvaluationContext): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+
+  const text = toText(value).trim();
+  if (text === '') {
+    return 0;
+  }
+
+  const negative = /^\(.*\)$/.test(text);
+  let clean = (negative ? text.slice(1, -1) : text).replace(/[$€£¥￥\s]/g, '');
+  const { decimalSeparator = '.', thousandsSeparator = '' } = context.numberFormat || {};
+  if (thousandsSeparator.trim()) {
+    clean = clean.split(thousandsSeparator).join('');
+  }
+  if (decimalSeparator !== '.') {
+    clean = clean.replace(decimalSeparator, '.');
+  }
+
+  const number = Number(clean);
+  if (clean === '' || isNaN(number)) {
+    throw new Error(`'${text}' is not a number`);
+  }
+  return negative ? -number : number;
+}
+
+function isTruthy(value: TransformValue): boolean {
+  if (typeof value === 'string') {
+    return value.trim() !== '' && value.trim().toLowerCase() !== 'false';
+  }
+  return !!value;
+}
+
+/**
+ * A small expression language for computed import columns, evaluated without eval().
+ *
+ *   [Column Name]                 a cell of the current row (']]' escapes a ']')
+ *   'text', "text", 12.5          literals; true, false and null
+ *   + - * / %                     arithmetic, reading cells with the mapping's number format
+ *   &                             text concatenation
+ *   == != < <= > >=  && || !      comparisons compare as numbers when either side is a number
+ *   cond ? a : b                  conditional
+ *   upper([Side]) ...             the functions in TRANSFORM_FUNCTIONS (names are case-insensitive)
+ *
+ * e.g. split([Security], ' ', 0) or map([売買], '買', 'buy', '売', 'sell')
+ */
+export class TransformExpression {
+  private static cache = new Map<string, ExpressionNode>();
+
+  /**
+   * Parse an expression; throws with the position of the first syntax error
+   */
+  static parse(expression: string): ExpressionNode {
+    const cached = this.cache.get(expression);
+    if (cached) {
+      return cached;
+    }
+
+    const parser = new Parser(this.tokenize(expression));
+    const node = parser.parseExpression();
+    parser.expectEnd();
+
+    this.cache.set(expression, node);
+    return node;
+  }
+
+  static evaluate(expression: string, row: Record<string, string | number>, numberFormat?: CSVNumberFormat): TransformValue {
+    return this.evaluateNode(this.parse(expression), { row, numberFormat });
+  }
+
+  /**
+   * Syntax errors and references to columns that aren't available, as messages
+   */
+  static validate(expression: string, columns: string[]): string[] {
+    if (!expression.trim()) {
+      return ['Expression is empty'];
+    }
+
+    try {
+      const node = this.parse(expression);
+      return this.columnReferences(node)
+        .filter(column => !columns.includes(column))
+        .map(column => `Unknown column [${column}]`);
+    } catch (error) {
+      return [error instanceof Error ? error.message : 'Invalid expression'];
+    }
+  }
+
+  static columnReferences(node: ExpressionNode): string[] {
+    switch (node.type) {
+      case 'column':
+        return [node.name];
+      case 'unary':
+        return this.columnReferences(node.operand);
+      case 'binary':
+        return [...this.columnReferences(node.left), ...this.columnReferences(node.right)];
+      case 'conditional':
+        return [node.test, node.consequent, node.alternate].flatMap(child => this.columnReferences(child));
+      case 'call':
+        return node.args.flatMap(arg => this.columnReferences(arg));
+      default:
+        return [];
+    }
+  }
+
+  private static evaluateNode(node: ExpressionNode, context: EvaluationContext): TransformValue {
+    const evaluate = (child: ExpressionNode) => this.evaluateNode(child, context);
+
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'column': {
+        if (!hasOwn(context.row, node.name)) {
+          throw new Error(`Unknown column [${node.name}]`);
+        }
+        return context.row[node.name] ?? null;
+      }
+      case 'unary':
+        return node.operator === '!'
+          ? !isTruthy(evaluate(node.operand))
+          : -toNumber(evaluate(node.operand), context);
+      case 'conditional':
+        return isTruthy(evaluate(node.test)) ? evaluate(node.consequent) : evaluate(node.alternate);
+      case 'call': {
+        const fn = getTransformFunction(node.name);
+        if (!fn) {
+          throw new Error(`Unknown function '${node.name}'`);
+        }
+        return fn.lazy
+          ? fn.lazy(node.args, evaluate)
+          : fn.call!(node.args.map(evaluate), context);
+      }
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, context);
+    }
+  }
+
+  private static evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, context: EvaluationContext): TransformValue {
+    const left = this.evaluateNode(leftNode, context);
+
+    // Short-circuit, so the right side may rely on the left holding
+    if (operator === '&&') {
+      return isTruthy(left) && isTruthy(this.evaluateNode(rightNode, context));
+    }
+    if (operator === '||') {
+      return isTruthy(left) || isTruthy(this.evaluateNode(rightNode, context));
+    }
+
+    const right = this.evaluateNode(rightNode, context);
+    const numeric = typeof left === 'number' || typeof right === 'number';
+
+    switch (operator) {
+      case '&':
+        return toText(left) + toText(right);
+      case '+':
+        return toNumber(left, context) + toNumber(right, context);
+      case '-':
+        return toNumber(left, context) - toNumber(right, context);
+      case '*':
+        return toNumber(left, context) * toNumber(right, context);
+      case '/':
+      case '%': {
+        const divisor = toNumber(right, context);
+        if (divisor === 0) {
+          throw new Error('Division by zero');
+        }
+        return operator === '/' ? toNumber(left, context) / divisor : toNumber(left, context) % divisor;
+      }
+      case '==':
+      case '!=': {
+        const equal = numeric
+          ? toNumber(left, context) === toNumber(right, context)
+          : toText(left) === toText(right);
+        return operator === '==' ? equal : !equal;
+      }
+      default: {
+        const [a, b] = numeric
+          ? [toNumber(left, context), toNumber(right, context)]
+          : [toText(left), toText(right)];
+        switch (operator) {
+          case '<': return a < b;
+          case '<=': return a <= b;
+          case '>': return a > b;
+          default: return a >= b;
+        }
+      }
+    }
+  }
+
+  private static tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+      const char = expression[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[i + 1] || ''))) {
+        const match = expression.slice(i).match(/^\d*\.?\d+(?:[eE][-+]?\d+)?/)!;
+        tokens.push({ kind: 'number', value: Number(match[0]), position: i });
+        i += match[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const start = i;
+        let value = '';
+        i++;
+        while (i < expression.length && expression[i] !== char) {
+          if (expression[i] === '\\' && i + 1 < expression.length) {
+            i++;
+          }
+          value += expression[i];
+          i++;
+        }
+        if (i >= expression.length) {
+          throw new Error(`Unterminated text at position ${start + 1}`);
+        }
+        tokens.push({ kind: 'string', value, position: start });
+        i++;
+        continue;
+      }
+
+      if (char === '[') {
+        const start = i;
+        let name = '';
+        i++;
+        while (i < expression.length) {
+          if (expression[i] === ']') {
+            if (expression[i + 1] === ']') {
+              name += ']';
+              i += 2;
+              continue;
+            }
+            break;
+          }
+          name += expression[i];
+          i++;
+        }
+        if (i >= expression.length) {
+          throw new Error(`Unterminated column reference at position ${start + 1}`);
+        }
+        tokens.push({ kind: 'column', value: name, position: start });
+        i++;
+        continue;
+      }
+
+      const identifier = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      if (identifier) {
+        tokens.push({ kind: 'identifier', value: identifier[0], position: i });
+        i += identifier[0].length;
+        continue;
+      }
+
+      const operator = OPERATORS.find(candidate => expression.startsWith(candidate, i));
+      if (operator) {
+        tokens.push({ kind: 'operator', value: operator, position: i });
+        i += operator.length;
+        continue;
+      }
+
+      throw new Error(`Unexpected '${char}' at position ${i + 1}`);
+    }
+
+    tokens.push({ kind: 'end', position: expression.length });
+    return tokens;
+  }
+}
+
+/**
+ * Recursive descent with precedence climbing for the binary operators
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseExpression(): ExpressionNode {
+    const test = this.parseBinary(1);
+    if (!this.matchOperator('?')) {
+      return test;
+    }
+
+    const consequent = this.parseExpression();
+    this.expectOperator(':');
+    const alternate = this.parseExpression();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new Error(`Unexpected ${this.describe(token)} at position ${token.position + 1}`);
+    }
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'operator') {
+        return left;
+      }
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return { type: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    if (this.matchOperator('!')) {
+      return { type: 'unary', operator: '!', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'column':
+        return { type: 'column', name: token.value };
+      case 'identifier':
+        return this.parseIdentifier(token.value, token.position);
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expectOperator(')');
+          return inner;
+        }
+        break;
+    }
+
+    throw new Error(`Unexpected ${this.describe(token)} at position ${token.position + 1}`);
+  }
+
+  private parseIdentifier(identifier: string, position: number): ExpressionNode {
+    const name = identifier.toLowerCase();
+
+    const token = this.peek();
+    if (token.kind !== 'operator' || token.value !== '(') {
+      if (name === 'true' || name === 'false') {
+        return { type: 'literal', value: name === 'true' };
+      }
+      if (name === 'null') {
+        return { type: 'literal', value: null };
+      }
+      throw new Error(`Unknown name '${identifier}' at position ${position + 1} (columns are written [${identifier}])`);
+    }
+
+    const fn = getTransformFunction(name);
+    if (!fn) {
+      throw new Error(`Unknown function '${identifier}' at position ${position + 1}`);
+    }
+
+    this.index++;
+    const args: ExpressionNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.matchOperator(','));
+      this.expectOperator(')');
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new Error(`${fn.description.split(' - ')[0]} takes ${this.describeArity(fn)}, got ${args.length}`);
+    }
+
+    return { type: 'call', name, args };
+  }
+
+  private describeArity(fn: TransformFunction): string {
+    if (fn.maxArgs === Infinity) {
+      return `at least ${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`;
+    }
+    return fn.minArgs === fn.maxArgs
+      ? `${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`
+      : `${fn.minArgs} to ${fn.maxArgs} arguments`;
+  }
+
+  private describe(token: Token): string {
+    switch (token.kind) {
+      case 'end':
+        return 'end of expression';
+      case 'column':
+        return `column [${token.value}]`;
+      case 'string':
+        return `text '${token.value}'`;
+      default:
+        return `'${token.value}'`;
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      const token = this.peek();
+      throw new Error(`Expected '${operator}' but found ${this.describe(token)} at position ${token.position + 1}`);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CentralCSVRecord, CentralCSVService } from '@/lib/csv/central-csv-service';
+import { TRADES_JOURNAL_FILE, TradeJournal } from '@/lib/csv/trade-journal';
+
+let files: Map<string, string>;
+let failWrites: Set<string>;
+// Journal state is shared per path, so each test gets its own data directory
+let dir: string;
+let nextDir = 1;
+
+// Each call yields to the event loop, so concurrent operations interleave like real IPC calls
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+const fileService = {
+  exists: async (path: string) => {
+    await tick();
+    return { success: true, data: files.has(path) };
+  },
+  readFile: async (path: string) => {
+    await tick();
+    return files.has(path) ? { success: true, data: files.get(path) } : { success: false, error: 'not found' };
+  },
+  writeFile: async (path: string, content: string) => {
+    await tick();
+    if (failWrites.delete(path)) {
+      return { success: false, error: 'disk full' };
+    }
+    files.set(path, content);
+    return { success: true };
+  },
+  appendFile: async (path: string, content: string) => {
+    await tick();
+    files.set(path, (files.get(path) || '') + content);
+    return { success: true };
+  },
+  readDir: async () => ({ success: true, data: [] }),
+  deleteFile: async (path: string) => ({ success: files.delete(path) }),
+  createDir: async () => ({ success: true })
+};
+
+const record = (tradeId: string, fields: Partial<CentralCSVRecord> = {}) => ({
+  tradeId,
+  ticker: 'XYZ',
+  buyDate: '2024-01-02',
+  quantity: 10,
+  buyPrice: 100,
+  folderPath: `trades/${tradeId}`,
+  ...fields
+});
+
+const entry = (id: string, operation: object) => JSON.stringify({ ...operation, id, at: '2024-01-03T00:00:00.000Z' }) + '\n';
+
+beforeEach(() => {
+  files = new Map();
+  failWrites = new Set();
+  dir = `/data-${nextDir++}`;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('CentralCSVService writes', () => {
+  it('runs concurrent changes one at a time so none is lost', async () => {
+    const service = new CentralCSVService(fileService, dir);
+    await service.addRecords(['T1', 'T2', 'T3'].map(id => record(id)));
+
+    const results = await Promise.all([
+      service.updateRecord('T1', { ticker: 'AAA' }),
+      new CentralCSVService(fileService, dir).updateRecord('T2', { ticker: 'BBB' }),
+      service.deleteRecord('T3'),
+      service.addRecord(record('T4'))
+    ]);
+
+    expect(results).toEqual([true, true, true, true]);
+    expect((await service.readAllRecords()).map(r => [r.tradeId, r.ticker])).toEqual([
+      ['T1', 'AAA'],
+      ['T2', 'BBB'],
+      ['T4', 'XYZ']
+    ]);
+    expect(files.get(`${dir}/${TRADES_JOURNAL_FILE}`)).toBe('');
+  });
+
+  it('leaves the journal entry open when the write fails, and recovery applies it', async () => {
+    const service = new CentralCSVService(fileService, dir);
+    await service.addRecord(record('T1'));
+
+    failWrites.add(`${dir}/trades.csv`);
+    expect(await service.updateRecord('T1', { ticker: 'AAA' })).toBe(false);
+    expect((await service.readAllRecords())[0].ticker).toBe('XYZ');
+
+    const pending = await new TradeJournal(fileService, dir).readPending();
+    expect(pending.map(e => e.op)).toEqual(['update']);
+
+    expect(await service.recover()).toMatchObject({ success: true, replayed: 1 });
+    expect((await service.readAllRecords())[0].ticker).toBe('AAA');
+  });
+});
+
+describe('CentralCSVService.recover', () => {
+  it('replays the same journal to the same file however often it runs', async () => {
+    const service = new CentralCSVService(fileService, dir);
+    await service.addRecords([record('T1'), record('T2')]);
+    const added = { ...record('T3'), createdAt: '2024-01-03T00:00:00.000Z', updatedAt: '2024-01-03T00:00:00.000Z' };
+    // The first entry already reached trades.csv before the crash; its done line didn't
+    const journal =
+      entry('a', { op: 'add', records: [added] }) +
+      entry('b', { op: 'update', updates: { T1: { ticker: 'AAA', updatedAt: '2024-01-03T00:00:00.000Z' } } }) +
+      entry('c', { op: 'delete', tradeIds: ['T2'] });
+    await service.restoreRecords([added]);
+
+    files.set(`${dir}/${TRADES_JOURNAL_FILE}`, journal);
+    expect(await service.recover()).toMatchObject({ success: true, replayed: 3 });
+    const once = files.get(`${dir}/trades.csv`);
+
+    files.set(`${dir}/${TRADES_JOURNAL_FILE}`, journal);
+    await service.recover();
+
+    expect(files.get(`${dir}/trades.csv`)).toBe(once);
+    expect((await service.readAllRecords()).map(r => [r.tradeId, r.ticker])).toEqual([['T1', 'AAA'], ['T3', 'XYZ']]);
+    expect(files.get(`${dir}/${TRADES_JOURNAL_FILE}`)).toBe('');
+  });
+
+  it('skips entries with a done line', async () => {
+    const service = new CentralCSVService(fileService, dir);
+    await service.addRecord(record('T1'));
+    files.set(`${dir}/${TRADES_JOURNAL_FILE}`,
+      entry('a', { op: 'delete', tradeIds: ['T1'] }) + JSON.stringify({ id: 'a', done: true }) + '\n');
+
+    expect(await new TradeJournal(fileService, dir).readPending()).toEqual([]);
+    expect(await service.recover()).toMatchObject({ success: true, replayed: 0 });
+    expect(await service.findRecord('T1')).not.toBeNull();
+  });
+
+  it('leaves a complete file alone', async () => {
+    const service = new CentralCSVService(fileService, dir);
+    await service.addRecords([record('T1'), record('T2', { ticker: 'Smith, "Co"' })]);
+    const complete = files.get(`${dir}/trades.csv`);
+
+    expect(await service.recover()).toMatchObject({ success: true, repaired: false, droppedRows: 0 });
+    expect(files.get(`${dir}/trades.csv`)).toBe(complete);
+  });
+
+  it('drops a last row cut short, keeping a copy of the torn file', async () => {
+    const service = new CentralCSVService(fileService, dir);
+    await service.addRecords([record('T1'), record('T2')]);
+    const complete = files.get(`${dir}/trades.csv`)!;
+    const torn = complete.slice(0, complete.indexOf('T2') + 10);
+    files.set(`${dir}/trades.csv`, torn);
+
+    const result = await service.recover();
+
+    expect(result).toMatchObject({ success: true, repaired: true, droppedRows: 1 });
+    expect(files.get(result.backupPath!)).toBe(torn);
+    expect((await service.readAllRecords()).map(r => r.tradeId)).toEqual(['T1']);
+  });
+
+  it('drops a last row that stops inside a quoted field', async () => {
+    const service = new CentralCSVService(fileService, dir);
+    await service.addRecords([record('T1'), record('T2', { ticker: 'Smith, "Co"' })]);
+    const complete = files.get(`${dir}/trades.csv`)!;
+    files.set(`${dir}/trades.csv`, complete.slice(0, complete.indexOf('Smith') + 5));
+
+    expect(await service.recover()).toMatchObject({ success: true, repaired: true, droppedRows: 1 });
+    expect((await service.readAllRecords()).map(r => r.tradeId)).toEqual(['T1']);
+  });
+
+  it('refuses to repair a file with nothing to salvage', async () => {
+    files.set(`${dir}/trades.csv`, '');
+
+    const result = await new CentralCSVService(fileService, dir).recover();
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['trades.csv is empty - restore it from a backup']);
+  });
+});
@@ -3,7 +3,13 @@
  * Manages the single trades.csv file in TradeJournal root
  */
 
-import { Trade } from '@/types/trade';
+import { Trade, TradeDirection, TradeExecution } from '@/types/trade';
+import { calculateGrossPnL, getTotalFees } from '@/lib/utils';
+import { applyExecutionSummary, parseExecutions, serializeExecutions } from '@/lib/trade-executions/execution-utils';
+import { parseTagList } from '@/lib/tags/tag-utils';
+import { formatCSV, formatCSVRow, parseCSV, toRecords } from '@/lib/csv/csv-codec';
+import { CURRENT_SCHEMA_VERSION, SchemaMarker, TRADES_SCHEMA_FILE } from '@/lib/migration/schema-migrations';
+import { JournalOperation, TradeJournal } from '@/lib/csv/trade-journal';
 
 export interface CentralCSVRecord {
   tradeId: string;
@@ -18,6 +24,63 @@ export interface CentralCSVRecord {
   folderPath: string; // Relative path to trade folder
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
+  executions?: TradeExecution[]; // Serialized into a single column, see execution-utils
+  direction?: TradeDirection; // Missing in older files, read as 'long'
+  commission?: number; // Total fees
+  entryFee?: number;
+  exitFee?: number;
+  taxWithholding?: number;
+  grossPnl?: number; // pnl above is net of fees and tax
+  currency?: string; // Blank = base currency
+  accountId?: string; // Blank = not assigned to an account
+  stopLoss?: number;
+  targetPrice?: number;
+  initialRisk?: number;
+  strategyId?: string; // Blank = no setup recorded
+  tags?: string[]; // Comma-joined in a single column
+  importFingerprint?: string; // Blank = entered by hand, see ImportFingerprint
+}
+
+// Column order of trades.csv at CURRENT_SCHEMA_VERSION. Columns are read by name, so older
+// files with fewer or reordered columns still load and are rewritten in this order on the next save.
+export const CENTRAL_CSV_HEADERS: (keyof CentralCSVRecord)[] = [
+  'tradeId',
+  'ticker',
+  'buyDate',
+  'sellDate',
+  'quantity',
+  'buyPrice',
+  'sellPrice',
+  'pnl',
+  'holdingDays',
+  'folderPath',
+  'createdAt',
+  'updatedAt',
+  'executions',
+  'direction',
+  'commission',
+  'entryFee',
+  'exitFee',
+  'taxWithholding',
+  'grossPnl',
+  'currency',
+  'accountId',
+  'stopLoss',
+  'targetPrice',
+  'initialRisk',
+  'strategyId',
+  'tags',
+  'importFingerprint'
+];
+
+export interface CSVRecoveryResult {
+  success: boolean;
+  removedTempFiles: string[]; // Left behind by a write that never reached its rename
+  repaired: boolean; // A torn trades.csv was cut back to its complete rows
+  droppedRows: number;
+  backupPath?: string; // Copy of the torn file
+  replayed: number; // Journal entries re-applied
+  errors: string[];
 }
 
 export interface CSVImportResult {
@@ -27,13 +90,22 @@ export interface CSVImportResult {
   errors: string[];
 }
 
+// Tail of the operations queued on each trades.csv path, shared by every service instance
+const writeQueues = new Map<string, Promise<boolean>>();
+
 export class CentralCSVService {
   private fileService: any;
+  private basePath: string;
   private csvFilePath: string;
+  private schemaFilePath: string;
+  private journal: TradeJournal;
   
   constructor(fileService: any, basePath: string = '') {
     this.fileService = fileService;
+    this.basePath = basePath;
     this.csvFilePath = basePath ? `${basePath}/trades.csv` : 'trades.csv';
+    this.schemaFilePath = basePath ? `${basePath}/${TRADES_SCHEMA_FILE}` : TRADES_SCHEMA_FILE;
+    this.journal = new TradeJournal(fileService, basePath);
   }
   
   /**
@@ -47,29 +119,118 @@ export class CentralCSVService {
       }
       
       // Create CSV with headers
-      const headers = [
-        'tradeId',
-        'ticker',
-        'buyDate',
-        'sellDate',
-        'quantity',
-        'buyPrice',
-        'sellPrice',
-        'pnl',
-        'holdingDays',
-        'folderPath',
-        'createdAt',
-        'updatedAt'
-      ].join(',');
+      const headers = formatCSVRow(CENTRAL_CSV_HEADERS) + '\n';
       
       const result = await this.fileService.writeFile(this.csvFilePath, headers);
-      return result.success;
+      if (!result.success) {
+        return false;
+      }
+
+      // A new file starts at the current schema, so there is nothing to migrate
+      const marker: SchemaMarker = { version: CURRENT_SCHEMA_VERSION, history: [] };
+      const markerResult = await this.fileService.writeFile(this.schemaFilePath, JSON.stringify(marker, null, 2));
+      return markerResult.success;
     } catch (error) {
       console.error('Error initializing central CSV:', error);
       return false;
     }
   }
   
+  /**
+   * Startup recovery: remove temp files from interrupted writes, cut a torn trades.csv back
+   * to its complete rows (keeping a copy of the torn file), then replay journal entries whose
+   * write never finished and empty the journal.
+   */
+  async recover(): Promise<CSVRecoveryResult> {
+    const result: CSVRecoveryResult = {
+      success: false,
+      removedTempFiles: [],
+      repaired: false,
+      droppedRows: 0,
+      replayed: 0,
+      errors: []
+    };
+
+    try {
+      const dir = this.basePath || '.';
+      const listing = await this.fileService.readDir(dir);
+      if (listing.success && listing.data) {
+        const csvName = this.csvFilePath.split('/').pop();
+        for (const item of listing.data) {
+          if (item.type === 'file' && item.name.startsWith(`${csvName}.tmp-`)) {
+            const deleteResult = await this.fileService.deleteFile(`${dir}/${item.name}`);
+            if (deleteResult.success) {
+              result.removedTempFiles.push(item.name);
+            }
+          }
+        }
+      }
+
+      let records: CentralCSVRecord[] = [];
+      const exists = await this.fileService.exists(this.csvFilePath);
+      if (exists.success && exists.data) {
+        const content = await this.fileService.readFile(this.csvFilePath);
+        if (!content.success) {
+          result.errors.push(`Failed to read trades.csv: ${content.error}`);
+          return result;
+        }
+
+        const tear = this.findTear(content.data || '');
+        if (tear.error) {
+          // Nothing trustworthy to salvage; leave the file for a restore from backup
+          result.errors.push(tear.error);
+          return result;
+        }
+
+        let text = content.data || '';
+        if (tear.completeRows) {
+          const backupPath = await this.backupTornFile(text);
+          if (!backupPath) {
+            result.errors.push('Failed to back up torn trades.csv - left unrepaired');
+            return result;
+          }
+          result.backupPath = backupPath;
+
+          const { headers, records: rows } = toRecords(tear.completeRows);
+          text = formatCSV(headers, rows) + '\n';
+          const writeResult = await this.fileService.writeFile(this.csvFilePath, text);
+          if (!writeResult.success) {
+            result.errors.push(`Failed to write repaired trades.csv: ${writeResult.error}`);
+            return result;
+          }
+          result.repaired = true;
+          result.droppedRows = tear.droppedRows;
+          console.warn(`Repaired torn trades.csv, dropped ${tear.droppedRows} incomplete row(s); original kept at ${backupPath}`);
+        }
+
+        records = this.parseRecords(text);
+      }
+
+      const pending = await this.journal.readPending();
+      if (pending.length > 0) {
+        const replayed = pending.reduce((current, entry) => CentralCSVService.applyToRecords(current, entry), records);
+        if (!(await this.writeAllRecords(replayed))) {
+          result.errors.push('Failed to write trades.csv while replaying the journal');
+          return result;
+        }
+        result.replayed = pending.length;
+        console.warn(`Replayed ${pending.length} interrupted trades.csv change(s) from the journal`);
+      }
+
+      if (!(await this.journal.checkpoint())) {
+        result.errors.push('Failed to empty the trade journal');
+        return result;
+      }
+
+      result.success = true;
+    } catch (error) {
+      result.errors.push(`Recovery failed: ${error}`);
+      console.error('trades.csv recovery error:', error);
+    }
+
+    return result;
+  }
+  
   /**
    * Read all records from central CSV
    */
@@ -81,36 +242,7 @@ export class CentralCSVService {
         return [];
       }
       
-      const lines = result.data.split('\n').filter((line: string) => line.trim());
-      if (lines.length <= 1) {
-        return []; // Only headers or empty
-      }
-      
-      const headers = lines[0].split(',');
-      const records: CentralCSVRecord[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const values = this.parseCSVLine(lines[i]);
-        if (values.length >= headers.length) {
-          const record: CentralCSVRecord = {
-            tradeId: values[0],
-            ticker: values[1],
-            buyDate: values[2],
-            sellDate: values[3] || undefined,
-            quantity: parseFloat(values[4]) || 0,
-            buyPrice: parseFloat(values[5]) || 0,
-            sellPrice: values[6] ? parseFloat(values[6]) : undefined,
-            pnl: values[7] ? parseFloat(values[7]) : undefined,
-            holdingDays: values[8] ? parseInt(values[8]) : undefined,
-            folderPath: values[9],
-            createdAt: values[10],
-            updatedAt: values[11]
-          };
-          records.push(record);
-        }
-      }
-      
-      return records;
+      return this.parseRecords(result.data);
     } catch (error) {
       console.error('Error reading central CSV records:', error);
       return [];
@@ -139,52 +271,100 @@ export class CentralCSVService {
         updatedAt: now
       };
       
-      // Read current content
-      const result = await this.fileService.readFile(this.csvFilePath);
-      if (!result.success) {
-        return false;
-      }
-      
-      // Append new record
-      const csvLine = this.recordToCSVLine(fullRecord);
-      const newContent = result.data + '\n' + csvLine;
-      
-      const writeResult = await this.fileService.writeFile(this.csvFilePath, newContent);
-      return writeResult.success;
+      return await this.applyOperation({ op: 'add', records: [fullRecord] });
     } catch (error) {
       console.error('Error adding record to central CSV:', error);
       return false;
     }
   }
-  
+
+  /**
+   * Add several records in a single write. Records whose trade ID is already present are skipped.
+   */
+  async addRecords(records: Omit<CentralCSVRecord, 'createdAt' | 'updatedAt'>[]): Promise<boolean> {
+    try {
+      await this.initializeCentralCSV();
+
+      const existingIds = new Set((await this.readAllRecords()).map(record => record.tradeId));
+      const now = new Date().toISOString();
+      const added = records
+        .filter(record => {
+          if (existingIds.has(record.tradeId)) {
+            console.warn('Trade ID already exists:', record.tradeId);
+            return false;
+          }
+          existingIds.add(record.tradeId);
+          return true;
+        })
+        .map(record => ({ ...record, createdAt: now, updatedAt: now }));
+
+      if (added.length === 0) {
+        return true;
+      }
+
+      return await this.applyOperation({ op: 'add', records: added });
+    } catch (error) {
+      console.error('Error adding records to central CSV:', error);
+      return false;
+    }
+  }
+
   /**
    * Update an existing record
    */
   async updateRecord(tradeId: string, updates: Partial<CentralCSVRecord>): Promise<boolean> {
     try {
-      const records = await this.readAllRecords();
-      const index = records.findIndex(r => r.tradeId === tradeId);
-      
-      if (index === -1) {
+      const existing = await this.findRecord(tradeId);
+      if (!existing) {
         console.warn('Trade ID not found for update:', tradeId);
         return false;
       }
       
-      // Update record
-      records[index] = {
-        ...records[index],
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
-      
-      // Write back to file
-      return await this.writeAllRecords(records);
+      return await this.applyOperation({
+        op: 'update',
+        updates: { [tradeId]: { ...updates, updatedAt: new Date().toISOString() } }
+      });
     } catch (error) {
       console.error('Error updating record:', error);
       return false;
     }
   }
   
+  /**
+   * Update several records in a single write, keyed by trade ID
+   */
+  async updateRecords(updates: Record<string, Partial<CentralCSVRecord>>): Promise<boolean> {
+    try {
+      const now = new Date().toISOString();
+      const stamped: Record<string, Partial<CentralCSVRecord>> = {};
+      for (const [tradeId, recordUpdates] of Object.entries(updates)) {
+        stamped[tradeId] = { ...recordUpdates, updatedAt: now };
+      }
+
+      return await this.applyOperation({ op: 'update', updates: stamped });
+    } catch (error) {
+      console.error('Error updating records:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Size and modification time of trades.csv, to notice writes made elsewhere without
+   * reading the file. Null when the file is missing or can't be checked.
+   */
+  async getFileSignature(): Promise<string | null> {
+    try {
+      const result = await this.fileService.stat(this.csvFilePath);
+      if (!result.success || !result.data) {
+        return null;
+      }
+      return `${result.data.size}-${result.data.mtime}`;
+    } catch (error) {
+      console.error('Error reading central CSV signature:', error);
+      return null;
+    }
+  }
+
   /**
    * Find a specific record by trade ID
    */
@@ -223,7 +403,22 @@ export class CentralCSVService {
       sellPrice: trade.sellPrice,
       pnl: trade.pnl,
       holdingDays: trade.holdingDays,
-      folderPath
+      folderPath,
+      executions: trade.executions && trade.executions.length > 0 ? trade.executions : undefined,
+      direction: trade.direction || 'long',
+      commission: trade.commission,
+      entryFee: trade.entryFee,
+      exitFee: trade.exitFee,
+      taxWithholding: trade.taxWithholding,
+      grossPnl: trade.grossPnl,
+      currency: trade.currency,
+      accountId: trade.accountId,
+      stopLoss: trade.stopLoss,
+      targetPrice: trade.targetPrice,
+      initialRisk: trade.initialRisk,
+      strategyId: trade.strategyId,
+      tags: trade.tags && trade.tags.length > 0 ? trade.tags : undefined,
+      importFingerprint: trade.importFingerprint
     };
   }
   
@@ -234,18 +429,31 @@ export class CentralCSVService {
     const trade: Trade = {
       id: record.tradeId,
       ticker: record.ticker,
+      direction: record.direction || 'long',
       buyDate: record.buyDate,
       sellDate: record.sellDate,
       quantity: record.quantity,
       buyPrice: record.buyPrice,
       sellPrice: record.sellPrice,
-      commission: 0, // Default value since removed from CSV
+      commission: record.commission || 0,
+      entryFee: record.entryFee,
+      exitFee: record.exitFee,
+      taxWithholding: record.taxWithholding,
       pnl: record.pnl,
+      grossPnl: record.grossPnl,
+      currency: record.currency,
+      accountId: record.accountId,
+      stopLoss: record.stopLoss,
+      targetPrice: record.targetPrice,
+      initialRisk: record.initialRisk,
+      strategyId: record.strategyId,
       holdingDays: record.holdingDays,
-      tags: [], // Default empty array since removed from CSV
+      tags: record.tags || [],
       notesFiles: [], // Will be populated by scanning folder
       createdAt: record.createdAt,
-      updatedAt: record.updatedAt
+      updatedAt: record.updatedAt,
+      executions: record.executions,
+      importFingerprint: record.importFingerprint
     };
 
     // Recalculate derived fields to ensure consistency
@@ -257,15 +465,33 @@ export class CentralCSVService {
   /**
    * Recalculate P&L and holding days for a trade
    * This ensures consistency across all calculation locations
+   * When executions are present, prices, quantity, dates and fees are derived from them
+   * and P&L covers only the quantity exited so far
+   * pnl is net of entry/exit fees and tax withholding; grossPnl is before costs
    */
   static recalculateDerivedFields(trade: Trade): void {
     // Reset derived fields first
     trade.pnl = undefined;
+    trade.grossPnl = undefined;
     trade.holdingDays = undefined;
 
-    // Calculate P&L if we have sell data
-    if (trade.sellPrice && trade.buyPrice && trade.quantity) {
-      trade.pnl = (trade.sellPrice - trade.buyPrice) * trade.quantity - (trade.commission || 0);
+    let grossPnl: number | undefined;
+    if (trade.executions && trade.executions.length > 0) {
+      const summary = applyExecutionSummary(trade);
+      if (summary.exitQuantity > 0) {
+        grossPnl = summary.realizedPnL;
+      }
+    } else if (trade.sellPrice && trade.buyPrice && trade.quantity) {
+      // Calculate P&L if we have sell data
+      grossPnl = calculateGrossPnL(trade.buyPrice, trade.sellPrice, trade.quantity, trade.direction);
+    }
+
+    // Keep the total in sync with the split fees
+    trade.commission = getTotalFees(trade);
+
+    if (grossPnl !== undefined) {
+      trade.grossPnl = grossPnl;
+      trade.pnl = grossPnl - trade.commission - (trade.taxWithholding || 0);
     }
 
     // Calculate holding days if we have sell date
@@ -282,15 +508,13 @@ export class CentralCSVService {
    */
   async deleteRecord(tradeId: string): Promise<boolean> {
     try {
-      const records = await this.readAllRecords();
-      const filteredRecords = records.filter(r => r.tradeId !== tradeId);
-      
-      if (filteredRecords.length === records.length) {
+      const existing = await this.findRecord(tradeId);
+      if (!existing) {
         console.warn('Trade ID not found for deletion:', tradeId);
         return false;
       }
       
-      return await this.writeAllRecords(filteredRecords);
+      return await this.applyOperation({ op: 'delete', tradeIds: [tradeId] });
     } catch (error) {
       console.error('Error deleting record:', error);
       return false;
@@ -302,16 +526,27 @@ export class CentralCSVService {
    */
   async deleteRecords(tradeIds: string[]): Promise<boolean> {
     try {
-      const records = await this.readAllRecords();
-      const filteredRecords = records.filter(r => !tradeIds.includes(r.tradeId));
-      
-      return await this.writeAllRecords(filteredRecords);
+      return await this.applyOperation({ op: 'delete', tradeIds });
     } catch (error) {
       console.error('Error bulk deleting records:', error);
       return false;
     }
   }
 
+  /**
+   * Put records back exactly as given, timestamps included, and remove others, in a
+   * single write. Used to undo and redo changes; records already present are replaced in place.
+   */
+  async restoreRecords(records: CentralCSVRecord[], removeTradeIds: string[] = []): Promise<boolean> {
+    try {
+      await this.initializeCentralCSV();
+      return await this.applyOperation({ op: 'restore', records, tradeIds: removeTradeIds });
+    } catch (error) {
+      console.error('Error restoring records:', error);
+      return false;
+    }
+  }
+
   /**
    * Convert all trades from LocalStorage and sync to central CSV
    */
@@ -337,7 +572,7 @@ export class CentralCSVService {
         records.push(record);
       }
       
-      return await this.writeAllRecords(records);
+      return await this.applyOperation({ op: 'replace', records });
     } catch (error) {
       console.error('Error syncing trades to central CSV:', error);
       return false;
@@ -391,76 +626,209 @@ export class CentralCSVService {
   
   // Private helper methods
   
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
+  /**
+   * Records from trades.csv content, matched to columns by header name
+   */
+  private parseRecords(content: string): CentralCSVRecord[] {
+    const { records: rows } = toRecords(parseCSV(content));
+
+    return rows
+      .filter(row => (row.tradeId || '').trim())
+      .map(row => {
+        const value = (column: keyof CentralCSVRecord) => (row[column] || '').trim();
+        const number = (column: keyof CentralCSVRecord) => value(column) ? parseFloat(value(column)) : undefined;
+
+        return {
+          tradeId: value('tradeId'),
+          ticker: value('ticker'),
+          buyDate: value('buyDate'),
+          sellDate: value('sellDate') || undefined,
+          quantity: number('quantity') || 0,
+          buyPrice: number('buyPrice') || 0,
+          sellPrice: number('sellPrice'),
+          pnl: number('pnl'),
+          holdingDays: value('holdingDays') ? parseInt(value('holdingDays')) : undefined,
+          folderPath: value('folderPath'),
+          createdAt: value('createdAt'),
+          updatedAt: value('updatedAt'),
+          executions: value('executions') ? parseExecutions(value('executions')) : undefined,
+          direction: value('direction') === 'short' ? 'short' : 'long',
+          commission: number('commission'),
+          entryFee: number('entryFee'),
+          exitFee: number('exitFee'),
+          taxWithholding: number('taxWithholding'),
+          grossPnl: number('grossPnl'),
+          currency: value('currency') || undefined,
+          accountId: value('accountId') || undefined,
+          stopLoss: number('stopLoss'),
+          targetPrice: number('targetPrice'),
+          initialRisk: number('initialRisk'),
+          strategyId: value('strategyId') || undefined,
+          tags: value('tags') ? parseTagList(value('tags')) : undefined,
+          importFingerprint: value('importFingerprint') || undefined
+        };
+      });
+  }
+  
+  private recordToRow(record: CentralCSVRecord): Record<string, string> {
+    return {
+      tradeId: record.tradeId,
+      ticker: record.ticker,
+      buyDate: record.buyDate,
+      sellDate: record.sellDate || '',
+      quantity: record.quantity.toString(),
+      buyPrice: record.buyPrice.toString(),
+      sellPrice: record.sellPrice?.toString() || '',
+      pnl: record.pnl?.toString() || '',
+      holdingDays: record.holdingDays?.toString() || '',
+      folderPath: record.folderPath,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      executions: serializeExecutions(record.executions),
+      direction: record.direction || 'long',
+      commission: record.commission?.toString() || '',
+      entryFee: record.entryFee?.toString() || '',
+      exitFee: record.exitFee?.toString() || '',
+      taxWithholding: record.taxWithholding?.toString() || '',
+      grossPnl: record.grossPnl?.toString() || '',
+      currency: record.currency || '',
+      accountId: record.accountId || '',
+      stopLoss: record.stopLoss?.toString() || '',
+      targetPrice: record.targetPrice?.toString() || '',
+      initialRisk: record.initialRisk?.toString() || '',
+      strategyId: record.strategyId || '',
+      tags: (record.tags || []).join(','),
+      importFingerprint: record.importFingerprint || ''
+    };
+  }
+  
+  /**
+   * Journal an operation, apply it to the current file and write the result. Operations on
+   * the same file run one at a time, so each reads what the previous one wrote. The journal
+   * entry is only closed once the write has succeeded; otherwise recovery replays it.
+   */
+  private applyOperation(operation: JournalOperation): Promise<boolean> {
+    const previous = writeQueues.get(this.csvFilePath) || Promise.resolve(true);
+    const run = () => this.runOperation(operation);
+    const next = previous.then(run, run);
+    writeQueues.set(this.csvFilePath, next);
+    return next.finally(() => {
+      if (writeQueues.get(this.csvFilePath) === next) {
+        writeQueues.delete(this.csvFilePath);
       }
+    });
+  }
+
+  private async runOperation(operation: JournalOperation): Promise<boolean> {
+    const entryId = await this.journal.begin(operation);
+    if (!entryId) {
+      return false;
     }
-    
-    result.push(current);
-    return result.map(s => s.trim());
+
+    try {
+      const exists = await this.fileService.exists(this.csvFilePath);
+      let records: CentralCSVRecord[] = [];
+      if (exists.success && exists.data) {
+        const result = await this.fileService.readFile(this.csvFilePath);
+        if (!result.success) {
+          console.error('Failed to read central CSV:', result.error);
+          return false;
+        }
+        records = this.parseRecords(result.data);
+      }
+
+      if (!(await this.writeAllRecords(CentralCSVService.applyToRecords(records, operation)))) {
+        return false;
+      }
+    } catch (error) {
+      console.error('Error applying trades.csv change:', error);
+      return false;
+    }
+
+    await this.journal.end(entryId);
+    return true;
   }
-  
-  private recordToCSVLine(record: CentralCSVRecord): string {
-    const values = [
-      record.tradeId,
-      record.ticker,
-      record.buyDate,
-      record.sellDate || '',
-      record.quantity.toString(),
-      record.buyPrice.toString(),
-      record.sellPrice?.toString() || '',
-      record.pnl?.toString() || '',
-      record.holdingDays?.toString() || '',
-      record.folderPath,
-      record.createdAt,
-      record.updatedAt
-    ];
-    
-    // Escape values that contain commas or quotes
-    return values.map(value => {
-      if (value.includes(',') || value.includes('"')) {
-        return `"${value.replace(/"/g, '""')}"`;
+
+  /**
+   * Apply a journaled operation to a set of records. Applying one twice gives the same
+   * result as applying it once, which is what makes replay after a crash safe.
+   */
+  private static applyToRecords(records: CentralCSVRecord[], operation: JournalOperation): CentralCSVRecord[] {
+    switch (operation.op) {
+      case 'add': {
+        const existingIds = new Set(records.map(record => record.tradeId));
+        return [...records, ...operation.records.filter(record => !existingIds.has(record.tradeId))];
+      }
+      case 'update':
+        return records.map(record => operation.updates[record.tradeId]
+          ? { ...record, ...operation.updates[record.tradeId] }
+          : record
+        );
+      case 'delete':
+        return records.filter(record => !operation.tradeIds.includes(record.tradeId));
+      case 'replace':
+        return operation.records;
+      case 'restore': {
+        const restored = new Map(operation.records.map(record => [record.tradeId, record]));
+        const kept = records
+          .filter(record => !operation.tradeIds.includes(record.tradeId))
+          .map(record => {
+            const replacement = restored.get(record.tradeId);
+            restored.delete(record.tradeId);
+            return replacement || record;
+          });
+        return [...kept, ...Array.from(restored.values())];
+      }
+    }
+  }
+
+  /**
+   * Check trades.csv for a write that stopped part way. A file that ends inside a quoted
+   * field or on a row with missing columns is torn; completeRows is what can be kept.
+   */
+  private findTear(content: string): { error?: string; completeRows?: string[][]; droppedRows: number } {
+    if (!content.trim()) {
+      return { error: 'trades.csv is empty - restore it from a backup', droppedRows: 0 };
+    }
+
+    const rows = parseCSV(content);
+    const headers = rows[0].map(header => header.trim());
+    if (!headers.includes('tradeId')) {
+      return { error: 'trades.csv has no header row - restore it from a backup', droppedRows: 0 };
+    }
+
+    // Written fields always close their quotes, so an odd count means the file stops inside one
+    const unterminated = (content.match(/"/g) || []).length % 2 === 1;
+    const lastRow = rows[rows.length - 1];
+    const shortRow = rows.length > 1 && lastRow.length < headers.length;
+    if (!unterminated && !shortRow) {
+      return { droppedRows: 0 };
+    }
+
+    return { completeRows: rows.slice(0, -1), droppedRows: 1 };
+  }
+
+  private async backupTornFile(content: string): Promise<string | null> {
+    try {
+      const backupDir = this.basePath ? `${this.basePath}/backups` : 'backups';
+      const dirResult = await this.fileService.createDir(backupDir);
+      if (!dirResult.success) {
+        return null;
       }
-      return value;
-    }).join(',');
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const backupPath = `${backupDir}/trades-torn-${timestamp}.csv`;
+      const result = await this.fileService.writeFile(backupPath, content);
+      return result.success ? backupPath : null;
+    } catch (error) {
+      console.error('Error backing up torn trades.csv:', error);
+      return null;
+    }
   }
-  
+
   private async writeAllRecords(records: CentralCSVRecord[]): Promise<boolean> {
     try {
-      const headers = [
-        'tradeId',
-        'ticker',
-        'buyDate',
-        'sellDate',
-        'quantity',
-        'buyPrice',
-        'sellPrice',
-        'pnl',
-        'holdingDays',
-        'folderPath',
-        'createdAt',
-        'updatedAt'
-      ].join(',');
-      
-      const lines = [headers];
-      records.forEach(record => {
-        lines.push(this.recordToCSVLine(record));
-      });
-      
-      const content = lines.join('\n');
+      const content = formatCSV(CENTRAL_CSV_HEADERS, records.map(record => this.recordToRow(record))) + '\n';
       const result = await this.fileService.writeFile(this.csvFilePath, content);
       return result.success;
     } catch (error) {
@@ -0,0 +1,13 @@
+export interface CSVCodecOptions {
+  delimiter?: string; // Defaults to ','
+}
+
+export type CSVCell = string | number | boolean | null | undefined;
+
+export function parseCSV(text: string, options?: CSVCodecOptions): string[][];
+
+export function toRecords(rows: string[][]): { headers: string[]; records: Record<string, string>[] };
+
+export function formatCSVRow(values: CSVCell[], options?: CSVCodecOptions): string;
+
+export function formatCSV(headers: string[], records: Record<string, CSVCell>[], options?: CSVCodecOptions): string;
@@ -0,0 +1,146 @@
+/**
+ * RFC 4180 CSV codec shared by the app, the Electron main process and the generated MCP server.
+ *
+ * Plain CommonJS so the main process can require it (it is packaged without the rest of lib/),
+ * and so the generated MCP server can import the copy the main process installs next to it.
+ *
+ * Reading accepts what spreadsheets and brokers actually write: a UTF-8 BOM, CRLF, LF or CR
+ * line endings, quoted fields with "" escapes and line breaks, and a missing final newline.
+ * Writing quotes only the fields that need it.
+ */
+
+/**
+ * Split CSV text into rows of fields. Blank lines are skipped; an unterminated
+ * quoted field runs to the end of the text.
+ */
+function parseCSV(text, options) {
+  const delimiter = (options && options.delimiter) || ',';
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  let fieldStarted = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.length === 0 && !fieldStarted) {
+      quoted = true;
+      fieldStarted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      fieldStarted = false;
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      // A lone empty field is a blank line, not a row
+      if (row.length > 1 || row[0] !== '' || fieldStarted) {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+      fieldStarted = false;
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      field += char;
+      fieldStarted = true;
+    }
+    i++;
+  }
+
+  if (field.length > 0 || fieldStarted || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Key rows by the first row's column names, so columns can be reordered or added
+ * without breaking readers. Header names are trimmed; a repeated name gets a _1, _2 ...
+ * suffix. Missing trailing fields read as ''.
+ */
+function toRecords(rows) {
+  if (rows.length === 0) {
+    return { headers: [], records: [] };
+  }
+
+  const seen = {};
+  const headers = rows[0].map(name => {
+    const header = name.trim();
+    if (seen[header] === undefined) {
+      seen[header] = 0;
+      return header;
+    }
+    seen[header]++;
+    return header + '_' + seen[header];
+  });
+
+  const records = [];
+  for (let r = 1; r < rows.length; r++) {
+    const record = {};
+    for (let c = 0; c < headers.length; c++) {
+      const value = rows[r][c];
+      record[headers[c]] = value === undefined ? '' : value;
+    }
+    records.push(record);
+  }
+
+  return { headers, records };
+}
+
+/**
+ * One line of CSV. null and undefined are written as empty fields; fields holding the
+ * delimiter, a quote, a line break or surrounding whitespace are quoted.
+ */
+function formatCSVRow(values, options) {
+  const delimiter = (options && options.delimiter) || ',';
+  return values.map(value => {
+    const text = value === null || value === undefined ? '' : String(value);
+    if (
+      text.indexOf(delimiter) >= 0 ||
+      text.indexOf('"') >= 0 ||
+      text.indexOf('\n') >= 0 ||
+      text.indexOf('\r') >= 0 ||
+      text !== text.trim()
+    ) {
+      return '"' + text.replace(/"/g, '""') + '"';
+    }
+    return text;
+  }).join(delimiter);
+}
+
+/**
+ * A whole file from a header row and records keyed by those names. Lines end in \n,
+ * which keeps the data directory's files diff-friendly; readers accept either ending.
+ */
+function formatCSV(headers, records, options) {
+  const lines = [formatCSVRow(headers, options)];
+  for (let r = 0; r < records.length; r++) {
+    const record = records[r];
+    lines.push(formatCSVRow(headers.map(header => record[header]), options));
+  }
+  return lines.join('\n');
+}
+
+module.exports = { parseCSV, toRecords, formatCSVRow, formatCSV };
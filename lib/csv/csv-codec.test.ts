@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { formatCSV, formatCSVRow, parseCSV, toRecords } from '@/lib/csv/csv-codec';
+
+describe('parseCSV', () => {
+  it('reads quoted fields with escaped quotes, delimiters and line breaks', () => {
+    expect(parseCSV('a,b,c\n"x, y","say ""hi""","line 1\nline 2"\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['x, y', 'say "hi"', 'line 1\nline 2']
+    ]);
+  });
+
+  it('accepts a BOM, any line ending, blank lines and a missing final newline', () => {
+    expect(parseCSV('\uFEFFa,b\r\n1,2\r\n\r\n3,4\r5,6\n\n7,8')).toEqual([
+      ['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6'], ['7', '8']
+    ]);
+  });
+
+  it('keeps empty fields, including a quoted empty line', () => {
+    expect(parseCSV(',\n""\n1,,\n')).toEqual([['', ''], [''], ['1', '', '']]);
+  });
+
+  it('treats quotes inside an unquoted field as text', () => {
+    expect(parseCSV('5" screen,x\n')).toEqual([['5" screen', 'x']]);
+  });
+
+  it('runs an unterminated quoted field to the end of the text', () => {
+    expect(parseCSV('a,"open\nstill open')).toEqual([['a', 'open\nstill open']]);
+  });
+
+  it('splits on another delimiter when asked', () => {
+    expect(parseCSV('a;"b;c"\n', { delimiter: ';' })).toEqual([['a', 'b;c']]);
+  });
+});
+
+describe('toRecords', () => {
+  it('keys rows by trimmed, de-duplicated headers and fills missing fields', () => {
+    expect(toRecords([[' id ', 'note', 'note'], ['1', 'a'], ['2', 'b', 'c', 'extra']])).toEqual({
+      headers: ['id', 'note', 'note_1'],
+      records: [
+        { id: '1', note: 'a', note_1: '' },
+        { id: '2', note: 'b', note_1: 'c' }
+      ]
+    });
+    expect(toRecords([])).toEqual({ headers: [], records: [] });
+  });
+});
+
+describe('formatCSVRow', () => {
+  it('quotes only the fields that need it', () => {
+    expect(formatCSVRow(['plain', 'a,b', 'say "hi"', 'two\nlines', ' padded', 12.5, null, undefined, false]))
+      .toBe('plain,"a,b","say ""hi""","two\nlines"," padded",12.5,,,false');
+    expect(formatCSVRow(['a;b', 'a,b'], { delimiter: ';' })).toBe('"a;b";a,b');
+  });
+});
+
+describe('formatCSV', () => {
+  it('round-trips through parseCSV and toRecords', () => {
+    const headers = ['id', 'notes', 'ticker'];
+    const records = [
+      { id: '1', notes: 'Stopped out, "again"\r\nNext time wait', ticker: '7203.T' },
+      { id: '2', notes: '', ticker: ' BRK B ' }
+    ];
+
+    const text = formatCSV(headers, records);
+
+    expect(text.endsWith('\n')).toBe(false);
+    expect(toRecords(parseCSV(text))).toEqual({ headers, records });
+  });
+});
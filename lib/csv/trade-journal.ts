@@ -0,0 +1,165 @@
+/**
+ * Write-ahead journal for trades.csv
+ * Every change is appended here (and flushed) before trades.csv is rewritten, then marked
+ * done once the rewrite has succeeded. Entries still open at startup belong to a write that
+ * was interrupted or failed, and CentralCSVService.recover replays them.
+ */
+
+import type { CentralCSVRecord } from '@/lib/csv/central-csv-service';
+
+export const TRADES_JOURNAL_FILE = 'trades.journal';
+
+// Operations carry their final timestamps, so replaying one gives the same file as the original write
+export type JournalOperation =
+  | { op: 'add'; records: CentralCSVRecord[] }
+  | { op: 'update'; updates: Record<string, Partial<CentralCSVRecord>> }
+  | { op: 'delete'; tradeIds: string[] }
+  | { op: 'replace'; records: CentralCSVRecord[] }
+  | { op: 'restore'; records: CentralCSVRecord[]; tradeIds: string[] };
+
+export type JournalEntry = JournalOperation & {
+  id: string;
+  at: string; // ISO timestamp
+};
+
+// One JSON object per line: an entry, or { id, done: true } once its write has finished
+type JournalLine = JournalEntry | { id: string; done: true };
+
+// Shared by every TradeJournal on the same file, since several services write trades.csv
+interface JournalState {
+  open: number; // Entries begun and not yet ended
+  checkpoint: Promise<boolean> | null; // Truncation in progress
+}
+
+const journalStates = new Map<string, JournalState>();
+
+export class TradeJournal {
+  private fileService: any;
+  private journalPath: string;
+
+  constructor(fileService: any, basePath: string = '') {
+    this.fileService = fileService;
+    this.journalPath = basePath ? `${basePath}/${TRADES_JOURNAL_FILE}` : TRADES_JOURNAL_FILE;
+  }
+
+  /**
+   * Record an operation before it is written. Returns the entry ID, or null if it
+   * couldn't be recorded, in which case the write should not go ahead.
+   */
+  async begin(operation: JournalOperation): Promise<string | null> {
+    const state = this.getState();
+    state.open++; // Before any await, so a concurrent end() won't truncate under this entry
+    try {
+      if (state.checkpoint) {
+        await state.checkpoint;
+      }
+
+      const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+      const entry: JournalEntry = { ...operation, id, at: new Date().toISOString() };
+      const result = await this.fileService.appendFile(this.journalPath, JSON.stringify(entry) + '\n');
+      if (!result.success) {
+        console.error('Failed to append to trade journal:', result.error);
+        state.open--;
+        return null;
+      }
+      return id;
+    } catch (error) {
+      console.error('Error appending to trade journal:', error);
+      state.open--;
+      return null;
+    }
+  }
+
+  /**
+   * Close an entry once its write has succeeded. An entry whose write failed or was cut
+   * short is never closed, and keeps the journal from being emptied, so recovery replays
+   * it at the next startup. Once no entry is open the journal holds nothing to replay,
+   * so it is emptied rather than left to grow for the rest of the session.
+   */
+  async end(id: string): Promise<void> {
+    const state = this.getState();
+    try {
+      const line: JournalLine = { id, done: true };
+      await this.fileService.appendFile(this.journalPath, JSON.stringify(line) + '\n');
+    } catch (error) {
+      console.error('Error closing trade journal entry:', error);
+    } finally {
+      state.open--;
+    }
+
+    // Even if the done line didn't make it, the write has succeeded and needs no replay
+    if (state.open === 0 && !state.checkpoint) {
+      state.checkpoint = this.checkpoint()
+        .catch(error => {
+          console.error('Error checkpointing trade journal:', error);
+          return false;
+        })
+        .finally(() => {
+          state.checkpoint = null;
+        });
+      await state.checkpoint;
+    }
+  }
+
+  /**
+   * Entries without a done line, in the order they were written. A line cut short
+   * by a crash during the append itself is skipped; its write never started.
+   */
+  async readPending(): Promise<JournalEntry[]> {
+    const exists = await this.fileService.exists(this.journalPath);
+    if (!exists.success || !exists.data) {
+      return [];
+    }
+
+    const result = await this.fileService.readFile(this.journalPath);
+    if (!result.success) {
+      throw new Error(`Failed to read trade journal: ${result.error}`);
+    }
+
+    const entries: JournalEntry[] = [];
+    const done = new Set<string>();
+    for (const text of (result.data || '').split('\n')) {
+      if (!text.trim()) {
+        continue;
+      }
+
+      let line: JournalLine;
+      try {
+        line = JSON.parse(text);
+      } catch {
+        console.warn('Skipping unreadable trade journal line');
+        continue;
+      }
+
+      if ('done' in line) {
+        done.add(line.id);
+      } else {
+        entries.push(line);
+      }
+    }
+
+    return entries.filter(entry => !done.has(entry.id));
+  }
+
+  private getState(): JournalState {
+    let state = journalStates.get(this.journalPath);
+    if (!state) {
+      state = { open: 0, checkpoint: null };
+      journalStates.set(this.journalPath, state);
+    }
+    return state;
+  }
+
+  /**
+   * Empty the journal once trades.csv holds everything in it
+   */
+  async checkpoint(): Promise<boolean> {
+    const exists = await this.fileService.exists(this.journalPath);
+    if (!exists.success || !exists.data) {
+      return true;
+    }
+
+    const result = await this.fileService.writeFile(this.journalPath, '');
+    return result.success;
+  }
+}
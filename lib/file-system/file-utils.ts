@@ -1,16 +1,25 @@
 import { FileSystemItem } from '@/types/app';
+import { TextEncodingDetector } from '@/lib/parsers/text-encoding';
 
 export class FileUtils {
-  static async readFile(file: File): Promise<string> {
+  /**
+   * Read a text file, detecting its encoding (UTF-8, Shift_JIS, UTF-16, ...) unless one is given
+   */
+  static async readFile(file: File, encoding?: string): Promise<string> {
+    const bytes = new Uint8Array(await this.readFileAsArrayBuffer(file));
+    return TextEncodingDetector.decode(bytes, encoding || TextEncodingDetector.detect(bytes));
+  }
+
+  static async readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = (e) => {
-        resolve(e.target?.result as string);
+        resolve(e.target?.result as ArrayBuffer);
       };
       reader.onerror = (e) => {
         reject(new Error('Failed to read file'));
       };
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     });
   }
 
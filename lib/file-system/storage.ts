@@ -177,6 +177,11 @@ export class LocalStorage {
       markdownDirectory: 'trades',
       autoCreateMarkdownFolders: true,
       markdownFileNamePattern: '{tradeId}_{ticker}_{date}_{type}',
+      // Analytics default configuration
+      pnlDisplay: 'net',
+      baseCurrency: 'USD',
+      startingCapital: 0,
+      riskFreeRate: 0,
     };
     
     this.saveAppConfig(defaultConfig);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { FxConverter } from '@/lib/fx/fx-converter';
+
+const converter = new FxConverter([
+  { date: '2024-01-01', from: 'USD', to: 'JPY', rate: 140 },
+  { date: '2024-03-01', from: 'USD', to: 'JPY', rate: 150 },
+  { from: 'EUR', to: 'USD', rate: 1.1 }
+], 'usd');
+
+describe('FxConverter', () => {
+  it('uses the latest dated rate on or before the date', () => {
+    expect(converter.getRate('USD', 'JPY', '2024-02-15')).toBe(140);
+    expect(converter.getRate('USD', 'JPY', '2024-03-01')).toBe(150);
+    expect(converter.getRate('USD', 'JPY', '2023-06-01')).toBe(140);
+    expect(converter.getRate('USD', 'JPY')).toBe(150);
+  });
+
+  it('inverts rates quoted the other way round', () => {
+    expect(converter.toBase(15000, 'jpy', '2024-03-05')).toBeCloseTo(100);
+  });
+
+  it('crosses through a currency quoted against both sides', () => {
+    expect(converter.getRate('EUR', 'JPY', '2024-03-05')).toBeCloseTo(165);
+  });
+
+  it('leaves amounts without a rate unconverted', () => {
+    expect(converter.toBase(100, 'GBP')).toBeUndefined();
+    expect(converter.toBase(100, undefined)).toBe(100);
+  });
+
+  it('values trade amounts on the exit date, else the entry date', () => {
+    const trade = { currency: 'JPY', buyDate: '2024-02-01', sellDate: '2024-03-04' };
+
+    expect(converter.tradeAmountToBase(15000, trade)).toBeCloseTo(100);
+    expect(converter.tradeAmountToBase(14000, { ...trade, sellDate: undefined })).toBeCloseTo(100);
+  });
+
+  it('reads rate files, dropping incomplete rows', async () => {
+    expect(await FxConverter.parseRatesCSV('date,from,to,rate\n2024-01-01,usd,jpy,140\n,EUR,USD,1.1\n2024-01-01,USD,,1\n2024-01-01,USD,GBP,0\n')).toEqual([
+      { date: '2024-01-01', from: 'USD', to: 'JPY', rate: 140 },
+      { date: undefined, from: 'EUR', to: 'USD', rate: 1.1 }
+    ]);
+    expect(FxConverter.parseRatesJSON('{"rates":[{"from":"eur","to":"usd","rate":"1.1"}]}')).toEqual([
+      { date: undefined, from: 'EUR', to: 'USD', rate: 1.1 }
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * FX conversion to the base currency
+ * Rates come from a user-maintained file in the data directory (fx-rates.csv or fx-rates.json).
+ * CSV columns: date,from,to,rate where 1 unit of `from` = `rate` units of `to`; date may be blank.
+ */
+
+import { FxRate } from '@/types/fx';
+import { Trade } from '@/types/trade';
+import { CSVParser } from '@/lib/parsers/csv-parser';
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export class FxConverter {
+  readonly baseCurrency: string;
+  private rates: FxRate[];
+
+  constructor(rates: FxRate[] = [], baseCurrency: string = DEFAULT_BASE_CURRENCY) {
+    this.baseCurrency = baseCurrency.toUpperCase();
+    this.rates = rates;
+  }
+
+  /**
+   * Currency a trade is quoted in; trades without one are in the base currency
+   */
+  getTradeCurrency(trade: Pick<Trade, 'currency'>): string {
+    return trade.currency ? trade.currency.toUpperCase() : this.baseCurrency;
+  }
+
+  /**
+   * Convert an amount into the base currency using the rate in effect on `date`.
+   * Returns undefined when no rate (direct, inverse or via one intermediate currency) is available.
+   */
+  toBase(amount: number, currency: string | undefined, date?: string): number | undefined {
+    const rate = this.getRate(currency ? currency.toUpperCase() : this.baseCurrency, this.baseCurrency, date);
+    return rate === undefined ? undefined : amount * rate;
+  }
+
+  /**
+   * Convert a trade's realized P&L, valued on its exit date (entry date while open)
+   */
+  tradeAmountToBase(amount: number, trade: Pick<Trade, 'currency' | 'buyDate' | 'sellDate'>): number | undefined {
+    return this.toBase(amount, this.getTradeCurrency(trade), trade.sellDate || trade.buyDate);
+  }
+
+  getRate(from: string, to: string, date?: string): number | undefined {
+    if (from === to) {
+      return 1;
+    }
+
+    const direct = this.findRate(from, to, date);
+    if (direct !== undefined) {
+      return direct;
+    }
+
+    // Cross through any currency quoted against both sides, e.g. JPY -> USD -> EUR
+    const intermediates = new Set<string>();
+    this.rates.forEach(rate => {
+      intermediates.add(rate.from);
+      intermediates.add(rate.to);
+    });
+
+    for (const via of intermediates) {
+      if (via === from || via === to) {
+        continue;
+      }
+      const first = this.findRate(from, via, date);
+      const second = first !== undefined ? this.findRate(via, to, date) : undefined;
+      if (first !== undefined && second !== undefined) {
+        return first * second;
+      }
+    }
+
+    return undefined;
+  }
+
+  private findRate(from: string, to: string, date?: string): number | undefined {
+    const candidates = this.rates
+      .filter(rate => (rate.from === from && rate.to === to) || (rate.from === to && rate.to === from))
+      .map(rate => ({ date: rate.date, value: rate.from === from ? rate.rate : 1 / rate.rate }));
+
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const dated = candidates
+      .filter(candidate => candidate.date)
+      .sort((a, b) => a.date!.localeCompare(b.date!));
+    const undated = candidates.find(candidate => !candidate.date);
+
+    if (!date || dated.length === 0) {
+      return (undated || dated[dated.length - 1]).value;
+    }
+
+    // Latest rate on or before the date; before the first dated rate, fall back to the earliest one
+    const onOrBefore = dated.filter(candidate => candidate.date! <= date);
+    if (onOrBefore.length > 0) {
+      return onOrBefore[onOrBefore.length - 1].value;
+    }
+    return (undated || dated[0]).value;
+  }
+
+  static async parseRatesCSV(content: string): Promise<FxRate[]> {
+    const data = await CSVParser.parseText(content);
+    return this.normalizeRates(data.rows);
+  }
+
+  static parseRatesJSON(content: string): FxRate[] {
+    const parsed = JSON.parse(content);
+    const rows = Array.isArray(parsed) ? parsed : parsed?.rates;
+    return Array.isArray(rows) ? this.normalizeRates(rows) : [];
+  }
+
+  /**
+   * Keep only complete rows with a positive rate; codes are upper-cased
+   */
+  private static normalizeRates(rows: Record<string, unknown>[]): FxRate[] {
+    const rates: FxRate[] = [];
+
+    rows.forEach(row => {
+      const from = String(row.from ?? '').trim().toUpperCase();
+      const to = String(row.to ?? '').trim().toUpperCase();
+      const rate = parseFloat(String(row.rate ?? ''));
+      const date = String(row.date ?? '').trim();
+
+      if (!from || !to || isNaN(rate) || rate <= 0) {
+        return;
+      }
+
+      rates.push({ date: date || undefined, from, to, rate });
+    });
+
+    return rates;
+  }
+}
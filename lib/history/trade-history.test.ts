@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TradeChangeSet, TradeHistory } from '@/lib/history/trade-history';
+
+let storage: Map<string, string>;
+
+const change = (id: string): TradeChangeSet => ({
+  id,
+  label: `Change ${id}`,
+  at: '2024-01-02T00:00:00.000Z',
+  records: [],
+  folders: [],
+  files: []
+});
+
+beforeEach(() => {
+  storage = new Map();
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('sessionStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      storage.set(key, value);
+    }
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('TradeHistory', () => {
+  it('undoes newest first and redoes in the reverse order', () => {
+    TradeHistory.record(change('a'), 'sig-a');
+    TradeHistory.record(change('b'), 'sig-b');
+
+    TradeHistory.markUndone('b', 'sig-a');
+    TradeHistory.markUndone('a', 'sig-0');
+
+    expect(TradeHistory.peekUndo()).toBeNull();
+    expect(TradeHistory.peekRedo()?.id).toBe('a');
+    expect(TradeHistory.getSignature()).toBe('sig-0');
+
+    TradeHistory.markRedone('a', 'sig-a');
+
+    expect(TradeHistory.peekUndo()?.id).toBe('a');
+    expect(TradeHistory.peekRedo()?.id).toBe('b');
+  });
+
+  it('ignores a step for a change that is not on top of its stack', () => {
+    TradeHistory.record(change('a'), 'sig-a');
+    TradeHistory.record(change('b'), 'sig-b');
+
+    TradeHistory.markUndone('a', 'sig-x');
+
+    expect(TradeHistory.getIds()).toEqual(['a', 'b']);
+    expect(TradeHistory.peekRedo()).toBeNull();
+    expect(TradeHistory.getSignature()).toBe('sig-b');
+  });
+
+  it('drops what could be redone when a new change is recorded, returning it', () => {
+    TradeHistory.record(change('a'), 'sig-a');
+    TradeHistory.markUndone('a', 'sig-0');
+
+    expect(TradeHistory.record(change('b'), 'sig-b').map(dropped => dropped.id)).toEqual(['a']);
+    expect(TradeHistory.getIds()).toEqual(['b']);
+  });
+
+  it('keeps the newest 100 changes', () => {
+    for (let i = 0; i < 100; i++) {
+      TradeHistory.record(change(`c${i}`), null);
+    }
+
+    expect(TradeHistory.record(change('c100'), null).map(dropped => dropped.id)).toEqual(['c0']);
+    expect(TradeHistory.getIds()).toHaveLength(100);
+  });
+
+  it('drops the oldest changes while the history is over the storage quota', () => {
+    TradeHistory.record(change('a'), null);
+    TradeHistory.record(change('b'), null);
+    // Room for two changes and no more
+    const quota = [...storage.values()][0].length;
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        if (value.length > quota) {
+          throw new Error('QuotaExceededError');
+        }
+        storage.set(key, value);
+      }
+    });
+
+    expect(TradeHistory.record(change('c'), null).map(dropped => dropped.id)).toEqual(['a']);
+    expect(TradeHistory.getIds()).toEqual(['b', 'c']);
+  });
+
+  it('discards one change from either stack, and clears both', () => {
+    TradeHistory.record(change('a'), null);
+    TradeHistory.record(change('b'), null);
+    TradeHistory.markUndone('b', null);
+
+    TradeHistory.discard('a');
+    expect(TradeHistory.getIds()).toEqual(['b']);
+
+    expect(TradeHistory.clear().map(dropped => dropped.id)).toEqual(['b']);
+    expect(TradeHistory.getIds()).toEqual([]);
+  });
+
+  it('tells subscribers what happened until they unsubscribe', () => {
+    const events: string[] = [];
+    const unsubscribe = TradeHistory.subscribe(event => events.push(event));
+
+    TradeHistory.record(change('a'), null);
+    TradeHistory.markUndone('a', null);
+    TradeHistory.markRedone('a', null);
+    unsubscribe();
+    TradeHistory.clear();
+
+    expect(events).toEqual(['record', 'undo', 'redo']);
+  });
+
+  it('keeps nothing outside the browser', () => {
+    vi.unstubAllGlobals();
+
+    expect(TradeHistory.record(change('a'), null)).toEqual([]);
+    expect(TradeHistory.getIds()).toEqual([]);
+  });
+});
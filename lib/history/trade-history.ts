@@ -0,0 +1,212 @@
+/**
+ * Undo/redo history for trade changes
+ * Each change set holds the records a change touched, before and after, so it can be
+ * replayed in either direction. The stacks live in sessionStorage: they survive a reload
+ * but not a restart, when trades.csv may have been changed by other means. Within a
+ * session, a signature of trades.csv is kept with the stacks so writes that bypass the
+ * history can be noticed and the stacks dropped, see TradeDataService.
+ */
+
+import type { CentralCSVRecord } from '@/lib/csv/central-csv-service';
+
+const HISTORY_KEY = 'trade-history';
+const MAX_HISTORY = 100;
+
+// Deleted trade folders are moved here rather than removed, keyed by change set ID
+export const TRASH_DIRECTORY = '.trash';
+
+export interface TradeRecordChange {
+  tradeId: string;
+  before: CentralCSVRecord | null; // null = the change added the trade
+  after: CentralCSVRecord | null; // null = the change deleted the trade
+}
+
+export interface TradeFolderChange {
+  folderPath: string; // Relative to the data directory
+  existsAfter: boolean; // false = the change moved it to the trash
+}
+
+// Other files a change rewrote or moved (e.g. notes and images for a tag rename), absolute paths
+export type TradeFileChange =
+  | { type: 'move'; from: string; to: string }
+  | { type: 'write'; path: string; before: string; after: string };
+
+export interface TradeChangeSet {
+  id: string;
+  label: string; // e.g. "Delete 3 trades", shown on the undo/redo buttons
+  at: string; // ISO timestamp
+  records: TradeRecordChange[];
+  folders: TradeFolderChange[];
+  files: TradeFileChange[]; // In the order they were applied
+}
+
+export type TradeHistoryEvent = 'record' | 'undo' | 'redo' | 'clear';
+
+interface TradeHistoryState {
+  undo: TradeChangeSet[];
+  redo: TradeChangeSet[];
+  signature: string | null; // trades.csv as the newest recorded or replayed change left it
+}
+
+function emptyState(): TradeHistoryState {
+  return { undo: [], redo: [], signature: null };
+}
+
+type Listener = (event: TradeHistoryEvent) => void;
+
+const listeners = new Set<Listener>();
+
+export class TradeHistory {
+  static generateId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  /**
+   * Add a change to the undo stack. Anything that could be redone is discarded;
+   * the discarded change sets (and any pushed off the end) are returned so their
+   * trashed folders can be purged.
+   */
+  static record(change: TradeChangeSet, signature: string | null): TradeChangeSet[] {
+    const state = this.load();
+    const dropped = [...state.redo];
+    state.undo.push(change);
+    state.redo = [];
+    state.signature = signature;
+    while (state.undo.length > MAX_HISTORY) {
+      dropped.push(state.undo.shift()!);
+    }
+
+    dropped.push(...this.save(state));
+    this.notify('record');
+    return dropped;
+  }
+
+  static peekUndo(): TradeChangeSet | null {
+    const { undo } = this.load();
+    return undo[undo.length - 1] || null;
+  }
+
+  static peekRedo(): TradeChangeSet | null {
+    const { redo } = this.load();
+    return redo[redo.length - 1] || null;
+  }
+
+  /**
+   * Move the newest undoable change to the redo stack, once it has been undone
+   */
+  static markUndone(id: string, signature: string | null): void {
+    const state = this.load();
+    const change = state.undo[state.undo.length - 1];
+    if (!change || change.id !== id) {
+      return;
+    }
+
+    state.undo.pop();
+    state.redo.push(change);
+    state.signature = signature;
+    this.save(state);
+    this.notify('undo');
+  }
+
+  /**
+   * Move the newest redoable change back to the undo stack, once it has been redone
+   */
+  static markRedone(id: string, signature: string | null): void {
+    const state = this.load();
+    const change = state.redo[state.redo.length - 1];
+    if (!change || change.id !== id) {
+      return;
+    }
+
+    state.redo.pop();
+    state.undo.push(change);
+    state.signature = signature;
+    this.save(state);
+    this.notify('redo');
+  }
+
+  /**
+   * Drop a change that can no longer be applied, e.g. because the trades it
+   * touched were edited elsewhere since
+   */
+  static discard(id: string): void {
+    const state = this.load();
+    this.save({
+      ...state,
+      undo: state.undo.filter(change => change.id !== id),
+      redo: state.redo.filter(change => change.id !== id)
+    });
+    this.notify('clear');
+  }
+
+  /**
+   * Drop both stacks, returning what was dropped so trashed folders can be purged
+   */
+  static clear(): TradeChangeSet[] {
+    const { undo, redo } = this.load();
+    this.save(emptyState());
+    this.notify('clear');
+    return [...undo, ...redo];
+  }
+
+  static getSignature(): string | null {
+    return this.load().signature;
+  }
+
+  /**
+   * IDs of every change set still in the history, to tell which trash folders are live
+   */
+  static getIds(): string[] {
+    const { undo, redo } = this.load();
+    return [...undo, ...redo].map(change => change.id);
+  }
+
+  static subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private static notify(event: TradeHistoryEvent): void {
+    listeners.forEach(listener => listener(event));
+  }
+
+  private static load(): TradeHistoryState {
+    try {
+      if (typeof window === 'undefined') {
+        return emptyState();
+      }
+
+      const saved = sessionStorage.getItem(HISTORY_KEY);
+      return saved ? { ...emptyState(), ...JSON.parse(saved) } : emptyState();
+    } catch (error) {
+      console.error('Error loading trade history:', error);
+      return emptyState();
+    }
+  }
+
+  /**
+   * Save, dropping the oldest undo entries while the state is over the storage quota.
+   * Returns whatever had to be dropped.
+   */
+  private static save(state: TradeHistoryState): TradeChangeSet[] {
+    const dropped: TradeChangeSet[] = [];
+    if (typeof window === 'undefined') {
+      return dropped;
+    }
+
+    for (;;) {
+      try {
+        sessionStorage.setItem(HISTORY_KEY, JSON.stringify(state));
+        return dropped;
+      } catch (error) {
+        if (state.undo.length === 0) {
+          console.error('Error saving trade history:', error);
+          return dropped;
+        }
+        dropped.push(state.undo.shift()!);
+      }
+    }
+  }
+}
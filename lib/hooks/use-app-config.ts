@@ -0,0 +1,46 @@
+/**
+ * Hook for reading the application configuration
+ * Falls back to the default configuration when none has been saved yet
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { AppConfig } from '@/types/app';
+
+export interface UseAppConfigReturn {
+  config: AppConfig | null;
+  loading: boolean;
+  refreshConfig: () => Promise<void>;
+}
+
+export function useAppConfig(): UseAppConfigReturn {
+  const [config, setConfig] = useState<AppConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshConfig = useCallback(async () => {
+    try {
+      if (typeof window === 'undefined' || !window.electronAPI) {
+        return;
+      }
+
+      const configResult = await window.electronAPI.config.loadConfig();
+      let loaded = configResult.data;
+
+      if (!loaded) {
+        const defaultConfigResult = await window.electronAPI.config.getDefaultConfig();
+        loaded = defaultConfigResult.data;
+      }
+
+      setConfig(loaded || null);
+    } catch (err) {
+      console.error('Error loading config:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshConfig();
+  }, [refreshConfig]);
+
+  return { config, loading, refreshConfig };
+}
@@ -0,0 +1,51 @@
+/**
+ * Hook providing an FX converter for the configured base currency
+ * Rates are read from the user-maintained rates file in the data directory
+ */
+
+import { useState, useEffect } from 'react';
+import { FxConverter } from '@/lib/fx/fx-converter';
+import { FxRateService } from '@/lib/services/fx-rate-service';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+
+export interface UseFxConverterReturn {
+  fx: FxConverter;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useFxConverter(): UseFxConverterReturn {
+  const { config, loading: configLoading } = useAppConfig();
+  const [fx, setFx] = useState<FxConverter>(() => new FxConverter());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const dataDirectory = config?.dataDirectory;
+  const baseCurrency = config?.baseCurrency;
+
+  useEffect(() => {
+    if (configLoading) {
+      return;
+    }
+
+    const loadRates = async () => {
+      if (!dataDirectory) {
+        setFx(new FxConverter([], baseCurrency));
+        setLoading(false);
+        return;
+      }
+
+      const result = await FxRateService.loadRates(dataDirectory);
+      if (!result.success) {
+        console.error('Error loading FX rates:', result.error);
+        setError(result.error || 'Failed to load FX rates');
+      }
+      setFx(new FxConverter(result.data || [], baseCurrency));
+      setLoading(false);
+    };
+
+    loadRates();
+  }, [configLoading, dataDirectory, baseCurrency]);
+
+  return { fx, loading: loading || configLoading, error };
+}
@@ -6,6 +6,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { AppConfig } from '@/types/app';
 import { MCPServerService } from '@/lib/services/mcp-server-service';
+import { CentralCSVService } from '@/lib/csv/central-csv-service';
 
 export interface SetupState {
   isRequired: boolean;
@@ -121,6 +122,10 @@ export function useInitialSetup(): UseInitialSetupReturn {
         markdownDirectory: 'trades',
         autoCreateMarkdownFolders: true,
         markdownFileNamePattern: '{tradeId}_{ticker}_{date}',
+        pnlDisplay: 'net',
+        baseCurrency: 'USD',
+        startingCapital: 0,
+        riskFreeRate: 0,
         // Mark as setup completed
         setupCompleted: true,
         setupVersion: '1.0.0'
@@ -167,24 +172,10 @@ export function useInitialSetup(): UseInitialSetupReturn {
       console.log('Creating central CSV file:', csvPath);
       const csvExists = await window.electronAPI.fs.exists(csvPath);
       if (!csvExists.success || !csvExists.data) {
-        const headers = [
-          'tradeId',
-          'ticker',
-          'buyDate',
-          'sellDate',
-          'quantity',
-          'buyPrice',
-          'sellPrice',
-          'pnl',
-          'holdingDays',
-          'folderPath',
-          'createdAt',
-          'updatedAt'
-        ].join(',');
-        
-        const csvResult = await window.electronAPI.fs.writeFile(csvPath, headers);
-        if (!csvResult.success) {
-          throw new Error(`Failed to create trades.csv: ${csvResult.error}`);
+        const csvService = new CentralCSVService(window.electronAPI.fs, dataDirectory);
+        const csvResult = await csvService.initializeCentralCSV();
+        if (!csvResult) {
+          throw new Error('Failed to create trades.csv');
         }
         console.log('Central CSV file created successfully');
       } else {
@@ -0,0 +1,62 @@
+/**
+ * Hook for the stored daily price history of a set of tickers
+ * Reads {dataDirectory}/ohlc/{TICKER}.csv once per ticker
+ */
+
+import { useState, useEffect } from 'react';
+import { OHLCBar } from '@/types/ohlc';
+import { OHLCService } from '@/lib/services/ohlc-service';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+
+export interface UseOHLCBarsReturn {
+  barsByTicker: Record<string, OHLCBar[]>; // Keyed by upper-cased ticker; tickers without history are left out
+  loading: boolean;
+}
+
+export function useOHLCBars(tickers: string[]): UseOHLCBarsReturn {
+  const { config, loading: configLoading } = useAppConfig();
+  const [barsByTicker, setBarsByTicker] = useState<Record<string, OHLCBar[]>>({});
+  const [loading, setLoading] = useState(true);
+
+  const dataDirectory = config?.dataDirectory;
+  // A stable key so a new array with the same tickers doesn't reload everything
+  const tickerKey = Array.from(new Set(tickers.map(ticker => ticker.toUpperCase()))).sort().join(',');
+
+  useEffect(() => {
+    if (configLoading) {
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      if (!dataDirectory || !tickerKey) {
+        setBarsByTicker({});
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      const loaded: Record<string, OHLCBar[]> = {};
+      for (const ticker of tickerKey.split(',')) {
+        const result = await OHLCService.loadBars({ dataDirectory }, ticker);
+        if (!result.success) {
+          console.error(`Error loading price history for ${ticker}:`, result.error);
+        } else if (result.data && result.data.length > 0) {
+          loaded[ticker] = result.data;
+        }
+      }
+
+      if (!cancelled) {
+        setBarsByTicker(loaded);
+        setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [configLoading, dataDirectory, tickerKey]);
+
+  return { barsByTicker, loading: loading || configLoading };
+}
@@ -0,0 +1,144 @@
+/**
+ * Hook for the current prices used to value open positions
+ * File prices come from prices.csv in the data directory and reload whenever the
+ * file changes; manual marks (marks.json) override them until cleared
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { PriceMark } from '@/types/price';
+import { PriceService } from '@/lib/services/price-service';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+
+const PRICE_WATCH_ID = 'price-file-watcher';
+
+export interface UsePriceMarksReturn {
+  marks: Record<string, PriceMark>; // Keyed by upper-cased ticker
+  loading: boolean;
+  error: string | null;
+  priceFilePath: string | null;
+  setManualMark: (ticker: string, price: number) => Promise<boolean>;
+  clearManualMark: (ticker: string) => Promise<boolean>;
+  reload: () => Promise<void>;
+}
+
+export function usePriceMarks(): UsePriceMarksReturn {
+  const { config, loading: configLoading } = useAppConfig();
+  const [filePrices, setFilePrices] = useState<PriceMark[]>([]);
+  const [manualMarks, setManualMarks] = useState<PriceMark[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const dataDirectory = config?.dataDirectory;
+
+  const loadFilePrices = useCallback(async () => {
+    if (!dataDirectory) {
+      return;
+    }
+
+    const result = await PriceService.loadFilePrices(dataDirectory);
+    if (result.success) {
+      setFilePrices(result.data || []);
+      setError(null);
+    } else {
+      console.error('Error loading price file:', result.error);
+      setError(result.error || 'Failed to load price file');
+    }
+  }, [dataDirectory]);
+
+  const reload = useCallback(async () => {
+    if (!dataDirectory) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const manualResult = await PriceService.loadManualMarks(dataDirectory);
+    if (!manualResult.success) {
+      console.error('Error loading manual marks:', manualResult.error);
+    }
+    setManualMarks(manualResult.data || []);
+    await loadFilePrices();
+    setLoading(false);
+  }, [dataDirectory, loadFilePrices]);
+
+  useEffect(() => {
+    if (!configLoading) {
+      reload();
+    }
+  }, [configLoading, reload]);
+
+  // Reload file prices whenever prices.csv is written, replaced or removed
+  useEffect(() => {
+    if (!dataDirectory || !window.electronAPI?.fileWatcher) {
+      return;
+    }
+
+    const priceFilePath = PriceService.getPriceFilePath(dataDirectory);
+    const handleChange = (_event: unknown, data: { watchId: string }) => {
+      if (data?.watchId === PRICE_WATCH_ID) {
+        loadFilePrices();
+      }
+    };
+
+    window.electronAPI.fileWatcher.watchDirectory(priceFilePath, PRICE_WATCH_ID);
+    const unsubscribe = [
+      window.electronAPI.fileWatcher.onFileAdded(handleChange),
+      window.electronAPI.fileWatcher.onFileChanged(handleChange),
+      window.electronAPI.fileWatcher.onFileRemoved(handleChange)
+    ];
+
+    return () => {
+      unsubscribe.forEach(remove => remove());
+      window.electronAPI.fileWatcher.unwatchDirectory(PRICE_WATCH_ID);
+    };
+  }, [dataDirectory, loadFilePrices]);
+
+  const persistManualMarks = useCallback(async (next: PriceMark[]): Promise<boolean> => {
+    if (!dataDirectory) {
+      return false;
+    }
+
+    const result = await PriceService.saveManualMarks(dataDirectory, next);
+    if (!result.success) {
+      console.error('Error saving manual marks:', result.error);
+      return false;
+    }
+
+    setManualMarks(next);
+    return true;
+  }, [dataDirectory]);
+
+  const setManualMark = useCallback(async (ticker: string, price: number): Promise<boolean> => {
+    const key = ticker.toUpperCase();
+    const mark: PriceMark = {
+      ticker: key,
+      price,
+      date: new Date().toISOString().split('T')[0],
+      source: 'manual',
+      updatedAt: new Date().toISOString()
+    };
+    return persistManualMarks([...manualMarks.filter(m => m.ticker !== key), mark]);
+  }, [manualMarks, persistManualMarks]);
+
+  const clearManualMark = useCallback(async (ticker: string): Promise<boolean> => {
+    const key = ticker.toUpperCase();
+    return persistManualMarks(manualMarks.filter(m => m.ticker !== key));
+  }, [manualMarks, persistManualMarks]);
+
+  const marks = useMemo(() => {
+    const merged: Record<string, PriceMark> = {};
+    filePrices.forEach(mark => { merged[mark.ticker] = mark; });
+    manualMarks.forEach(mark => { merged[mark.ticker] = mark; });
+    return merged;
+  }, [filePrices, manualMarks]);
+
+  return {
+    marks,
+    loading: loading || configLoading,
+    error,
+    priceFilePath: dataDirectory ? PriceService.getPriceFilePath(dataDirectory) : null,
+    setManualMark,
+    clearManualMark,
+    reload
+  };
+}
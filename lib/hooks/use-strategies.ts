@@ -0,0 +1,74 @@
+/**
+ * Hook for the user's setup (strategy) catalogue
+ * Stored as strategies.json in the data directory
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { TradeStrategy } from '@/types/strategy';
+import { StrategyService } from '@/lib/services/strategy-service';
+import { useAppConfig } from '@/lib/hooks/use-app-config';
+
+export interface UseStrategiesReturn {
+  strategies: TradeStrategy[];
+  loading: boolean;
+  saveStrategy: (strategy: TradeStrategy) => Promise<boolean>;
+  deleteStrategy: (strategyId: string) => Promise<boolean>;
+}
+
+export function useStrategies(): UseStrategiesReturn {
+  const { config, loading: configLoading } = useAppConfig();
+  const [strategies, setStrategies] = useState<TradeStrategy[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const dataDirectory = config?.dataDirectory;
+
+  useEffect(() => {
+    if (configLoading) {
+      return;
+    }
+
+    const load = async () => {
+      if (!dataDirectory) {
+        setLoading(false);
+        return;
+      }
+
+      const result = await StrategyService.loadStrategies({ dataDirectory });
+      if (!result.success) {
+        console.error('Error loading setups:', result.error);
+      }
+      setStrategies(result.data || []);
+      setLoading(false);
+    };
+
+    load();
+  }, [configLoading, dataDirectory]);
+
+  const persist = useCallback(async (next: TradeStrategy[]): Promise<boolean> => {
+    if (!dataDirectory) {
+      return false;
+    }
+
+    const result = await StrategyService.saveStrategies({ dataDirectory }, next);
+    if (!result.success) {
+      console.error('Error saving setups:', result.error);
+      return false;
+    }
+
+    setStrategies(next);
+    return true;
+  }, [dataDirectory]);
+
+  const saveStrategy = useCallback(async (strategy: TradeStrategy): Promise<boolean> => {
+    const updated = { ...strategy, updatedAt: new Date().toISOString() };
+    return persist(strategies.some(s => s.id === strategy.id)
+      ? strategies.map(s => s.id === strategy.id ? updated : s)
+      : [...strategies, updated]);
+  }, [strategies, persist]);
+
+  const deleteStrategy = useCallback(async (strategyId: string): Promise<boolean> => {
+    return persist(strategies.filter(s => s.id !== strategyId));
+  }, [strategies, persist]);
+
+  return { strategies, loading: loading || configLoading, saveStrategy, deleteStrategy };
+}
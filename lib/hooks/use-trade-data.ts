@@ -7,6 +7,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { Trade } from '@/types/trade';
 import { TradeDataService } from '@/lib/services/trade-data-service';
 import { LocalStorage } from '@/lib/file-system/storage';
+import { TradeHistory } from '@/lib/history/trade-history';
 
 export interface UseTradeDataReturn {
   trades: Trade[];
@@ -18,6 +19,10 @@ export interface UseTradeDataReturn {
   updateTrade: (tradeId: string, updates: Partial<Trade>) => Promise<boolean>;
   deleteTrade: (tradeId: string, deleteFolder?: boolean) => Promise<boolean>;
   bulkDeleteTrades: (tradeIds: string[], deleteFolders?: boolean) => Promise<boolean>;
+  importTrades: (
+    newTrades: Trade[],
+    updates?: { tradeId: string; updates: Partial<Trade> }[]
+  ) => Promise<{ added: number; updated: number } | null>;
   
   // Data operations
   refreshTrades: () => Promise<void>;
@@ -32,7 +37,73 @@ export interface UseTradeDataReturn {
   };
 }
 
-let tradeDataService: TradeDataService | null = null;
+let tradeDataService: Promise<TradeDataService> | null = null;
+
+/**
+ * The shared service, created and initialized on first use. Components mounted together
+ * (e.g. a page and the history controls) wait on the same initialization.
+ */
+export function getTradeDataService(): Promise<TradeDataService> {
+  if (!tradeDataService) {
+    tradeDataService = createTradeDataService().catch(err => {
+      tradeDataService = null; // Let the next caller try again
+      throw err;
+    });
+  }
+  return tradeDataService;
+}
+
+async function createTradeDataService(): Promise<TradeDataService> {
+  try {
+    // Check if we're in Electron environment
+    if (typeof window === 'undefined' || !window.electronAPI) {
+      throw new Error('Electron API not available');
+    }
+
+    // Get config from Electron
+    const configResult = await window.electronAPI.config.loadConfig();
+    let config = configResult.data;
+    
+    if (!config) {
+      const defaultConfigResult = await window.electronAPI.config.getDefaultConfig();
+      config = defaultConfigResult.data;
+    }
+
+    if (!config) {
+      throw new Error('Failed to load configuration');
+    }
+
+    // Create file service wrapper
+    const fileService = {
+      readDir: (path: string) => window.electronAPI.fs.readDir(path),
+      readFile: (path: string) => window.electronAPI.fs.readFile(path),
+      writeFile: (path: string, content: string) => window.electronAPI.fs.writeFile(path, content),
+      appendFile: (path: string, content: string) => window.electronAPI.fs.appendFile(path, content),
+      createDir: (path: string) => window.electronAPI.fs.createDir(path),
+      deleteFile: (path: string) => window.electronAPI.fs.deleteFile(path),
+      deleteDir: (path: string) => window.electronAPI.fs.deleteDir(path),
+      moveFile: (src: string, dest: string) => window.electronAPI.fs.moveFile(src, dest),
+      exists: (path: string) => window.electronAPI.fs.exists(path),
+      stat: (path: string) => window.electronAPI.fs.stat(path)
+    };
+
+    const service = new TradeDataService({
+      dataDirectory: config.dataDirectory,
+      fileService
+    });
+
+    // Initialize the service
+    const initResult = await service.initialize();
+    if (!initResult) {
+      throw new Error('Failed to initialize trade data service');
+    }
+
+    return service;
+  } catch (err) {
+    console.error('Error initializing trade data service:', err);
+    throw err;
+  }
+}
 
 export function useTradeData(): UseTradeDataReturn {
   const [trades, setTrades] = useState<Trade[]>([]);
@@ -46,55 +117,7 @@ export function useTradeData(): UseTradeDataReturn {
   });
 
   // Initialize service
-  const initializeService = useCallback(async () => {
-    if (tradeDataService) return tradeDataService;
-
-    try {
-      // Check if we're in Electron environment
-      if (typeof window === 'undefined' || !window.electronAPI) {
-        throw new Error('Electron API not available');
-      }
-
-      // Get config from Electron
-      const configResult = await window.electronAPI.config.loadConfig();
-      let config = configResult.data;
-      
-      if (!config) {
-        const defaultConfigResult = await window.electronAPI.config.getDefaultConfig();
-        config = defaultConfigResult.data;
-      }
-
-      if (!config) {
-        throw new Error('Failed to load configuration');
-      }
-
-      // Create file service wrapper
-      const fileService = {
-        readDir: (path: string) => window.electronAPI.fs.readDir(path),
-        readFile: (path: string) => window.electronAPI.fs.readFile(path),
-        writeFile: (path: string, content: string) => window.electronAPI.fs.writeFile(path, content),
-        createDir: (path: string) => window.electronAPI.fs.createDir(path),
-        deleteDir: (path: string) => window.electronAPI.fs.deleteDir(path),
-        exists: (path: string) => window.electronAPI.fs.exists(path)
-      };
-
-      tradeDataService = new TradeDataService({
-        dataDirectory: config.dataDirectory,
-        fileService
-      });
-
-      // Initialize the service
-      const initResult = await tradeDataService.initialize();
-      if (!initResult) {
-        throw new Error('Failed to initialize trade data service');
-      }
-
-      return tradeDataService;
-    } catch (err) {
-      console.error('Error initializing trade data service:', err);
-      throw err;
-    }
-  }, []);
+  const initializeService = useCallback(() => getTradeDataService(), []);
 
   // Load trades
   const loadTrades = useCallback(async () => {
@@ -231,6 +254,27 @@ export function useTradeData(): UseTradeDataReturn {
     }
   }, [initializeService, refreshTrades]);
 
+  // Import trades, adding new ones and updating re-imported ones
+  const importTrades = useCallback(async (
+    newTrades: Trade[],
+    updates: { tradeId: string; updates: Partial<Trade> }[] = []
+  ): Promise<{ added: number; updated: number } | null> => {
+    try {
+      const service = await initializeService();
+      const result = await service.importTrades(newTrades, updates);
+
+      if (result) {
+        await refreshTrades();
+      }
+
+      return result;
+    } catch (err) {
+      console.error('Error importing trades:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import trades');
+      return null;
+    }
+  }, [initializeService, refreshTrades]);
+
   // Export trades
   const exportTrades = useCallback(async (tradeIds?: string[]): Promise<string | null> => {
     try {
@@ -248,6 +292,15 @@ export function useTradeData(): UseTradeDataReturn {
     loadTrades();
   }, [loadTrades]);
 
+  // Reload after an undo or redo, which may come from anywhere in the app
+  useEffect(() => {
+    return TradeHistory.subscribe(event => {
+      if (event === 'undo' || event === 'redo') {
+        loadTrades();
+      }
+    });
+  }, [loadTrades]);
+
   return {
     trades,
     loading,
@@ -256,6 +309,7 @@ export function useTradeData(): UseTradeDataReturn {
     updateTrade,
     deleteTrade,
     bulkDeleteTrades,
+    importTrades,
     refreshTrades,
     exportTrades,
     stats
@@ -0,0 +1,58 @@
+/**
+ * React hook for undoing and redoing trade changes
+ * Any component can use it; pages showing trades reload through useTradeData when a step runs
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { TradeHistory } from '@/lib/history/trade-history';
+import { HistoryStepResult } from '@/lib/services/trade-data-service';
+import { getTradeDataService } from '@/lib/hooks/use-trade-data';
+
+export interface UseTradeHistoryReturn {
+  undoLabel: string | null; // null = nothing to undo
+  redoLabel: string | null;
+  busy: boolean;
+  undo: () => Promise<HistoryStepResult>;
+  redo: () => Promise<HistoryStepResult>;
+}
+
+export function useTradeHistory(): UseTradeHistoryReturn {
+  const [undoLabel, setUndoLabel] = useState<string | null>(null);
+  const [redoLabel, setRedoLabel] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(() => {
+    setUndoLabel(TradeHistory.peekUndo()?.label || null);
+    setRedoLabel(TradeHistory.peekRedo()?.label || null);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return TradeHistory.subscribe(refresh);
+  }, [refresh]);
+
+  const runStep = useCallback(async (direction: 'undo' | 'redo'): Promise<HistoryStepResult> => {
+    setBusy(true);
+    try {
+      const service = await getTradeDataService();
+      return direction === 'undo' ? await service.undo() : await service.redo();
+    } catch (err) {
+      console.error(`Error during ${direction}:`, err);
+      return { success: false, error: err instanceof Error ? err.message : `Failed to ${direction}` };
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  }, [refresh]);
+
+  const undo = useCallback(() => runStep('undo'), [runStep]);
+  const redo = useCallback(() => runStep('redo'), [runStep]);
+
+  return {
+    undoLabel,
+    redoLabel,
+    busy,
+    undo,
+    redo
+  };
+}
@@ -7,6 +7,17 @@
 import { Trade } from '@/types/trade';
 import { CentralCSVService } from '@/lib/csv/central-csv-service';
 import { generateTradeFolderPath, createTradeFolderWithSequence, parseTradeFolderName } from '@/lib/trade-folder/path-generator';
+import { formatCSV, parseCSV, toRecords } from '@/lib/csv/csv-codec';
+import {
+  AppliedSchemaMigration,
+  BASE_SCHEMA_COLUMNS,
+  CURRENT_SCHEMA_VERSION,
+  SchemaMarker,
+  SchemaTable,
+  TRADES_SCHEMA_FILE,
+  getPendingSchemaMigrations,
+  inferSchemaVersion
+} from '@/lib/migration/schema-migrations';
 
 export interface MigrationConfig {
   dataDirectory: string;
@@ -34,6 +45,22 @@ export interface ValidationResult {
   suggestions: string[];
 }
 
+export interface SchemaStatus {
+  version: number; // Version trades.csv is at
+  targetVersion: number; // Version this app writes
+  marked: boolean; // False when the version was inferred from the columns
+  pending: { version: number; description: string }[];
+  history: AppliedSchemaMigration[];
+}
+
+export interface SchemaMigrationResult {
+  success: boolean;
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedSchemaMigration[];
+  errors: string[];
+}
+
 export class DataMigrationService {
   private fileService: any;
   private dataDirectory: string;
@@ -152,6 +179,129 @@ export class DataMigrationService {
     }
   }
 
+  /**
+   * Where trades.csv stands against the schema this app writes
+   */
+  async getSchemaStatus(): Promise<SchemaStatus> {
+    const marker = await this.readSchemaMarker();
+    let version = CURRENT_SCHEMA_VERSION;
+
+    if (marker) {
+      version = marker.version;
+    } else {
+      const table = await this.readTradesTable();
+      if (table) {
+        version = inferSchemaVersion(table.headers);
+      }
+    }
+
+    return {
+      version,
+      targetVersion: CURRENT_SCHEMA_VERSION,
+      marked: marker !== null,
+      pending: getPendingSchemaMigrations(version).map(migration => ({
+        version: migration.version,
+        description: migration.description
+      })),
+      history: marker?.history || []
+    };
+  }
+
+  /**
+   * Upgrade trades.csv in place to the current schema, one version at a time.
+   * The file is backed up before each step and the marker is updated after it,
+   * so a failed step leaves the file at the last version that completed.
+   */
+  async runSchemaMigrations(): Promise<SchemaMigrationResult> {
+    const result: SchemaMigrationResult = {
+      success: false,
+      fromVersion: CURRENT_SCHEMA_VERSION,
+      toVersion: CURRENT_SCHEMA_VERSION,
+      applied: [],
+      errors: []
+    };
+
+    try {
+      const csvPath = `${this.dataDirectory}/trades.csv`;
+      let table = await this.readTradesTable();
+      if (!table) {
+        // Nothing to migrate; initializeCentralCSV creates the file at the current version
+        result.success = true;
+        return result;
+      }
+
+      const storedMarker = await this.readSchemaMarker();
+      let marker: SchemaMarker = storedMarker || { version: inferSchemaVersion(table.headers), history: [] };
+      result.fromVersion = marker.version;
+      result.toVersion = marker.version;
+
+      if (marker.version > CURRENT_SCHEMA_VERSION) {
+        result.errors.push(
+          `trades.csv is at schema version ${marker.version}, newer than this app supports (${CURRENT_SCHEMA_VERSION})`
+        );
+        return result;
+      }
+
+      const pending = getPendingSchemaMigrations(marker.version);
+      if (pending.length > 0) {
+        console.log(`Migrating trades.csv from schema version ${marker.version} to ${CURRENT_SCHEMA_VERSION} (dry run: ${this.dryRun})...`);
+      }
+
+      for (const migration of pending) {
+        let backupPath: string | undefined;
+        if (!this.dryRun) {
+          const backup = await this.backupTradesCSV(marker.version);
+          if (!backup) {
+            result.errors.push(`Failed to back up trades.csv - stopped before version ${migration.version}`);
+            break;
+          }
+          backupPath = backup;
+        }
+
+        table = migration.migrate(table);
+
+        if (!this.dryRun) {
+          const writeResult = await this.fileService.writeFile(csvPath, formatCSV(table.headers, table.records) + '\n');
+          if (!writeResult.success) {
+            result.errors.push(`Failed to write trades.csv at version ${migration.version}: ${writeResult.error}`);
+            break;
+          }
+        }
+
+        const applied: AppliedSchemaMigration = {
+          version: migration.version,
+          description: migration.description,
+          appliedAt: new Date().toISOString(),
+          records: table.records.length,
+          backupPath
+        };
+        marker = { version: migration.version, history: [...marker.history, applied] };
+        result.applied.push(applied);
+        result.toVersion = migration.version;
+
+        if (!this.dryRun && !(await this.writeSchemaMarker(marker))) {
+          result.errors.push(`Failed to record schema version ${migration.version}`);
+          break;
+        }
+      }
+
+      // Files from before markers existed get one, even when already current
+      if (!this.dryRun && !storedMarker && result.applied.length === 0) {
+        await this.writeSchemaMarker(marker);
+      }
+
+      result.success = result.errors.length === 0;
+      if (result.applied.length > 0) {
+        console.log(`Schema migration completed: version ${result.fromVersion} to ${result.toVersion}`);
+      }
+    } catch (error) {
+      result.errors.push(`Schema migration failed: ${error}`);
+      console.error('Schema migration error:', error);
+    }
+
+    return result;
+  }
+
   /**
    * Find old folder structures that need migration
    */
@@ -550,6 +700,86 @@ export class DataMigrationService {
     }
   }
 
+  /**
+   * trades.csv as headers and raw string records, or null when there is no file
+   */
+  private async readTradesTable(): Promise<SchemaTable | null> {
+    const csvPath = `${this.dataDirectory}/trades.csv`;
+    const exists = await this.fileService.exists(csvPath);
+    if (!exists.success || !exists.data) {
+      return null;
+    }
+
+    const content = await this.fileService.readFile(csvPath);
+    if (!content.success) {
+      throw new Error(`Failed to read trades.csv: ${content.error}`);
+    }
+
+    const table = toRecords(parseCSV(content.data || ''));
+    // An empty file is treated as the first schema with no trades
+    return table.headers.length > 0 ? table : { headers: [...BASE_SCHEMA_COLUMNS], records: [] };
+  }
+
+  private async readSchemaMarker(): Promise<SchemaMarker | null> {
+    try {
+      const markerPath = `${this.dataDirectory}/${TRADES_SCHEMA_FILE}`;
+      const exists = await this.fileService.exists(markerPath);
+      if (!exists.success || !exists.data) {
+        return null;
+      }
+
+      const content = await this.fileService.readFile(markerPath);
+      if (!content.success) {
+        return null;
+      }
+
+      const marker = JSON.parse(content.data) as SchemaMarker;
+      if (typeof marker.version !== 'number') {
+        return null;
+      }
+      return { version: marker.version, history: marker.history || [] };
+    } catch (error) {
+      console.error('Error reading schema marker:', error);
+      return null;
+    }
+  }
+
+  private async writeSchemaMarker(marker: SchemaMarker): Promise<boolean> {
+    const result = await this.fileService.writeFile(
+      `${this.dataDirectory}/${TRADES_SCHEMA_FILE}`,
+      JSON.stringify(marker, null, 2)
+    );
+    return result.success;
+  }
+
+  /**
+   * Copy trades.csv into backups/ before a schema step, named after the version it was at
+   */
+  private async backupTradesCSV(version: number): Promise<string | null> {
+    try {
+      const backupDir = `${this.dataDirectory}/backups`;
+      const dirResult = await this.fileService.createDir(backupDir);
+      if (!dirResult.success) {
+        console.error('Failed to create backup directory:', dirResult.error);
+        return null;
+      }
+
+      const content = await this.fileService.readFile(`${this.dataDirectory}/trades.csv`);
+      if (!content.success) {
+        console.error('Failed to read trades.csv for backup:', content.error);
+        return null;
+      }
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const backupPath = `${backupDir}/trades-v${version}-${timestamp}.csv`;
+      const writeResult = await this.fileService.writeFile(backupPath, content.data);
+      return writeResult.success ? backupPath : null;
+    } catch (error) {
+      console.error('trades.csv backup failed:', error);
+      return null;
+    }
+  }
+
   private async copyDirectory(sourcePath: string, destPath: string): Promise<void> {
     try {
       // Create destination directory
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataMigrationService } from '@/lib/migration/data-migration-service';
+import {
+  BASE_SCHEMA_COLUMNS,
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_MIGRATIONS,
+  TRADES_SCHEMA_FILE,
+  getPendingSchemaMigrations,
+  inferSchemaVersion
+} from '@/lib/migration/schema-migrations';
+import { parseCSV, toRecords } from '@/lib/csv/csv-codec';
+
+const migrate = (headers: string[], records: Record<string, string>[], from: number) =>
+  getPendingSchemaMigrations(from).reduce((table, migration) => migration.migrate(table), { headers, records });
+
+describe('SCHEMA_MIGRATIONS', () => {
+  it('steps one version at a time up to the current version', () => {
+    expect(SCHEMA_MIGRATIONS.map(migration => migration.version)).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION - 1 }, (_, i) => i + 2)
+    );
+  });
+
+  it('upgrades a first-version file, filling what older trades implied', () => {
+    const table = migrate([...BASE_SCHEMA_COLUMNS], [{ tradeId: 't1', ticker: 'XYZ', pnl: '120' }], 1);
+
+    expect(table.headers.slice(0, BASE_SCHEMA_COLUMNS.length)).toEqual(BASE_SCHEMA_COLUMNS);
+    expect(table.headers).toEqual(expect.arrayContaining(SCHEMA_MIGRATIONS.flatMap(migration => migration.columns)));
+    expect(table.records[0]).toMatchObject({ tradeId: 't1', direction: 'long', grossPnl: '120', commission: '', currency: '' });
+  });
+
+  it('leaves columns a file already has untouched', () => {
+    const table = migrate(['id', 'direction'], [{ tradeId: 't1', direction: 'short' }], 2);
+
+    expect(table.headers.filter(header => header === 'direction')).toHaveLength(1);
+    expect(table.records[0].direction).toBe('short');
+  });
+});
+
+describe('inferSchemaVersion', () => {
+  it('places files without a marker by the columns they have', () => {
+    expect(inferSchemaVersion(BASE_SCHEMA_COLUMNS)).toBe(1);
+    expect(inferSchemaVersion([...BASE_SCHEMA_COLUMNS, 'executions', 'direction'])).toBe(3);
+    expect(inferSchemaVersion(migrate([...BASE_SCHEMA_COLUMNS], [], 1).headers)).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('stops at the first version whose columns are missing', () => {
+    expect(inferSchemaVersion([...BASE_SCHEMA_COLUMNS, 'executions', 'currency'])).toBe(2);
+  });
+});
+
+describe('getPendingSchemaMigrations', () => {
+  it('lists the migrations after the given version', () => {
+    expect(getPendingSchemaMigrations(CURRENT_SCHEMA_VERSION - 2).map(migration => migration.version))
+      .toEqual([CURRENT_SCHEMA_VERSION - 1, CURRENT_SCHEMA_VERSION]);
+    expect(getPendingSchemaMigrations(CURRENT_SCHEMA_VERSION)).toEqual([]);
+  });
+});
+
+describe('DataMigrationService.runSchemaMigrations', () => {
+  let files: Map<string, string>;
+  const fileService = {
+    exists: async (path: string) => ({ success: true, data: files.has(path) }),
+    readFile: async (path: string) => files.has(path)
+      ? { success: true, data: files.get(path) }
+      : { success: false, error: 'not found' },
+    writeFile: async (path: string, content: string) => {
+      files.set(path, content);
+      return { success: true };
+    },
+    createDir: async () => ({ success: true })
+  };
+  const service = (dryRun = false) => new DataMigrationService({ dataDirectory: '/data', fileService, dryRun });
+  const baseCSV = `${BASE_SCHEMA_COLUMNS.join(',')}\n` +
+    BASE_SCHEMA_COLUMNS.map(column => ({ tradeId: 't1', ticker: 'XYZ', pnl: '120' } as Record<string, string>)[column] || '').join(',') + '\n';
+  const marker = () => JSON.parse(files.get(`/data/${TRADES_SCHEMA_FILE}`) || 'null');
+
+  beforeEach(() => {
+    files = new Map([['/data/trades.csv', baseCSV]]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('upgrades an unmarked first-version file, backing it up and recording each step', async () => {
+    const result = await service().runSchemaMigrations();
+
+    expect(result).toMatchObject({ success: true, fromVersion: 1, toVersion: CURRENT_SCHEMA_VERSION, errors: [] });
+    expect(result.applied).toHaveLength(CURRENT_SCHEMA_VERSION - 1);
+
+    const table = toRecords(parseCSV(files.get('/data/trades.csv')!));
+    expect(inferSchemaVersion(table.headers)).toBe(CURRENT_SCHEMA_VERSION);
+    expect(table.records[0]).toMatchObject({ tradeId: 't1', direction: 'long', grossPnl: '120' });
+
+    expect(marker().version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(marker().history.map((step: { version: number }) => step.version)).toEqual(SCHEMA_MIGRATIONS.map(m => m.version));
+    expect(files.get(result.applied[0].backupPath!)).toBe(baseCSV);
+  });
+
+  it('changes nothing on a dry run', async () => {
+    const result = await service(true).runSchemaMigrations();
+
+    expect(result).toMatchObject({ success: true, toVersion: CURRENT_SCHEMA_VERSION });
+    expect([...files.keys()]).toEqual(['/data/trades.csv']);
+    expect(files.get('/data/trades.csv')).toBe(baseCSV);
+  });
+
+  it('refuses a file marked newer than this app', async () => {
+    files.set(`/data/${TRADES_SCHEMA_FILE}`, JSON.stringify({ version: CURRENT_SCHEMA_VERSION + 1, history: [] }));
+
+    const result = await service().runSchemaMigrations();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain(`schema version ${CURRENT_SCHEMA_VERSION + 1}`);
+    expect(files.get('/data/trades.csv')).toBe(baseCSV);
+  });
+
+  it('marks a current file that has no marker yet', async () => {
+    await service().runSchemaMigrations();
+    files.delete(`/data/${TRADES_SCHEMA_FILE}`);
+
+    const result = await service().runSchemaMigrations();
+
+    expect(result).toMatchObject({ success: true, fromVersion: CURRENT_SCHEMA_VERSION, applied: [] });
+    expect(marker()).toEqual({ version: CURRENT_SCHEMA_VERSION, history: [] });
+  });
+});
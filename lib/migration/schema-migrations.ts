@@ -0,0 +1,159 @@
+/**
+ * Schema versions of trades.csv
+ * Each migration upgrades the file by one version; the version a file is at is recorded
+ * next to it in trades.schema.json, see DataMigrationService.runSchemaMigrations
+ */
+
+export const TRADES_SCHEMA_FILE = 'trades.schema.json';
+
+// Columns of the first trades.csv, before any migration
+export const BASE_SCHEMA_COLUMNS = [
+  'tradeId',
+  'ticker',
+  'buyDate',
+  'sellDate',
+  'quantity',
+  'buyPrice',
+  'sellPrice',
+  'pnl',
+  'holdingDays',
+  'folderPath',
+  'createdAt',
+  'updatedAt'
+];
+
+export interface SchemaTable {
+  headers: string[];
+  records: Record<string, string>[];
+}
+
+export interface SchemaMigration {
+  version: number; // Version the file is at after this migration
+  description: string;
+  columns: string[]; // Columns this migration adds, used to place files that have no marker
+  migrate: (table: SchemaTable) => SchemaTable;
+}
+
+export interface AppliedSchemaMigration {
+  version: number;
+  description: string;
+  appliedAt: string; // ISO timestamp
+  records: number;
+  backupPath?: string;
+}
+
+// Contents of trades.schema.json
+export interface SchemaMarker {
+  version: number;
+  history: AppliedSchemaMigration[];
+}
+
+/**
+ * Append columns, filling each record from fill (blank when not given).
+ * Columns the file already has are left as they are.
+ */
+function addColumns(
+  table: SchemaTable,
+  columns: string[],
+  fill: (record: Record<string, string>, column: string) => string = () => ''
+): SchemaTable {
+  const added = columns.filter(column => !table.headers.includes(column));
+
+  return {
+    headers: [...table.headers, ...added],
+    records: table.records.map(record => {
+      const next = { ...record };
+      for (const column of added) {
+        next[column] = fill(record, column);
+      }
+      return next;
+    })
+  };
+}
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 2,
+    description: 'Add execution legs',
+    columns: ['executions'],
+    migrate: table => addColumns(table, ['executions'])
+  },
+  {
+    version: 3,
+    description: 'Add trade direction',
+    columns: ['direction'],
+    // Every trade before directions was a long
+    migrate: table => addColumns(table, ['direction'], () => 'long')
+  },
+  {
+    version: 4,
+    description: 'Add fees, tax withholding and gross P&L',
+    columns: ['commission', 'entryFee', 'exitFee', 'taxWithholding', 'grossPnl'],
+    // No fees were recorded yet, so P&L was already gross
+    migrate: table => addColumns(
+      table,
+      ['commission', 'entryFee', 'exitFee', 'taxWithholding', 'grossPnl'],
+      (record, column) => column === 'grossPnl' ? record.pnl || '' : ''
+    )
+  },
+  {
+    version: 5,
+    description: 'Add trade currency',
+    columns: ['currency'],
+    migrate: table => addColumns(table, ['currency'])
+  },
+  {
+    version: 6,
+    description: 'Add accounts',
+    columns: ['accountId'],
+    migrate: table => addColumns(table, ['accountId'])
+  },
+  {
+    version: 7,
+    description: 'Add stop loss, target and initial risk',
+    columns: ['stopLoss', 'targetPrice', 'initialRisk'],
+    migrate: table => addColumns(table, ['stopLoss', 'targetPrice', 'initialRisk'])
+  },
+  {
+    version: 8,
+    description: 'Add setups',
+    columns: ['strategyId'],
+    migrate: table => addColumns(table, ['strategyId'])
+  },
+  {
+    version: 9,
+    description: 'Add tags',
+    columns: ['tags'],
+    migrate: table => addColumns(table, ['tags'])
+  },
+  {
+    version: 10,
+    description: 'Add import fingerprints',
+    columns: ['importFingerprint'],
+    migrate: table => addColumns(table, ['importFingerprint'])
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Version of a file written before markers existed: the last version whose
+ * columns (and every earlier version's) are all present
+ */
+export function inferSchemaVersion(headers: string[]): number {
+  let version = 1;
+  for (const migration of SCHEMA_MIGRATIONS) {
+    if (!migration.columns.every(column => headers.includes(column))) {
+      break;
+    }
+    version = migration.version;
+  }
+  return version;
+}
+
+/**
+ * Migrations that take a file at version up to CURRENT_SCHEMA_VERSION, in order
+ */
+export function getPendingSchemaMigrations(version: number): SchemaMigration[] {
+  return SCHEMA_MIGRATIONS.filter(migration => migration.version > version);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CSVParser } from '@/lib/parsers/csv-parser';
+
+describe('CSVParser.detectDelimiter', () => {
+  it('picks the delimiter that splits every line the same way', () => {
+    expect(CSVParser.detectDelimiter('date;price;note\n2024-03-04;1,5;a, b\n2024-03-05;2,5;c\n')).toBe(';');
+    expect(CSVParser.detectDelimiter('date\tprice\n2024-03-04\t1.5\n')).toBe('\t');
+    expect(CSVParser.detectDelimiter('date|price\n2024-03-04|1.5\n')).toBe('|');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(CSVParser.detectDelimiter('a,b\n"x;y;z",1\n"p;q",2\n')).toBe(',');
+  });
+
+  it('defaults to a comma', () => {
+    expect(CSVParser.detectDelimiter('')).toBe(',');
+    expect(CSVParser.detectDelimiter('single\ncolumn\n')).toBe(',');
+  });
+});
+
+describe('CSVParser.detectNumberFormat', () => {
+  it('recognises a decimal comma', () => {
+    expect(CSVParser.detectNumberFormat(['1.234,56', '12,5'])).toEqual({ decimalSeparator: ',', thousandsSeparator: '.' });
+    expect(CSVParser.detectNumberFormat(["1'234,50"])).toEqual({ decimalSeparator: ',', thousandsSeparator: "'" });
+  });
+
+  it('recognises a decimal point', () => {
+    expect(CSVParser.detectNumberFormat(['$1,234.56', '12.5'])).toEqual({ decimalSeparator: '.', thousandsSeparator: ',' });
+  });
+
+  it('ignores dates and lets a semicolon delimiter decide ambiguous values', () => {
+    expect(CSVParser.detectNumberFormat(['05.01.2024', '1,234'], ';')).toEqual({ decimalSeparator: ',', thousandsSeparator: '.' });
+    expect(CSVParser.detectNumberFormat(['05.01.2024', '1,234'], ',')).toEqual({ decimalSeparator: '.', thousandsSeparator: ',' });
+  });
+});
+
+describe('CSVParser.parseText', () => {
+  it('parses with the detected delimiter and reports the detection', async () => {
+    const data = await CSVParser.parseText('Datum;Kurs\n04.03.2024;1.234,5\n05.03.2024;12,25\n');
+
+    expect(data.headers).toEqual(['Datum', 'Kurs']);
+    expect(data.rows).toEqual([
+      { Datum: '04.03.2024', Kurs: '1.234,5' },
+      { Datum: '05.03.2024', Kurs: '12,25' }
+    ]);
+    expect(data.detection).toEqual({
+      encoding: 'UTF-8',
+      delimiter: ';',
+      numberFormat: { decimalSeparator: ',', thousandsSeparator: '.' }
+    });
+  });
+
+  it('keeps every line as data without a header row', async () => {
+    const data = await CSVParser.parseText('a,b\nc,d\n', { header: false });
+
+    expect(data.headers).toEqual([]);
+    expect(data.rawData).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
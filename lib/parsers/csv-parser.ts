@@ -1,82 +1,163 @@
-import Papa from 'papaparse';
-import { CSVData, CSVParseOptions } from '@/types/csv';
+import { CSVData, CSVNumberFormat, CSVParseOptions } from '@/types/csv';
+import { FileUtils } from '@/lib/file-system/file-utils';
+import { TextEncodingDetector } from '@/lib/parsers/text-encoding';
+import { parseCSV, toRecords } from '@/lib/csv/csv-codec';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Rows sampled for delimiter and number format detection
+const SAMPLE_ROWS = 50;
 
 export class CSVParser {
+  /**
+   * Parse a file, detecting its encoding from the bytes unless one is given
+   */
   static async parseFile(file: File, options?: CSVParseOptions): Promise<CSVData> {
-    return new Promise((resolve, reject) => {
-      Papa.parse(file, {
-        header: options?.header ?? true,
-        delimiter: options?.delimiter ?? '',
-        skipEmptyLines: options?.skipEmptyLines ?? true,
-        encoding: options?.encoding ?? 'UTF-8',
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            reject(new Error(`CSV parsing error: ${results.errors[0].message}`));
-            return;
-          }
-
-          const headers = results.meta.fields || [];
-          const rows = results.data as Record<string, string | number>[];
-          
-          resolve({
-            headers,
-            rows,
-            rawData: results.data as string[][]
-          });
-        },
-        error: (error: any) => {
-          reject(error);
-        }
-      });
-    });
+    const bytes = new Uint8Array(await FileUtils.readFileAsArrayBuffer(file));
+    const encoding = options?.encoding && options.encoding !== 'auto'
+      ? options.encoding
+      : TextEncodingDetector.detect(bytes);
+
+    return this.parseText(TextEncodingDetector.decode(bytes, encoding), { ...options, encoding });
   }
 
   static async parseText(text: string, options?: CSVParseOptions): Promise<CSVData> {
-    return new Promise((resolve, reject) => {
-      Papa.parse(text, {
-        header: options?.header ?? true,
-        delimiter: options?.delimiter ?? '',
-        skipEmptyLines: options?.skipEmptyLines ?? true,
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            reject(new Error(`CSV parsing error: ${results.errors[0].message}`));
-            return;
-          }
-
-          const headers = results.meta.fields || [];
-          const rows = results.data as Record<string, string | number>[];
-          
-          resolve({
-            headers,
-            rows,
-            rawData: results.data as string[][]
-          });
-        },
-        error: (error: any) => {
-          reject(error);
-        }
-      });
-    });
+    const delimiter = options?.delimiter || this.detectDelimiter(text);
+    const table = parseCSV(text, { delimiter });
+
+    // Without a header row every line is data and there are no named columns
+    const { headers, records } = options?.header === false
+      ? { headers: [], records: [] }
+      : toRecords(table);
+    const rows: Record<string, string | number>[] = records;
+
+    return {
+      headers,
+      rows,
+      rawData: options?.header === false ? table : table.slice(1),
+      detection: {
+        encoding: options?.encoding && options.encoding !== 'auto' ? options.encoding : 'UTF-8',
+        delimiter,
+        numberFormat: this.detectNumberFormat(
+          rows.slice(0, SAMPLE_ROWS).flatMap(row => Object.values(row).map(value => String(value ?? ''))),
+          delimiter
+        )
+      }
+    };
   }
 
+  /**
+   * The delimiter that splits the first lines into the same, largest number of fields.
+   * Delimiters inside quoted fields don't count.
+   */
   static detectDelimiter(text: string): string {
-    const sample = text.split('\n')[0];
-    const delimiters = [',', ';', '\t', '|'];
-    
-    let maxCount = 0;
+    const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0).slice(0, 10);
+    if (lines.length === 0) {
+      return ',';
+    }
+
     let bestDelimiter = ',';
-    
-    for (const delimiter of delimiters) {
-      const count = sample.split(delimiter).length - 1;
-      if (count > maxCount) {
-        maxCount = count;
+    let bestConsistency = 0;
+    let bestCount = 0;
+
+    for (const delimiter of DELIMITERS) {
+      const counts = lines.map(line => this.countUnquoted(line, delimiter));
+      if (counts[0] === 0) {
+        continue;
+      }
+
+      const consistency = counts.filter(count => count === counts[0]).length / counts.length;
+      if (consistency > bestConsistency || (consistency === bestConsistency && counts[0] > bestCount)) {
         bestDelimiter = delimiter;
+        bestConsistency = consistency;
+        bestCount = counts[0];
       }
     }
-    
+
     return bestDelimiter;
   }
 
+  /**
+   * Decimal and thousands separators from a sample of cell values.
+   * "1.234,56" and "12,5" vote for a decimal comma, "1,234.56" and "12.5" for a decimal point;
+   * values that could be either ("1,234") only decide when nothing else does,
+   * and then a semicolon delimiter suggests the European style.
+   */
+  static detectNumberFormat(values: string[], delimiter: string = ','): CSVNumberFormat {
+    let decimalComma = 0;
+    let decimalPoint = 0;
+    const groupVotes = new Map<string, number>();
+    const voteGroup = (separator: string) => groupVotes.set(separator, (groupVotes.get(separator) || 0) + 1);
+
+    for (const raw of values) {
+      const value = raw.trim().replace(/^[-+(]?[$€£¥￥]?/, '').replace(/\)$/, '');
+      if (!/^\d[\d.,' ]*$/.test(value) || !/[.,]/.test(value)) {
+        continue;
+      }
+      // Dates like 05.01.2024 and other repeated separators that aren't digit grouping
+      const dots = value.split('.').length - 1;
+      const commas = value.split(',').length - 1;
+      if ((dots > 1 && !/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(value)) || (commas > 1 && !/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(value))) {
+        continue;
+      }
+
+      const lastComma = value.lastIndexOf(',');
+      const lastDot = value.lastIndexOf('.');
+      const grouping = value.match(/^\d{1,3}(['\s]\d{3})+/);
+      if (grouping) {
+        voteGroup(grouping[1][0]);
+      }
+
+      if (lastComma >= 0 && lastDot >= 0) {
+        if (lastComma > lastDot) {
+          decimalComma++;
+          voteGroup('.');
+        } else {
+          decimalPoint++;
+          voteGroup(',');
+        }
+      } else if (lastComma >= 0) {
+        if (!/^\d{1,3}(,\d{3})+$/.test(value)) {
+          decimalComma++;
+        } else if (commas > 1) {
+          decimalPoint++;
+          voteGroup(',');
+        }
+      } else if (lastDot >= 0) {
+        if (dots > 1) {
+          decimalComma++;
+          voteGroup('.');
+        } else if (!/^\d{1,3}\.\d{3}$/.test(value)) {
+          decimalPoint++;
+        }
+      }
+    }
+
+    const commaStyle = decimalComma > decimalPoint || (decimalComma === 0 && decimalPoint === 0 && delimiter === ';');
+    if (commaStyle) {
+      const candidates = ['.', ' ', "'"].filter(separator => groupVotes.has(separator));
+      const thousandsSeparator = candidates.sort((a, b) => groupVotes.get(b)! - groupVotes.get(a)!)[0] ?? '.';
+      return { decimalSeparator: ',', thousandsSeparator };
+    }
+
+    const candidates = [',', ' ', "'"].filter(separator => groupVotes.has(separator));
+    const thousandsSeparator = candidates.sort((a, b) => groupVotes.get(b)! - groupVotes.get(a)!)[0] ?? ',';
+    return { decimalSeparator: '.', thousandsSeparator };
+  }
+
+  private static countUnquoted(line: string, delimiter: string): number {
+    let count = 0;
+    let quoted = false;
+    for (const char of line) {
+      if (char === '"') {
+        quoted = !quoted;
+      } else if (char === delimiter && !quoted) {
+        count++;
+      }
+    }
+    return count;
+  }
+
   static validateHeaders(headers: string[], requiredColumns: string[]): string[] {
     const missing = requiredColumns.filter(col => !headers.includes(col));
     return missing;
@@ -89,4 +170,4 @@ export class CSVParser {
       rawData: data.rawData.slice(0, limit)
     };
   }
-}
\ No newline at end of file
+}
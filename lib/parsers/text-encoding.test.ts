@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { TextEncodingDetector } from '@/lib/parsers/text-encoding';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// "約定日,売買\n" in each legacy Japanese encoding, followed by ASCII rows
+const SHIFT_JIS_HEADER = [0x96, 0xf1, 0x92, 0xe8, 0x93, 0xfa, 0x2c, 0x94, 0x84, 0x94, 0x83, 0x0a];
+const EUC_JP_HEADER = [0xcc, 0xf3, 0xc4, 0xea, 0xc6, 0xfc, 0x2c, 0xc7, 0xe4, 0xc7, 0xe3, 0x0a];
+
+describe('TextEncodingDetector.detect', () => {
+  it('recognises byte order marks', () => {
+    expect(TextEncodingDetector.detect(Uint8Array.from([0xef, 0xbb, 0xbf, ...ascii('a,b')]))).toBe('UTF-8-BOM');
+    expect(TextEncodingDetector.detect(Uint8Array.from([0xff, 0xfe, 0x61, 0x00]))).toBe('UTF-16LE');
+    expect(TextEncodingDetector.detect(Uint8Array.from([0xfe, 0xff, 0x00, 0x61]))).toBe('UTF-16BE');
+  });
+
+  it('recognises UTF-16 without a BOM from its zero bytes', () => {
+    const le = ascii('date,price\n').flatMap(byte => [byte, 0]);
+
+    expect(TextEncodingDetector.detect(Uint8Array.from(le))).toBe('UTF-16LE');
+    expect(TextEncodingDetector.detect(Uint8Array.from(le.slice(1)))).toBe('UTF-16BE');
+  });
+
+  it('reads ASCII and valid UTF-8 as UTF-8', () => {
+    expect(TextEncodingDetector.detect(new TextEncoder().encode('約定日,売買\n2024-03-04,買付\n'))).toBe('UTF-8');
+  });
+
+  it('tells Shift_JIS from EUC-JP', () => {
+    const rows = ascii('2024-03-04,100\n');
+
+    expect(TextEncodingDetector.detect(Uint8Array.from([...SHIFT_JIS_HEADER, ...rows]))).toBe('Shift_JIS');
+    expect(TextEncodingDetector.detect(Uint8Array.from([...EUC_JP_HEADER, ...rows]))).toBe('EUC-JP');
+  });
+
+  it('falls back to Windows-1252 for other 8-bit text', () => {
+    expect(TextEncodingDetector.detect(Uint8Array.from([...ascii('Caf'), 0xe9, ...ascii(',3\n')]))).toBe('windows-1252');
+  });
+});
+
+describe('TextEncodingDetector.decode', () => {
+  it('decodes legacy encodings and drops the BOM', () => {
+    expect(TextEncodingDetector.decode(Uint8Array.from(SHIFT_JIS_HEADER), 'Shift_JIS')).toBe('約定日,売買\n');
+    expect(TextEncodingDetector.decode(Uint8Array.from([0xef, 0xbb, 0xbf, ...ascii('a,b')]), 'UTF-8-BOM')).toBe('a,b');
+  });
+});
@@ -0,0 +1,120 @@
+import { CSVEncoding } from '@/types/csv';
+
+export const SUPPORTED_ENCODINGS: CSVEncoding[] = ['UTF-8', 'UTF-8-BOM', 'Shift_JIS', 'EUC-JP', 'UTF-16LE', 'UTF-16BE', 'windows-1252'];
+
+// How many bytes are inspected; a broker export's first rows are enough to tell encodings apart
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Guesses the text encoding of a file from its bytes and decodes it.
+ * Covers what trade exports are actually written in: UTF-8 (with or without BOM),
+ * UTF-16 (Excel's "Unicode Text") and the two legacy Japanese encodings, with
+ * Windows-1252 as the fallback for European exports that are neither.
+ */
+export class TextEncodingDetector {
+  static detect(bytes: Uint8Array): CSVEncoding {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return 'UTF-8-BOM';
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return 'UTF-16LE';
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return 'UTF-16BE';
+    }
+
+    const sample = bytes.subarray(0, SAMPLE_BYTES);
+
+    // UTF-16 without a BOM: ASCII characters leave every other byte zero
+    const utf16 = this.detectUTF16(sample);
+    if (utf16) {
+      return utf16;
+    }
+
+    // Plain ASCII and valid UTF-8 are read as UTF-8; legacy Japanese text is almost never valid UTF-8
+    if (this.isValidUTF8(sample)) {
+      return 'UTF-8';
+    }
+
+    const shiftJIS = this.scoreJapanese(sample, 'Shift_JIS');
+    const eucJP = this.scoreJapanese(sample, 'EUC-JP');
+    if (shiftJIS <= 0 && eucJP <= 0) {
+      return 'windows-1252';
+    }
+    return shiftJIS >= eucJP ? 'Shift_JIS' : 'EUC-JP';
+  }
+
+  /**
+   * Decode with the given encoding; the UTF BOMs are dropped
+   */
+  static decode(bytes: Uint8Array, encoding: string): string {
+    const label = encoding.toUpperCase() === 'UTF-8-BOM' ? 'utf-8' : encoding;
+    const text = new TextDecoder(label).decode(bytes);
+    return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  }
+
+  private static detectUTF16(sample: Uint8Array): CSVEncoding | null {
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs < 2) {
+      return null;
+    }
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+
+    if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+      return 'UTF-16LE';
+    }
+    if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+      return 'UTF-16BE';
+    }
+    return null;
+  }
+
+  private static isValidUTF8(sample: Uint8Array): boolean {
+    let i = 0;
+    while (i < sample.length) {
+      const byte = sample[i];
+      const length = byte < 0x80 ? 1 : byte >= 0xc2 && byte <= 0xdf ? 2 : byte >= 0xe0 && byte <= 0xef ? 3 : byte >= 0xf0 && byte <= 0xf4 ? 4 : 0;
+      if (length === 0) {
+        return false;
+      }
+      // The sample may cut a character in half
+      if (i + length > sample.length) {
+        return sample.length === SAMPLE_BYTES;
+      }
+      for (let j = 1; j < length; j++) {
+        if ((sample[i + j] & 0xc0) !== 0x80) {
+          return false;
+        }
+      }
+      i += length;
+    }
+    return true;
+  }
+
+  /**
+   * How plausible the sample reads as Japanese text in an encoding. The two legacy
+   * encodings overlap byte-wise, but read the wrong way round EUC-JP turns into
+   * half-width katakana and Shift_JIS into unmapped characters.
+   */
+  private static scoreJapanese(sample: Uint8Array, encoding: CSVEncoding): number {
+    const text = new TextDecoder(encoding).decode(sample);
+    let score = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (code === 0xfffd) {
+        score -= 5;
+      } else if (code >= 0xff61 && code <= 0xff9f) {
+        score -= 1; // Half-width katakana
+      } else if ((code >= 0x3040 && code <= 0x30ff) || (code >= 0x4e00 && code <= 0x9fff) || (code >= 0xff01 && code <= 0xff5e)) {
+        score += 2; // Kana, kanji and full-width forms
+      }
+    }
+    return score;
+  }
+}
@@ -0,0 +1,76 @@
+import { Account } from '@/types/account';
+import { AppConfig } from '@/types/app';
+import { generateId } from '@/lib/utils';
+import path from 'path';
+
+export const ACCOUNTS_FILE = 'accounts.json';
+
+type AccountLocation = Pick<AppConfig, 'dataDirectory' | 'portfolioDirectory'>;
+
+export class AccountService {
+  /**
+   * Accounts live in the portfolio directory: {dataDirectory}/{portfolioDirectory}/accounts.json
+   */
+  static getAccountsFilePath(config: AccountLocation): string {
+    return path.join(config.dataDirectory, config.portfolioDirectory || 'portfolios', ACCOUNTS_FILE);
+  }
+
+  static async loadAccounts(config: AccountLocation): Promise<{ success: boolean; data?: Account[]; error?: string }> {
+    try {
+      const filePath = this.getAccountsFilePath(config);
+      const existsResult = await window.electronAPI.fs.exists(filePath);
+
+      if (!existsResult.data) {
+        return { success: true, data: [] };
+      }
+
+      const readResult = await window.electronAPI.fs.readFile(filePath);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      const accounts = JSON.parse(readResult.data || '[]') as Account[];
+      return { success: true, data: accounts };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load accounts'
+      };
+    }
+  }
+
+  static async saveAccounts(config: AccountLocation, accounts: Account[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const filePath = this.getAccountsFilePath(config);
+      const directory = path.dirname(filePath);
+
+      const existsResult = await window.electronAPI.fs.exists(directory);
+      if (!existsResult.data) {
+        await window.electronAPI.fs.createDir(directory);
+      }
+
+      const writeResult = await window.electronAPI.fs.writeFile(filePath, JSON.stringify(accounts, null, 2));
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save accounts'
+      };
+    }
+  }
+
+  static createAccount(fields: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>): Account {
+    const now = new Date().toISOString();
+    return {
+      ...fields,
+      id: generateId(),
+      currency: fields.currency.toUpperCase(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+}
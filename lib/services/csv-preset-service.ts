@@ -0,0 +1,184 @@
+import { CSVMapping, CSVMappingPreset } from '@/types/csv';
+import { AppConfig } from '@/types/app';
+import { BUILT_IN_PRESETS } from '@/lib/csv-mapper/broker-presets';
+import { TransformExpression } from '@/lib/csv-mapper/transform-expression';
+import path from 'path';
+
+export const PRESETS_DIRECTORY = 'import-presets';
+
+type PresetLocation = Pick<AppConfig, 'dataDirectory'>;
+
+/**
+ * Import presets: the built-in broker catalogue plus user presets stored as JSON
+ * at {dataDirectory}/import-presets/*.json. A file holds one preset or an array of them,
+ * in the CSVMappingPreset shape, so presets can be shared by copying files.
+ */
+export class CSVPresetService {
+  static getPresetsDirectory(config: PresetLocation): string {
+    return path.join(config.dataDirectory, PRESETS_DIRECTORY);
+  }
+
+  /**
+   * User presets first, so a user preset for the same headers wins detection
+   */
+  static async loadPresets(config: PresetLocation): Promise<{ success: boolean; data?: CSVMappingPreset[]; error?: string }> {
+    const userResult = await this.loadUserPresets(config);
+    return {
+      success: userResult.success,
+      data: [...(userResult.data || []), ...BUILT_IN_PRESETS.map(preset => ({ ...preset, source: 'built-in' as const }))],
+      error: userResult.error
+    };
+  }
+
+  /**
+   * Read every preset file. A missing directory means no user presets;
+   * files that aren't valid presets are logged and skipped.
+   */
+  static async loadUserPresets(config: PresetLocation): Promise<{ success: boolean; data?: CSVMappingPreset[]; error?: string }> {
+    try {
+      const directory = this.getPresetsDirectory(config);
+      const existsResult = await window.electronAPI.fs.exists(directory);
+      if (!existsResult.data) {
+        return { success: true, data: [] };
+      }
+
+      const readResult = await window.electronAPI.fs.readDir(directory);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      const presets: CSVMappingPreset[] = [];
+      for (const item of readResult.data || []) {
+        if (item.type !== 'file' || path.extname(item.name).toLowerCase() !== '.json') {
+          continue;
+        }
+
+        const fileResult = await window.electronAPI.fs.readFile(path.join(directory, item.name));
+        if (!fileResult.success) {
+          console.error(`Error reading import preset ${item.name}:`, fileResult.error);
+          continue;
+        }
+
+        try {
+          const parsed = JSON.parse(fileResult.data || '');
+          const entries: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+          entries.forEach((entry, index) => {
+            const preset = this.toPreset(entry, `${path.basename(item.name, '.json')}-${index + 1}`);
+            if (preset) {
+              presets.push(preset);
+            } else {
+              console.error(`Skipping invalid import preset in ${item.name} (entry ${index + 1})`);
+            }
+          });
+        } catch (error) {
+          console.error(`Error parsing import preset ${item.name}:`, error);
+        }
+      }
+
+      return { success: true, data: presets.sort((a, b) => a.name.localeCompare(b.name)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load import presets'
+      };
+    }
+  }
+
+  /**
+   * Save a mapping as a user preset. Detection uses every column the mapping reads,
+   * so the preset is only suggested for files that can actually be imported with it.
+   */
+  static async savePreset(
+    config: PresetLocation,
+    mapping: CSVMapping,
+    name: string,
+    broker?: string
+  ): Promise<{ success: boolean; data?: CSVMappingPreset; error?: string }> {
+    try {
+      // The account and bookkeeping fields belong to this import, not to the format
+      const presetMapping: Partial<CSVMapping> = { ...mapping };
+      delete presetMapping.id;
+      delete presetMapping.name;
+      delete presetMapping.accountId;
+      delete presetMapping.createdAt;
+      delete presetMapping.updatedAt;
+
+      // Computed columns aren't in the file; the columns their expressions read are
+      const computedNames = (mapping.computedColumns || []).map(column => column.name);
+      const detectHeaders = Array.from(new Set([
+        ...Object.values(mapping.columnMapping),
+        mapping.executionLog?.actionColumn,
+        mapping.executionLog?.dateColumn,
+        mapping.executionLog?.priceColumn,
+        mapping.executionLog?.feesColumn,
+        ...(mapping.computedColumns || []).flatMap(column =>
+          TransformExpression.columnReferences(TransformExpression.parse(column.expression))
+        )
+      ].filter((column): column is string => !!column && !computedNames.includes(column))));
+
+      const fileName = this.toFileName(name);
+      const preset: CSVMappingPreset = {
+        id: `user-${fileName}`,
+        name: name.trim(),
+        broker: broker?.trim() || name.trim(),
+        description: mapping.description,
+        detectHeaders,
+        mapping: presetMapping as CSVMappingPreset['mapping']
+      };
+
+      const directory = this.getPresetsDirectory(config);
+      const createResult = await window.electronAPI.fs.createDir(directory);
+      if (!createResult.success) {
+        return { success: false, error: createResult.error };
+      }
+
+      const writeResult = await window.electronAPI.fs.writeFile(
+        path.join(directory, `${fileName}.json`),
+        JSON.stringify(preset, null, 2)
+      );
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error };
+      }
+
+      return { success: true, data: { ...preset, source: 'user' } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save import preset'
+      };
+    }
+  }
+
+  private static toFileName(name: string): string {
+    return name.trim().toLowerCase().replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'preset';
+  }
+
+  /**
+   * Accept anything with a name, detection headers and the columns a mapping needs
+   */
+  private static toPreset(value: unknown, fallbackId: string): CSVMappingPreset | null {
+    const candidate = value as Partial<CSVMappingPreset> | null;
+    const mapping = candidate?.mapping;
+    if (
+      !candidate ||
+      typeof candidate.name !== 'string' ||
+      !Array.isArray(candidate.detectHeaders) ||
+      !mapping ||
+      !mapping.columnMapping ||
+      typeof mapping.dateFormat !== 'string' ||
+      (mapping.importMode === 'execution-log' && !mapping.executionLog)
+    ) {
+      return null;
+    }
+
+    return {
+      ...candidate,
+      id: candidate.id || `user-${fallbackId}`,
+      name: candidate.name,
+      broker: candidate.broker || candidate.name,
+      detectHeaders: candidate.detectHeaders.map(String),
+      mapping,
+      source: 'user'
+    };
+  }
+}
@@ -3,6 +3,7 @@ import { Trade } from '@/types/trade';
 import { CSVMapping } from '@/types/csv';
 import { AppConfig } from '@/types/app';
 import { FileSystemItem } from '@/types/app';
+import { BackupGroupId, BackupInfo, BackupPreview, BackupRestoreResult } from '@/types/backup';
 
 declare global {
   interface Window {
@@ -11,6 +12,7 @@ declare global {
         readImageAsDataUrl: any;
         readFile: (filePath: string) => Promise<{ success: boolean; data?: string; error?: string }>;
         writeFile: (filePath: string, data: string) => Promise<{ success: boolean; error?: string }>;
+        appendFile: (filePath: string, data: string) => Promise<{ success: boolean; error?: string }>;
         readDir: (dirPath: string) => Promise<{ success: boolean; data?: FileSystemItem[]; error?: string }>;
         createDir: (dirPath: string) => Promise<{ success: boolean; error?: string }>;
         deleteFile: (filePath: string) => Promise<{ success: boolean; error?: string }>;
@@ -19,6 +21,7 @@ declare global {
         stat: (path: string) => Promise<{ success: boolean; data?: any; error?: string }>;
         copyFile: (src: string, dest: string) => Promise<{ success: boolean; error?: string }>;
         moveFile: (src: string, dest: string) => Promise<{ success: boolean; error?: string }>;
+        writeImageFromDataUrl: (filePath: string, dataUrl: string) => Promise<{ success: boolean; error?: string }>;
       };
       trades: {
         loadTrades: (directory: string) => Promise<{ success: boolean; data?: Trade[]; error?: string }>;
@@ -33,7 +36,6 @@ declare global {
         loadCSVMappings: (directory: string) => Promise<{ success: boolean; data?: CSVMapping[]; error?: string }>;
         saveCSVMapping: (mapping: CSVMapping, directory: string) => Promise<{ success: boolean; error?: string }>;
         readTradesCSV: (filePath: string) => Promise<{ success: boolean; data?: Trade[]; error?: string }>;
-        writeTradesCSV: (trades: Trade[], filePath: string) => Promise<{ success: boolean; error?: string }>;
       };
       config: {
         loadConfig: () => Promise<{ success: boolean; data?: AppConfig; error?: string }>;
@@ -46,13 +48,22 @@ declare global {
         showMessageBox: (options: any) => Promise<{ success: boolean; data?: any; error?: string }>;
         showErrorBox: (title: string, content: string) => Promise<{ success: boolean; error?: string }>;
       };
+      backup: {
+        list: () => Promise<{ success: boolean; data?: BackupInfo[]; error?: string }>;
+        create: (options?: { includeTradeFolders?: boolean }) => Promise<{ success: boolean; data?: BackupInfo; error?: string }>;
+        preview: (fileName: string) => Promise<{ success: boolean; data?: BackupPreview; error?: string }>;
+        restore: (fileName: string, groups: BackupGroupId[]) => Promise<{ success: boolean; data?: BackupRestoreResult; error?: string }>;
+      };
+      mcp: {
+        installSharedModules: (serverDirectory: string) => Promise<{ success: boolean; error?: string }>;
+      };
       fileWatcher: {
         watchDirectory: (directoryPath: string, watchId: string) => Promise<{ success: boolean; error?: string }>;
         unwatchDirectory: (watchId: string) => Promise<{ success: boolean; error?: string }>;
-        onFileAdded: (callback: (event: any, data: any) => void) => void;
-        onFileChanged: (callback: (event: any, data: any) => void) => void;
-        onFileRemoved: (callback: (event: any, data: any) => void) => void;
-        onError: (callback: (event: any, data: any) => void) => void;
+        onFileAdded: (callback: (event: any, data: any) => void) => () => void;
+        onFileChanged: (callback: (event: any, data: any) => void) => () => void;
+        onFileRemoved: (callback: (event: any, data: any) => void) => () => void;
+        onError: (callback: (event: any, data: any) => void) => () => void;
         removeAllListeners: () => void;
       };
       app: {
@@ -332,16 +343,4 @@ export class ElectronFileService {
     }
   }
 
-  async writeTradesCSV(trades: Trade[], filePath: string): Promise<ServiceResponse<void>> {
-    try {
-      const result = await window.electronAPI.csv.writeTradesCSV(trades, filePath);
-      if (result.success) {
-        return { success: true, data: undefined, timestamp: Date.now() };
-      } else {
-        return { success: false, error: { code: 'WRITE_FAILED', message: result.error || 'Failed to write trades CSV' }, timestamp: Date.now() };
-      }
-    } catch (error) {
-      return { success: false, error: { code: 'UNKNOWN_ERROR', message: error instanceof Error ? error.message : 'Unknown error' }, timestamp: Date.now() };
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { FxRate } from '@/types/fx';
+import { FxConverter } from '@/lib/fx/fx-converter';
+import path from 'path';
+
+export const FX_RATES_JSON_FILE = 'fx-rates.json';
+export const FX_RATES_CSV_FILE = 'fx-rates.csv';
+
+export class FxRateService {
+  /**
+   * Load FX rates from the data directory; fx-rates.json wins over fx-rates.csv.
+   * A missing file is not an error: everything is then treated as base currency.
+   */
+  static async loadRates(dataDirectory: string): Promise<{ success: boolean; data?: FxRate[]; error?: string }> {
+    try {
+      const jsonPath = path.join(dataDirectory, FX_RATES_JSON_FILE);
+      const csvPath = path.join(dataDirectory, FX_RATES_CSV_FILE);
+
+      const jsonExists = await window.electronAPI.fs.exists(jsonPath);
+      const filePath = jsonExists.data ? jsonPath : csvPath;
+
+      if (!jsonExists.data) {
+        const csvExists = await window.electronAPI.fs.exists(csvPath);
+        if (!csvExists.data) {
+          return { success: true, data: [] };
+        }
+      }
+
+      const readResult = await window.electronAPI.fs.readFile(filePath);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      const content = readResult.data || '';
+      const rates = jsonExists.data
+        ? FxConverter.parseRatesJSON(content)
+        : await FxConverter.parseRatesCSV(content);
+
+      return { success: true, data: rates };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load FX rates'
+      };
+    }
+  }
+}
@@ -191,20 +191,6 @@ export class LocalFileSyncService {
     }
   }
 
-  /**
-   * Save trades to CSV file
-   */
-  async saveTradestoCSV(trades: Trade[]): Promise<{ success: boolean; error?: string }> {
-    if (!this.config) {
-      return { success: false, error: 'Service not initialized' };
-    }
-
-    const csvPath = path.join(this.config.dataDirectory, 'trades.csv');
-    const result = await this.electronService.writeTradesCSV(trades, csvPath);
-    
-    return result.success ? { success: true } : { success: false, error: result.error?.message || 'Failed to write trades CSV' };
-  }
-
   /**
    * Sync trades from CSV file and update markdown folders
    */
@@ -245,29 +231,6 @@ export class LocalFileSyncService {
     }
   }
 
-  /**
-   * Sync trades to CSV file
-   */
-  async syncToCSV(trades: Trade[]): Promise<{ success: boolean; error?: string }> {
-    try {
-      // Update all trades with current markdown folder information
-      const updatedTrades: Trade[] = [];
-      
-      for (const trade of trades) {
-        const updatedTrade = await this.folderService.updateTradeNotesFiles(trade);
-        updatedTrades.push(updatedTrade);
-      }
-
-      // Save to CSV
-      return await this.saveTradestoCSV(updatedTrades);
-    } catch (error) {
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      };
-    }
-  }
-
   /**
    * Create markdown memo for a trade
    */
@@ -285,20 +248,8 @@ export class LocalFileSyncService {
         return memoResult;
       }
 
-      // Update trade with new notesFiles
-      const updatedTrade = await this.folderService.updateTradeNotesFiles(trade);
-      
-      // Sync back to CSV
-      const csvResult = await this.loadTradesFromCSV();
-      if (csvResult.success && csvResult.data) {
-        const trades = csvResult.data;
-        const tradeIndex = trades.findIndex(t => t.id === trade.id);
-        if (tradeIndex >= 0) {
-          trades[tradeIndex] = updatedTrade;
-          await this.syncToCSV(trades);
-        }
-      }
-
+      // Notes files are found by scanning the trade folder when trades load, so trades.csv
+      // has nothing to update; it is only written through CentralCSVService
       return { success: true, filePath: memoResult.filePath };
     } catch (error) {
       return { 
@@ -61,6 +61,9 @@ import { z } from "zod";
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+// Copies of the app's own modules, installed next to this script
+import csvCodec from './csv-codec.cjs';
+import returnMetrics from './return-metrics.cjs';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -69,34 +72,162 @@ const __dirname = path.dirname(__filename);
 // Path to the trades CSV file
 const TRADES_CSV_PATH = path.join(__dirname, '..', 'trades.csv');
 
-// CSV parsing function
+// The app's settings, for the starting capital and risk-free rate; filled in when the script is written
+const APP_CONFIG_PATH = __APP_CONFIG_PATH__;
+
+// Daily price history imported in the app, one CSV per ticker (date,open,high,low,close,volume)
+const OHLC_DIRECTORY = path.join(__dirname, '..', 'ohlc');
+
+// CSV reading shared with the app (lib/csv/csv-codec.js): quoted fields, embedded
+// line breaks, BOMs and CRLF, with columns looked up by header name
+const { parseCSV, toRecords } = csvCodec;
+
+// Drawdown, return ratios and benchmark comparison, the same calculations as the app's analytics page
+const { fillTradingDays, calculateMaxDrawdown, calculateReturnMetrics, compareWithBenchmark } = returnMetrics;
+
 async function parseCsvFile(filePath) {
   try {
     const content = await fs.readFile(filePath, 'utf-8');
-    const lines = content.trim().split('\\n');
-    
-    if (lines.length === 0) {
-      return { headers: [], data: [] };
+    const { headers, records } = toRecords(parseCSV(content));
+    return { headers, data: records };
+  } catch (error) {
+    throw new Error(\`Failed to parse CSV: \${error.message}\`);
+  }
+}
+
+// Trades without a direction column predate short support and are long
+function getTradeDirection(trade) {
+  return trade.direction === 'short' ? 'short' : 'long';
+}
+
+// Fees and tax withholding recorded on a trade row
+function getTradeFees(trade) {
+  return parseFloat(trade.commission) || 0;
+}
+
+function getTradeTax(trade) {
+  return parseFloat(trade.taxWithholding) || 0;
+}
+
+// Realized P&L for a trade row; the pnl column is net of fees and tax, grossPnl is before them.
+// Falls back to prices when pnl is blank.
+// buyPrice is the entry and sellPrice the exit, so shorts profit when sellPrice < buyPrice
+function getTradePnl(trade, basis = 'net') {
+  if (trade.pnl !== undefined && trade.pnl !== '') {
+    const net = parseFloat(trade.pnl) || 0;
+    if (basis === 'net') {
+      return net;
     }
-    
-    const headers = lines[0].split(',').map(h => h.trim());
-    const data = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-      const row = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index] || '';
-      });
-      data.push(row);
+    if (trade.grossPnl !== undefined && trade.grossPnl !== '') {
+      return parseFloat(trade.grossPnl) || 0;
     }
-    
-    return { headers, data };
+    return net + getTradeFees(trade) + getTradeTax(trade);
+  }
+  const buyPrice = parseFloat(trade.buyPrice);
+  const sellPrice = parseFloat(trade.sellPrice);
+  const quantity = parseFloat(trade.quantity);
+  if (isNaN(buyPrice) || isNaN(sellPrice) || isNaN(quantity)) {
+    return 0;
+  }
+  const pnl = (sellPrice - buyPrice) * quantity;
+  const gross = getTradeDirection(trade) === 'short' ? -pnl : pnl;
+  return basis === 'net' ? gross - getTradeFees(trade) - getTradeTax(trade) : gross;
+}
+
+// Settings saved in the app; empty when they can't be read
+async function loadAppConfig() {
+  try {
+    return JSON.parse(await fs.readFile(APP_CONFIG_PATH, 'utf-8'));
   } catch (error) {
-    throw new Error(\`Failed to parse CSV: \${error.message}\`);
+    return {};
   }
 }
 
+// Realized P&L summed per close date, oldest first
+function getDailyPnl(trades, basis) {
+  const byDate = {};
+  trades.forEach(trade => {
+    if (!trade.sellDate) {
+      return;
+    }
+    const date = trade.sellDate.split('T')[0];
+    if (!byDate[date]) {
+      byDate[date] = { date, pnl: 0, trades: 0 };
+    }
+    byDate[date].pnl += getTradePnl(trade, basis);
+    byDate[date].trades++;
+  });
+  return Object.values(byDate).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Sharpe, Sortino, Calmar and returns from the daily P&L series, as on the analytics page.
+// Return-based figures need a starting capital and are null without one.
+function calculateRiskMetrics(trades, basis, startingCapital, riskFreeRate) {
+  const daily = fillTradingDays(getDailyPnl(trades, basis));
+  const closeDays = daily.filter(day => day.trades > 0);
+  if (closeDays.length === 0) {
+    return null;
+  }
+
+  // Drawdown trade by trade in close order, like the app's equity curve
+  const closed = trades
+    .filter(trade => trade.sellDate)
+    .sort((a, b) => a.sellDate.localeCompare(b.sellDate) || (a.buyDate || '').localeCompare(b.buyDate || ''));
+  const returns = calculateReturnMetrics(daily, startingCapital, riskFreeRate);
+
+  return {
+    startingCapital: startingCapital || null,
+    riskFreeRate,
+    tradingDays: daily.length,
+    totalGainPercent: returns ? returns.totalGainPercent : null,
+    annualizedReturnPercent: returns ? returns.annualizedReturnPercent : null,
+    dayChange: closeDays[closeDays.length - 1].pnl,
+    dayChangeDate: closeDays[closeDays.length - 1].date,
+    dayChangePercent: returns ? returns.dayChangePercent : null,
+    bestDay: Math.max(...closeDays.map(day => day.pnl)),
+    worstDay: Math.min(...closeDays.map(day => day.pnl)),
+    maxDrawdown: calculateMaxDrawdown(closed.map(trade => getTradePnl(trade, basis))),
+    maxDrawdownPercent: returns ? returns.maxDrawdownPercent : null,
+    sharpeRatio: returns ? returns.sharpeRatio : null,
+    sortino: returns ? returns.sortino : null,
+    calmarRatio: returns ? returns.calmarRatio : null
+  };
+}
+
+// Stored daily closes for a ticker, oldest first; empty when none were imported
+async function loadDailyCloses(ticker) {
+  const fileTicker = ticker.trim().toUpperCase().replace(/[^A-Z0-9._-]/g, '_');
+  try {
+    const { data } = await parseCsvFile(path.join(OHLC_DIRECTORY, fileTicker + '.csv'));
+    return data
+      .map(row => ({ date: row.date, close: parseFloat(row.close) }))
+      .filter(bar => bar.date && bar.close > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    return [];
+  }
+}
+
+// Alpha, beta, correlation and relative performance against a benchmark, over the period
+// from the first entry to the last exit, on the benchmark's trading days.
+// Same calculation as the app's analytics page; null without a starting capital or enough closes.
+function calculateBenchmarkComparison(trades, basis, startingCapital, riskFreeRate, ticker, closes) {
+  const daily = getDailyPnl(trades, basis);
+  if (!startingCapital || startingCapital <= 0 || daily.length === 0) {
+    return null;
+  }
+
+  const firstEntry = trades.reduce((min, trade) => trade.buyDate && trade.buyDate < min ? trade.buyDate : min, daily[0].date);
+  const comparison = compareWithBenchmark(daily, closes, firstEntry, startingCapital, riskFreeRate);
+  if (!comparison) {
+    return null;
+  }
+
+  // The chart points the app draws are left out of the tool's answer
+  const { points, ...summary } = comparison;
+  return { ticker, ...summary };
+}
+
 // Create the server instance
 const server = new McpServer({
   name: "logvestor-mcp-server",
@@ -111,10 +242,11 @@ server.registerTool("get_trades",
     inputSchema: {
       ticker: z.string().optional().describe("Filter by ticker symbol"),
       startDate: z.string().optional().describe("Filter trades from this date (YYYY-MM-DD)"),
-      endDate: z.string().optional().describe("Filter trades until this date (YYYY-MM-DD)")
+      endDate: z.string().optional().describe("Filter trades until this date (YYYY-MM-DD)"),
+      direction: z.enum(["long", "short"]).optional().describe("Filter by trade direction")
     }
   },
-  async ({ ticker, startDate, endDate }) => {
+  async ({ ticker, startDate, endDate, direction }) => {
     try {
       const { data } = await parseCsvFile(TRADES_CSV_PATH);
       let filteredTrades = data;
@@ -137,6 +269,12 @@ server.registerTool("get_trades",
         );
       }
       
+      if (direction) {
+        filteredTrades = filteredTrades.filter(trade => 
+          getTradeDirection(trade) === direction
+        );
+      }
+      
       return {
         content: [{
           type: "text",
@@ -163,10 +301,12 @@ server.registerTool("calculate_pnl",
     inputSchema: {
       ticker: z.string().optional().describe("Filter by ticker symbol"),
       startDate: z.string().optional().describe("Calculate P&L from this date (YYYY-MM-DD)"),
-      endDate: z.string().optional().describe("Calculate P&L until this date (YYYY-MM-DD)")
+      endDate: z.string().optional().describe("Calculate P&L until this date (YYYY-MM-DD)"),
+      direction: z.enum(["long", "short"]).optional().describe("Only include long or short trades"),
+      basis: z.enum(["gross", "net"]).optional().describe("P&L before (gross) or after (net, default) fees and tax")
     }
   },
-  async ({ ticker, startDate, endDate }) => {
+  async ({ ticker, startDate, endDate, direction, basis = "net" }) => {
     try {
       const { data } = await parseCsvFile(TRADES_CSV_PATH);
       let filteredTrades = data;
@@ -189,15 +329,42 @@ server.registerTool("calculate_pnl",
         );
       }
       
+      if (direction) {
+        filteredTrades = filteredTrades.filter(trade => 
+          getTradeDirection(trade) === direction
+        );
+      }
+      
       const totalPnl = filteredTrades.reduce((sum, trade) => {
-        return sum + parseFloat(trade.pnl || 0);
+        return sum + getTradePnl(trade, basis);
       }, 0);
+      const longPnl = filteredTrades
+        .filter(trade => getTradeDirection(trade) === 'long')
+        .reduce((sum, trade) => sum + getTradePnl(trade, basis), 0);
+      const grossPnl = filteredTrades.reduce((sum, trade) => sum + getTradePnl(trade, 'gross'), 0);
+      const totalFees = filteredTrades.reduce((sum, trade) => sum + getTradeFees(trade), 0);
+      const totalTax = filteredTrades.reduce((sum, trade) => sum + getTradeTax(trade), 0);
+      
+      // Totals above add amounts as recorded; this splits them by trade currency (blank = base currency)
+      const pnlByCurrency = {};
+      filteredTrades.forEach(trade => {
+        const currency = trade.currency || 'base';
+        pnlByCurrency[currency] = (pnlByCurrency[currency] || 0) + getTradePnl(trade, basis);
+      });
       
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
+            basis,
             totalPnl,
+            grossPnl,
+            totalFees,
+            totalTax,
+            netPnl: grossPnl - totalFees - totalTax,
+            longPnl,
+            shortPnl: totalPnl - longPnl,
+            pnlByCurrency,
             tradeCount: filteredTrades.length,
             averagePnl: filteredTrades.length > 0 ? totalPnl / filteredTrades.length : 0
           }, null, 2)
@@ -218,12 +385,20 @@ server.registerTool("get_trade_statistics",
     title: "Get Trade Statistics",
     description: "Get statistics about trades",
     inputSchema: {
-      ticker: z.string().optional().describe("Filter by ticker symbol")
+      ticker: z.string().optional().describe("Filter by ticker symbol"),
+      direction: z.enum(["long", "short"]).optional().describe("Filter by trade direction"),
+      basis: z.enum(["gross", "net"]).optional().describe("P&L before (gross) or after (net, default) fees and tax"),
+      startingCapital: z.number().optional().describe("Account starting capital; needed for return %, Sharpe, Sortino and Calmar (defaults to the app's setting)"),
+      riskFreeRate: z.number().optional().describe("Annual risk-free rate in percent (defaults to the app's setting, else 0)"),
+      benchmark: z.string().optional().describe("Index ticker to compare against (e.g. SPY); needs its daily bars imported in the app and a starting capital")
     }
   },
-  async ({ ticker }) => {
+  async ({ ticker, direction, basis = "net", startingCapital, riskFreeRate, benchmark }) => {
     try {
       const { data } = await parseCsvFile(TRADES_CSV_PATH);
+      const config = await loadAppConfig();
+      const capital = startingCapital ?? config.startingCapital ?? 0;
+      const rate = riskFreeRate ?? config.riskFreeRate ?? 0;
       let filteredTrades = data;
       
       if (ticker) {
@@ -232,21 +407,40 @@ server.registerTool("get_trade_statistics",
         );
       }
       
+      if (direction) {
+        filteredTrades = filteredTrades.filter(trade => 
+          getTradeDirection(trade) === direction
+        );
+      }
+      
       const statistics = {
+        basis,
         totalTrades: filteredTrades.length,
         winningTrades: 0,
         losingTrades: 0,
         totalPnl: 0,
+        totalFees: 0,
+        totalTax: 0,
         averageHoldingDays: 0,
-        tickerDistribution: {}
+        tickerDistribution: {},
+        directionBreakdown: {
+          long: { trades: 0, winningTrades: 0, totalPnl: 0 },
+          short: { trades: 0, winningTrades: 0, totalPnl: 0 }
+        }
       };
       
       filteredTrades.forEach(trade => {
-        const pnl = parseFloat(trade.pnl || 0);
+        const pnl = getTradePnl(trade, basis);
+        const bucket = statistics.directionBreakdown[getTradeDirection(trade)];
         statistics.totalPnl += pnl;
+        statistics.totalFees += getTradeFees(trade);
+        statistics.totalTax += getTradeTax(trade);
+        bucket.trades++;
+        bucket.totalPnl += pnl;
         
         if (pnl > 0) {
           statistics.winningTrades++;
+          bucket.winningTrades++;
         } else if (pnl < 0) {
           statistics.losingTrades++;
         }
@@ -264,6 +458,12 @@ server.registerTool("get_trade_statistics",
         statistics.winRate = (statistics.winningTrades / filteredTrades.length * 100).toFixed(2) + '%';
       }
       
+      statistics.riskMetrics = calculateRiskMetrics(filteredTrades, basis, capital, rate);
+      if (benchmark) {
+        const closes = await loadDailyCloses(benchmark);
+        statistics.benchmark = calculateBenchmarkComparison(filteredTrades, basis, capital, rate, benchmark.toUpperCase(), closes);
+      }
+      
       return {
         content: [{
           type: "text",
@@ -375,15 +575,28 @@ process.on('SIGINT', () => {
       throw new Error(`Failed to create package.json: ${packageJsonResult.error}`);
     }
 
-    // Create script.js
+    // Create script.js, pointed at the app's config.json
+    const userDataPath = await window.electronAPI.app.getPath('userData');
+    if (!userDataPath.success || !userDataPath.data) {
+      throw new Error(`Failed to locate the app settings: ${userDataPath.error}`);
+    }
     const scriptPath = path.join(mcpDir, 'script.js');
     const scriptResult = await window.electronAPI.fs.writeFile(
       scriptPath, 
-      this.SCRIPT_JS_TEMPLATE
+      this.SCRIPT_JS_TEMPLATE.replace(
+        '__APP_CONFIG_PATH__',
+        JSON.stringify(path.join(userDataPath.data, 'config.json'))
+      )
     );
     if (!scriptResult.success) {
       throw new Error(`Failed to create script.js: ${scriptResult.error}`);
     }
+
+    // Modules script.js imports, copied from the app by the main process
+    const modulesResult = await window.electronAPI.mcp.installSharedModules(mcpDir);
+    if (!modulesResult.success) {
+      throw new Error(`Failed to install MCP server modules: ${modulesResult.error}`);
+    }
   }
 
   /**
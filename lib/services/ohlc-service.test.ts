@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OHLCService } from '@/lib/services/ohlc-service';
+
+describe('OHLCService.parseOHLCCSV', () => {
+  it('reads common date formats and sorts bars oldest first', async () => {
+    const { bars, skipped } = await OHLCService.parseOHLCCSV([
+      'Date,Open,High,Low,Close,Volume',
+      '20240306,11,12,10.5,11.5,"1,200"',
+      '2024/3/5,10,11,9.5,10.5,',
+      '2024-03-04 00:00:00,9,10,8.5,9.5,800'
+    ].join('\n'));
+
+    expect(skipped).toBe(0);
+    expect(bars).toEqual([
+      { date: '2024-03-04', open: 9, high: 10, low: 8.5, close: 9.5, volume: 800 },
+      { date: '2024-03-05', open: 10, high: 11, low: 9.5, close: 10.5 },
+      { date: '2024-03-06', open: 11, high: 12, low: 10.5, close: 11.5, volume: 1200 }
+    ]);
+  });
+
+  it('skips rows without a date or with inconsistent prices and keeps the last duplicate', async () => {
+    const { bars, skipped } = await OHLCService.parseOHLCCSV([
+      'date,o,h,l,c',
+      ',10,11,9,10',
+      '2024-03-04,10,9,8,9.5',
+      '2024-03-05,10,11,10.5,10.8',
+      '2024-03-06,0,11,9,10',
+      '2024-03-07,10,11,9,10',
+      '2024-03-07,10,12,9,11'
+    ].join('\n'));
+
+    expect(skipped).toBe(4);
+    expect(bars).toEqual([{ date: '2024-03-07', open: 10, high: 12, low: 9, close: 11 }]);
+  });
+});
+
+describe('OHLCService.toFileTicker', () => {
+  it('upper-cases and replaces characters that cannot appear in file names', () => {
+    expect(OHLCService.toFileTicker(' brk/b ')).toBe('BRK_B');
+    expect(OHLCService.toFileTicker('7203.T')).toBe('7203.T');
+  });
+});
+
+describe('OHLCService.importCSV', () => {
+  const files = new Map<string, string>();
+  const config = { dataDirectory: '/data' };
+
+  beforeEach(() => {
+    files.clear();
+    vi.stubGlobal('window', {
+      electronAPI: {
+        fs: {
+          exists: async (path: string) => ({ success: true, data: files.has(path) }),
+          readFile: async (path: string) => ({ success: true, data: files.get(path) }),
+          writeFile: async (path: string, content: string) => {
+            files.set(path, content);
+            return { success: true };
+          },
+          createDir: async () => ({ success: true })
+        }
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('merges a new download into the stored history, replacing dates already stored', async () => {
+    await OHLCService.importCSV(config, 'xyz', 'date,open,high,low,close\n2024-03-04,9,10,8,9.5\n2024-03-05,10,11,9,10.5\n');
+    const result = await OHLCService.importCSV(config, 'XYZ', 'date,open,high,low,close\n2024-03-05,10,11,9,10.6\n2024-03-06,11,12,10,11.5\nbad,1,1,1,1\n');
+
+    expect(result.data).toEqual({ ticker: 'XYZ', imported: 2, added: 1, updated: 1, skipped: 1 });
+    expect(files.get('/data/ohlc/XYZ.csv')).toBe([
+      'date,open,high,low,close,volume',
+      '2024-03-04,9,10,8,9.5,',
+      '2024-03-05,10,11,9,10.6,',
+      '2024-03-06,11,12,10,11.5,',
+      ''
+    ].join('\n'));
+  });
+
+  it('rejects files without any valid bar', async () => {
+    const result = await OHLCService.importCSV(config, 'XYZ', 'date,close\n2024-03-04,9.5\n');
+
+    expect(result.success).toBe(false);
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,278 @@
+import { OHLCBar, OHLCImportResult, OHLCSeriesInfo } from '@/types/ohlc';
+import { AppConfig } from '@/types/app';
+import { Trade } from '@/types/trade';
+import { CSVParser } from '@/lib/parsers/csv-parser';
+import path from 'path';
+
+export const OHLC_DIRECTORY = 'ohlc';
+
+type OHLCLocation = Pick<AppConfig, 'dataDirectory'>;
+
+// Accepted header names, so downloads from most data vendors import unchanged.
+// Adjusted close is deliberately not used: trade prices are unadjusted.
+const DATE_COLUMNS = ['date', 'datetime', 'timestamp', 'time'];
+const OPEN_COLUMNS = ['open', 'o'];
+const HIGH_COLUMNS = ['high', 'h'];
+const LOW_COLUMNS = ['low', 'l'];
+const CLOSE_COLUMNS = ['close', 'c', 'last'];
+const VOLUME_COLUMNS = ['volume', 'vol', 'v'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily price history, one CSV per ticker at {dataDirectory}/ohlc/{TICKER}.csv
+ * (date,open,high,low,close,volume, oldest first). Used to draw trade charts.
+ */
+export class OHLCService {
+  static getOHLCDirectory(config: OHLCLocation): string {
+    return path.join(config.dataDirectory, OHLC_DIRECTORY);
+  }
+
+  static getTickerFilePath(config: OHLCLocation, ticker: string): string {
+    return path.join(this.getOHLCDirectory(config), `${this.toFileTicker(ticker)}.csv`);
+  }
+
+  /**
+   * Tickers are stored upper-cased, with characters that can't appear in file names replaced
+   */
+  static toFileTicker(ticker: string): string {
+    return ticker.trim().toUpperCase().replace(/[^A-Z0-9._-]/g, '_');
+  }
+
+  /**
+   * Every stored ticker with its bar count and date range
+   */
+  static async listSeries(config: OHLCLocation): Promise<{ success: boolean; data?: OHLCSeriesInfo[]; error?: string }> {
+    try {
+      const directory = this.getOHLCDirectory(config);
+      const existsResult = await window.electronAPI.fs.exists(directory);
+      if (!existsResult.data) {
+        return { success: true, data: [] };
+      }
+
+      const readResult = await window.electronAPI.fs.readDir(directory);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      const series: OHLCSeriesInfo[] = [];
+      for (const item of readResult.data || []) {
+        if (item.type !== 'file' || path.extname(item.name).toLowerCase() !== '.csv') {
+          continue;
+        }
+
+        const ticker = path.basename(item.name, path.extname(item.name));
+        const barsResult = await this.loadBars(config, ticker);
+        const bars = barsResult.data || [];
+        series.push({
+          ticker,
+          bars: bars.length,
+          firstDate: bars[0]?.date,
+          lastDate: bars[bars.length - 1]?.date
+        });
+      }
+
+      return { success: true, data: series.sort((a, b) => a.ticker.localeCompare(b.ticker)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list price history'
+      };
+    }
+  }
+
+  /**
+   * Stored bars for a ticker, optionally limited to a date range (inclusive).
+   * A ticker with no file simply has no bars.
+   */
+  static async loadBars(
+    config: OHLCLocation,
+    ticker: string,
+    range?: { start?: string; end?: string }
+  ): Promise<{ success: boolean; data?: OHLCBar[]; error?: string }> {
+    try {
+      const filePath = this.getTickerFilePath(config, ticker);
+      const existsResult = await window.electronAPI.fs.exists(filePath);
+      if (!existsResult.data) {
+        return { success: true, data: [] };
+      }
+
+      const readResult = await window.electronAPI.fs.readFile(filePath);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      const { bars } = await this.parseOHLCCSV(readResult.data || '');
+      return {
+        success: true,
+        data: bars.filter(bar =>
+          (!range?.start || bar.date >= range.start) && (!range?.end || bar.date <= range.end)
+        )
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load price history'
+      };
+    }
+  }
+
+  /**
+   * Bars covering a trade with some context either side: from `paddingDays`
+   * before entry to `paddingDays` after exit (or to the latest bar while open)
+   */
+  static async loadBarsForTrade(
+    config: OHLCLocation,
+    trade: Pick<Trade, 'ticker' | 'buyDate' | 'sellDate'>,
+    paddingDays: number = 30
+  ): Promise<{ success: boolean; data?: OHLCBar[]; error?: string }> {
+    const shift = (date: string, days: number) =>
+      new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+    return this.loadBars(config, trade.ticker, {
+      start: trade.buyDate ? shift(trade.buyDate, -paddingDays) : undefined,
+      end: trade.sellDate ? shift(trade.sellDate, paddingDays) : undefined
+    });
+  }
+
+  /**
+   * Merge a CSV of daily bars into the ticker's history. Bars for dates already
+   * stored are replaced, so re-importing a newer download just extends the series.
+   */
+  static async importCSV(
+    config: OHLCLocation,
+    ticker: string,
+    content: string
+  ): Promise<{ success: boolean; data?: OHLCImportResult; error?: string }> {
+    try {
+      const fileTicker = this.toFileTicker(ticker);
+      if (!fileTicker) {
+        return { success: false, error: 'Ticker is required' };
+      }
+
+      const parsed = await this.parseOHLCCSV(content);
+      if (parsed.bars.length === 0) {
+        return { success: false, error: 'No valid rows found. Expected date, open, high, low and close columns.' };
+      }
+
+      const existingResult = await this.loadBars(config, fileTicker);
+      if (!existingResult.success) {
+        return { success: false, error: existingResult.error };
+      }
+
+      const byDate = new Map((existingResult.data || []).map(bar => [bar.date, bar]));
+      let added = 0;
+      let updated = 0;
+      parsed.bars.forEach(bar => {
+        if (byDate.has(bar.date)) {
+          updated++;
+        } else {
+          added++;
+        }
+        byDate.set(bar.date, bar);
+      });
+
+      const merged = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+      const writeResult = await this.writeBars(config, fileTicker, merged);
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error };
+      }
+
+      return {
+        success: true,
+        data: { ticker: fileTicker, imported: parsed.bars.length, added, updated, skipped: parsed.skipped }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import price history'
+      };
+    }
+  }
+
+  static async deleteSeries(config: OHLCLocation, ticker: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const deleteResult = await window.electronAPI.fs.deleteFile(this.getTickerFilePath(config, ticker));
+      if (!deleteResult.success) {
+        return { success: false, error: deleteResult.error };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete price history'
+      };
+    }
+  }
+
+  /**
+   * Parse daily bars, oldest first. Rows missing a date or with inconsistent
+   * prices are counted as skipped; duplicate dates keep the last row.
+   */
+  static async parseOHLCCSV(content: string): Promise<{ bars: OHLCBar[]; skipped: number }> {
+    const data = await CSVParser.parseText(content);
+    const bars = new Map<string, OHLCBar>();
+    let skipped = 0;
+
+    data.rows.forEach(row => {
+      const columns = Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), String(value ?? '').trim()])
+      );
+      const pick = (names: string[]) => names.map(name => columns[name]).find(value => value);
+      const number = (names: string[]) => parseFloat((pick(names) || '').replace(/,/g, ''));
+
+      const date = this.normalizeDate(pick(DATE_COLUMNS) || '');
+      const bar: OHLCBar = {
+        date: date || '',
+        open: number(OPEN_COLUMNS),
+        high: number(HIGH_COLUMNS),
+        low: number(LOW_COLUMNS),
+        close: number(CLOSE_COLUMNS)
+      };
+      const volume = number(VOLUME_COLUMNS);
+      if (!isNaN(volume)) {
+        bar.volume = volume;
+      }
+
+      const prices = [bar.open, bar.high, bar.low, bar.close];
+      if (!date || prices.some(price => isNaN(price) || price <= 0) || bar.high < Math.max(bar.open, bar.close, bar.low) || bar.low > Math.min(bar.open, bar.close)) {
+        skipped++;
+        return;
+      }
+
+      bars.set(date, bar);
+    });
+
+    return {
+      bars: Array.from(bars.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      skipped
+    };
+  }
+
+  private static async writeBars(config: OHLCLocation, ticker: string, bars: OHLCBar[]): Promise<{ success: boolean; error?: string }> {
+    const createResult = await window.electronAPI.fs.createDir(this.getOHLCDirectory(config));
+    if (!createResult.success) {
+      return { success: false, error: createResult.error };
+    }
+
+    const lines = [
+      'date,open,high,low,close,volume',
+      ...bars.map(bar => [bar.date, bar.open, bar.high, bar.low, bar.close, bar.volume ?? ''].join(','))
+    ];
+    return window.electronAPI.fs.writeFile(this.getTickerFilePath(config, ticker), lines.join('\n') + '\n');
+  }
+
+  /**
+   * YYYY-MM-DD from "2024-03-05", "2024/3/5", "2024-03-05 00:00:00" or "20240305"
+   */
+  private static normalizeDate(value: string): string | undefined {
+    const match = /^(\d{4})[-/.]?(\d{1,2})[-/.]?(\d{1,2})/.exec(value);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, year, month, day] = match;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+}
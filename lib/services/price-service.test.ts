@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { PriceService } from '@/lib/services/price-service';
+
+describe('PriceService.parsePricesCSV', () => {
+  it('keeps the latest dated price per ticker', async () => {
+    const marks = await PriceService.parsePricesCSV([
+      'Symbol,Last,As Of',
+      'aapl,190.5,2024-03-04',
+      'AAPL,"1,195.25",2024-03-06',
+      'AAPL,180,2024-03-01',
+      'AAPL,170,'
+    ].join('\n'));
+
+    expect(marks).toEqual([{ ticker: 'AAPL', price: 1195.25, date: '2024-03-06', source: 'file' }]);
+  });
+
+  it('takes the last row when prices are undated', async () => {
+    const marks = await PriceService.parsePricesCSV('ticker,price\nMSFT,400\nMSFT,410\n');
+
+    expect(marks).toEqual([{ ticker: 'MSFT', price: 410, date: undefined, source: 'file' }]);
+  });
+
+  it('skips rows without a ticker or a positive price', async () => {
+    const marks = await PriceService.parsePricesCSV('code,close\n,100\n7203,n/a\n6758,0\n9984,8000\n');
+
+    expect(marks.map(mark => mark.ticker)).toEqual(['9984']);
+  });
+});
@@ -0,0 +1,121 @@
+import { PriceMark } from '@/types/price';
+import { CSVParser } from '@/lib/parsers/csv-parser';
+import path from 'path';
+
+export const PRICES_CSV_FILE = 'prices.csv';
+export const MANUAL_MARKS_FILE = 'marks.json';
+
+// Accepted header names, so exports from most quote sources work unchanged
+const TICKER_COLUMNS = ['ticker', 'symbol', 'code'];
+const PRICE_COLUMNS = ['price', 'last', 'close', 'mark'];
+const DATE_COLUMNS = ['date', 'asof', 'as of'];
+
+export class PriceService {
+  /**
+   * Prices for open positions come from {dataDirectory}/prices.csv (ticker,price[,date]),
+   * which the user drops in or an external script keeps up to date
+   */
+  static getPriceFilePath(dataDirectory: string): string {
+    return path.join(dataDirectory, PRICES_CSV_FILE);
+  }
+
+  static getManualMarksFilePath(dataDirectory: string): string {
+    return path.join(dataDirectory, MANUAL_MARKS_FILE);
+  }
+
+  /**
+   * Load the price file. A missing file is not an error: there are just no file prices.
+   */
+  static async loadFilePrices(dataDirectory: string): Promise<{ success: boolean; data?: PriceMark[]; error?: string }> {
+    try {
+      const filePath = this.getPriceFilePath(dataDirectory);
+      const existsResult = await window.electronAPI.fs.exists(filePath);
+      if (!existsResult.data) {
+        return { success: true, data: [] };
+      }
+
+      const readResult = await window.electronAPI.fs.readFile(filePath);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      return { success: true, data: await this.parsePricesCSV(readResult.data || '') };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load prices'
+      };
+    }
+  }
+
+  /**
+   * One mark per ticker: the latest dated row, otherwise the last row in the file
+   */
+  static async parsePricesCSV(content: string): Promise<PriceMark[]> {
+    const data = await CSVParser.parseText(content);
+    const marks = new Map<string, PriceMark>();
+
+    data.rows.forEach(row => {
+      const columns = Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), String(value ?? '').trim()])
+      );
+      const pick = (names: string[]) => names.map(name => columns[name]).find(value => value);
+
+      const ticker = (pick(TICKER_COLUMNS) || '').toUpperCase();
+      const price = parseFloat((pick(PRICE_COLUMNS) || '').replace(/,/g, ''));
+      const date = pick(DATE_COLUMNS);
+
+      if (!ticker || isNaN(price) || price <= 0) {
+        return;
+      }
+
+      const existing = marks.get(ticker);
+      if (existing?.date && (!date || date < existing.date)) {
+        return;
+      }
+      marks.set(ticker, { ticker, price, date: date || undefined, source: 'file' });
+    });
+
+    return Array.from(marks.values());
+  }
+
+  static async loadManualMarks(dataDirectory: string): Promise<{ success: boolean; data?: PriceMark[]; error?: string }> {
+    try {
+      const filePath = this.getManualMarksFilePath(dataDirectory);
+      const existsResult = await window.electronAPI.fs.exists(filePath);
+      if (!existsResult.data) {
+        return { success: true, data: [] };
+      }
+
+      const readResult = await window.electronAPI.fs.readFile(filePath);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      const marks = JSON.parse(readResult.data || '[]') as PriceMark[];
+      return { success: true, data: marks.map(mark => ({ ...mark, source: 'manual' })) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load manual marks'
+      };
+    }
+  }
+
+  static async saveManualMarks(dataDirectory: string, marks: PriceMark[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const filePath = this.getManualMarksFilePath(dataDirectory);
+      const writeResult = await window.electronAPI.fs.writeFile(filePath, JSON.stringify(marks, null, 2));
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save manual marks'
+      };
+    }
+  }
+}
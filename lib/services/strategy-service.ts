@@ -0,0 +1,71 @@
+import { TradeStrategy } from '@/types/strategy';
+import { AppConfig } from '@/types/app';
+import { generateId } from '@/lib/utils';
+import path from 'path';
+
+export const STRATEGIES_FILE = 'strategies.json';
+
+type StrategyLocation = Pick<AppConfig, 'dataDirectory'>;
+
+export class StrategyService {
+  /**
+   * The setup catalogue lives at the root of the data directory: {dataDirectory}/strategies.json
+   */
+  static getStrategiesFilePath(config: StrategyLocation): string {
+    return path.join(config.dataDirectory, STRATEGIES_FILE);
+  }
+
+  static async loadStrategies(config: StrategyLocation): Promise<{ success: boolean; data?: TradeStrategy[]; error?: string }> {
+    try {
+      const filePath = this.getStrategiesFilePath(config);
+      const existsResult = await window.electronAPI.fs.exists(filePath);
+
+      if (!existsResult.data) {
+        return { success: true, data: [] };
+      }
+
+      const readResult = await window.electronAPI.fs.readFile(filePath);
+      if (!readResult.success) {
+        return { success: false, error: readResult.error };
+      }
+
+      const strategies = JSON.parse(readResult.data || '[]') as TradeStrategy[];
+      return {
+        success: true,
+        data: strategies.map(strategy => ({ ...strategy, checklist: strategy.checklist || [] }))
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load setups'
+      };
+    }
+  }
+
+  static async saveStrategies(config: StrategyLocation, strategies: TradeStrategy[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const filePath = this.getStrategiesFilePath(config);
+      const writeResult = await window.electronAPI.fs.writeFile(filePath, JSON.stringify(strategies, null, 2));
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save setups'
+      };
+    }
+  }
+
+  static createStrategy(fields: Omit<TradeStrategy, 'id' | 'createdAt' | 'updatedAt'>): TradeStrategy {
+    const now = new Date().toISOString();
+    return {
+      ...fields,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+}
@@ -0,0 +1,354 @@
+import { AppConfig } from '@/types/app';
+import { TagChangeSummary, TagUsage } from '@/types/tag';
+import { CentralCSVRecord, CentralCSVService } from '@/lib/csv/central-csv-service';
+import { TradeLinker } from '@/lib/trade-linker/trade-linker';
+import { TradeDataService } from '@/lib/services/trade-data-service';
+import { TradeFileChange } from '@/lib/history/trade-history';
+import { normalizeTag, removeTagFromList, renameTagInList, tagMatches, TAG_SEPARATOR } from '@/lib/tags/tag-utils';
+import path from 'path';
+
+type TagLocation = Pick<AppConfig, 'dataDirectory'>;
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg'];
+
+interface TradeFolderScan {
+  folderPath: string; // Absolute path of the trade folder
+  notes: { path: string; content: string }[];
+  images: string[]; // Files under images/, relative to it ("sector/tech/123_chart.png")
+}
+
+interface TagScan {
+  records: CentralCSVRecord[];
+  folders: TradeFolderScan[];
+}
+
+/**
+ * Tags live in three places: the tags column of trades.csv, the `tags:` line of
+ * note frontmatter and the tag folders under each trade's images/ directory.
+ * This service counts usage across all of them and applies renames, merges and
+ * deletes to all three together, rolling back if any step fails. A change is
+ * written through TradeDataService so it can be undone as a single step.
+ */
+export class TagService {
+  static getCSVFilePath(config: TagLocation): string {
+    return path.join(config.dataDirectory, 'trades.csv');
+  }
+
+  /**
+   * Usage counts for every tag found in trades, notes or image folders
+   */
+  static async collectUsage(config: TagLocation): Promise<{ success: boolean; data?: TagUsage[]; error?: string }> {
+    try {
+      const scan = await this.scan(config);
+      const usage = new Map<string, TagUsage>();
+      const entry = (tag: string) => {
+        if (!usage.has(tag)) {
+          usage.set(tag, { tag, trades: 0, notes: 0, images: 0 });
+        }
+        return usage.get(tag)!;
+      };
+
+      scan.records.forEach(record => (record.tags || []).forEach(tag => entry(tag).trades++));
+
+      scan.folders.forEach(folder => {
+        folder.notes.forEach(note => TradeLinker.getFrontmatterTags(note.content).forEach(tag => entry(tag).notes++));
+        folder.images
+          .filter(image => this.isImageFile(image))
+          .forEach(image => {
+            const tag = this.getImageTag(image);
+            if (tag) {
+              entry(tag).images++;
+            }
+          });
+      });
+
+      return {
+        success: true,
+        data: Array.from(usage.values()).sort((a, b) => a.tag.localeCompare(b.tag))
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to collect tag usage'
+      };
+    }
+  }
+
+  /**
+   * Rename a tag, or merge it into another by renaming onto an existing tag.
+   * Tags namespaced under it move along: renaming "setup" to "setups" turns
+   * "setup/breakout" into "setups/breakout".
+   */
+  static async renameTag(
+    config: TagLocation,
+    tradeData: TradeDataService,
+    from: string,
+    to: string
+  ): Promise<{ success: boolean; data?: TagChangeSummary; error?: string }> {
+    const source = normalizeTag(from);
+    const target = normalizeTag(to);
+
+    if (!source || !target) {
+      return { success: false, error: 'Tag name is required' };
+    }
+    if (target.includes(',')) {
+      return { success: false, error: 'Tags cannot contain commas' };
+    }
+    if (source === target) {
+      return { success: false, error: 'The new name is the same as the current one' };
+    }
+    if (tagMatches(target, source)) {
+      return { success: false, error: `Cannot move "${source}" into its own namespace` };
+    }
+
+    return this.applyChange(
+      config,
+      tradeData,
+      `Rename tag "${source}" to "${target}"`,
+      source,
+      tags => renameTagInList(tags, source, target),
+      image => `${target}${image.substring(source.length)}`
+    );
+  }
+
+  /**
+   * Remove a tag (and any tags namespaced under it) everywhere. Images filed
+   * under it are kept and moved up to the images folder itself.
+   */
+  static async deleteTag(
+    config: TagLocation,
+    tradeData: TradeDataService,
+    tag: string
+  ): Promise<{ success: boolean; data?: TagChangeSummary; error?: string }> {
+    const target = normalizeTag(tag);
+    if (!target) {
+      return { success: false, error: 'Tag name is required' };
+    }
+
+    return this.applyChange(
+      config,
+      tradeData,
+      `Delete tag "${target}"`,
+      target,
+      tags => removeTagFromList(tags, target),
+      image => path.basename(image)
+    );
+  }
+
+  /**
+   * Plan every file change first, then apply them in order: image moves, note
+   * rewrites and finally trades.csv. A failure undoes the steps already done.
+   */
+  private static async applyChange(
+    config: TagLocation,
+    tradeData: TradeDataService,
+    label: string,
+    tag: string,
+    mapTags: (tags: string[]) => string[],
+    mapImage: (image: string) => string
+  ): Promise<{ success: boolean; data?: TagChangeSummary; error?: string }> {
+    try {
+      const scan = await this.scan(config);
+      const summary: TagChangeSummary = { trades: 0, notes: 0, images: 0 };
+
+      // trades.csv
+      const recordUpdates: Record<string, Partial<CentralCSVRecord>> = {};
+      scan.records.forEach(record => {
+        const tags = record.tags || [];
+        if (tags.some(existing => tagMatches(existing, tag))) {
+          recordUpdates[record.tradeId] = { tags: mapTags(tags) };
+          summary.trades++;
+        }
+      });
+
+      // Image moves and the note rewrites they and the frontmatter need
+      const moves: { from: string; to: string }[] = [];
+      const noteWrites: { path: string; original: string; content: string }[] = [];
+      const emptiedFolders: { imagesPath: string; folder: string }[] = [];
+
+      for (const folder of scan.folders) {
+        const imagesPath = path.join(folder.folderPath, 'images');
+        const folderMoves = folder.images
+          .filter(image => {
+            const imageTag = this.getImageTag(image);
+            return imageTag !== undefined && tagMatches(imageTag, tag);
+          })
+          .map(image => ({ image, target: mapImage(image) }));
+
+        for (const { image, target } of folderMoves) {
+          const destination = path.join(imagesPath, target);
+          const existsResult = await window.electronAPI.fs.exists(destination);
+          if (existsResult.data || moves.some(move => move.to === destination)) {
+            return { success: false, error: `An image already exists at ${destination}` };
+          }
+          moves.push({ from: path.join(imagesPath, image), to: destination });
+        }
+        summary.images += folderMoves.filter(({ image }) => this.isImageFile(image)).length;
+        if (folderMoves.length > 0) {
+          emptiedFolders.push({ imagesPath, folder: path.join(imagesPath, tag) });
+        }
+
+        folder.notes.forEach(note => {
+          let content = note.content;
+
+          const noteTags = TradeLinker.getFrontmatterTags(content);
+          if (noteTags.some(existing => tagMatches(existing, tag))) {
+            content = TradeLinker.setFrontmatterTags(content, mapTags(noteTags));
+            summary.notes++;
+          }
+
+          // Keep image links pointing at the moved files
+          folderMoves.forEach(({ image, target }) => {
+            content = content.split(`images/${image}`).join(`images/${target}`);
+          });
+
+          if (content !== note.content) {
+            noteWrites.push({ path: note.path, original: note.content, content });
+          }
+        });
+      }
+
+      const csvPath = this.getCSVFilePath(config);
+      const originalCSV = Object.keys(recordUpdates).length > 0
+        ? await window.electronAPI.fs.readFile(csvPath)
+        : null;
+      if (originalCSV && !originalCSV.success) {
+        return { success: false, error: originalCSV.error };
+      }
+
+      const undo: (() => Promise<unknown>)[] = [];
+      try {
+        for (const move of moves) {
+          await window.electronAPI.fs.createDir(path.dirname(move.to));
+          const moveResult = await window.electronAPI.fs.moveFile(move.from, move.to);
+          if (!moveResult.success) {
+            throw new Error(moveResult.error || `Failed to move ${move.from}`);
+          }
+          undo.push(() => window.electronAPI.fs.moveFile(move.to, move.from));
+        }
+
+        for (const note of noteWrites) {
+          const writeResult = await window.electronAPI.fs.writeFile(note.path, note.content);
+          if (!writeResult.success) {
+            throw new Error(writeResult.error || `Failed to write ${note.path}`);
+          }
+          undo.push(() => window.electronAPI.fs.writeFile(note.path, note.original));
+        }
+
+        if (originalCSV) {
+          // A failed write may leave the file half-written, so restore the original text
+          undo.push(() => window.electronAPI.fs.writeFile(csvPath, originalCSV.data || ''));
+        }
+
+        // The moves and rewrites above are recorded with the trades.csv update as one undo step
+        const files: TradeFileChange[] = [
+          ...moves.map(move => ({ type: 'move' as const, from: move.from, to: move.to })),
+          ...noteWrites.map(note => ({ type: 'write' as const, path: note.path, before: note.original, after: note.content }))
+        ];
+        const updates = Object.entries(recordUpdates).map(([tradeId, recordUpdate]) => ({
+          tradeId,
+          updates: { tags: recordUpdate.tags }
+        }));
+        if (!await tradeData.bulkUpdateTrades(label, updates, files)) {
+          throw new Error('Failed to update trades.csv');
+        }
+      } catch (error) {
+        for (const step of undo.reverse()) {
+          try {
+            await step();
+          } catch (undoError) {
+            console.error('Error rolling back tag change:', undoError);
+          }
+        }
+        throw error;
+      }
+
+      // Tidy up the now-empty tag folders; leftovers are harmless
+      for (const { imagesPath, folder } of emptiedFolders) {
+        await window.electronAPI.fs.deleteDir(folder);
+
+        // Namespace folders above it go too once nothing else is filed there
+        let parent = path.dirname(folder);
+        while (parent !== imagesPath) {
+          const readResult = await window.electronAPI.fs.readDir(parent);
+          if (!readResult.success || (readResult.data || []).length > 0) {
+            break;
+          }
+          await window.electronAPI.fs.deleteDir(parent);
+          parent = path.dirname(parent);
+        }
+      }
+
+      return { success: true, data: summary };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update tag'
+      };
+    }
+  }
+
+  /**
+   * Read trades.csv and, for each trade folder, its notes and the files under images/
+   */
+  private static async scan(config: TagLocation): Promise<TagScan> {
+    const csvService = new CentralCSVService(window.electronAPI.fs, config.dataDirectory);
+    const records = await csvService.readAllRecords();
+    const folders: TradeFolderScan[] = [];
+
+    for (const record of records) {
+      const folderPath = path.join(config.dataDirectory, record.folderPath);
+      const readResult = await window.electronAPI.fs.readDir(folderPath);
+      if (!readResult.success || !readResult.data) {
+        continue; // Folder not created yet
+      }
+
+      const notes: TradeFolderScan['notes'] = [];
+      for (const item of readResult.data) {
+        if (item.type === 'file' && item.name.endsWith('.md')) {
+          const noteResult = await window.electronAPI.fs.readFile(item.path);
+          if (noteResult.success && noteResult.data !== undefined) {
+            notes.push({ path: item.path, content: noteResult.data });
+          }
+        }
+      }
+
+      const hasImages = readResult.data.some(item => item.type === 'directory' && item.name === 'images');
+      const images = hasImages ? await this.listFiles(path.join(folderPath, 'images'), '') : [];
+
+      folders.push({ folderPath, notes, images });
+    }
+
+    return { records, folders };
+  }
+
+  private static async listFiles(dirPath: string, prefix: string): Promise<string[]> {
+    const readResult = await window.electronAPI.fs.readDir(dirPath);
+    if (!readResult.success || !readResult.data) {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const item of readResult.data) {
+      const relative = prefix ? `${prefix}${TAG_SEPARATOR}${item.name}` : item.name;
+      if (item.type === 'directory') {
+        files.push(...await this.listFiles(item.path, relative));
+      } else {
+        files.push(relative);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * The tag an image is filed under: its folder path below images/, if any
+   */
+  private static getImageTag(image: string): string | undefined {
+    const index = image.lastIndexOf(TAG_SEPARATOR);
+    return index > 0 ? image.substring(0, index) : undefined;
+  }
+
+  private static isImageFile(fileName: string): boolean {
+    return IMAGE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+  }
+}
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CentralCSVService } from '@/lib/csv/central-csv-service';
+import { TradeHistory } from '@/lib/history/trade-history';
+import { TradeDataService } from '@/lib/services/trade-data-service';
+import { Trade } from '@/types/trade';
+
+let files: Map<string, string>;
+let dirs: Set<string>;
+let mtimes: Map<string, number>;
+let clock: number;
+let storage: Map<string, string>;
+
+const under = (path: string, dir: string) => path === dir || path.startsWith(`${dir}/`);
+
+// In-memory stand-in for the Electron file service, with folders and modification times
+const fileService = {
+  exists: async (path: string) => ({ success: true, data: files.has(path) || dirs.has(path) }),
+  readFile: async (path: string) => files.has(path)
+    ? { success: true, data: files.get(path) }
+    : { success: false, error: 'ENOENT' },
+  writeFile: async (path: string, content: string) => {
+    files.set(path, content);
+    mtimes.set(path, ++clock);
+    return { success: true };
+  },
+  appendFile: async (path: string, content: string) => {
+    files.set(path, (files.get(path) || '') + content);
+    return { success: true };
+  },
+  stat: async (path: string) => files.has(path)
+    ? { success: true, data: { size: files.get(path)!.length, mtime: String(mtimes.get(path)) } }
+    : { success: false, error: 'ENOENT' },
+  deleteFile: async (path: string) => ({ success: files.delete(path) }),
+  createDir: async (path: string) => {
+    for (let dir = path; dir && dir !== '/'; dir = dir.slice(0, dir.lastIndexOf('/'))) {
+      dirs.add(dir);
+    }
+    return { success: true };
+  },
+  deleteDir: async (path: string) => {
+    [...files.keys()].filter(file => under(file, path)).forEach(file => files.delete(file));
+    [...dirs].filter(dir => under(dir, path)).forEach(dir => dirs.delete(dir));
+    return { success: true };
+  },
+  moveFile: async (from: string, to: string) => {
+    if (!files.has(from) && !dirs.has(from)) {
+      return { success: false, error: 'ENOENT' };
+    }
+    for (const file of [...files.keys()].filter(file => under(file, from))) {
+      files.set(to + file.slice(from.length), files.get(file)!);
+      files.delete(file);
+    }
+    for (const dir of [...dirs].filter(dir => under(dir, from))) {
+      dirs.delete(dir);
+      dirs.add(to + dir.slice(from.length));
+    }
+    return { success: true };
+  },
+  readDir: async (path: string) => {
+    if (!dirs.has(path)) {
+      return { success: false, error: 'ENOENT' };
+    }
+    const names = new Map<string, string>();
+    for (const entry of [...files.keys(), ...dirs].filter(entry => entry.startsWith(`${path}/`))) {
+      const name = entry.slice(path.length + 1).split('/')[0];
+      names.set(name, dirs.has(`${path}/${name}`) ? 'directory' : 'file');
+    }
+    return { success: true, data: [...names].map(([name, type]) => ({ name, type, path: `${path}/${name}` })) };
+  }
+};
+
+const trade = (ticker: string): Omit<Trade, 'id' | 'createdAt' | 'updatedAt'> => ({
+  ticker,
+  buyDate: '2024-01-02',
+  buyPrice: 10,
+  quantity: 10
+});
+
+async function setup() {
+  const service = new TradeDataService({ dataDirectory: '/data', fileService });
+  await service.initialize();
+  const added = [await service.addTrade(trade('AAPL')), await service.addTrade(trade('MSFT'))] as Trade[];
+  return { service, ids: added.map(t => t.id) };
+}
+
+const tickers = async (service: TradeDataService) => (await service.loadTrades()).map(t => t.ticker).sort();
+
+beforeEach(() => {
+  files = new Map();
+  dirs = new Set();
+  mtimes = new Map();
+  clock = 0;
+  storage = new Map();
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('sessionStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      storage.set(key, value);
+    }
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('TradeDataService undo/redo', () => {
+  it('undoes and redoes a field edit', async () => {
+    const { service, ids } = await setup();
+    await service.updateTrade(ids[0], { sellDate: '2024-01-09', sellPrice: 12 });
+
+    expect(await service.undo()).toEqual({ success: true, label: expect.any(String) });
+    expect((await service.loadTrades()).find(t => t.id === ids[0])?.sellPrice).toBeUndefined();
+
+    expect((await service.redo()).success).toBe(true);
+    expect((await service.loadTrades()).find(t => t.id === ids[0])).toMatchObject({ sellPrice: 12, pnl: 20 });
+  });
+
+  it('brings back deleted trades and their trashed folders', async () => {
+    const { service, ids } = await setup();
+    const folder = (await new CentralCSVService(fileService, '/data').findRecord(ids[0]))!.folderPath;
+    files.set(`/data/${folder}/notes.md`, 'thesis');
+
+    await service.bulkDeleteTrades(ids, true);
+
+    expect(await tickers(service)).toEqual([]);
+    expect(files.has(`/data/${folder}/notes.md`)).toBe(false);
+    expect(TradeHistory.peekUndo()?.label).toBe('Delete 2 trades');
+
+    expect((await service.undo()).label).toBe('Delete 2 trades');
+    expect(await tickers(service)).toEqual(['AAPL', 'MSFT']);
+    expect(files.get(`/data/${folder}/notes.md`)).toBe('thesis');
+  });
+
+  it('undoes other files with the change, and refuses once one has been edited since', async () => {
+    const { service, ids } = await setup();
+    files.set('/data/notes.md', '#swing');
+    await service.bulkUpdateTrades('Rename tag', [{ tradeId: ids[0], updates: { tags: ['swing'] } }], [
+      { type: 'write', path: '/data/notes.md', before: '#swing', after: '#momentum' }
+    ]);
+    files.set('/data/notes.md', '#momentum');
+
+    expect((await service.undo()).success).toBe(true);
+    expect(files.get('/data/notes.md')).toBe('#swing');
+    expect((await service.loadTrades()).find(t => t.id === ids[0])?.tags).toEqual([]);
+
+    await service.redo();
+    files.set('/data/notes.md', '#momentum edited');
+
+    expect(await service.undo()).toEqual({
+      success: false,
+      label: 'Rename tag',
+      error: 'Can\'t undo "Rename tag": /data/notes.md has changed since'
+    });
+    expect(TradeHistory.peekUndo()?.label).not.toBe('Rename tag');
+    expect(files.get('/data/notes.md')).toBe('#momentum edited');
+  });
+
+  it('drops the history when trades.csv is written elsewhere', async () => {
+    const { service, ids } = await setup();
+    await service.updateTrade(ids[0], { ticker: 'AAPX' });
+
+    await new CentralCSVService(fileService, '/data').updateRecord(ids[1], { ticker: 'MSFX' });
+
+    expect(await service.undo()).toEqual({ success: false, error: 'Nothing to undo' });
+    expect(await tickers(service)).toEqual(['AAPX', 'MSFX']);
+  });
+});
@@ -4,14 +4,33 @@
  */
 
 import { Trade } from '@/types/trade';
-import { CentralCSVService } from '@/lib/csv/central-csv-service';
+import { CentralCSVRecord, CentralCSVService } from '@/lib/csv/central-csv-service';
 import { generateTradeFolderPath, createTradeFolderWithSequence } from '@/lib/trade-folder/path-generator';
+import { serializeExecutions } from '@/lib/trade-executions/execution-utils';
+import { TradeLinker } from '@/lib/trade-linker/trade-linker';
+import { formatCSVRow } from '@/lib/csv/csv-codec';
+import { DataMigrationService } from '@/lib/migration/data-migration-service';
+import {
+  TradeChangeSet,
+  TradeFileChange,
+  TradeFolderChange,
+  TradeHistory,
+  TRASH_DIRECTORY
+} from '@/lib/history/trade-history';
+
+const RISK_FIELDS: (keyof Trade)[] = ['stopLoss', 'targetPrice', 'initialRisk'];
 
 export interface TradeDataConfig {
   dataDirectory: string;
   fileService: any;
 }
 
+export interface HistoryStepResult {
+  success: boolean;
+  label?: string; // The change that was undone or redone
+  error?: string;
+}
+
 export class TradeDataService {
   private csvService: CentralCSVService;
   private fileService: any;
@@ -35,6 +54,12 @@ export class TradeDataService {
         return false;
       }
 
+      // Finish or roll back writes a crash interrupted before anything reads trades.csv
+      const recovery = await this.csvService.recover();
+      if (!recovery.success) {
+        console.error('trades.csv recovery failed:', recovery.errors);
+      }
+
       // Initialize central CSV
       const csvResult = await this.csvService.initializeCentralCSV();
       if (!csvResult) {
@@ -42,6 +67,22 @@ export class TradeDataService {
         return false;
       }
 
+      // Bring a trades.csv written by an older version up to date. A failed step leaves
+      // the file readable at its last version, and the migration tool shows what is pending.
+      const schemaResult = await new DataMigrationService({
+        dataDirectory: this.dataDirectory,
+        fileService: this.fileService
+      }).runSchemaMigrations();
+      if (!schemaResult.success) {
+        console.error('Schema migration failed:', schemaResult.errors);
+      }
+
+      // Recovery, migrations or another app may have written trades.csv since the history was kept
+      await this.checkHistory();
+
+      // Folders trashed by changes that have left the undo history (e.g. in an earlier session)
+      await this.purgeTrash();
+
       return true;
     } catch (error) {
       console.error('Error initializing trade data service:', error);
@@ -66,6 +107,8 @@ export class TradeDataService {
    */
   async addTrade(trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>): Promise<Trade | null> {
     try {
+      await this.checkHistory();
+
       // Generate unique ID
       const tradeId = CentralCSVService.generateTradeId();
       
@@ -104,6 +147,10 @@ export class TradeDataService {
         return null;
       }
 
+      await this.recordChange(`Add ${fullTrade.ticker}`, [], [tradeId], {
+        folders: [{ folderPath: folderInfo.relativePath, existsAfter: true }]
+      });
+
       return fullTrade;
     } catch (error) {
       console.error('Error adding trade:', error);
@@ -111,11 +158,100 @@ export class TradeDataService {
     }
   }
 
+  /**
+   * Add imported trades and apply re-imported changes to existing ones,
+   * with one write to the central CSV for each
+   */
+  async importTrades(
+    newTrades: Trade[],
+    updates: { tradeId: string; updates: Partial<Trade> }[] = []
+  ): Promise<{ added: number; updated: number } | null> {
+    try {
+      await this.checkHistory();
+
+      const now = new Date().toISOString();
+      const records: Omit<CentralCSVRecord, 'createdAt' | 'updatedAt'>[] = [];
+      const previousRecords = await this.csvService.readAllRecords();
+
+      for (const trade of newTrades) {
+        const folderInfo = await createTradeFolderWithSequence(
+          this.fileService,
+          trade.ticker,
+          trade.buyDate,
+          this.dataDirectory
+        );
+
+        if (!folderInfo) {
+          console.error('Failed to create trade folder for import:', trade.ticker);
+          return null;
+        }
+
+        const fullTrade: Trade = {
+          ...trade,
+          id: CentralCSVService.generateTradeId(),
+          createdAt: now,
+          updatedAt: now,
+          notesFiles: []
+        };
+        CentralCSVService.recalculateDerivedFields(fullTrade);
+        records.push(CentralCSVService.tradeToCSVRecord(fullTrade, folderInfo.relativePath));
+      }
+
+      if (records.length > 0 && !(await this.csvService.addRecords(records))) {
+        console.error('Failed to add imported trades to central CSV');
+        return null;
+      }
+
+      let updated = 0;
+      const csvUpdates: Record<string, Partial<CentralCSVRecord>> = {};
+      if (updates.length > 0) {
+        const currentRecords = await this.csvService.readAllRecords();
+
+        for (const { tradeId, updates: tradeUpdates } of updates) {
+          const currentRecord = currentRecords.find(record => record.tradeId === tradeId);
+          if (!currentRecord) {
+            console.warn('Trade not found for import update:', tradeId);
+            continue;
+          }
+
+          const updatedTrade: Trade = {
+            ...CentralCSVService.csvRecordToTrade(currentRecord),
+            ...tradeUpdates
+          };
+          CentralCSVService.recalculateDerivedFields(updatedTrade);
+          csvUpdates[tradeId] = CentralCSVService.tradeToCSVRecord(updatedTrade, currentRecord.folderPath);
+        }
+
+        if (!(await this.csvService.updateRecords(csvUpdates))) {
+          console.error('Failed to update re-imported trades in central CSV');
+          return null;
+        }
+        updated = Object.keys(csvUpdates).length;
+      }
+
+      if (records.length > 0 || updated > 0) {
+        await this.recordChange(
+          updated > 0 ? `Import (${records.length} added, ${updated} updated)` : `Import ${records.length} trade(s)`,
+          previousRecords,
+          [...records.map(record => record.tradeId), ...Object.keys(csvUpdates)],
+          { folders: records.map(record => ({ folderPath: record.folderPath, existsAfter: true })) }
+        );
+      }
+
+      return { added: records.length, updated };
+    } catch (error) {
+      console.error('Error importing trades:', error);
+      return null;
+    }
+  }
+
   /**
    * Update an existing trade
    */
   async updateTrade(tradeId: string, updates: Partial<Trade>): Promise<boolean> {
     try {
+      await this.checkHistory();
+
       // Get current trade
       const currentRecord = await this.csvService.findRecord(tradeId);
       if (!currentRecord) {
@@ -130,50 +266,111 @@ export class TradeDataService {
         updatedAt: new Date().toISOString()
       };
 
-      // Calculate P&L and holding days
+      // Calculate P&L and holding days (derived from executions when the trade has legs)
       CentralCSVService.recalculateDerivedFields(updatedTrade);
 
       // Update central CSV
       const csvUpdates = {
         ticker: updatedTrade.ticker,
+        direction: updatedTrade.direction,
+        currency: updatedTrade.currency,
+        accountId: updatedTrade.accountId,
+        strategyId: updatedTrade.strategyId,
         buyDate: updatedTrade.buyDate,
         sellDate: updatedTrade.sellDate,
         quantity: updatedTrade.quantity,
         buyPrice: updatedTrade.buyPrice,
         sellPrice: updatedTrade.sellPrice,
         commission: updatedTrade.commission,
+        entryFee: updatedTrade.entryFee,
+        exitFee: updatedTrade.exitFee,
+        taxWithholding: updatedTrade.taxWithholding,
+        stopLoss: updatedTrade.stopLoss,
+        targetPrice: updatedTrade.targetPrice,
+        initialRisk: updatedTrade.initialRisk,
         pnl: updatedTrade.pnl,
+        grossPnl: updatedTrade.grossPnl,
         holdingDays: updatedTrade.holdingDays,
-        tags: (updatedTrade.tags || []).join(','),
+        tags: updatedTrade.tags,
+        executions: updatedTrade.executions,
+        importFingerprint: updatedTrade.importFingerprint,
         updatedAt: updatedTrade.updatedAt
       };
 
-      return await this.csvService.updateRecord(tradeId, csvUpdates);
+      const updated = await this.csvService.updateRecord(tradeId, csvUpdates);
+
+      if (updated) {
+        await this.recordChange(
+          `Edit ${currentRecord.ticker} (${Object.keys(updates).join(', ')})`,
+          [currentRecord],
+          [tradeId]
+        );
+      }
+
+      // Keep the planned stop/target/risk in the trade's notes in step with the CSV
+      if (updated && RISK_FIELDS.some(field => field in updates)) {
+        await this.syncNotesFrontmatter(currentRecord.folderPath, updatedTrade);
+      }
+
+      return updated;
     } catch (error) {
       console.error('Error updating trade:', error);
       return false;
     }
   }
 
+  /**
+   * Rewrite the risk fields in the frontmatter of every note in a trade folder
+   */
+  private async syncNotesFrontmatter(folderPath: string, trade: Trade): Promise<void> {
+    try {
+      const fullFolderPath = `${this.dataDirectory}/${folderPath}`;
+      const folderResult = await this.fileService.readDir(fullFolderPath);
+      if (!folderResult.success || !folderResult.data) {
+        return; // No notes yet
+      }
+
+      const noteFiles = folderResult.data.filter((item: any) => item.type === 'file' && item.name.endsWith('.md'));
+      for (const note of noteFiles) {
+        const notePath = `${fullFolderPath}/${note.name}`;
+        const readResult = await this.fileService.readFile(notePath);
+        if (!readResult.success) {
+          console.error('Failed to read note for frontmatter sync:', notePath);
+          continue;
+        }
+
+        const synced = TradeLinker.syncRiskFrontmatter(readResult.data, trade);
+        if (synced !== readResult.data) {
+          await this.fileService.writeFile(notePath, synced);
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing note frontmatter:', error);
+    }
+  }
+
   /**
    * Delete a trade and optionally its folder
    */
   async deleteTrade(tradeId: string, deleteFolder: boolean = false): Promise<boolean> {
     try {
+      await this.checkHistory();
+
       // Get trade record for folder path
       const record = await this.csvService.findRecord(tradeId);
       
       // Delete from central CSV
       const csvResult = await this.csvService.deleteRecord(tradeId);
       
-      // Optionally delete folder
-      if (deleteFolder && record) {
-        const fullFolderPath = `${this.dataDirectory}/${record.folderPath}`;
-        try {
-          await this.fileService.deleteDir(fullFolderPath);
-        } catch (error) {
-          console.warn('Failed to delete trade folder:', error);
-        }
+      // Optionally delete folder, into the trash so the delete can be undone
+      const changeId = TradeHistory.generateId();
+      const folders: TradeFolderChange[] = [];
+      if (csvResult && deleteFolder && record && await this.moveFolder(record.folderPath, changeId, false)) {
+        folders.push({ folderPath: record.folderPath, existsAfter: false });
+      }
+
+      if (csvResult && record) {
+        await this.recordChange(`Delete ${record.ticker}`, [record], [tradeId], { folders, id: changeId });
       }
 
       return csvResult;
@@ -188,29 +385,37 @@ export class TradeDataService {
    */
   async bulkDeleteTrades(tradeIds: string[], deleteFolders: boolean = false): Promise<boolean> {
     try {
-      // Get records for folder paths if needed
-      let folderPaths: string[] = [];
-      if (deleteFolders) {
-        const records = await this.csvService.readAllRecords();
-        folderPaths = records
-          .filter(r => tradeIds.includes(r.tradeId))
-          .map(r => `${this.dataDirectory}/${r.folderPath}`);
-      }
+      await this.checkHistory();
+
+      // Get records for folder paths and the undo history
+      const records = (await this.csvService.readAllRecords()).filter(r => tradeIds.includes(r.tradeId));
 
       // Delete from central CSV
       const csvResult = await this.csvService.deleteRecords(tradeIds);
+      if (!csvResult) {
+        return false;
+      }
 
-      // Optionally delete folders
+      // Optionally delete folders, into the trash so the delete can be undone
+      const changeId = TradeHistory.generateId();
+      const folders: TradeFolderChange[] = [];
       if (deleteFolders) {
-        for (const folderPath of folderPaths) {
-          try {
-            await this.fileService.deleteDir(folderPath);
-          } catch (error) {
-            console.warn('Failed to delete trade folder:', error);
+        for (const record of records) {
+          if (await this.moveFolder(record.folderPath, changeId, false)) {
+            folders.push({ folderPath: record.folderPath, existsAfter: false });
           }
         }
       }
 
+      if (records.length > 0) {
+        await this.recordChange(
+          records.length === 1 ? `Delete ${records[0].ticker}` : `Delete ${records.length} trades`,
+          records,
+          records.map(record => record.tradeId),
+          { folders, id: changeId }
+        );
+      }
+
       return csvResult;
     } catch (error) {
       console.error('Error bulk deleting trades:', error);
@@ -218,6 +423,276 @@ export class TradeDataService {
     }
   }
 
+  /**
+   * Update several trades in one write and one undo step. Other files the change
+   * has already rewritten or moved (e.g. notes and images for a tag rename) are
+   * recorded with it, so undo puts them back too.
+   */
+  async bulkUpdateTrades(
+    label: string,
+    updates: { tradeId: string; updates: Partial<Trade> }[],
+    files: TradeFileChange[] = []
+  ): Promise<boolean> {
+    try {
+      await this.checkHistory();
+
+      const currentRecords = await this.csvService.readAllRecords();
+      const csvUpdates: Record<string, Partial<CentralCSVRecord>> = {};
+      for (const { tradeId, updates: tradeUpdates } of updates) {
+        const currentRecord = currentRecords.find(record => record.tradeId === tradeId);
+        if (!currentRecord) {
+          console.warn('Trade not found for bulk update:', tradeId);
+          continue;
+        }
+
+        const updatedTrade: Trade = {
+          ...CentralCSVService.csvRecordToTrade(currentRecord),
+          ...tradeUpdates
+        };
+        CentralCSVService.recalculateDerivedFields(updatedTrade);
+        csvUpdates[tradeId] = CentralCSVService.tradeToCSVRecord(updatedTrade, currentRecord.folderPath);
+      }
+
+      if (Object.keys(csvUpdates).length > 0 && !(await this.csvService.updateRecords(csvUpdates))) {
+        console.error('Failed to bulk update trades in central CSV');
+        return false;
+      }
+
+      if (Object.keys(csvUpdates).length > 0 || files.length > 0) {
+        await this.recordChange(label, currentRecords, Object.keys(csvUpdates), { files });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error bulk updating trades:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Revert the newest change in the undo history
+   */
+  async undo(): Promise<HistoryStepResult> {
+    await this.checkHistory();
+    const change = TradeHistory.peekUndo();
+    if (!change) {
+      return { success: false, error: 'Nothing to undo' };
+    }
+
+    const error = await this.applyChange(change, 'undo');
+    if (error) {
+      return { success: false, label: change.label, error };
+    }
+
+    TradeHistory.markUndone(change.id, await this.csvService.getFileSignature());
+    return { success: true, label: change.label };
+  }
+
+  /**
+   * Re-apply the newest undone change
+   */
+  async redo(): Promise<HistoryStepResult> {
+    await this.checkHistory();
+    const change = TradeHistory.peekRedo();
+    if (!change) {
+      return { success: false, error: 'Nothing to redo' };
+    }
+
+    const error = await this.applyChange(change, 'redo');
+    if (error) {
+      return { success: false, label: change.label, error };
+    }
+
+    TradeHistory.markRedone(change.id, await this.csvService.getFileSignature());
+    return { success: true, label: change.label };
+  }
+
+  /**
+   * Add a change to the undo history, reading the trades it touched back from the CSV
+   * so their timestamps match what was written
+   */
+  private async recordChange(
+    label: string,
+    before: CentralCSVRecord[],
+    tradeIds: string[],
+    { folders = [], files = [], id = TradeHistory.generateId() }: {
+      folders?: TradeFolderChange[];
+      files?: TradeFileChange[];
+      id?: string;
+    } = {}
+  ): Promise<void> {
+    try {
+      const current = await this.csvService.readAllRecords();
+      const change: TradeChangeSet = {
+        id,
+        label,
+        at: new Date().toISOString(),
+        records: Array.from(new Set(tradeIds)).map(tradeId => ({
+          tradeId,
+          before: before.find(record => record.tradeId === tradeId) || null,
+          after: current.find(record => record.tradeId === tradeId) || null
+        })),
+        folders,
+        files
+      };
+
+      const dropped = TradeHistory.record(change, await this.csvService.getFileSignature());
+      await this.purgeTrash(dropped.map(item => item.id));
+    } catch (error) {
+      console.error('Error recording trade history:', error);
+    }
+  }
+
+  /**
+   * Drop the undo history if trades.csv no longer matches it, i.e. something wrote the
+   * file without going through this service. Replaying snapshots over such a write would
+   * quietly revert it.
+   */
+  private async checkHistory(): Promise<void> {
+    try {
+      if (TradeHistory.getIds().length === 0) {
+        return;
+      }
+
+      if (await this.csvService.getFileSignature() !== TradeHistory.getSignature()) {
+        console.warn('trades.csv was changed outside the undo history; clearing it');
+        const dropped = TradeHistory.clear();
+        await this.purgeTrash(dropped.map(item => item.id));
+      }
+    } catch (error) {
+      console.error('Error checking trade history:', error);
+    }
+  }
+
+  /**
+   * Write one side of a change set back. Returns an error message, or null on success.
+   * Nothing is written if one of its trades has changed since, so an undo can't
+   * overwrite a newer edit; the change is dropped from the history instead.
+   */
+  private async applyChange(change: TradeChangeSet, direction: 'undo' | 'redo'): Promise<string | null> {
+    const conflict = async (what: string) => {
+      TradeHistory.discard(change.id);
+      await this.purgeTrash([change.id]);
+      return `Can't ${direction} "${change.label}": ${what} has changed since`;
+    };
+
+    try {
+      const current = await this.csvService.readAllRecords();
+      for (const { tradeId, before, after } of change.records) {
+        const expected = direction === 'undo' ? after : before;
+        const record = current.find(item => item.tradeId === tradeId);
+        const unchanged = expected ? record?.updatedAt === expected.updatedAt : !record;
+        if (!unchanged) {
+          return await conflict(record?.ticker || expected?.ticker || tradeId);
+        }
+      }
+
+      for (const file of change.files) {
+        if (file.type === 'write') {
+          const result = await this.fileService.readFile(file.path);
+          if (!result.success || result.data !== (direction === 'undo' ? file.after : file.before)) {
+            return await conflict(file.path);
+          }
+        } else {
+          const exists = await this.fileService.exists(direction === 'undo' ? file.to : file.from);
+          if (!exists.success || !exists.data) {
+            return await conflict(direction === 'undo' ? file.to : file.from);
+          }
+        }
+      }
+
+      const targets = change.records.map(item => direction === 'undo' ? item.before : item.after);
+      const restored = await this.csvService.restoreRecords(
+        targets.filter((record): record is CentralCSVRecord => record !== null),
+        change.records.filter((_, index) => targets[index] === null).map(item => item.tradeId)
+      );
+      if (!restored) {
+        return `Failed to ${direction} "${change.label}"`;
+      }
+
+      for (const folder of change.folders) {
+        const restore = direction === 'undo' ? !folder.existsAfter : folder.existsAfter;
+        await this.moveFolder(folder.folderPath, change.id, restore);
+      }
+
+      // Undone in the reverse of the order they were made, so moves chained through a path unwind
+      const files = direction === 'undo' ? [...change.files].reverse() : change.files;
+      for (const file of files) {
+        const result = file.type === 'write'
+          ? await this.fileService.writeFile(file.path, direction === 'undo' ? file.before : file.after)
+          : await this.moveFile(direction === 'undo' ? file.to : file.from, direction === 'undo' ? file.from : file.to);
+        if (!result.success) {
+          console.warn(`Failed to ${direction} file change:`, result.error);
+        }
+      }
+
+      return null;
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      return `Failed to ${direction} "${change.label}"`;
+    }
+  }
+
+  private async moveFile(from: string, to: string): Promise<{ success: boolean; error?: string }> {
+    await this.fileService.createDir(to.substring(0, to.lastIndexOf('/')));
+    return this.fileService.moveFile(from, to);
+  }
+
+  /**
+   * Move a trade folder into a change set's trash folder, or back out of it
+   */
+  private async moveFolder(folderPath: string, changeId: string, restore: boolean): Promise<boolean> {
+    const livePath = `${this.dataDirectory}/${folderPath}`;
+    const trashPath = `${this.dataDirectory}/${TRASH_DIRECTORY}/${changeId}/${folderPath}`;
+    const [from, to] = restore ? [trashPath, livePath] : [livePath, trashPath];
+
+    try {
+      const exists = await this.fileService.exists(from);
+      if (!exists.success || !exists.data) {
+        return false;
+      }
+
+      const result = await this.moveFile(from, to);
+      if (!result.success) {
+        console.warn('Failed to move trade folder:', result.error);
+      }
+      return result.success;
+    } catch (error) {
+      console.warn('Failed to move trade folder:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Permanently delete trashed folders: those of the given change sets or, when none
+   * are given, every one whose change is no longer in the undo history
+   */
+  private async purgeTrash(changeIds?: string[]): Promise<void> {
+    const trashPath = `${this.dataDirectory}/${TRASH_DIRECTORY}`;
+    try {
+      let ids: string[] = changeIds || [];
+      if (!changeIds) {
+        const result = await this.fileService.readDir(trashPath);
+        if (!result.success || !result.data) {
+          return; // Nothing trashed yet
+        }
+        const live = TradeHistory.getIds();
+        ids = result.data
+          .filter((item: any) => item.type === 'directory' && !live.includes(item.name))
+          .map((item: any) => item.name as string);
+      }
+
+      for (const id of ids) {
+        const exists = await this.fileService.exists(`${trashPath}/${id}`);
+        if (exists.success && exists.data) {
+          await this.fileService.deleteDir(`${trashPath}/${id}`);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to empty the trade folder trash:', error);
+    }
+  }
+
   /**
    * Migrate existing LocalStorage trades to central CSV
    */
@@ -290,24 +765,37 @@ export class TradeDataService {
 
       // Convert to readable CSV format
       const headers = [
-        'Trade ID', 'Ticker', 'Buy Date', 'Sell Date', 'Quantity', 
-        'Buy Price', 'Sell Price', 'P&L', 'Holding Days'
+        'Trade ID', 'Account', 'Ticker', 'Direction', 'Currency', 'Buy Date', 'Sell Date', 'Quantity', 
+        'Buy Price', 'Sell Price', 'Gross P&L', 'Fees', 'Tax Withholding', 'Net P&L',
+        'Holding Days', 'Stop Loss', 'Target Price', 'Initial Risk', 'Setup', 'Tags', 'Executions'
       ];
 
       const rows = filteredRecords.map(record => [
         record.tradeId,
+        record.accountId || '',
         record.ticker,
+        record.direction || 'long',
+        record.currency || '',
         record.buyDate,
         record.sellDate || '',
         record.quantity.toString(),
         record.buyPrice.toString(),
         record.sellPrice?.toString() || '',
+        record.grossPnl?.toString() || '',
+        record.commission?.toString() || '',
+        record.taxWithholding?.toString() || '',
         record.pnl?.toString() || '',
-        record.holdingDays?.toString() || ''
+        record.holdingDays?.toString() || '',
+        record.stopLoss?.toString() || '',
+        record.targetPrice?.toString() || '',
+        record.initialRisk?.toString() || '',
+        record.strategyId || '',
+        (record.tags || []).join(','),
+        serializeExecutions(record.executions)
       ]);
 
       return [headers, ...rows]
-        .map(row => row.map(cell => `"${cell}"`).join(','))
+        .map(row => formatCSVRow(row))
         .join('\n');
     } catch (error) {
       console.error('Error exporting trades:', error);
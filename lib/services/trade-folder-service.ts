@@ -1,6 +1,8 @@
 import { Trade, TradeFolder, TradeMarkdown, TradeImage } from '@/types/trade';
 import { AppConfig } from '@/types/app';
 import { ElectronFileService } from './electron/electron-file-service';
+import { parseTagList, TAG_SEPARATOR } from '@/lib/tags/tag-utils';
+import { sanitizeFileName } from '@/lib/utils';
 import path from 'path';
 
 export class TradeFolderService {
@@ -106,6 +108,32 @@ export class TradeFolderService {
     }
   }
 
+  /**
+   * Save an image given as a data URL into the trade's images folder, creating the
+   * folder if needed, so it is picked up by the gallery like an uploaded screenshot
+   */
+  async saveImageFromDataUrl(trade: Trade, fileName: string, dataUrl: string): Promise<{ success: boolean; filePath?: string; error?: string }> {
+    try {
+      const folderResult = await this.createTradeFolder(trade);
+      if (!folderResult.success || !folderResult.folderPath) {
+        return { success: false, error: folderResult.error };
+      }
+
+      const filePath = path.join(folderResult.folderPath, 'images', sanitizeFileName(fileName));
+      const writeResult = await window.electronAPI.fs.writeImageFromDataUrl(filePath, dataUrl);
+      if (!writeResult.success) {
+        return { success: false, error: writeResult.error };
+      }
+
+      return { success: true, filePath };
+    } catch (error) {
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
   /**
    * Create initial markdown file for a trade
    */
@@ -287,8 +315,8 @@ ${trade.pnl ? `- **P&L**: $${trade.pnl}` : ''}
           buyPrice: frontmatter.buyPrice ? parseFloat(frontmatter.buyPrice) : undefined,
           sellDate: frontmatter.sellDate || undefined,
           sellPrice: frontmatter.sellPrice ? parseFloat(frontmatter.sellPrice) : undefined,
-          tags: frontmatter.tags ? frontmatter.tags.split(',').map((t: string) => t.trim()) : [],
-          ...frontmatter
+          ...frontmatter,
+          tags: parseTagList(frontmatter.tags)
         },
         createdAt: frontmatter.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -356,7 +384,7 @@ ${trade.pnl ? `- **P&L**: $${trade.pnl}` : ''}
   }
 
   /**
-   * Load images from a specific tag folder
+   * Load images from a specific tag folder; subfolders are namespaced tags (images/sector/tech -> "sector/tech")
    */
   private async loadImagesFromTagFolder(tagFolderPath: string, tradeId: string, tag: string): Promise<{ success: boolean; data?: TradeImage[]; error?: string }> {
     try {
@@ -382,6 +410,15 @@ ${trade.pnl ? `- **P&L**: $${trade.pnl}` : ''}
             createdAt: item.lastModified || new Date().toISOString()
           };
           images.push(image);
+        } else if (item.type === 'directory') {
+          const nestedImages = await this.loadImagesFromTagFolder(
+            path.join(tagFolderPath, item.name),
+            tradeId,
+            `${tag}${TAG_SEPARATOR}${item.name}`
+          );
+          if (nestedImages.success && nestedImages.data) {
+            images.push(...nestedImages.data);
+          }
         }
       }
 
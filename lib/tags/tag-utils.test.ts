@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatFrontmatterTags,
+  getTagName,
+  getTagNamespace,
+  normalizeTag,
+  parseTagList,
+  removeTagFromList,
+  renameTagInList,
+  tagMatches
+} from '@/lib/tags/tag-utils';
+
+describe('normalizeTag', () => {
+  it('trims segments and drops empty ones', () => {
+    expect(normalizeTag(' sector /  big   tech/')).toBe('sector/big tech');
+    expect(normalizeTag('//')).toBe('');
+  });
+});
+
+describe('getTagNamespace / getTagName', () => {
+  it('splits on the last separator', () => {
+    expect(getTagNamespace('sector/tech/semis')).toBe('sector/tech');
+    expect(getTagName('sector/tech/semis')).toBe('semis');
+    expect(getTagNamespace('earnings')).toBeUndefined();
+    expect(getTagName('earnings')).toBe('earnings');
+  });
+});
+
+describe('tagMatches', () => {
+  it('matches the tag itself and anything under it, not siblings sharing a prefix', () => {
+    expect(tagMatches('sector/tech', 'sector')).toBe(true);
+    expect(tagMatches('sector', 'sector')).toBe(true);
+    expect(tagMatches('sectors/tech', 'sector')).toBe(false);
+    expect(tagMatches('sector', 'sector/tech')).toBe(false);
+  });
+});
+
+describe('renameTagInList', () => {
+  it('renames a namespace with everything under it', () => {
+    expect(renameTagInList(['sector/tech', 'sector/tech/semis', 'earnings'], 'sector/tech', 'theme/ai'))
+      .toEqual(['theme/ai', 'theme/ai/semis', 'earnings']);
+  });
+
+  it('merges into an existing tag without duplicates', () => {
+    expect(renameTagInList(['breakout', 'setup/breakout'], 'breakout', 'setup/breakout')).toEqual(['setup/breakout']);
+  });
+});
+
+describe('removeTagFromList', () => {
+  it('removes the tag and everything under it', () => {
+    expect(removeTagFromList(['sector', 'sector/tech', 'sectors', 'earnings'], 'sector')).toEqual(['sectors', 'earnings']);
+  });
+});
+
+describe('parseTagList', () => {
+  it('reads plain, bracketed and quoted lists alike', () => {
+    expect(parseTagList('a, b/c')).toEqual(['a', 'b/c']);
+    expect(parseTagList('[a, b/c]')).toEqual(['a', 'b/c']);
+    expect(parseTagList('["a", \'b / c\', "a"]')).toEqual(['a', 'b/c']);
+    expect(parseTagList(['a', ' ', 'a'])).toEqual(['a']);
+    expect(parseTagList(undefined)).toEqual([]);
+  });
+
+  it('reads back what formatFrontmatterTags writes', () => {
+    const tags = ['sector/tech', 'earnings'];
+
+    expect(parseTagList(formatFrontmatterTags(tags))).toEqual(tags);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Helpers for namespaced tags such as "sector/tech" or "setup/breakout".
+ * A tag's namespace is everything before the last separator; image tag folders
+ * mirror the same hierarchy (images/sector/tech/...).
+ */
+
+export const TAG_SEPARATOR = '/';
+
+/**
+ * Trim each namespace segment and drop empty ones: " sector / tech/" -> "sector/tech"
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .split(TAG_SEPARATOR)
+    .map(segment => segment.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join(TAG_SEPARATOR);
+}
+
+export function getTagNamespace(tag: string): string | undefined {
+  const index = tag.lastIndexOf(TAG_SEPARATOR);
+  return index > 0 ? tag.substring(0, index) : undefined;
+}
+
+export function getTagName(tag: string): string {
+  return tag.substring(tag.lastIndexOf(TAG_SEPARATOR) + 1);
+}
+
+/**
+ * True when the tag is the target itself or sits anywhere under it as a namespace
+ */
+export function tagMatches(tag: string, target: string): boolean {
+  return tag === target || tag.startsWith(`${target}${TAG_SEPARATOR}`);
+}
+
+/**
+ * Replace `from` (and everything namespaced under it) with `to`, dropping
+ * duplicates so that renaming onto an existing tag merges the two
+ */
+export function renameTagInList(tags: string[], from: string, to: string): string[] {
+  const renamed = tags.map(tag => tagMatches(tag, from) ? `${to}${tag.substring(from.length)}` : tag);
+  return [...new Set(renamed)];
+}
+
+export function removeTagFromList(tags: string[], tag: string): string[] {
+  return tags.filter(existing => !tagMatches(existing, tag));
+}
+
+/**
+ * Parse a tag list as written in CSV cells or frontmatter:
+ * `a, b`, `[a, b]` and `["a", "b"]` all give ['a', 'b']
+ */
+export function parseTagList(value: string | string[] | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  const items = Array.isArray(value)
+    ? value
+    : value.trim().replace(/^\[|\]$/g, '').split(',');
+
+  return [...new Set(items
+    .map(item => normalizeTag(String(item).replace(/^\s*['"]|['"]\s*$/g, '')))
+    .filter(Boolean))];
+}
+
+/**
+ * The tag list as a frontmatter value, in the same form TradeLinker writes it
+ */
+export function formatFrontmatterTags(tags: string[]): string {
+  return `[${tags.map(tag => `"${tag}"`).join(', ')}]`;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyExecutionSummary,
+  parseExecutions,
+  serializeExecutions,
+  sortExecutions,
+  summarizeExecutions
+} from '@/lib/trade-executions/execution-utils';
+import { Trade, TradeExecution } from '@/types/trade';
+
+// Scale in with two buys, then scale out with one partial sell
+const legs: TradeExecution[] = [
+  { date: '2024-03-04', side: 'buy', price: 50, quantity: 100, fee: 1 },
+  { date: '2024-03-05', side: 'buy', price: 56, quantity: 50, fee: 1 },
+  { date: '2024-03-08', side: 'sell', price: 60, quantity: 90, fee: 1.5 }
+];
+
+describe('summarizeExecutions', () => {
+  it('averages entries and exits and realizes P&L on the exited quantity', () => {
+    const summary = summarizeExecutions(legs);
+
+    expect(summary).toMatchObject({
+      entryQuantity: 150,
+      exitQuantity: 90,
+      avgEntryPrice: 52,
+      avgExitPrice: 60,
+      firstEntryDate: '2024-03-04',
+      lastExitDate: '2024-03-08',
+      entryFees: 2,
+      exitFees: 1.5,
+      totalFees: 3.5,
+      realizedPnL: 720,
+      isClosed: false
+    });
+  });
+
+  it('is closed once exits cover the entries', () => {
+    const summary = summarizeExecutions([...legs, { date: '2024-03-11', side: 'sell', price: 62, quantity: 60 }]);
+
+    expect(summary.isClosed).toBe(true);
+    expect(summary.avgExitPrice).toBeCloseTo(60.8);
+    expect(summary.lastExitDate).toBe('2024-03-11');
+  });
+
+  it('has no exit price or P&L before any exit', () => {
+    const summary = summarizeExecutions(legs.slice(0, 2));
+
+    expect(summary.avgExitPrice).toBeUndefined();
+    expect(summary.realizedPnL).toBe(0);
+    expect(summary.isClosed).toBe(false);
+  });
+});
+
+describe('sortExecutions', () => {
+  it('keeps entries ahead of exits on the same day', () => {
+    const sameDay: TradeExecution[] = [
+      { date: '2024-03-04', side: 'sell', price: 51, quantity: 10 },
+      { date: '2024-03-04', side: 'buy', price: 50, quantity: 10 }
+    ];
+
+    expect(sortExecutions(sameDay).map(e => e.side)).toEqual(['buy', 'sell']);
+  });
+});
+
+describe('applyExecutionSummary', () => {
+  it('derives the trade fields and leaves the sell date empty while partly open', () => {
+    const trade = { id: 't1', ticker: 'XYZ', buyDate: '', buyPrice: 0, quantity: 0, executions: legs } as unknown as Trade;
+
+    applyExecutionSummary(trade);
+
+    expect(trade).toMatchObject({ buyDate: '2024-03-04', buyPrice: 52, quantity: 150, sellPrice: 60, commission: 3.5 });
+    expect(trade.sellDate).toBeUndefined();
+  });
+});
+
+describe('serializeExecutions / parseExecutions', () => {
+  it('round-trips legs through one CSV-safe cell', () => {
+    const serialized = serializeExecutions(legs);
+
+    expect(serialized).toBe('buy:2024-03-04:100@50:1;buy:2024-03-05:50@56:1;sell:2024-03-08:90@60:1.5');
+    expect(parseExecutions(serialized)).toEqual(legs);
+  });
+
+  it('drops malformed entries', () => {
+    expect(parseExecutions('buy:2024-03-04:10@5;hold:2024-03-05:1@1;sell:03/06/2024:10@6;sell:2024-03-07:x@6')).toEqual([
+      { date: '2024-03-04', side: 'buy', price: 5, quantity: 10, fee: undefined }
+    ]);
+  });
+
+  it('treats an empty cell as no executions', () => {
+    expect(serializeExecutions([])).toBe('');
+    expect(parseExecutions('  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Trade execution (leg) utilities
+ * Derives position-level fields from individual fills and serializes them for trades.csv
+ * Serialized format: "side:YYYY-MM-DD:quantity@price:fee" entries joined by ";"
+ */
+
+import { Trade, TradeDirection, TradeExecution } from '@/types/trade';
+import { calculateGrossPnL } from '@/lib/utils';
+
+export interface ExecutionSummary {
+  entryQuantity: number;
+  exitQuantity: number;
+  avgEntryPrice: number;
+  avgExitPrice?: number;
+  firstEntryDate?: string;
+  lastExitDate?: string;
+  entryFees: number;
+  exitFees: number;
+  totalFees: number;
+  realizedPnL: number; // Gross, on the exited quantity at average cost
+  isClosed: boolean;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Side of the executions that open a position in the given direction
+ */
+export function getEntrySide(direction: TradeDirection = 'long'): 'buy' | 'sell' {
+  return direction === 'short' ? 'sell' : 'buy';
+}
+
+/**
+ * Sort executions chronologically, keeping entries ahead of exits on the same day
+ */
+export function sortExecutions(executions: TradeExecution[], direction: TradeDirection = 'long'): TradeExecution[] {
+  const entrySide = getEntrySide(direction);
+  return [...executions].sort((a, b) => {
+    if (a.date !== b.date) {
+      return a.date.localeCompare(b.date);
+    }
+    return a.side === b.side ? 0 : a.side === entrySide ? -1 : 1;
+  });
+}
+
+/**
+ * Summarize a list of executions into average entry/exit and realized P&L
+ */
+export function summarizeExecutions(executions: TradeExecution[], direction: TradeDirection = 'long'): ExecutionSummary {
+  const entrySide = getEntrySide(direction);
+  const sorted = sortExecutions(executions, direction);
+  const entries = sorted.filter(e => e.side === entrySide);
+  const exits = sorted.filter(e => e.side !== entrySide);
+
+  const entryQuantity = entries.reduce((sum, e) => sum + e.quantity, 0);
+  const exitQuantity = exits.reduce((sum, e) => sum + e.quantity, 0);
+  const entryValue = entries.reduce((sum, e) => sum + e.price * e.quantity, 0);
+  const exitValue = exits.reduce((sum, e) => sum + e.price * e.quantity, 0);
+
+  const entryFees = entries.reduce((sum, e) => sum + (e.fee || 0), 0);
+  const exitFees = exits.reduce((sum, e) => sum + (e.fee || 0), 0);
+
+  const avgEntryPrice = entryQuantity > 0 ? entryValue / entryQuantity : 0;
+  const avgExitPrice = exitQuantity > 0 ? exitValue / exitQuantity : undefined;
+
+  return {
+    entryQuantity,
+    exitQuantity,
+    avgEntryPrice,
+    avgExitPrice,
+    firstEntryDate: entries[0]?.date,
+    lastExitDate: exits[exits.length - 1]?.date,
+    entryFees,
+    exitFees,
+    totalFees: entryFees + exitFees,
+    realizedPnL: avgExitPrice !== undefined
+      ? calculateGrossPnL(avgEntryPrice, avgExitPrice, exitQuantity, direction)
+      : 0,
+    isClosed: entryQuantity > 0 && exitQuantity >= entryQuantity - EPSILON
+  };
+}
+
+/**
+ * Overwrite a trade's entry/exit fields with values derived from its executions.
+ * Sell date is only set once the position is fully closed.
+ */
+export function applyExecutionSummary(trade: Trade): ExecutionSummary {
+  const summary = summarizeExecutions(trade.executions || [], trade.direction);
+
+  if (summary.firstEntryDate) {
+    trade.buyDate = summary.firstEntryDate;
+  }
+  trade.buyPrice = summary.avgEntryPrice;
+  trade.quantity = summary.entryQuantity;
+  trade.sellPrice = summary.avgExitPrice;
+  trade.sellDate = summary.isClosed ? summary.lastExitDate : undefined;
+  trade.entryFee = summary.entryFees;
+  trade.exitFee = summary.exitFees;
+  trade.commission = summary.totalFees;
+
+  return summary;
+}
+
+/**
+ * Serialize executions into a single CSV-safe cell (no commas or quotes)
+ */
+export function serializeExecutions(executions: TradeExecution[] | undefined): string {
+  if (!executions || executions.length === 0) {
+    return '';
+  }
+
+  return [...executions]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(e => `${e.side}:${e.date}:${e.quantity}@${e.price}:${e.fee || 0}`)
+    .join(';');
+}
+
+/**
+ * Parse executions serialized by serializeExecutions; malformed entries are dropped
+ */
+export function parseExecutions(value: string | undefined): TradeExecution[] {
+  if (!value || !value.trim()) {
+    return [];
+  }
+
+  const executions: TradeExecution[] = [];
+
+  for (const entry of value.split(';')) {
+    const match = entry.trim().match(/^(buy|sell):(\d{4}-\d{2}-\d{2}):([^:@]+)@([^:@]+)(?::([^:@]+))?$/);
+    if (!match) {
+      continue;
+    }
+
+    const quantity = parseFloat(match[3]);
+    const price = parseFloat(match[4]);
+    const fee = match[5] ? parseFloat(match[5]) : 0;
+    if (isNaN(quantity) || isNaN(price)) {
+      continue;
+    }
+
+    executions.push({
+      side: match[1] as 'buy' | 'sell',
+      date: match[2],
+      quantity,
+      price,
+      fee: fee || undefined
+    });
+  }
+
+  return executions;
+}
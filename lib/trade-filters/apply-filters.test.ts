@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { applyTradeFilters, NO_STRATEGY_FILTER_ID } from '@/lib/trade-filters/apply-filters';
+import { Trade } from '@/types/trade';
+
+function trade(id: string, fields: Partial<Trade>): Trade {
+  return {
+    id,
+    ticker: 'XYZ',
+    buyDate: '2024-01-02',
+    buyPrice: 10,
+    quantity: 10,
+    createdAt: '2024-01-02T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    ...fields
+  };
+}
+
+const ids = (trades: Trade[]) => trades.map(t => t.id);
+
+describe('applyTradeFilters date range', () => {
+  const trades = [
+    trade('jan', { buyDate: '2024-01-31', sellDate: '2024-02-01T15:30:00' }),
+    trade('feb', { buyDate: '2024-02-01', sellDate: '2024-02-29' }),
+    trade('open', { buyDate: '2024-02-15' })
+  ];
+
+  it('matches the entry date by default, including both bounds', () => {
+    expect(ids(applyTradeFilters(trades, { dateRange: { start: '2024-02-01', end: '2024-02-29' } }))).toEqual(['feb', 'open']);
+  });
+
+  it('matches the close date when asked, leaving open trades out', () => {
+    const filtered = applyTradeFilters(trades, { dateRange: { start: '2024-02-01', end: '2024-02-29', field: 'sellDate' } });
+
+    expect(ids(filtered)).toEqual(['jan', 'feb']);
+  });
+
+  it('leaves a blank bound open', () => {
+    expect(ids(applyTradeFilters(trades, { dateRange: { start: '', end: '2024-01-31' } }))).toEqual(['jan']);
+    expect(ids(applyTradeFilters(trades, { dateRange: { start: '2024-02-10', end: '' } }))).toEqual(['open']);
+  });
+});
+
+describe('applyTradeFilters setups', () => {
+  const trades = [
+    trade('breakout', { strategyId: 'breakout' }),
+    trade('pullback', { strategyId: 'pullback' }),
+    trade('none', {})
+  ];
+
+  it('keeps trades with the selected setups', () => {
+    expect(ids(applyTradeFilters(trades, { strategyIds: ['pullback'] }))).toEqual(['pullback']);
+  });
+
+  it('matches trades without a setup through the no-setup ID', () => {
+    expect(ids(applyTradeFilters(trades, { strategyIds: ['breakout', NO_STRATEGY_FILTER_ID] }))).toEqual(['breakout', 'none']);
+  });
+});
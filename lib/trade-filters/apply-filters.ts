@@ -0,0 +1,142 @@
+import { TradeFilters } from '@/types/app';
+import { Trade } from '@/types/trade';
+
+const ACTIVE_FILTERS_KEY = 'trade-active-filters';
+
+// Stands in for "no setup recorded" in TradeFilters.strategyIds
+export const NO_STRATEGY_FILTER_ID = '__none__';
+
+/**
+ * Apply the filter panel settings to a list of trades.
+ * Shared by the trades list and analytics so both views agree on what is "in".
+ */
+export function applyTradeFilters(trades: Trade[], filters: TradeFilters): Trade[] {
+  let filtered = [...trades];
+
+  if (filters.dateRange) {
+    const field = filters.dateRange.field || 'buyDate';
+    filtered = filtered.filter(trade => {
+      if (!trade[field]) {
+        return false; // Open trades have no sell date to match
+      }
+      // Compare the date part only; a blank bound leaves that side open
+      const tradeDate = trade[field]!.split('T')[0];
+      const { start, end } = filters.dateRange!;
+      return (!start || tradeDate >= start) && (!end || tradeDate <= end);
+    });
+  }
+
+  if (filters.tickers && filters.tickers.length > 0) {
+    filtered = filtered.filter(trade =>
+      filters.tickers!.includes(trade.ticker)
+    );
+  }
+
+  if (filters.actions && filters.actions.length > 0) {
+    filtered = filtered.filter(trade => {
+      // Map old action filter to new status logic
+      // 'buy' filter -> show open trades (no sell date)
+      // 'sell' filter -> show closed trades (has sell date)
+      const hasOpenFilter = filters.actions!.includes('buy');
+      const hasClosedFilter = filters.actions!.includes('sell');
+
+      if (hasOpenFilter && hasClosedFilter) {
+        return true; // Show all trades
+      } else if (hasOpenFilter) {
+        return !trade.sellDate; // Show only open trades
+      } else if (hasClosedFilter) {
+        return !!trade.sellDate; // Show only closed trades
+      }
+      return false;
+    });
+  }
+
+  if (filters.directions && filters.directions.length > 0) {
+    filtered = filtered.filter(trade =>
+      filters.directions!.includes(trade.direction || 'long')
+    );
+  }
+
+  if (filters.strategyIds && filters.strategyIds.length > 0) {
+    filtered = filtered.filter(trade =>
+      filters.strategyIds!.includes(trade.strategyId || NO_STRATEGY_FILTER_ID)
+    );
+  }
+
+  if (filters.accountIds && filters.accountIds.length > 0) {
+    filtered = filtered.filter(trade =>
+      !!trade.accountId && filters.accountIds!.includes(trade.accountId)
+    );
+  }
+
+  if (filters.hasNotes !== undefined) {
+    filtered = filtered.filter(trade =>
+      filters.hasNotes ? (trade.notesFiles || []).length > 0 : (trade.notesFiles || []).length === 0
+    );
+  }
+
+  if (filters.pnlRange) {
+    filtered = filtered.filter(trade => {
+      const pnl = trade.pnl || 0;
+      return pnl >= filters.pnlRange!.min && pnl <= filters.pnlRange!.max;
+    });
+  }
+
+  if (filters.quantityRange) {
+    filtered = filtered.filter(trade => {
+      return trade.quantity >= filters.quantityRange!.min &&
+             trade.quantity <= filters.quantityRange!.max;
+    });
+  }
+
+  if (filters.pnlCategory && filters.pnlCategory !== 'all') {
+    filtered = filtered.filter(trade => {
+      const pnl = trade.pnl || 0;
+      switch (filters.pnlCategory) {
+        case 'profitable':
+          return pnl > 0;
+        case 'loss':
+          return pnl < 0;
+        case 'breakeven':
+          return pnl === 0;
+        default:
+          return true;
+      }
+    });
+  }
+
+  if (filters.hasImages !== undefined) {
+    // Placeholder for image filtering - will be implemented when image functionality is added
+    // For now, this filter doesn't affect results
+  }
+
+  return filtered;
+}
+
+/**
+ * The filters currently set in the panel, kept for the session so the
+ * trades page and analytics page show the same selection.
+ */
+export function loadActiveFilters(): TradeFilters {
+  try {
+    const saved = sessionStorage.getItem(ACTIVE_FILTERS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error loading active filters:', error);
+    return {};
+  }
+}
+
+export function saveActiveFilters(filters: TradeFilters): void {
+  try {
+    sessionStorage.setItem(ACTIVE_FILTERS_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.error('Error saving active filters:', error);
+  }
+}
+
+export function countActiveFilters(filters: TradeFilters): number {
+  return Object.values(filters).filter(value =>
+    value !== undefined && value !== 'all' && !(Array.isArray(value) && value.length === 0)
+  ).length;
+}
@@ -1,5 +1,8 @@
 import { Trade, TradeMarkdown } from '@/types/trade';
 import { generateId } from '@/lib/utils';
+import { formatFrontmatterTags, parseTagList } from '@/lib/tags/tag-utils';
+
+const RISK_FRONTMATTER_FIELDS = ['stopLoss', 'targetPrice', 'initialRisk'] as const;
 
 export class TradeLinker {
   static linkMarkdownToTrade(trade: Trade, markdownContent: string, fileName: string): TradeMarkdown {
@@ -101,8 +104,8 @@ export class TradeLinker {
 - 
 
 ## リスク管理
-- ストップロス: $
-- 目標価格: $
+- ストップロス: $${trade.stopLoss ?? ''}
+- 目標価格: $${trade.targetPrice ?? ''}
 
 ## 注意点
 - 
@@ -191,7 +194,8 @@ export class TradeLinker {
       `quantity: ${trade.quantity}`,
       `buyPrice: ${trade.buyPrice}`,
       `sellPrice: ${trade.sellPrice || ''}`,
-      trade.tags && trade.tags.length > 0 ? `tags: [${trade.tags.map(tag => `"${tag}"`).join(', ')}]` : '',
+      ...this.riskFrontmatterLines(trade),
+      trade.tags && trade.tags.length > 0 ? `tags: ${formatFrontmatterTags(trade.tags)}` : '',
       '---',
       ''
     ].filter(Boolean).join('\n');
@@ -199,6 +203,71 @@ export class TradeLinker {
     return frontmatter;
   }
 
+  /**
+   * Planned risk fields as frontmatter lines; fields that aren't set are left out
+   */
+  private static riskFrontmatterLines(trade: Trade): string[] {
+    return RISK_FRONTMATTER_FIELDS
+      .filter(field => trade[field] !== undefined)
+      .map(field => `${field}: ${trade[field]}`);
+  }
+
+  /**
+   * Rewrite the planned risk fields in a note's frontmatter to match the trade.
+   * Other frontmatter lines and the body are left untouched; notes without
+   * frontmatter get a block containing just these fields.
+   */
+  static syncRiskFrontmatter(content: string, trade: Trade): string {
+    const riskLines = this.riskFrontmatterLines(trade);
+    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+
+    if (!frontmatterMatch) {
+      return riskLines.length > 0 ? `---\n${riskLines.join('\n')}\n---\n${content}` : content;
+    }
+
+    const isRiskLine = (line: string) =>
+      RISK_FRONTMATTER_FIELDS.some(field => line.startsWith(`${field}:`));
+    const lines = frontmatterMatch[1].split('\n').filter(line => !isRiskLine(line));
+
+    return `---\n${[...lines, ...riskLines].join('\n')}\n---${content.substring(frontmatterMatch[0].length)}`;
+  }
+
+  /**
+   * Tags listed on the note's frontmatter `tags:` line
+   */
+  static getFrontmatterTags(content: string): string[] {
+    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+    const tagsLine = frontmatterMatch?.[1].split('\n').find(line => line.startsWith('tags:'));
+    return tagsLine ? parseTagList(tagsLine.substring('tags:'.length)) : [];
+  }
+
+  /**
+   * Replace the note's frontmatter tags, leaving everything else untouched.
+   * An empty list removes the `tags:` line.
+   */
+  static setFrontmatterTags(content: string, tags: string[]): string {
+    const tagsLine = tags.length > 0 ? `tags: ${formatFrontmatterTags(tags)}` : '';
+    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+
+    if (!frontmatterMatch) {
+      return tagsLine ? `---\n${tagsLine}\n---\n${content}` : content;
+    }
+
+    const lines = frontmatterMatch[1].split('\n');
+    const index = lines.findIndex(line => line.startsWith('tags:'));
+    if (index === -1) {
+      if (tagsLine) {
+        lines.push(tagsLine);
+      }
+    } else if (tagsLine) {
+      lines[index] = tagsLine;
+    } else {
+      lines.splice(index, 1);
+    }
+
+    return `---\n${lines.join('\n')}\n---${content.substring(frontmatterMatch[0].length)}`;
+  }
+
   static updateTradeWithMarkdown(trade: Trade, markdownFiles: TradeMarkdown[]): Trade {
     const notesFiles = markdownFiles.map(md => md.filePath);
     
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGrossPnL, getInitialRisk, getRMultiple, getTotalFees, getTradePnL } from '@/lib/utils';
+import { Trade } from '@/types/trade';
+
+describe('calculateGrossPnL', () => {
+  it('gains when a long exits higher', () => {
+    expect(calculateGrossPnL(100, 110, 5)).toBe(50);
+    expect(calculateGrossPnL(100, 90, 5, 'long')).toBe(-50);
+  });
+
+  it('gains when a short is covered lower', () => {
+    expect(calculateGrossPnL(100, 90, 5, 'short')).toBe(50);
+    expect(calculateGrossPnL(100, 110, 5, 'short')).toBe(-50);
+  });
+});
+
+describe('getTotalFees', () => {
+  it('adds entry and exit fees when either is set', () => {
+    expect(getTotalFees({ commission: 9, entryFee: 1.5, exitFee: undefined })).toBe(1.5);
+    expect(getTotalFees({ entryFee: 1.5, exitFee: 2 })).toBe(3.5);
+  });
+
+  it('falls back to the commission otherwise', () => {
+    expect(getTotalFees({ commission: 9 })).toBe(9);
+    expect(getTotalFees({})).toBe(0);
+  });
+});
+
+describe('getTradePnL', () => {
+  const trade = (fields: Partial<Trade>): Trade => ({
+    id: 't1',
+    ticker: 'XYZ',
+    buyDate: '2024-01-02',
+    buyPrice: 10,
+    quantity: 10,
+    createdAt: '2024-01-02T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    ...fields
+  });
+
+  it('returns the stored net P&L on the net basis', () => {
+    expect(getTradePnL(trade({ pnl: 90, grossPnl: 100 }))).toBe(90);
+    expect(getTradePnL(trade({}), 'gross')).toBeUndefined();
+  });
+
+  it('uses the stored gross P&L, else adds fees and tax back to the net P&L', () => {
+    expect(getTradePnL(trade({ pnl: 90, grossPnl: 100 }), 'gross')).toBe(100);
+    expect(getTradePnL(trade({ pnl: 85, entryFee: 2, exitFee: 3, taxWithholding: 10 }), 'gross')).toBe(100);
+  });
+});
+
+describe('getInitialRisk', () => {
+  it('prefers the recorded initial risk', () => {
+    expect(getInitialRisk({ initialRisk: 250, stopLoss: 95, buyPrice: 100, quantity: 10 })).toBe(250);
+  });
+
+  it('derives 1R from the distance to the stop on either side of the entry', () => {
+    expect(getInitialRisk({ stopLoss: 95, buyPrice: 100, quantity: 10 })).toBe(50);
+    expect(getInitialRisk({ stopLoss: 105, buyPrice: 100, quantity: 10 })).toBe(50);
+  });
+
+  it('is unknown without a stop or with a stop at the entry', () => {
+    expect(getInitialRisk({ buyPrice: 100, quantity: 10 })).toBeUndefined();
+    expect(getInitialRisk({ stopLoss: 100, buyPrice: 100, quantity: 10 })).toBeUndefined();
+  });
+});
+
+describe('getRMultiple', () => {
+  const trade = (fields: Partial<Trade>): Trade => ({
+    id: 't1',
+    ticker: 'XYZ',
+    buyDate: '2024-01-02',
+    buyPrice: 100,
+    quantity: 10,
+    stopLoss: 95,
+    createdAt: '2024-01-02T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    ...fields
+  });
+
+  it('divides realized P&L by the initial risk on the chosen basis', () => {
+    const closed = trade({ sellDate: '2024-01-09', pnl: 90, grossPnl: 100 });
+
+    expect(getRMultiple(closed)).toBeCloseTo(1.8);
+    expect(getRMultiple(closed, 'gross')).toBeCloseTo(2);
+  });
+
+  it('is undefined for open trades and trades without a stop', () => {
+    expect(getRMultiple(trade({ pnl: 90 }))).toBeUndefined();
+    expect(getRMultiple(trade({ sellDate: '2024-01-09', pnl: 90, stopLoss: undefined }))).toBeUndefined();
+  });
+});
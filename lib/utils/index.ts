@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { PnLBasis, Trade, TradeDirection } from "@/types/trade"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -34,7 +35,8 @@ export function parseNumber(value: string | number, options?: {
 }): number {
   if (typeof value === 'number') return value;
   
-  let cleanValue = value.toString();
+  // Brokers often write amounts as "$1,234.50" or "￥1,234"
+  let cleanValue = value.toString().replace(/[$€£¥￥\s]/g, '');
   
   if (options?.thousandsSeparator) {
     cleanValue = cleanValue.replace(new RegExp(`\\${options.thousandsSeparator}`, 'g'), '');
@@ -45,4 +47,50 @@ export function parseNumber(value: string | number, options?: {
   }
   
   return parseFloat(cleanValue) || 0;
-}
\ No newline at end of file
+}
+
+export function calculateGrossPnL(
+  entryPrice: number,
+  exitPrice: number,
+  quantity: number,
+  direction: TradeDirection = 'long'
+): number {
+  const pnl = (exitPrice - entryPrice) * quantity;
+  return direction === 'short' ? -pnl : pnl;
+}
+
+export function getTotalFees(trade: Pick<Trade, 'commission' | 'entryFee' | 'exitFee'>): number {
+  if (trade.entryFee !== undefined || trade.exitFee !== undefined) {
+    return (trade.entryFee || 0) + (trade.exitFee || 0);
+  }
+  return trade.commission || 0;
+}
+
+export function getTradePnL(trade: Trade, basis: PnLBasis = 'net'): number | undefined {
+  if (basis === 'net' || trade.pnl === undefined || trade.pnl === null) {
+    return trade.pnl;
+  }
+  return trade.grossPnl ?? trade.pnl + getTotalFees(trade) + (trade.taxWithholding || 0);
+}
+
+// 1R: the explicit initial risk, else the distance from entry to stop times quantity
+export function getInitialRisk(trade: Pick<Trade, 'initialRisk' | 'stopLoss' | 'buyPrice' | 'quantity'>): number | undefined {
+  if (trade.initialRisk !== undefined && trade.initialRisk > 0) {
+    return trade.initialRisk;
+  }
+  if (trade.stopLoss === undefined || !trade.buyPrice || !trade.quantity) {
+    return undefined;
+  }
+  const risk = Math.abs(trade.buyPrice - trade.stopLoss) * trade.quantity;
+  return risk > 0 ? risk : undefined;
+}
+
+// Realized P&L in units of initial risk; undefined for open trades or trades without a stop
+export function getRMultiple(trade: Trade, basis: PnLBasis = 'net'): number | undefined {
+  const pnl = getTradePnL(trade, basis);
+  const risk = getInitialRisk(trade);
+  if (pnl === undefined || pnl === null || !trade.sellDate || !risk) {
+    return undefined;
+  }
+  return pnl / risk;
+}
@@ -0,0 +1,40 @@
+/**
+ * Render an on-screen SVG to a PNG data URL. The SVG must carry its styling as
+ * attributes (not CSS classes), since it is drawn outside the page.
+ */
+export async function svgToPngDataUrl(svg: SVGSVGElement, scale: number = 2): Promise<string> {
+  const viewBox = svg.viewBox.baseVal;
+  const width = viewBox?.width || svg.clientWidth;
+  const height = viewBox?.height || svg.clientHeight;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.removeAttribute('class');
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to render chart image'));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
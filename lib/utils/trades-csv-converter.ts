@@ -1,4 +1,5 @@
 import { Trade } from '@/types/trade';
+import { calculateGrossPnL } from '@/lib/utils';
 import { CSVDocument, CSVRecord } from '@/types/csv-viewer';
 
 export function tradesToCSVDocument(trades: Trade[]): CSVDocument {
@@ -6,9 +7,14 @@ export function tradesToCSVDocument(trades: Trade[]): CSVDocument {
     'buyDate',
     'sellDate', 
     'ticker',
+    'direction',
+    'currency',
     'quantity',
     'buyPrice',
     'sellPrice',
+    'stopLoss',
+    'targetPrice',
+    'initialRisk',
     'pnl',
     'holdingDays'
   ];
@@ -31,9 +37,14 @@ export function tradesToCSVDocument(trades: Trade[]): CSVDocument {
       buyDate: trade.buyDate || '',
       sellDate: trade.sellDate || '',
       ticker: trade.ticker || '',
+      direction: trade.direction || 'long',
+      currency: trade.currency || '',
       quantity: trade.quantity?.toString() || '0',
       buyPrice: trade.buyPrice?.toString() || '0',
       sellPrice: trade.sellPrice?.toString() || '',
+      stopLoss: trade.stopLoss?.toString() || '',
+      targetPrice: trade.targetPrice?.toString() || '',
+      initialRisk: trade.initialRisk?.toString() || '',
       pnl: trade.pnl?.toString() || '',
       holdingDays: trade.holdingDays?.toString() || ''
     },
@@ -67,13 +78,15 @@ export function csvDocumentToTrades(document: CSVDocument): Trade[] {
     const quantity = parseFloat(data.quantity) || 0;
     const buyPrice = parseFloat(data.buyPrice) || 0;
     const sellPrice = data.sellPrice ? parseFloat(data.sellPrice) : undefined;
+    const direction = data.direction?.trim().toLowerCase() === 'short' ? 'short' : 'long';
+    const optionalNumber = (value?: string) => value ? parseFloat(value) : undefined;
 
     // Auto-calculate P&L and holding days
     let pnl: number | undefined;
     let holdingDays: number | undefined;
 
     if (sellPrice !== undefined) {
-      pnl = (sellPrice - buyPrice) * quantity;
+      pnl = calculateGrossPnL(buyPrice, sellPrice, quantity, direction);
     }
 
     if (data.sellDate && data.buyDate) {
@@ -87,9 +100,14 @@ export function csvDocumentToTrades(document: CSVDocument): Trade[] {
       buyDate: data.buyDate,
       sellDate: data.sellDate || undefined,
       ticker: data.ticker,
+      direction,
+      currency: data.currency?.trim().toUpperCase() || undefined,
       quantity,
       buyPrice,
       sellPrice,
+      stopLoss: optionalNumber(data.stopLoss),
+      targetPrice: optionalNumber(data.targetPrice),
+      initialRisk: optionalNumber(data.initialRisk),
       pnl,
       holdingDays,
       notesFiles: [],
@@ -0,0 +1,9 @@
+export interface Account {
+  id: string;
+  name: string;
+  broker?: string;
+  currency: string; // ISO 4217 code the account is held in
+  startingCapital: number; // In the account currency
+  createdAt: string;
+  updatedAt: string;
+}
@@ -8,10 +8,17 @@ export interface AppConfig {
   autoBackup: boolean;
   backupInterval: number;
   maxBackups: number;
+  backupTradeFolders?: boolean; // Include trade folders (notes, images) in scheduled backups
   selectedTrades?: string[]; // Optional for backward compatibility
   csvImport?: any; // Optional for CSV import configuration
   ui?: any; // Optional for UI configuration
   export?: any; // Optional for export configuration
+  pnlDisplay?: PnLBasis; // Which P&L the UI shows by default (defaults to 'net')
+  baseCurrency?: string; // Currency totals are reported in (defaults to 'USD')
+  startingCapital?: number; // In base currency; return-based metrics need it (accounts use their own)
+  riskFreeRate?: number; // Annual percent used by Sharpe and Sortino (defaults to 0)
+  benchmarkTicker?: string; // Index the equity curve is compared with; its daily bars come from the OHLC store
+  activeAccountId?: string; // Account selected in the navigation switcher; unset = all accounts
   // Markdown memo configuration
   markdownEnabled?: boolean;
   markdownDirectory?: string; // Relative to dataDirectory (default: 'trades')
@@ -37,9 +44,13 @@ export interface TradeFilters {
   dateRange?: {
     start: string;
     end: string;
+    field?: TradeDateField; // Defaults to buyDate
   };
   tickers?: string[];
   actions?: ('buy' | 'sell')[];
+  directions?: TradeDirection[];
+  strategyIds?: string[]; // Setups to include; NO_STRATEGY_FILTER_ID matches trades without one
+  accountIds?: string[];
   tags?: string[];
   hasNotes?: boolean;
   hasImages?: boolean;
@@ -79,5 +90,5 @@ export interface FileSystemItem {
   children?: FileSystemItem[];
 }
 
-import { Trade } from './trade';
+import { PnLBasis, Trade, TradeDateField, TradeDirection } from './trade';
 import { CSVMapping } from './csv';
\ No newline at end of file
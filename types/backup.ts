@@ -0,0 +1,40 @@
+export type BackupReason = 'scheduled' | 'manual' | 'pre-restore';
+
+// Parts of a backup that can be restored on their own
+export type BackupGroupId = 'trades' | 'settings' | 'data' | 'presets' | 'tradeFolders';
+
+// An archive in {dataDirectory}/backups, written by the main process's backup scheduler
+export interface BackupInfo {
+  fileName: string;
+  path: string;
+  createdAt: string; // ISO timestamp
+  reason: BackupReason;
+  size: number; // Bytes, compressed
+}
+
+export interface BackupGroup {
+  id: BackupGroupId;
+  label: string;
+  files: string[]; // Paths relative to the data directory
+  size: number; // Bytes, uncompressed
+}
+
+export interface BackupPreview {
+  fileName: string;
+  manifest: {
+    createdAt: string;
+    reason: BackupReason;
+    appVersion: string;
+    dataDirectory: string;
+    includesTradeFolders: boolean;
+    files: number;
+  } | null; // Null for archives without a manifest
+  tradeCount: number | null; // Trades in the archived trades.csv
+  accountCount: number | null; // Accounts in the archived accounts.json
+  groups: BackupGroup[];
+}
+
+export interface BackupRestoreResult {
+  restored: number; // Files written
+  safetyBackup?: string; // Archive of the state before the restore
+}
@@ -2,6 +2,7 @@ export interface CSVData {
   headers: string[];
   rows: Record<string, string | number>[];
   rawData: string[][];
+  detection?: CSVFormatDetection;
 }
 
 export interface CSVMapping {
@@ -15,18 +16,106 @@ export interface CSVMapping {
     quantity: string;
     sellDate?: string;
     sellPrice?: string;
-    commission?: string;
+    commission?: string; // Total fees when the broker doesn't split entry and exit
+    entryFee?: string;
+    exitFee?: string;
+    tax?: string; // Tax withheld on the realized gain
+    direction?: string; // Column holding long/short; rows default to long when unmapped
+    currency?: string; // Column holding an ISO currency code per row
     [key: string]: string | undefined;
   };
+  shortValues?: string[]; // Direction column values meaning short (case-insensitive)
+  currency?: string; // Currency of rows without a currency column value; blank = base currency
+  accountId?: string; // Account imported trades are assigned to
+  importMode?: CSVImportMode; // Defaults to 'round-trip'
+  executionLog?: ExecutionLogMapping; // Required when importMode is 'execution-log'
   dateFormat: string;
-  numberFormat?: {
-    decimalSeparator?: string;
-    thousandsSeparator?: string;
-  };
+  numberFormat?: CSVNumberFormat;
+  fingerprint?: FingerprintStrategy; // How re-imported rows are recognised; defaults to DEFAULT_FINGERPRINT_STRATEGY
+  computedColumns?: CSVComputedColumn[]; // Evaluated in order before mapping; mappable like any other column
+  encoding?: string; // Encoding the broker exports in (e.g. Shift_JIS); files are re-read with it when the preset is picked by hand
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * A column derived from others with a transform expression (see TransformExpression),
+ * e.g. { name: 'Symbol', expression: "split([Security], ' ', 0)" }
+ */
+export interface CSVComputedColumn {
+  name: string;
+  expression: string;
+}
+
+/**
+ * A reusable mapping for one broker's export format, picked automatically when a
+ * file's header row contains all of its detectHeaders
+ */
+export interface CSVMappingPreset {
+  id: string;
+  name: string;
+  broker: string;
+  region?: string; // Market the broker serves, e.g. 'US' or 'JP'
+  description?: string;
+  detectHeaders: string[]; // Compared ignoring case, surrounding spaces and full-width characters
+  mapping: Omit<CSVMapping, 'id' | 'name' | 'accountId' | 'createdAt' | 'updatedAt'>;
+  source?: 'built-in' | 'user';
+}
+
+export interface CSVNumberFormat {
+  decimalSeparator?: string;
+  thousandsSeparator?: string; // Blank when numbers aren't grouped
+}
+
+export type FingerprintField = 'ticker' | 'direction' | 'accountId' | 'buyDate' | 'buyPrice' | 'quantity' | 'sellDate' | 'sellPrice';
+
+/**
+ * Identity of an imported trade. Saved with the mapping, and the resulting fingerprint
+ * is stored on each trade, so importing the same export again finds the same trades.
+ */
+export interface FingerprintStrategy {
+  fields: FingerprintField[];
+  executionIdColumn?: string; // Broker execution/trade ID column; used instead of fields for rows that have one
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'changed';
+
+export type ImportGroupAction = 'add' | 'update' | 'skip'; // 'add' on duplicate/changed rows force-adds a second copy
+
+export interface ImportRowMatch {
+  trade: Trade; // As mapped from the file
+  status: ImportRowStatus;
+  existing?: Trade; // The journal trade it matched
+  changes?: string[]; // Fields that differ from the existing trade, for 'changed'
+}
+
+export type CSVEncoding = 'UTF-8' | 'UTF-8-BOM' | 'Shift_JIS' | 'EUC-JP' | 'UTF-16LE' | 'UTF-16BE' | 'windows-1252';
+
+/**
+ * What the parser worked out about a file, shown in the importer so it can be overridden
+ */
+export interface CSVFormatDetection {
+  encoding: string;
+  delimiter: string;
+  numberFormat: CSVNumberFormat;
+}
+
+export type CSVImportMode = 'round-trip' | 'execution-log';
+
+export type LotMatchingMethod = 'fifo' | 'lifo' | 'average' | 'position'; // 'position' keeps scale-ins/outs as legs of one trade
+
+export interface ExecutionLogMapping {
+  actionColumn: string;
+  dateColumn: string;
+  priceColumn: string;
+  feesColumn?: string;
+  buyActions: string[]; // Action values treated as buys (case-insensitive)
+  sellActions: string[]; // Action values treated as sells (case-insensitive)
+  shortActions?: string[]; // Action values that open a short (sell to open)
+  coverActions?: string[]; // Action values that close a short (buy to cover)
+  lotMatching: LotMatchingMethod;
+}
+
 export interface CSVImportConfig {
   file: File;
   mapping: CSVMapping;
@@ -45,10 +134,9 @@ export interface CSVImportResult {
 }
 
 export interface CSVParseOptions {
-  delimiter?: string;
-  header?: boolean;
-  skipEmptyLines?: boolean;
-  encoding?: string;
+  delimiter?: string; // Detected from the first lines when blank
+  header?: boolean; // Defaults to true; blank lines are always skipped
+  encoding?: string; // Detected from the file's bytes when blank or 'auto'
 }
 
 import { Trade } from './trade';
\ No newline at end of file
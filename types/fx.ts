@@ -0,0 +1,7 @@
+// One row of the user-maintained FX rates file: 1 unit of `from` = `rate` units of `to`
+export interface FxRate {
+  date?: string; // YYYY-MM-DD the rate applies from; omitted = applies to any date
+  from: string; // ISO 4217 code, e.g. JPY
+  to: string;
+  rate: number;
+}
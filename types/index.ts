@@ -1,3 +1,9 @@
 export * from './trade';
 export * from './csv';
-export * from './app';
\ No newline at end of file
+export * from './app';
+export * from './fx';
+export * from './account';
+export * from './strategy';
+export * from './tag';
+export * from './price';
+export * from './ohlc';export * from './backup';
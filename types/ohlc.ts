@@ -0,0 +1,25 @@
+// One daily price bar, in the ticker's trading currency
+export interface OHLCBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+// What is stored for a ticker, as listed in settings
+export interface OHLCSeriesInfo {
+  ticker: string;
+  bars: number;
+  firstDate?: string;
+  lastDate?: string;
+}
+
+export interface OHLCImportResult {
+  ticker: string;
+  imported: number; // Valid rows read from the file
+  added: number; // Dates that were not stored before
+  updated: number; // Dates whose bar was replaced
+  skipped: number; // Rows without a date or with unusable prices
+}
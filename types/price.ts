@@ -0,0 +1,10 @@
+export type PriceSource = 'file' | 'manual';
+
+// Current price used to value an open position, in the trade's currency
+export interface PriceMark {
+  ticker: string; // Upper-cased
+  price: number;
+  date?: string; // YYYY-MM-DD the price is from, when known
+  source: PriceSource;
+  updatedAt?: string; // ISO timestamp; set on manual marks
+}
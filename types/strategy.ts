@@ -0,0 +1,9 @@
+// A trading setup (strategy) from the user's catalogue, e.g. "Breakout" or "Pullback to 20EMA"
+export interface TradeStrategy {
+  id: string;
+  name: string;
+  description?: string;
+  checklist: string[]; // Conditions to confirm before taking the trade
+  createdAt: string;
+  updatedAt: string;
+}
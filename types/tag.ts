@@ -0,0 +1,14 @@
+// Where and how often a tag is used; tags can be namespaced, e.g. "sector/tech"
+export interface TagUsage {
+  tag: string;
+  trades: number; // Trades carrying the tag in trades.csv
+  notes: number; // Notes listing the tag in their frontmatter
+  images: number; // Images filed in the tag's folder (images/<tag>/)
+}
+
+// What a rename, merge or delete touched
+export interface TagChangeSummary {
+  trades: number;
+  notes: number;
+  images: number;
+}
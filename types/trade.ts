@@ -1,20 +1,50 @@
+export type TradeDirection = 'long' | 'short';
+
+export type PnLBasis = 'gross' | 'net';
+
+// Which date a trade is attributed to in date-based views and filters
+export type TradeDateField = 'buyDate' | 'sellDate';
+
+// buy* fields hold the entry and sell* fields the exit; for shorts that means
+// buyDate/buyPrice is the sell-to-open and sellDate/sellPrice the buy-to-cover
 export interface Trade {
   id: string;
+  accountId?: string; // Account the trade belongs to; unassigned trades only appear in the combined view
   ticker: string;
+  strategyId?: string; // Setup from the strategy catalogue (strategies.json)
+  direction?: TradeDirection; // Defaults to 'long'
+  currency?: string; // ISO 4217 code prices and P&L are quoted in; defaults to the base currency
   buyDate: string;
   buyPrice: number;
   quantity: number;
   sellDate?: string;
   sellPrice?: number;
-  pnl?: number; // Auto-calculated: (sellPrice - buyPrice) * quantity
+  pnl?: number; // Auto-calculated net P&L: grossPnl - fees - taxWithholding
+  grossPnl?: number; // Auto-calculated: (exit - entry) * quantity for longs, (entry - exit) * quantity for shorts
   holdingDays?: number; // Auto-calculated: days between buyDate and sellDate
-  commission?: number;
+  commission?: number; // Total fees; kept equal to entryFee + exitFee when either is set
+  entryFee?: number;
+  exitFee?: number;
+  taxWithholding?: number; // Tax withheld on the realized gain
+  stopLoss?: number; // Planned stop price at entry
+  targetPrice?: number; // Planned exit target
+  initialRisk?: number; // Amount at risk at entry in trade currency; derived from stopLoss when unset
+  executions?: TradeExecution[]; // Individual fills; when present, price/quantity/date fields are derived from them
+  importFingerprint?: string; // Identity of the broker row(s) the trade was imported from, see ImportFingerprint
   tags?: string[];
   notesFiles?: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TradeExecution {
+  date: string; // YYYY-MM-DD
+  side: 'buy' | 'sell';
+  price: number;
+  quantity: number;
+  fee?: number;
+}
+
 export interface TradeMarkdown {
   id: string;
   tradeId: string;